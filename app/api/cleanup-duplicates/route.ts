@@ -2,6 +2,7 @@ import { createServiceRoleClient } from '@/lib/supabase/server';
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { deduplicateScenes } from '@/lib/video-chunking';
+import { createRevisionContext, recordRevisions } from '@/lib/montage-revisions';
 
 export const maxDuration = 60;
 export const dynamic = 'force-dynamic';
@@ -31,6 +32,7 @@ export async function POST(request: NextRequest) {
       .from('montage_sheets')
       .select('*')
       .eq('video_id', videoId)
+      .eq('is_primary', true)
       .maybeSingle();
 
     if (sheetError || !sheet) {
@@ -105,6 +107,16 @@ export async function POST(request: NextRequest) {
         .eq('id', update.id);
     }
 
+    await recordRevisions(supabase, createRevisionContext(sheet.id, null, 'cleanup-duplicates'), [
+      ...entries
+        .filter(e => !idsToKeep.has(e.id))
+        .map(entry => ({ before: entry, after: null })),
+      ...deduplicatedEntries.map((entry, index) => ({
+        before: entry,
+        after: { ...entry, order_index: index + 1 },
+      })),
+    ]);
+
     console.log(`✅ Reordered ${updates.length} entries with continuous numbering`);
 
     return NextResponse.json({
@@ -3,6 +3,7 @@ import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { createVideoChunks } from '@/lib/video-chunking';
 import { runPreprocessAudio } from '@/lib/preprocess-audio-direct';
+import { parseEpisodeNumber } from '@/lib/series-episodes';
 
 export const maxDuration = 30;
 export const dynamic = 'force-dynamic';
@@ -31,7 +32,10 @@ export async function POST(request: NextRequest) {
       duration,
       skipAutoProcess,
       filmMetadata,
-      scriptData 
+      scriptData,
+      seriesId = null,
+      seasonNumber = null,
+      episodeNumber = null,
     } = await request.json();
 
     if (!storagePath || !originalFilename) {
@@ -57,6 +61,30 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Серия сериала: маппинг персонажей засеет реестр сериала
+    if (seriesId) {
+      const { data: series } = await supabase
+        .from('series')
+        .select('id')
+        .eq('id', seriesId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (!series) {
+        return NextResponse.json({ error: 'Series not found' }, { status: 404 });
+      }
+    }
+
+    // Номер серии имеет смысл только внутри сериала
+    const season = seriesId ? parseEpisodeNumber(seasonNumber) : null;
+    const episode = seriesId ? parseEpisodeNumber(episodeNumber) : null;
+    if (season === undefined || episode === undefined) {
+      return NextResponse.json(
+        { error: 'seasonNumber and episodeNumber must be positive integers' },
+        { status: 400 }
+      );
+    }
+
     // Create video record in database
     const { data: video, error: videoError } = await supabase
       .from('videos')
@@ -69,10 +97,21 @@ export async function POST(request: NextRequest) {
         duration: duration ? parseInt(duration) : null,
         status: 'uploading',
         film_metadata_json: filmMetadata, // Сохраняем метаданные фильма
+        series_id: seriesId,
+        season_number: episode ? season : null,
+        episode_number: episode,
       })
       .select()
       .single();
 
+    // idx_videos_series_episode
+    if (videoError?.code === '23505') {
+      return NextResponse.json(
+        { error: 'Episode number is already taken in this season' },
+        { status: 409 }
+      );
+    }
+
     if (videoError || !video) {
       console.error('Error creating video record:', videoError);
       return NextResponse.json(
@@ -115,6 +154,7 @@ export async function POST(request: NextRequest) {
         .from('montage_sheets')
         .select('id')
         .eq('video_id', video.id)
+        .eq('is_primary', true)
         .maybeSingle();
       
       if (existingSheet) {
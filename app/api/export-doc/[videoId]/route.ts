@@ -1,7 +1,35 @@
-import { createClient } from '@/lib/supabase/server';
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { Document, Paragraph, TextRun, Table, TableRow, TableCell, AlignmentType, WidthType, BorderStyle, PageOrientation, PageBreak } from 'docx';
+import { Document, Paragraph, TextRun, Table, TableRow, TableCell, AlignmentType, WidthType, BorderStyle, PageOrientation, PageBreak, ImageRun } from 'docx';
+import { downloadThumbnails, readJpegSize } from '@/lib/plan-thumbnails';
+import { loadEffectiveFilmMetadata } from '@/lib/series';
+import type { MontageEntry } from '@/types';
+
+// Ширина миниатюры в документе (px при 96 dpi)
+const DOC_THUMBNAIL_WIDTH = 112;
+
+// Ширины колонок в процентах: с колонкой кадров и без
+const COLUMN_WIDTHS = {
+  plain: { number: 8, start: 12, end: 12, thumbnail: 0, type: 10, description: 28, dialogues: 30 },
+  withThumbnails: { number: 6, start: 10, end: 10, thumbnail: 12, type: 8, description: 26, dialogues: 28 },
+};
+
+function thumbnailCell(image: Buffer | undefined): TableCell {
+  const size = image ? readJpegSize(image) : null;
+  const height = size ? Math.round(DOC_THUMBNAIL_WIDTH * size.height / size.width) : Math.round(DOC_THUMBNAIL_WIDTH * 9 / 16);
+
+  return new TableCell({
+    children: [
+      new Paragraph({
+        children: image
+          ? [new ImageRun({ type: 'jpg', data: image, transformation: { width: DOC_THUMBNAIL_WIDTH, height } })]
+          : [],
+        alignment: AlignmentType.CENTER,
+      }),
+    ],
+  });
+}
 
 export async function GET(
   request: NextRequest,
@@ -32,12 +60,17 @@ export async function GET(
       return NextResponse.json({ error: 'Video not found' }, { status: 404 });
     }
 
-    // Fetch montage sheet
-    const { data: sheet, error: sheetError } = await supabase
+    // Fetch montage sheet (?sheetId= — конкретная версия, иначе основной лист)
+    const sheetId = request.nextUrl.searchParams.get('sheetId');
+    const sheetQuery = supabase
       .from('montage_sheets')
       .select('*')
-      .eq('video_id', videoId)
-      .single();
+      .eq('video_id', videoId);
+
+    const { data: sheet, error: sheetError } = await (sheetId
+      ? sheetQuery.eq('id', sheetId)
+      : sheetQuery.eq('is_primary', true)
+    ).single();
 
     if (sheetError || !sheet) {
       return NextResponse.json(
@@ -60,6 +93,16 @@ export async function GET(
       );
     }
 
+    // ?thumbnails=1 — колонка с кадром из середины плана (миниатюры из /api/montage-entries/[videoId]/thumbnails)
+    const includeThumbnails = request.nextUrl.searchParams.get('thumbnails') === '1';
+    const widths = includeThumbnails ? COLUMN_WIDTHS.withThumbnails : COLUMN_WIDTHS.plain;
+    const thumbnails = includeThumbnails
+      ? await downloadThumbnails(createServiceRoleClient(), (entries || []) as MontageEntry[])
+      : new Map<string, Buffer>();
+
+    // Пустые поля серии наследуются от сериала
+    const filmMetadata = await loadEffectiveFilmMetadata(supabase, video);
+
     // Create Word document with LANDSCAPE orientation
     // A4 in twips: 210mm = 11906 twips, 297mm = 16838 twips
     // For landscape, we specify PORTRAIT dimensions and library rotates them
@@ -124,7 +167,7 @@ export async function GET(
                   size: 26, // 13pt * 2
                 }),
                 new TextRun({
-                  text: video.film_metadata_json?.producer_company || '',
+                  text: filmMetadata.producer_company || '',
                   size: 26,
                 }),
               ],
@@ -138,7 +181,7 @@ export async function GET(
                   size: 26,
                 }),
                 new TextRun({
-                  text: video.film_metadata_json?.release_year || '',
+                  text: filmMetadata.release_year || '',
                   size: 26,
                 }),
               ],
@@ -152,7 +195,7 @@ export async function GET(
                   size: 26,
                 }),
                 new TextRun({
-                  text: video.film_metadata_json?.country || '',
+                  text: filmMetadata.country || '',
                   size: 26,
                 }),
               ],
@@ -166,7 +209,7 @@ export async function GET(
                   size: 26,
                 }),
                 new TextRun({
-                  text: video.film_metadata_json?.screenwriter || '',
+                  text: filmMetadata.screenwriter || '',
                   size: 26,
                 }),
               ],
@@ -180,7 +223,7 @@ export async function GET(
                   size: 26,
                 }),
                 new TextRun({
-                  text: video.film_metadata_json?.director || '',
+                  text: filmMetadata.director || '',
                   size: 26,
                 }),
               ],
@@ -194,7 +237,7 @@ export async function GET(
                   size: 26,
                 }),
                 new TextRun({
-                  text: video.film_metadata_json?.copyright_holder || '',
+                  text: filmMetadata.copyright_holder || '',
                   size: 26,
                 }),
               ],
@@ -208,7 +251,7 @@ export async function GET(
                   size: 26,
                 }),
                 new TextRun({
-                  text: video.film_metadata_json?.duration_text || '',
+                  text: filmMetadata.duration_text || '',
                   size: 26,
                 }),
               ],
@@ -222,7 +265,7 @@ export async function GET(
                   size: 26,
                 }),
                 new TextRun({
-                  text: video.film_metadata_json?.episodes_count || '',
+                  text: filmMetadata.episodes_count || '',
                   size: 26,
                 }),
               ],
@@ -236,7 +279,7 @@ export async function GET(
                   size: 26,
                 }),
                 new TextRun({
-                  text: video.film_metadata_json?.frame_format || '',
+                  text: filmMetadata.frame_format || '',
                   size: 26,
                 }),
               ],
@@ -250,7 +293,7 @@ export async function GET(
                   size: 26,
                 }),
                 new TextRun({
-                  text: video.film_metadata_json?.color_format || '',
+                  text: filmMetadata.color_format || '',
                   size: 26,
                 }),
               ],
@@ -264,7 +307,7 @@ export async function GET(
                   size: 26,
                 }),
                 new TextRun({
-                  text: video.film_metadata_json?.media_carrier || '',
+                  text: filmMetadata.media_carrier || '',
                   size: 26,
                 }),
               ],
@@ -278,7 +321,7 @@ export async function GET(
                   size: 26,
                 }),
                 new TextRun({
-                  text: video.film_metadata_json?.original_language || '',
+                  text: filmMetadata.original_language || '',
                   size: 26,
                 }),
               ],
@@ -292,7 +335,7 @@ export async function GET(
                   size: 26,
                 }),
                 new TextRun({
-                  text: video.film_metadata_json?.subtitles_language || '',
+                  text: filmMetadata.subtitles_language || '',
                   size: 26,
                 }),
               ],
@@ -306,7 +349,7 @@ export async function GET(
                   size: 26,
                 }),
                 new TextRun({
-                  text: video.film_metadata_json?.audio_language || '',
+                  text: filmMetadata.audio_language || '',
                   size: 26,
                 }),
               ],
@@ -341,7 +384,7 @@ export async function GET(
                           alignment: AlignmentType.CENTER,
                         }),
                       ],
-                      width: { size: 8, type: WidthType.PERCENTAGE },
+                      width: { size: widths.number, type: WidthType.PERCENTAGE },
                     }),
                     new TableCell({
                       children: [
@@ -355,7 +398,7 @@ export async function GET(
                           alignment: AlignmentType.CENTER,
                         }),
                       ],
-                      width: { size: 12, type: WidthType.PERCENTAGE },
+                      width: { size: widths.start, type: WidthType.PERCENTAGE },
                     }),
                     new TableCell({
                       children: [
@@ -369,8 +412,22 @@ export async function GET(
                           alignment: AlignmentType.CENTER,
                         }),
                       ],
-                      width: { size: 12, type: WidthType.PERCENTAGE },
+                      width: { size: widths.end, type: WidthType.PERCENTAGE },
                     }),
+                    ...(includeThumbnails ? [new TableCell({
+                      children: [
+                        new Paragraph({
+                          children: [
+                            new TextRun({
+                              text: 'Кадр',
+                              size: 20,
+                            }),
+                          ],
+                          alignment: AlignmentType.CENTER,
+                        }),
+                      ],
+                      width: { size: widths.thumbnail, type: WidthType.PERCENTAGE },
+                    })] : []),
                     new TableCell({
                       children: [
                         new Paragraph({
@@ -383,7 +440,7 @@ export async function GET(
                           alignment: AlignmentType.CENTER,
                         }),
                       ],
-                      width: { size: 10, type: WidthType.PERCENTAGE },
+                      width: { size: widths.type, type: WidthType.PERCENTAGE },
                     }),
                     new TableCell({
                       children: [
@@ -397,7 +454,7 @@ export async function GET(
                           alignment: AlignmentType.CENTER,
                         }),
                       ],
-                      width: { size: 28, type: WidthType.PERCENTAGE },
+                      width: { size: widths.description, type: WidthType.PERCENTAGE },
                     }),
                     new TableCell({
                       children: [
@@ -411,7 +468,7 @@ export async function GET(
                           alignment: AlignmentType.CENTER,
                         }),
                       ],
-                      width: { size: 30, type: WidthType.PERCENTAGE },
+                      width: { size: widths.dialogues, type: WidthType.PERCENTAGE },
                     }),
                   ],
                 }),
@@ -459,6 +516,7 @@ export async function GET(
                             }),
                           ],
                         }),
+                        ...(includeThumbnails ? [thumbnailCell(thumbnails.get(entry.id))] : []),
                         new TableCell({
                           children: [
                             new Paragraph({
@@ -558,7 +616,8 @@ export async function GET(
     const buffer = await Packer.toBuffer(doc);
 
     // Create safe filename
-    const safeFilename = `montage_${videoId.substring(0, 8)}.docx`;
+    const versionSuffix = sheet.is_primary ? '' : `_v${sheet.id.substring(0, 8)}`;
+    const safeFilename = `montage_${videoId.substring(0, 8)}${versionSuffix}.docx`;
 
     // Return as downloadable file
     return new NextResponse(new Uint8Array(buffer), {
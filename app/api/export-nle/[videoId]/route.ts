@@ -0,0 +1,76 @@
+import { getOwnedSheet, isSheetAccessError } from '@/lib/supabase/sheet-access';
+import { fetchOrderedEntries } from '@/lib/montage-editor';
+import { loadVideoFps } from '@/lib/plan-operations';
+import { formatNleExport, isNleFormat, NLE_FILE_EXTENSIONS, NLE_FORMATS } from '@/lib/nle-export';
+import type { NleFormat } from '@/lib/nle-export';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+const CONTENT_TYPES: Record<NleFormat, string> = {
+  edl: 'text/plain; charset=utf-8',
+  fcpxml: 'application/xml; charset=utf-8',
+  xmeml: 'application/xml; charset=utf-8',
+};
+
+/**
+ * Экспорт границ планов для монтажных систем
+ * GET /api/export-nle/[videoId]?format=edl|fcpxml|xmeml&sheetId=
+ *
+ * Таймкоды — в FPS видео (chunk_progress_json.videoFPS).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const searchParams = request.nextUrl.searchParams;
+
+    const format = searchParams.get('format') || 'edl';
+    if (!isNleFormat(format)) {
+      return NextResponse.json(
+        { error: `Invalid format: expected one of ${NLE_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const access = await getOwnedSheet(videoId, searchParams.get('sheetId'));
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const [entries, fps, { data: video }, { data: sheet }] = await Promise.all([
+      fetchOrderedEntries(access.supabase, access.sheetId),
+      loadVideoFps(access.supabase, videoId),
+      access.supabase.from('videos').select('original_filename').eq('id', videoId).single(),
+      access.supabase.from('montage_sheets').select('is_primary, version_name').eq('id', access.sheetId).single(),
+    ]);
+
+    const sourceFilename = video?.original_filename || `${videoId}.mp4`;
+    const title = sheet?.version_name
+      ? `${sourceFilename} — ${sheet.version_name}`
+      : sourceFilename;
+
+    const content = formatNleExport({ title, sourceFilename, entries, fps }, format);
+
+    console.log(`🎞️  NLE export for ${videoId}: ${entries.length} plans (${format}, ${fps} fps)`);
+
+    const versionSuffix = sheet?.is_primary === false ? `_v${access.sheetId.substring(0, 8)}` : '';
+    const safeFilename = `montage_${videoId.substring(0, 8)}${versionSuffix}.${NLE_FILE_EXTENSIONS[format]}`;
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${safeFilename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Export NLE error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
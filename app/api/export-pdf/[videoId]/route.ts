@@ -0,0 +1,110 @@
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { renderMontagePdf } from '@/lib/montage-pdf';
+import { loadEffectiveFilmMetadata } from '@/lib/series';
+import { downloadThumbnails } from '@/lib/plan-thumbnails';
+import type { MontageEntry } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Экспорт монтажного листа в PDF
+ * GET /api/export-pdf/[videoId]?sheetId=&thumbnails=1
+ *
+ * Та же вёрстка, что у /api/export-doc: титульный лист, информация
+ * о фильме, таблица планов на A4 альбомной (?thumbnails=1 — с колонкой
+ * кадров). Рендер на сервере (node-canvas), файл запирается от правки.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Fetch video
+    const { data: video, error: videoError } = await supabase
+      .from('videos')
+      .select('*')
+      .eq('id', videoId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (videoError || !video) {
+      return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    // Fetch montage sheet (?sheetId= — конкретная версия, иначе основной лист)
+    const sheetId = request.nextUrl.searchParams.get('sheetId');
+    const sheetQuery = supabase
+      .from('montage_sheets')
+      .select('*')
+      .eq('video_id', videoId);
+
+    const { data: sheet, error: sheetError } = await (sheetId
+      ? sheetQuery.eq('id', sheetId)
+      : sheetQuery.eq('is_primary', true)
+    ).single();
+
+    if (sheetError || !sheet) {
+      return NextResponse.json(
+        { error: 'Montage sheet not found' },
+        { status: 404 }
+      );
+    }
+
+    // Fetch entries
+    const { data: entries, error: entriesError } = await supabase
+      .from('montage_entries')
+      .select('*')
+      .eq('sheet_id', sheet.id)
+      .order('order_index', { ascending: true });
+
+    if (entriesError) {
+      return NextResponse.json(
+        { error: 'Failed to fetch entries' },
+        { status: 500 }
+      );
+    }
+
+    // ?thumbnails=1 — колонка с кадром из середины плана, как в DOCX
+    const thumbnails = request.nextUrl.searchParams.get('thumbnails') === '1'
+      ? await downloadThumbnails(createServiceRoleClient(), (entries || []) as MontageEntry[])
+      : undefined;
+
+    const buffer = await renderMontagePdf({
+      title: video.original_filename || 'Название видео',
+      filmMetadata: await loadEffectiveFilmMetadata(supabase, video),
+      entries: (entries || []) as MontageEntry[],
+      thumbnails,
+    });
+
+    // Create safe filename
+    const versionSuffix = sheet.is_primary ? '' : `_v${sheet.id.substring(0, 8)}`;
+    const safeFilename = `montage_${videoId.substring(0, 8)}${versionSuffix}.pdf`;
+
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${safeFilename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Export PDF error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
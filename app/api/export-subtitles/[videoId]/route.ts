@@ -0,0 +1,84 @@
+import { getOwnedSheet, isSheetAccessError } from '@/lib/supabase/sheet-access';
+import { fetchOrderedEntries } from '@/lib/montage-editor';
+import { loadDiarizationContext } from '@/lib/plan-operations';
+import {
+  buildSubtitleCues,
+  formatSubtitles,
+  isSubtitleFormat,
+  parseSubtitleOptions,
+  SubtitleExportError,
+  SUBTITLE_FORMATS,
+} from '@/lib/subtitle-export';
+import type { SubtitleFormat } from '@/lib/subtitle-export';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+const CONTENT_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  ass: 'text/x-ssa; charset=utf-8',
+};
+
+/**
+ * Экспорт субтитров
+ * GET /api/export-subtitles/[videoId]?format=srt|vtt|ass&sheetId=&speakers=1&maxLineLength=&maxLines=&maxCps=
+ *
+ * Один титр — на реплику (длинные режутся по строкам), не на план.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const searchParams = request.nextUrl.searchParams;
+
+    const format = searchParams.get('format') || 'srt';
+    if (!isSubtitleFormat(format)) {
+      return NextResponse.json(
+        { error: `Invalid format: expected one of ${SUBTITLE_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const options = parseSubtitleOptions(searchParams);
+
+    const access = await getOwnedSheet(videoId, searchParams.get('sheetId'));
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const [entries, context, { data: video }, { data: sheet }] = await Promise.all([
+      fetchOrderedEntries(access.supabase, access.sheetId),
+      loadDiarizationContext(access.supabase, videoId),
+      access.supabase.from('videos').select('original_filename').eq('id', videoId).single(),
+      access.supabase.from('montage_sheets').select('is_primary').eq('id', access.sheetId).single(),
+    ]);
+
+    const cues = buildSubtitleCues(entries, context, options);
+    const content = formatSubtitles(cues, format, video?.original_filename || '');
+
+    console.log(`💬 Subtitles for ${videoId}: ${cues.length} cues (${format})`);
+
+    const versionSuffix = sheet?.is_primary === false ? `_v${access.sheetId.substring(0, 8)}` : '';
+    const safeFilename = `montage_${videoId.substring(0, 8)}${versionSuffix}.${format}`;
+
+    // BOM — иначе Windows-редакторы субтитров открывают кириллицу в cp1251
+    return new NextResponse(`\uFEFF${content}`, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${safeFilename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Export subtitles error:', error);
+    if (error instanceof SubtitleExportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,9 @@
 import { createClient } from '@/lib/supabase/server';
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import * as XLSX from 'xlsx';
+import { renderMontageXlsx } from '@/lib/montage-xlsx';
+import { loadEffectiveFilmMetadata } from '@/lib/series';
+import type { MontageEntry } from '@/types';
 
 export async function GET(
   request: NextRequest,
@@ -32,12 +34,17 @@ export async function GET(
       return NextResponse.json({ error: 'Video not found' }, { status: 404 });
     }
 
-    // Fetch montage sheet
-    const { data: sheet, error: sheetError } = await supabase
+    // Fetch montage sheet (?sheetId= — конкретная версия, иначе основной лист)
+    const sheetId = request.nextUrl.searchParams.get('sheetId');
+    const sheetQuery = supabase
       .from('montage_sheets')
       .select('*')
-      .eq('video_id', videoId)
-      .single();
+      .eq('video_id', videoId);
+
+    const { data: sheet, error: sheetError } = await (sheetId
+      ? sheetQuery.eq('id', sheetId)
+      : sheetQuery.eq('is_primary', true)
+    ).single();
 
     if (sheetError || !sheet) {
       return NextResponse.json(
@@ -60,163 +67,21 @@ export async function GET(
       );
     }
 
-    // Create Excel workbook
-    const workbook = XLSX.utils.book_new();
-
-    // Prepare data for Excel with film information section
-    const filmMetadata = video.film_metadata_json || {};
-    const data = [
-      // Film Information Header
-      ['Информация о фильме.'],
-      [], // Empty row
-      
-      // Film Information Table (2 columns: label and value)
-      ['Название', video.original_filename || ''],
-      ['Фирма-производитель', filmMetadata.producer_company || ''],
-      ['Год выпуска', filmMetadata.release_year || ''],
-      ['Страна производства', filmMetadata.country || ''],
-      ['Правообладатель(и)', filmMetadata.copyright_holder || ''],
-      ['Продолжительность фильма', filmMetadata.duration_text || ''],
-      ['Количество серий', filmMetadata.episodes_count || ''],
-      ['Формат кадра', filmMetadata.frame_format || ''],
-      ['Цветной / черно-белый', filmMetadata.color_format || ''],
-      ['Носитель информации', filmMetadata.media_carrier || ''],
-      ['Язык оригинала', filmMetadata.original_language || ''],
-      ['Язык надписей', filmMetadata.subtitles_language || ''],
-      ['Язык фонограммы', filmMetadata.audio_language || ''],
-      ['Автор(ы) сценария', filmMetadata.screenwriter || ''],
-      ['Режиссер(ы)', filmMetadata.director || ''],
-      ['Оператор(ы)', ''],
-      ['Композитор(ы)', ''],
-      
-      [], // Empty row separator
-      [], // Empty row separator
-      
-      // Montage Table Header
-      [
-        '№ плана',
-        'Начальный тайм-код',
-        'Конечный тайм-код',
-        'План',
-        'Содержание (описание) плана, титры',
-        'Монологи, разговоры, песни, субтитры, музыка',
-      ],
-      // Montage Data rows
-      ...(entries || []).map((entry) => [
-        entry.plan_number,
-        entry.start_timecode,
-        entry.end_timecode,
-        entry.plan_type || '',
-        entry.description || '',
-        entry.dialogues || '',
-      ]),
-    ];
-
-    // Create worksheet
-    const worksheet = XLSX.utils.aoa_to_sheet(data);
-    
-    // Ensure empty cells exist for film info values (column B)
-    // This is needed for borders to show up
-    for (let row = 2; row <= 18; row++) {
-      const cellAddress = XLSX.utils.encode_cell({ r: row, c: 1 });
-      if (!worksheet[cellAddress]) {
-        worksheet[cellAddress] = { t: 's', v: '' };
-      }
-    }
-    
-    // Update worksheet range to include all cells
-    if (worksheet['!ref']) {
-      const oldRange = XLSX.utils.decode_range(worksheet['!ref']);
-      if (oldRange.e.c < 1) oldRange.e.c = 1; // Ensure column B is included
-      worksheet['!ref'] = XLSX.utils.encode_range(oldRange);
-    }
-
-    // Set column widths
-    // For film info section: wider label column and value column
-    // For montage table: standard widths
-    worksheet['!cols'] = [
-      { wch: 30 }, // Film info labels / № плана
-      { wch: 50 }, // Film info values / Начальный тайм-код
-      { wch: 18 }, // Конечный тайм-код
-      { wch: 12 }, // План
-      { wch: 50 }, // Содержание
-      { wch: 50 }, // Монологи
-    ];
-
-    // Включаем перенос текста в ячейках и добавляем стили
-    // Update range after adding empty cells
-    const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
-    const filmInfoStartRow = 2; // Row 3 (0-indexed as 2)
-    const filmInfoEndRow = 18; // Row 19 (0-indexed as 18) - last composer row
-    const montageHeaderRow = 20; // Row 21 (0-indexed as 20)
-    
-    for (let row = range.s.r; row <= range.e.r; row++) {
-      for (let col = range.s.c; col <= range.e.c; col++) {
-        const cellAddress = XLSX.utils.encode_cell({ r: row, c: col });
-        if (!worksheet[cellAddress]) continue;
-        
-        // Title row "Информация о фильме." - bold and centered
-        if (row === 0 && col === 0) {
-          worksheet[cellAddress].s = {
-            font: { bold: true, size: 14 },
-            alignment: { horizontal: 'center', vertical: 'center' },
-          };
-        }
-        // Film info table labels (column A, rows 3-19) - bold
-        else if (row >= filmInfoStartRow && row <= filmInfoEndRow && col === 0) {
-          worksheet[cellAddress].s = {
-            font: { bold: true },
-            alignment: { vertical: 'center' },
-            border: {
-              top: { style: 'thin', color: { rgb: '000000' } },
-              bottom: { style: 'thin', color: { rgb: '000000' } },
-              left: { style: 'thin', color: { rgb: '000000' } },
-              right: { style: 'thin', color: { rgb: '000000' } },
-            },
-          };
-        }
-        // Film info table values (column B, rows 3-19) - empty but with border
-        else if (row >= filmInfoStartRow && row <= filmInfoEndRow && col === 1) {
-          worksheet[cellAddress].s = {
-            alignment: { vertical: 'center' },
-            border: {
-              top: { style: 'thin', color: { rgb: '000000' } },
-              bottom: { style: 'thin', color: { rgb: '000000' } },
-              left: { style: 'thin', color: { rgb: '000000' } },
-              right: { style: 'thin', color: { rgb: '000000' } },
-            },
-          };
-        }
-        // Montage table header - bold
-        else if (row === montageHeaderRow) {
-          worksheet[cellAddress].s = {
-            font: { bold: true },
-            alignment: { wrapText: true, vertical: 'top', horizontal: 'center' },
-          };
-        }
-        // All other cells - wrap text
-        else {
-          worksheet[cellAddress].s = {
-            alignment: { wrapText: true, vertical: 'top' },
-          };
-        }
-      }
-    }
-
-    // Add worksheet to workbook
-    XLSX.utils.book_append_sheet(workbook, worksheet, 'Montage');
+    // Пустые поля серии наследуются от сериала
+    const filmMetadata = await loadEffectiveFilmMetadata(supabase, video);
 
-    // Generate Excel file
-    const excelBuffer = XLSX.write(workbook, {
-      type: 'buffer',
-      bookType: 'xlsx',
+    const excelBuffer = renderMontageXlsx({
+      title: video.original_filename || '',
+      filmMetadata,
+      entries: (entries || []) as MontageEntry[],
     });
 
     // Создаем безопасное имя файла (только латиница, цифры, дефисы)
-    const safeFilename = `montage_${videoId.substring(0, 8)}.xlsx`;
+    const versionSuffix = sheet.is_primary ? '' : `_v${sheet.id.substring(0, 8)}`;
+    const safeFilename = `montage_${videoId.substring(0, 8)}${versionSuffix}.xlsx`;
     
     // Return as downloadable file
-    return new NextResponse(excelBuffer, {
+    return new NextResponse(new Uint8Array(excelBuffer), {
       headers: {
         'Content-Type':
           'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
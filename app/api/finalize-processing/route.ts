@@ -1,7 +1,8 @@
 import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getVideoChunks, mergeChunkProgress } from '@/lib/supabase/chunk-status';
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { deduplicateScenes } from '@/lib/video-chunking';
+import { deduplicateScenes, getVideoFps } from '@/lib/video-chunking';
 import { validateMontageEntries } from '@/lib/validate-montage';
 import { validateTimecodeSequence, analyzeGapPattern } from '@/lib/timecode-validator';
 import { createValidationPrompt } from '@/lib/gemini-prompt-simple';
@@ -12,6 +13,7 @@ import { validateAllChunks, getChunksForRetry } from '@/lib/chunk-validator';
 import { validateMontageSheet, fixMontageSheet, formatValidationReport, type MontageEntry } from '@/lib/final-validator';
 import { type CharacterRegistry } from '@/lib/character-registry';
 import { mergeRoleSpeakersToNames } from '@/lib/entity-merge';
+import { getFixtureMode, saveExpectedEntries, withProviderFixture } from '@/lib/provider-fixtures';
 
 const AI_MODEL = 'google/gemini-3-pro';
 
@@ -47,7 +49,10 @@ export async function POST(request: NextRequest) {
       throw new Error('Video not found');
     }
 
-    const chunkProgress = video.chunk_progress_json;
+    // Чанки V5 — из video_chunks (у V3/V4 — chunk_progress_json.chunks)
+    const chunkProgress = video.chunk_progress_json
+      ? mergeChunkProgress(video.chunk_progress_json, await getVideoChunks(videoId, supabase))
+      : null;
     if (!chunkProgress) {
       throw new Error('Chunk progress not found');
     }
@@ -613,7 +618,7 @@ export async function POST(request: NextRequest) {
 
     // Validate final montage entries
     console.log('\n🔍 Running validation on final montage...');
-    const validation = validateMontageEntries(deduplicatedEntries || entries || []);
+    const validation = validateMontageEntries(deduplicatedEntries || entries || [], getVideoFps(chunkProgress));
     
     if (!validation.isValid) {
       console.error('❌ Validation failed with errors:', validation.errors);
@@ -676,7 +681,19 @@ export async function POST(request: NextRequest) {
     console.log('\n🤖 Running AI validation...');
     
     try {
-      const aiValidationResult = await runAIValidation(finalEntries, validation.warnings);
+      const aiValidationResult = await withProviderFixture(
+        'ai-validation',
+        chunkProgress.fixtureVideoKey,
+        // Ключ — содержимое листа: если пайплайн выдал другой лист, записи нет и шаг пропускается
+        {
+          entries: finalEntries.map((e: unknown) => {
+            const { plan_number, start_timecode, end_timecode, plan_type, dialogues } = e as MontageEntry;
+            return [plan_number, start_timecode, end_timecode, plan_type, dialogues];
+          }),
+          warnings: validation.warnings.slice(0, 5),
+        },
+        () => runAIValidation(finalEntries, validation.warnings)
+      );
       
       if (aiValidationResult) {
         console.log(`🤖 AI Validation score: ${aiValidationResult.score}/100`);
@@ -727,6 +744,17 @@ export async function POST(request: NextRequest) {
 
     console.log(`🎉 Processing completed! Final count: ${finalCount} entries`);
 
+    // Record-прогон: итоговый лист становится эталоном для /api/test/regression
+    if (getFixtureMode() === 'record' && chunkProgress.fixtureVideoKey) {
+      const { data: recordedEntries } = await supabase
+        .from('montage_entries')
+        .select('plan_number, start_timecode, end_timecode, plan_type, description, dialogues')
+        .eq('sheet_id', sheetId)
+        .order('order_index', { ascending: true });
+
+      saveExpectedEntries(chunkProgress.fixtureVideoKey, recordedEntries || []);
+    }
+
     return NextResponse.json({
       success: true,
       videoId,
@@ -3,6 +3,8 @@ import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { deduplicateScenes } from '@/lib/video-chunking';
 import { validateMontageEntries } from '@/lib/validate-montage';
+import { loadVideoFps } from '@/lib/plan-operations';
+import { createRevisionContext, recordRevisions } from '@/lib/montage-revisions';
 
 export const maxDuration = 60;
 export const dynamic = 'force-dynamic';
@@ -37,6 +39,7 @@ export async function POST(request: NextRequest) {
       .from('montage_sheets')
       .select('*')
       .eq('video_id', videoId)
+      .eq('is_primary', true)
       .order('created_at', { ascending: true })
       .limit(1)
       .maybeSingle();
@@ -48,6 +51,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const fps = await loadVideoFps(supabase, videoId);
+
     // Get all entries
     const { data: entries, error: entriesError } = await supabase
       .from('montage_entries')
@@ -67,7 +72,7 @@ export async function POST(request: NextRequest) {
 
     // Validate before fixing
     console.log('🔍 Running validation before fixes...');
-    const beforeValidation = validateMontageEntries(entries);
+    const beforeValidation = validateMontageEntries(entries, fps);
     console.log(`   Duplicates: ${beforeValidation.stats.duplicates}`);
     console.log(`   Gaps: ${beforeValidation.stats.timelineGaps}`);
     console.log(`   Invalid timecodes: ${beforeValidation.stats.invalidTimecodes}`);
@@ -83,6 +88,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Fix 2: Delete old entries and insert fixed ones
+    // В историю попадают только действительно удалённые планы
+    let deletedEntries: typeof entries = [];
     if (fixedEntries.length < originalCount) {
       const idsToKeep = new Set(fixedEntries.map(e => e.id));
       const idsToDelete = entries
@@ -99,6 +106,7 @@ export async function POST(request: NextRequest) {
         if (deleteError) {
           console.error('Error deleting duplicates:', deleteError);
         } else {
+          deletedEntries = entries.filter(e => !idsToKeep.has(e.id));
           console.log(`✅ Deleted ${idsToDelete.length} duplicates`);
         }
       }
@@ -118,11 +126,19 @@ export async function POST(request: NextRequest) {
         .eq('id', update.id);
     }
 
+    await recordRevisions(supabase, createRevisionContext(sheet.id, null, 'fix-montage-issues'), [
+      ...deletedEntries.map(entry => ({ before: entry, after: null })),
+      ...fixedEntries.map((entry, index) => ({
+        before: entry,
+        after: { ...entry, order_index: index + 1 },
+      })),
+    ]);
+
     console.log(`✅ Renumbered ${updates.length} scenes (1-${updates.length})`);
 
     // Validate after fixing
     console.log('\n🔍 Running validation after fixes...');
-    const afterValidation = validateMontageEntries(fixedEntries);
+    const afterValidation = validateMontageEntries(fixedEntries, fps);
 
     return NextResponse.json({
       success: true,
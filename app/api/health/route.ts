@@ -6,6 +6,8 @@
  * - FAL.ai
  * - Replicate
  * - Circuit Breakers status
+ * - Бэкенды распознавания речи (ASR)
+ * - Очередь обработки (processing_jobs)
  * 
  * GET /api/health
  * 
@@ -17,6 +19,9 @@
 import { NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase/server';
 import { getAllCircuitStats } from '@/lib/circuit-breaker';
+import { getVideoProviderStatus, type VideoProviderStatus } from '@/lib/video-providers';
+import { getAsrBackendStatus, type AsrBackendStatus } from '@/lib/asr-backends';
+import { getQueueStats, type QueueStats } from '@/lib/job-queue';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 30;
@@ -38,6 +43,9 @@ interface HealthResponse {
     replicate: HealthCheck;
     memory: HealthCheck;
   };
+  videoProviders: VideoProviderStatus[];
+  asrBackends: AsrBackendStatus[];
+  jobQueue: QueueStats | { error: string };
   circuitBreakers: Array<{
     name: string;
     state: string;
@@ -186,6 +194,12 @@ export async function GET(): Promise<NextResponse<HealthResponse>> {
   
   const memory = checkMemory();
   
+  // Очередь обработки: растущий dead — чанки, упавшие все попытки
+  const jobQueue = await getQueueStats().catch((e: Error) => ({ error: e.message }));
+  
+  // Провайдеры анализа видео (заодно регистрирует их circuit breakers)
+  const videoProviders = getVideoProviderStatus();
+  
   // Get circuit breaker stats
   const circuitStats = getAllCircuitStats().map(stat => ({
     name: stat.name,
@@ -226,6 +240,9 @@ export async function GET(): Promise<NextResponse<HealthResponse>> {
     timestamp: new Date().toISOString(),
     version: 'v5-beta',
     checks,
+    videoProviders,
+    asrBackends: getAsrBackendStatus(),
+    jobQueue,
     circuitBreakers: circuitStats,
   };
   
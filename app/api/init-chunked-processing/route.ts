@@ -67,6 +67,7 @@ export async function POST(request: NextRequest) {
         .from('montage_sheets')
         .select('id')
         .eq('video_id', videoId)
+        .eq('is_primary', true)
         .maybeSingle();
       
       return NextResponse.json({
@@ -91,6 +92,7 @@ export async function POST(request: NextRequest) {
       .from('montage_sheets')
       .select('*')
       .eq('video_id', videoId)
+      .eq('is_primary', true)
       .maybeSingle();
 
     let sheet;
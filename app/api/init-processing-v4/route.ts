@@ -97,6 +97,7 @@ export async function POST(request: NextRequest) {
         .from('montage_sheets')
         .select('id')
         .eq('video_id', videoId)
+        .eq('is_primary', true)
         .maybeSingle();
       
       return NextResponse.json({
@@ -121,6 +122,7 @@ export async function POST(request: NextRequest) {
       .from('montage_sheets')
       .select('*')
       .eq('video_id', videoId)
+      .eq('is_primary', true)
       .maybeSingle();
 
     let sheet;
@@ -39,6 +39,25 @@ import {
   logMappingStats,
 } from '@/lib/speaker-character-mapper';
 import { type ScriptLine } from '@/lib/script-parser-deterministic';
+import { computeFixtureVideoKey, getFixtureMode, getReplayVideoPath, replayChunkUrl, withProviderFixture } from '@/lib/provider-fixtures';
+import { resolveVideoProviderChain } from '@/lib/video-providers';
+import { ASR_BACKEND_IDS, getAsrBackend, isAsrBackendId, resolveAsrBackend } from '@/lib/asr-backends';
+import { enqueueChunkJobs } from '@/lib/process-chunk-v5';
+import { buildSpeakerMappingReview, saveSpeakerMappingReview } from '@/lib/speaker-mapping-review';
+import type { VoiceMatch } from '@/lib/voice-embeddings';
+import {
+  getVoiceReferences,
+  isSeriesOwnedBy,
+  loadSeriesRegistry,
+  matchFaceClusters,
+  mergeRegistryCharacters,
+  type SeriesRegistry,
+} from '@/lib/series-registry';
+import { insertVideoChunks, setChunkStorageUrl } from '@/lib/supabase/chunk-status';
+import { clearVideoArtifacts, loadVideoArtifact, saveVideoArtifact } from '@/lib/supabase/video-artifacts';
+import { assertProcessingActive, ProcessingStoppedError } from '@/lib/processing-control';
+import { setProcessingStep } from '@/lib/processing-progress';
+import crypto from 'crypto';
 import path from 'path';
 import fs from 'fs';
 
@@ -56,6 +75,7 @@ type FaceCluster = {
   centroid?: Float32Array | number[];
   faces?: Array<{ timestamp: number }>;
   faceTimestamps?: number[];  // Timestamps лиц (сек) - используется когда faces пустой
+  faceHeights?: number[];     // Высота лица / высота кадра (worker mode)
 };
 
 // 10 minutes timeout (V5 делает больше работы)
@@ -66,16 +86,8 @@ export async function POST(request: NextRequest) {
   const tempFiles: string[] = [];
   const startTime = Date.now();
   
-  // Use internal URL for Railway (HTTP inside container)
-  // Railway exposes the app on PORT internally, but uses HTTPS externally
-  const requestUrl = new URL(request.url);
-  const isRailway = !!process.env.RAILWAY_ENVIRONMENT;
-  const savedBaseUrl = isRailway 
-    ? `http://localhost:${process.env.PORT || 3000}`
-    : `${requestUrl.protocol}//${requestUrl.host}`;
-  
   try {
-    const { videoId, videoUrl, videoDuration, filmMetadata, scriptData } = await request.json();
+    const { videoId, videoUrl, videoDuration, filmMetadata, scriptData, asrBackend, reviewMapping = false, resume = false } = await request.json();
 
     if (!videoId || !videoUrl || !videoDuration) {
       return NextResponse.json(
@@ -84,6 +96,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (asrBackend !== undefined && !isAsrBackendId(asrBackend)) {
+      return NextResponse.json(
+        { error: `asrBackend must be one of: ${ASR_BACKEND_IDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
     console.log(`\n${'═'.repeat(70)}`);
     console.log(`🚀 V5 BETA INIT — Improved Architecture`);
     console.log(`${'═'.repeat(70)}`);
@@ -110,13 +129,15 @@ export async function POST(request: NextRequest) {
 
     const supabase = createServiceRoleClient();
 
-    // Atomic lock
+    // Atomic lock; initRunId отличает этот init от перезапущенного после паузы
+    const initRunId = crypto.randomUUID();
     const { data: lockResult, error: lockError } = await supabase
       .from('videos')
       .update({ 
         status: 'processing',
         chunk_progress_json: { 
           initializing: true, 
+          initRunId,
           timestamp: new Date().toISOString(), 
           processingVersion: 'v5-beta',
           architecture: 'improved',
@@ -125,7 +146,7 @@ export async function POST(request: NextRequest) {
       .eq('id', videoId)
       .eq('status', 'processing')
       .is('chunk_progress_json', null)
-      .select('user_id');
+      .select('user_id, series_id');
 
     if (!lockResult || lockResult.length === 0) {
       console.log(`⚠️  Video ${videoId} is already being initialized`);
@@ -149,6 +170,12 @@ export async function POST(request: NextRequest) {
 
     // Create chunks
     const chunks = createVideoChunks(videoDuration);
+    // Продолжение после паузы (/api/videos/[id]/resume) — уже посчитанное не удаляем
+    if (!resume) {
+      await clearVideoArtifacts(videoId);
+    }
+    await saveVideoArtifact(videoId, 'init-request', { videoUrl, videoDuration, filmMetadata, scriptData, asrBackend, reviewMapping });
+    await insertVideoChunks(videoId, chunks);
     console.log(`📦 Created ${chunks.length} chunks`);
 
     // Create/get montage sheet
@@ -156,6 +183,7 @@ export async function POST(request: NextRequest) {
       .from('montage_sheets')
       .select('*')
       .eq('video_id', videoId)
+      .eq('is_primary', true)
       .maybeSingle();
 
     let sheet;
@@ -178,29 +206,49 @@ export async function POST(request: NextRequest) {
       sheet = newSheet;
     }
 
+    // Цепочка провайдеров визуального анализа: настройка пользователя → VIDEO_PROVIDERS
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('video_providers')
+      .eq('id', video.user_id)
+      .maybeSingle();
+    const videoProviders = resolveVideoProviderChain(profile?.video_providers);
+    console.log(`🎬 Video providers: ${videoProviders.join(' → ')}`);
+
     // Initialize chunk progress with V5 markers
+    // Статусы чанков — в video_chunks, крупные данные — в video_artifacts
     const chunkProgress: any = {
       totalChunks: chunks.length,
-      completedChunks: 0,
-      currentChunk: 0,
       sheetId: sheet.id,
       processingVersion: 'v5-beta',
       architecture: 'improved',
       sceneDetector: 'pyscenedetect',
       scriptData: scriptData || null,
-      chunks: chunks.map(chunk => ({
-        index: chunk.chunkIndex,
-        status: 'pending' as const,
-        startTimecode: chunk.startTimecode,
-        endTimecode: chunk.endTimecode,
-        storageUrl: null as string | null,
-      })),
+      videoProviders,
       // V5-specific fields
       speakerCharacterMap: {},
       speechSegments: [],
       alignmentStats: null,
+      seriesId: null,
     };
 
+    // Реестр персонажей сериала: имена, голоса и лица прошлых серий.
+    // Чужой сериал (series_id записан в обход API) не засевает серию.
+    let seriesRegistry: SeriesRegistry | null = null;
+    if (video.series_id && !await isSeriesOwnedBy(video.series_id, video.user_id, supabase)) {
+      console.warn(`   ⚠️ Series ${video.series_id} belongs to another user, ignoring it`);
+    } else if (video.series_id) {
+      chunkProgress.seriesId = video.series_id;
+      try {
+        seriesRegistry = await loadSeriesRegistry(video.series_id, supabase);
+        console.log(`📚 Series registry: ${seriesRegistry.characters.length} characters`);
+      } catch (registryError) {
+        console.error(`   ⚠️ Series registry unavailable:`, registryError);
+      }
+    }
+    // Персонажи для word boost и калибровки: сценарий + реестр сериала
+    const knownCharacters = mergeRegistryCharacters(hasScript ? scriptData.characters : [], seriesRegistry);
+
     // ═══════════════════════════════════════════════════════════════════
     // STEP 1: Download video
     // ═══════════════════════════════════════════════════════════════════
@@ -209,10 +257,26 @@ export async function POST(request: NextRequest) {
       fs.mkdirSync(tempDir, { recursive: true });
     }
     
-    const originalVideoPath = path.join(tempDir, `original_${videoId}.mp4`);
-    console.log(`\n📥 STEP 1: Downloading video...`);
-    await downloadVideo(videoUrl, originalVideoPath);
-    tempFiles.push(originalVideoPath);
+    // Record/replay ответов провайдеров (регрессионный прогон без сети)
+    const fixtureMode = getFixtureMode();
+    const replaying = fixtureMode === 'replay';
+    
+    let originalVideoPath = path.join(tempDir, `original_${videoId}.mp4`);
+    await setProcessingStep(videoId, 'download');
+    if (replaying) {
+      // Записанное видео уже на диске — не скачиваем и не удаляем
+      originalVideoPath = getReplayVideoPath();
+      console.log(`\n📥 STEP 1: Using local video ${originalVideoPath}`);
+    } else {
+      console.log(`\n📥 STEP 1: Downloading video...`);
+      await downloadVideo(videoUrl, originalVideoPath);
+      tempFiles.push(originalVideoPath);
+    }
+    
+    if (fixtureMode !== 'off') {
+      chunkProgress.fixtureVideoKey = computeFixtureVideoKey(originalVideoPath);
+      console.log(`   📼 Provider fixtures: ${fixtureMode} (${chunkProgress.fixtureVideoKey})`);
+    }
     
     // Detect FPS
     let videoFPS = 24;
@@ -227,17 +291,18 @@ export async function POST(request: NextRequest) {
     // STEP 2: Full Audio Diarization (ВЕСЬ ФИЛЬМ СРАЗУ)
     // ═══════════════════════════════════════════════════════════════════
     console.log(`\n🎤 STEP 2: Full Audio Diarization (entire video)...`);
+    await setProcessingStep(videoId, 'diarization');
     
     let fullDiarizationWords: ASRWord[] = [];
     let speakerCharacterMapper = new SpeakerCharacterMapper();
     
-    if (USE_FULL_DIARIZATION && process.env.ASSEMBLYAI_API_KEY) {
+    // Бэкенд ASR: запрос → ASR_BACKEND → первый настроенный (при replay ключи не нужны)
+    const asrBackendId = USE_FULL_DIARIZATION ? resolveAsrBackend(asrBackend, replaying) : null;
+    chunkProgress.asrBackend = asrBackendId;
+    
+    if (asrBackendId) {
       try {
-        const { performFullDiarization } = await import('@/lib/full-audio-diarization');
-        
-        const characterNames = hasScript 
-          ? scriptData.characters.map((c: any) => c.name).slice(0, 15)
-          : [];
+        const characterNames = knownCharacters.map(c => c.name).slice(0, 15);
         
         // Добавляем специфичные слова для лучшего распознавания
         // Это помогает ASR правильно транскрибировать редкие слова
@@ -253,36 +318,46 @@ export async function POST(request: NextRequest) {
         const allBoostWords = [...characterNames, ...UNIVERSAL_BOOST_WORDS].slice(0, 20);
         console.log(`   📝 Word boost: ${allBoostWords.join(', ')}`);
         
-        const diarizationResult = await performFullDiarization(
-          videoUrl,
-          'ru',
-          allBoostWords,  // Используем расширенный список
-          15  // УВЕЛИЧЕНО с 10 до 15 для лучшего различения всех голосов
-        );
+        // Продолжение после паузы — слова уже сохранены, диаризацию не повторяем
+        const storedWords = resume
+          ? await loadVideoArtifact<ASRWord[]>(videoId, 'diarization-words')
+          : null;
         
-        console.log(`   ✅ Diarization complete:`);
-        console.log(`      Words: ${diarizationResult.words.length}`);
-        console.log(`      Speakers: ${diarizationResult.speakers.join(', ')}`);
-        console.log(`      Duration: ${(diarizationResult.totalDuration / 60).toFixed(1)} min`);
-        
-        // Convert to ASRWord format (AssemblyAI uses 'word', we use 'text')
-        fullDiarizationWords = diarizationResult.words.map(w => ({
-          text: w.word,  // AssemblyAI field is 'word', not 'text'
-          startMs: w.start,
-          endMs: w.end,
-          confidence: w.confidence,
-          speaker: w.speaker,
-        }));
+        if (storedWords) {
+          fullDiarizationWords = storedWords;
+          console.log(`   ♻️  Reusing ${storedWords.length} diarization words from video artifacts`);
+        } else {
+          const DIARIZATION_MAX_SPEAKERS = 15; // УВЕЛИЧЕНО с 10 до 15 для лучшего различения всех голосов
+          console.log(`   🎙️  ASR backend: ${getAsrBackend(asrBackendId).label}`);
+          const transcript = await getAsrBackend(asrBackendId).transcribe(
+            {
+              audioUrl: videoUrl,
+              localPath: originalVideoPath,
+              language: 'ru',
+              speakerHints: allBoostWords,  // Используем расширенный список
+              maxSpeakers: DIARIZATION_MAX_SPEAKERS,
+            },
+            chunkProgress.fixtureVideoKey
+          );
+        
+          console.log(`   ✅ Diarization complete:`);
+          console.log(`      Words: ${transcript.words.length}`);
+          console.log(`      Speakers: ${transcript.speakers.join(', ')}`);
+          console.log(`      Duration: ${(transcript.durationSeconds / 60).toFixed(1)} min`);
+        
+          fullDiarizationWords = transcript.words;
         
-        // 🔒 Save diarization IMMEDIATELY (before potentially failing alignment)
-        chunkProgress.fullDiarizationWords = fullDiarizationWords.slice(0, 50000);
-        console.log(`   💾 Saved ${fullDiarizationWords.length} words to chunk progress`);
+          // 🔒 Save diarization IMMEDIATELY (before potentially failing alignment)
+          await saveVideoArtifact(videoId, 'diarization-words', fullDiarizationWords.slice(0, 50000));
+          console.log(`   💾 Saved ${fullDiarizationWords.length} words to video artifacts`);
+        }
         
         // ═══════════════════════════════════════════════════════════════
         // STEP 3: ASR↔Script Alignment (если есть сценарий)
         // ═══════════════════════════════════════════════════════════════
         if (hasScript && scriptLines.length > 0) {
           console.log(`\n📝 STEP 3: ASR↔Script Alignment...`);
+          await setProcessingStep(videoId, 'alignment');
           
           const asrSegments = groupWordsIntoSegments(fullDiarizationWords);
           console.log(`   ASR segments: ${asrSegments.length}`);
@@ -315,7 +390,7 @@ export async function POST(request: NextRequest) {
         // ═══════════════════════════════════════════════════════════════
         // STEP 3.2: Name Mention Calibration (определение по упоминаниям имён)
         // ═══════════════════════════════════════════════════════════════
-        if (hasScript && fullDiarizationWords.length > 0 && scriptData.characters.length > 0) {
+        if (fullDiarizationWords.length > 0 && knownCharacters.length > 0) {
           console.log(`\n📛 STEP 3.2: Name Mention Calibration...`);
           
           try {
@@ -334,10 +409,7 @@ export async function POST(request: NextRequest) {
             // Калибруем по упоминаниям имён (включая роли типа "Менеджер")
             const nameMentionMapping = calibrateSpeakersByNameMentions(
               diarizationWordsForCalibration,
-              scriptData.characters.map((c: any) => ({
-                name: c.name,
-                variants: c.variants || [],
-              }))
+              knownCharacters
             );
             
             // Добавляем доказательства в mapper
@@ -364,33 +436,46 @@ export async function POST(request: NextRequest) {
         console.log(`   Continuing without full diarization...`);
       }
     } else {
-      console.log(`   ⚠️ Full diarization skipped (no ASSEMBLYAI_API_KEY)`);
+      console.log(`   ⚠️ Full diarization skipped (no ASR backend configured: ${ASR_BACKEND_IDS.join(', ')})`);
     }
 
+    await assertProcessingActive(videoId, { initRunId });
+
     // ═══════════════════════════════════════════════════════════════════
     // STEP 3.5: Voice Embeddings (для уточнения speaker→character)
     // ═══════════════════════════════════════════════════════════════════
     const USE_VOICE_EMBEDDINGS = process.env.USE_VOICE_EMBEDDINGS === 'true';
+    let voiceMatches: Record<string, VoiceMatch> = {};
     
     if (USE_VOICE_EMBEDDINGS && fullDiarizationWords.length > 0) {
       console.log(`\n🎤 STEP 3.5: Voice Embeddings...`);
+      await setProcessingStep(videoId, 'voice-embeddings');
       
       try {
         const { createVoiceEmbeddings, refineSpeakerMapping } = await import('@/lib/voice-embeddings');
         
+        // Голоса персонажей из прошлых серий — worker сразу сопоставит с ними speaker
+        const voiceReferences = seriesRegistry ? getVoiceReferences(seriesRegistry) : {};
+        const hasVoiceReferences = Object.keys(voiceReferences).length > 0;
+        if (hasVoiceReferences) {
+          console.log(`   📚 Reference voices from series: ${Object.keys(voiceReferences).join(', ')}`);
+        }
+        
         const voiceResult = await createVoiceEmbeddings(
           originalVideoPath,
-          fullDiarizationWords as any[]
+          fullDiarizationWords as any[],
+          hasVoiceReferences ? voiceReferences : undefined
         );
         
         if (voiceResult.embeddings && Object.keys(voiceResult.embeddings).length > 0) {
           console.log(`   ✅ Created voice embeddings for ${voiceResult.speaker_count} speakers`);
           
           // Сохраняем embeddings для будущего использования
-          chunkProgress.voiceEmbeddings = voiceResult.embeddings;
+          await saveVideoArtifact(videoId, 'voice-embeddings', voiceResult.embeddings);
           
           // Если есть matches — уточняем маппинг
           if (voiceResult.matches) {
+            voiceMatches = voiceResult.matches;
             const currentMapping = speakerCharacterMapper.getMapping();
             const refinedMapping = refineSpeakerMapping(
               Object.fromEntries(currentMapping),
@@ -419,24 +504,54 @@ export async function POST(request: NextRequest) {
     
     if (USE_FACE_RECOGNITION) {
       console.log(`\n🎭 STEP 4: Face Recognition...`);
+      await setProcessingStep(videoId, 'face-clustering');
       
       try {
         const { clusterFacesInVideoWorker } = await import('@/lib/face-clustering');
         
-        faceClusters = await clusterFacesInVideoWorker(originalVideoPath, {
+        const clusteringOptions = {
           frameInterval: 5,
           distanceThreshold: 0.5,
           minAppearances: 5,
-        });
+        };
+        // Продолжение после паузы — кластеры уже сохранены
+        const storedClusters = resume
+          ? await loadVideoArtifact<FaceCluster[]>(videoId, 'face-clusters')
+          : null;
+        
+        // Центроиды из фикстуры — обычные массивы, локальный FaceCluster это допускает
+        faceClusters = storedClusters || await withProviderFixture<FaceCluster[]>(
+          'face-clustering',
+          chunkProgress.fixtureVideoKey,
+          clusteringOptions,
+          () => clusterFacesInVideoWorker(originalVideoPath, clusteringOptions)
+        );
         
-        console.log(`   ✅ Found ${faceClusters.length} unique faces`);
+        console.log(`   ${storedClusters ? '♻️  Reusing' : '✅ Found'} ${faceClusters.length} unique faces`);
+        
+        // Лица, знакомые по прошлым сериям, — по центроидам реестра
+        const registryBound = new Set<string>();
+        if (seriesRegistry && faceClusters.length > 0) {
+          const faceMatches = matchFaceClusters(seriesRegistry, faceClusters);
+          for (const cluster of faceClusters) {
+            const name = faceMatches.get(cluster.clusterId);
+            if (name) {
+              cluster.characterName = name;
+              registryBound.add(name);
+            }
+          }
+          console.log(`   📚 Recognized ${faceMatches.size} faces from series registry`);
+        }
         
         // Auto-bind faces to characters based on frequency
         if (hasScript && faceClusters.length > 0) {
-          const sortedClusters = [...faceClusters].sort((a, b) => b.appearances - a.appearances);
+          const sortedClusters = [...faceClusters]
+            .filter(c => !c.characterName)
+            .sort((a, b) => b.appearances - a.appearances);
           // УЛУЧШЕНО: берём ВСЕХ персонажей из сценария (без фильтра по репликам)
           // Любой человек в сцене — персонаж, особенно если говорит
           const allCharacters = scriptData.characters
+            .filter((c: { name?: string }) => !registryBound.has(c.name?.toUpperCase() || ''))
             .sort((a: { dialogueCount?: number }, b: { dialogueCount?: number }) =>
               (b.dialogueCount || 0) - (a.dialogueCount || 0)
             );
@@ -456,6 +571,24 @@ export async function POST(request: NextRequest) {
     } else {
       console.log(`\nℹ️  Face Recognition disabled`);
     }
+    
+    // Save face clusters — сразу после STEP 4, чтобы пауза дальше не теряла кластеризацию
+    if (faceClusters.length > 0) {
+      await saveVideoArtifact(videoId, 'face-clusters', faceClusters.map(cluster => ({
+        clusterId: cluster.clusterId,
+        appearances: cluster.appearances,
+        firstSeen: cluster.firstSeen,
+        lastSeen: cluster.lastSeen,
+        characterName: cluster.characterName || null,
+        centroid: cluster.centroid ? Array.from(cluster.centroid) : [],
+        // Используем faceTimestamps если есть (worker mode), иначе вычисляем из faces
+        faceTimestamps: cluster.faceTimestamps || cluster.faces?.map(f => f.timestamp) || [],
+        faceHeights: cluster.faceHeights || [],
+      })));
+      chunkProgress.useFaceRecognition = true;
+    }
+    
+    await assertProcessingActive(videoId, { initRunId });
 
     // ═══════════════════════════════════════════════════════════════════
     // STEP 4.5: Face Presence Evidence (связь лиц с голосами)
@@ -624,6 +757,7 @@ export async function POST(request: NextRequest) {
     // STEP 5: PySceneDetect
     // ═══════════════════════════════════════════════════════════════════
     console.log(`\n🎬 STEP 5: Scene Detection (PySceneDetect)...`);
+    await setProcessingStep(videoId, 'scene-detection');
     
     let detectedScenes: Array<{ timecode: string; timestamp: number }> = [];
     
@@ -710,89 +844,107 @@ export async function POST(request: NextRequest) {
       console.error(`   ❌ Scene detection failed:`, e);
     }
     
-    chunkProgress.detectedScenes = detectedScenes;
+    await saveVideoArtifact(videoId, 'detected-scenes', detectedScenes);
     chunkProgress.videoFPS = videoFPS;
     
-    // Save face clusters
-    if (faceClusters.length > 0) {
-      chunkProgress.faceClusters = faceClusters.map(cluster => ({
-        clusterId: cluster.clusterId,
-        appearances: cluster.appearances,
-        firstSeen: cluster.firstSeen,
-        lastSeen: cluster.lastSeen,
-        characterName: cluster.characterName || null,
-        centroid: cluster.centroid ? Array.from(cluster.centroid) : [],
-        // Используем faceTimestamps если есть (worker mode), иначе вычисляем из faces
-        faceTimestamps: cluster.faceTimestamps || cluster.faces?.map(f => f.timestamp) || [],
-      }));
-      chunkProgress.useFaceRecognition = true;
-    }
+    await assertProcessingActive(videoId, { initRunId });
 
     // ═══════════════════════════════════════════════════════════════════
     // STEP 6: Split & Upload Chunks
     // ═══════════════════════════════════════════════════════════════════
-    console.log(`\n✂️  STEP 6: Splitting into ${chunks.length} chunks...`);
+    const uploadedChunks: Array<{ chunkIndex: number; url: string }> = [];
     
-    const chunkFiles = await splitVideoIntoChunks(
-      originalVideoPath,
-      chunks.map(c => ({
+    if (replaying) {
+      // Анализ чанков воспроизводится из фикстур — резать и загружать нечего
+      console.log(`\n✂️  STEP 6: Skipped (replaying provider fixtures)`);
+      uploadedChunks.push(...chunks.map(c => ({
         chunkIndex: c.chunkIndex,
-        startTime: c.startTime,
-        endTime: c.endTime,
-      })),
-      tempDir
-    );
+        url: replayChunkUrl(chunkProgress.fixtureVideoKey, c.chunkIndex),
+      })));
+    } else {
+      console.log(`\n✂️  STEP 6: Splitting into ${chunks.length} chunks...`);
+      await setProcessingStep(videoId, 'splitting');
+    
+      const chunkFiles = await splitVideoIntoChunks(
+        originalVideoPath,
+        chunks.map(c => ({
+          chunkIndex: c.chunkIndex,
+          startTime: c.startTime,
+          endTime: c.endTime,
+        })),
+        tempDir
+      );
     
-    tempFiles.push(...chunkFiles.map(c => c.localPath));
+      tempFiles.push(...chunkFiles.map(c => c.localPath));
     
-    // Upload chunks
-    console.log(`\n☁️  Uploading ${chunkFiles.length} chunks...`);
+      // Upload chunks
+      console.log(`\n☁️  Uploading ${chunkFiles.length} chunks...`);
     
-    const PARALLEL_UPLOADS = 4; // Increased for faster uploads
-    const uploadChunk = async (chunkFile: { chunkIndex: number; localPath: string }) => {
-      const chunkStoragePath = `${video.user_id}/chunks-v5/chunk_${chunkFile.chunkIndex}_${Date.now()}.mp4`;
+      const PARALLEL_UPLOADS = 4; // Increased for faster uploads
+      const uploadChunk = async (chunkFile: { chunkIndex: number; localPath: string }) => {
+        const chunkStoragePath = `${video.user_id}/chunks-v5/chunk_${chunkFile.chunkIndex}_${Date.now()}.mp4`;
       
-      const stats = fs.statSync(chunkFile.localPath);
-      const fileBuffer = fs.readFileSync(chunkFile.localPath);
+        const stats = fs.statSync(chunkFile.localPath);
+        const fileBuffer = fs.readFileSync(chunkFile.localPath);
       
-      const { error: uploadError } = await supabase.storage
-        .from('videos')
-        .upload(chunkStoragePath, fileBuffer, {
-          contentType: 'video/mp4',
-          cacheControl: '3600',
-        });
+        const { error: uploadError } = await supabase.storage
+          .from('videos')
+          .upload(chunkStoragePath, fileBuffer, {
+            contentType: 'video/mp4',
+            cacheControl: '3600',
+          });
         
-      if (uploadError) {
-        throw new Error(`Upload failed for chunk ${chunkFile.chunkIndex}: ${uploadError.message}`);
-      }
+        if (uploadError) {
+          throw new Error(`Upload failed for chunk ${chunkFile.chunkIndex}: ${uploadError.message}`);
+        }
       
-      const { data: { publicUrl } } = supabase.storage
-        .from('videos')
-        .getPublicUrl(chunkStoragePath);
+        const { data: { publicUrl } } = supabase.storage
+          .from('videos')
+          .getPublicUrl(chunkStoragePath);
       
-      return { chunkIndex: chunkFile.chunkIndex, url: publicUrl };
-    };
+        return { chunkIndex: chunkFile.chunkIndex, url: publicUrl };
+      };
     
-    // Upload in batches
-    const uploadedChunks: Array<{ chunkIndex: number; url: string }> = [];
-    for (let i = 0; i < chunkFiles.length; i += PARALLEL_UPLOADS) {
-      const batch = chunkFiles.slice(i, i + PARALLEL_UPLOADS);
-      const results = await Promise.all(batch.map(uploadChunk));
-      uploadedChunks.push(...results);
-      console.log(`   📤 Uploaded ${Math.min(i + PARALLEL_UPLOADS, chunkFiles.length)}/${chunkFiles.length}`);
+      // Upload in batches
+      for (let i = 0; i < chunkFiles.length; i += PARALLEL_UPLOADS) {
+        const batch = chunkFiles.slice(i, i + PARALLEL_UPLOADS);
+        const results = await Promise.all(batch.map(uploadChunk));
+        uploadedChunks.push(...results);
+        console.log(`   📤 Uploaded ${Math.min(i + PARALLEL_UPLOADS, chunkFiles.length)}/${chunkFiles.length}`);
+      }
     }
     
-    // Update chunk progress with URLs
+    // Update chunks with URLs
     for (const uploaded of uploadedChunks) {
-      chunkProgress.chunks[uploaded.chunkIndex].storageUrl = uploaded.url;
-      chunkProgress.chunks[uploaded.chunkIndex].status = 'ready';
+      await setChunkStorageUrl(videoId, uploaded.chunkIndex, uploaded.url);
+    }
+    
+    // Обзор маппинга спикеров — только если есть что проверять
+    const awaitingMappingReview = Boolean(reviewMapping) && fullDiarizationWords.length > 0;
+    if (awaitingMappingReview) {
+      await saveSpeakerMappingReview(videoId, buildSpeakerMappingReview(
+        speakerCharacterMapper,
+        chunkProgress.speakerCharacterMap,
+        fullDiarizationWords,
+        knownCharacters.map(c => c.name),
+        voiceMatches
+      ));
+      chunkProgress.awaitingMappingReview = true;
     }
     
-    // Save progress
-    await supabase
+    // Save progress (снимает lock init); пауза за время загрузки или lock
+    // уже у нового init — не перезаписываем
+    const { data: saved } = await supabase
       .from('videos')
       .update({ chunk_progress_json: chunkProgress })
-      .eq('id', videoId);
+      .eq('id', videoId)
+      .eq('status', 'processing')
+      .eq('chunk_progress_json->>initRunId', initRunId)
+      .select('status');
+    
+    if (!saved || saved.length === 0) {
+      await assertProcessingActive(videoId, { initRunId });
+    }
     
     // Cleanup temp files
     cleanupTempFiles(tempFiles);
@@ -809,16 +961,19 @@ export async function POST(request: NextRequest) {
     console.log(`\n🚀 Ready for chunk processing (process-chunk-v5)`);
     
     // ═══════════════════════════════════════════════════════════════════
-    // STEP 7: Trigger chunk processing
+    // STEP 7: Queue chunk processing (lib/job-queue.ts)
     // ═══════════════════════════════════════════════════════════════════
-    console.log(`\n🎯 STEP 7: Triggering chunk processing...`);
-    
-    // Fire and forget
-    fetch(`${savedBaseUrl}/api/process-all-chunks-v5`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ videoId }),
-    }).catch(err => console.error('Failed to trigger chunk processing:', err));
+    // Проверка маппинга — чанки поставит в очередь POST /api/videos/[id]/speaker-mapping
+    if (awaitingMappingReview) {
+      console.log(`\n👥 STEP 7: Waiting for speaker mapping review (chunks not queued)`);
+      await setProcessingStep(videoId, 'mapping-review');
+    } else {
+      console.log(`\n🎯 STEP 7: Queueing chunk processing...`);
+      await setProcessingStep(videoId, 'chunks');
+      
+      const queuedChunks = await enqueueChunkJobs(videoId);
+      console.log(`   📥 ${queuedChunks} chunks queued`);
+    }
     
     return NextResponse.json({
       success: true,
@@ -829,15 +984,26 @@ export async function POST(request: NextRequest) {
       architecture: 'improved',
       processingVersion: 'v5-beta',
       speakerMappings: Object.keys(chunkProgress.speakerCharacterMap).length,
+      awaitingMappingReview,
       faceClusters: faceClusters.length,
       initTime: totalTime,
     });
     
   } catch (error) {
-    console.error('❌ V5 BETA init error:', error);
-    
     cleanupTempFiles(tempFiles);
     
+    // Пауза/отмена во время init — lock уже снят stopProcessing, продолжение запустит init заново
+    if (error instanceof ProcessingStoppedError) {
+      console.log(`⏸️  V5 BETA init stopped: ${error.superseded ? 'superseded by a newer init' : `video ${error.videoStatus}`}`);
+      return NextResponse.json({
+        success: true,
+        stopped: true,
+        status: error.videoStatus,
+      });
+    }
+    
+    console.error('❌ V5 BETA init error:', error);
+    
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Init processing failed' },
       { status: 500 }
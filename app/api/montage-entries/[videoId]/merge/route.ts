@@ -0,0 +1,75 @@
+import { getOwnedSheet, isSheetAccessError } from '@/lib/supabase/sheet-access';
+import { fetchOrderedEntries, spliceEntries } from '@/lib/montage-editor';
+import { loadDiarizationContext, mergePlans, PlanOperationError } from '@/lib/plan-operations';
+import { createRevisionContext } from '@/lib/montage-revisions';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Склейка подряд идущих планов в один
+ * POST /api/montage-entries/[videoId]/merge
+ * Body: { entryIds: string[] }  — минимум два соседних плана
+ *
+ * Итоговый план сохраняет id первого, остальные удаляются.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const { entryIds } = await request.json();
+
+    if (!Array.isArray(entryIds) || entryIds.length < 2) {
+      return NextResponse.json({ error: 'entryIds must contain at least two entries' }, { status: 400 });
+    }
+
+    const access = await getOwnedSheet(videoId, request.nextUrl.searchParams.get('sheetId'));
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const [entries, context] = await Promise.all([
+      fetchOrderedEntries(access.supabase, access.sheetId),
+      loadDiarizationContext(access.supabase, videoId),
+    ]);
+
+    const indexes = entryIds
+      .map((id: string) => entries.findIndex(e => e.id === id))
+      .sort((a: number, b: number) => a - b);
+
+    if (indexes.includes(-1)) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+
+    const isConsecutive = indexes.every((value: number, i: number) => i === 0 || value === indexes[i - 1] + 1);
+    if (!isConsecutive) {
+      return NextResponse.json({ error: 'Only adjacent plans can be merged' }, { status: 400 });
+    }
+
+    const start = indexes[0];
+    const merged = mergePlans(entries.slice(start, start + indexes.length), context);
+    const result = await spliceEntries(
+      access.supabase, access.sheetId, entries, start, indexes.length, [merged],
+      createRevisionContext(access.sheetId, access.userId, 'merge')
+    );
+
+    console.log(`🔗 Merged plans ${entries[start].plan_number}–${entries[start + indexes.length - 1].plan_number}`);
+
+    return NextResponse.json({
+      entry: result.changed[0],
+      entries: result.entries,
+    });
+  } catch (error) {
+    console.error('Error merging montage entries:', error);
+    if (error instanceof PlanOperationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { getOwnedSheet, isSheetAccessError } from '@/lib/supabase/sheet-access';
+import { reassignSpeaker, SpeakerReassignError } from '@/lib/speaker-reassign';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Переименование персонажа / переназначение спикера во всём листе
+ * POST /api/montage-entries/[videoId]/reassign-speaker
+ * Body: { speakerId, toName } — реплики спикера диаризации
+ *    или { fromName, toName } — все реплики персонажа
+ *
+ * Для основного листа обновляется и speakerCharacterMap видео.
+ * Отмена — POST .../reassign-speaker/undo { batchId }.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const { speakerId, fromName, toName } = await request.json();
+
+    if (typeof toName !== 'string' || !toName.trim()) {
+      return NextResponse.json({ error: 'Missing toName' }, { status: 400 });
+    }
+    if ((speakerId !== undefined && typeof speakerId !== 'string') || (fromName !== undefined && typeof fromName !== 'string')) {
+      return NextResponse.json({ error: 'speakerId and fromName must be strings' }, { status: 400 });
+    }
+
+    const access = await getOwnedSheet(videoId, request.nextUrl.searchParams.get('sheetId'));
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const result = await reassignSpeaker(access.supabase, videoId, access.sheetId, access.userId, {
+      speakerId: speakerId?.trim() || undefined,
+      fromName: fromName?.trim() || undefined,
+      toName,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error reassigning speaker:', error);
+    if (error instanceof SpeakerReassignError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
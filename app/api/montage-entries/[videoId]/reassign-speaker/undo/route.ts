@@ -0,0 +1,43 @@
+import { getOwnedSheet, isSheetAccessError } from '@/lib/supabase/sheet-access';
+import { SpeakerReassignError, undoSpeakerReassignment } from '@/lib/speaker-reassign';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Отмена переназначения спикера: реплики и speakerCharacterMap
+ * POST /api/montage-entries/[videoId]/reassign-speaker/undo
+ * Body: { batchId } — из ответа reassign-speaker
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const { batchId } = await request.json();
+
+    if (typeof batchId !== 'string' || !batchId) {
+      return NextResponse.json({ error: 'Missing batchId' }, { status: 400 });
+    }
+
+    const access = await getOwnedSheet(videoId, request.nextUrl.searchParams.get('sheetId'));
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const result = await undoSpeakerReassignment(access.supabase, videoId, access.sheetId, access.userId, batchId);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error undoing speaker reassignment:', error);
+    if (error instanceof SpeakerReassignError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
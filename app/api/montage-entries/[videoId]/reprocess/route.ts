@@ -0,0 +1,124 @@
+import { getOwnedSheet, isSheetAccessError } from '@/lib/supabase/sheet-access';
+import { fetchOrderedEntries } from '@/lib/montage-editor';
+import { enqueueReprocessRange, getReprocessRangeJob, ReprocessRangeError } from '@/lib/reprocess-range';
+import { parseVideoProviderIds } from '@/lib/video-providers';
+import { isVideoPromptVersion, VIDEO_PROMPT_VERSIONS } from '@/lib/gemini-replicate';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Повторная обработка диапазона или выбранных планов
+ * POST /api/montage-entries/[videoId]/reprocess
+ * Body: { startTimecode, endTimecode } или { entryIds: string[] }
+ *       + необязательно providers: string[], promptVersion
+ *
+ * Ставит задачу в очередь и сразу возвращает jobId; затронутые планы
+ * заменяются, когда воркер закончит анализ (итог — GET с jobId). Заново
+ * выполняется только визуальный анализ — диаризация и границы сцен остаются
+ * прежними (см. lib/reprocess-range.ts).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const { startTimecode, endTimecode, entryIds, providers, promptVersion } = await request.json();
+
+    const access = await getOwnedSheet(videoId, request.nextUrl.searchParams.get('sheetId'));
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    let range = { startTimecode, endTimecode };
+
+    // Выбранные планы — диапазон от начала первого до конца последнего
+    if (entryIds !== undefined) {
+      if (!Array.isArray(entryIds) || entryIds.length === 0) {
+        return NextResponse.json({ error: 'entryIds must be a non-empty array' }, { status: 400 });
+      }
+
+      const entries = await fetchOrderedEntries(access.supabase, access.sheetId);
+      const selected = entries.filter(e => entryIds.includes(e.id));
+
+      if (selected.length !== entryIds.length) {
+        return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+      }
+      range = {
+        startTimecode: selected[0].start_timecode,
+        endTimecode: selected[selected.length - 1].end_timecode,
+      };
+    }
+
+    const providerIds = providers !== undefined ? parseVideoProviderIds(providers) : undefined;
+    if (providerIds && providerIds.length === 0) {
+      return NextResponse.json({ error: 'providers must contain at least one known video provider' }, { status: 400 });
+    }
+
+    if (promptVersion !== undefined && !isVideoPromptVersion(promptVersion)) {
+      return NextResponse.json(
+        { error: `promptVersion must be one of: ${VIDEO_PROMPT_VERSIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const jobId = await enqueueReprocessRange(videoId, {
+      ...range,
+      sheetId: access.sheetId,
+      userId: access.userId,
+      providers: providerIds,
+      promptVersion,
+    });
+
+    return NextResponse.json({ success: true, jobId, ...range });
+  } catch (error) {
+    console.error('Error queueing range reprocessing:', error);
+    if (error instanceof ReprocessRangeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Состояние задачи повторной обработки
+ * GET /api/montage-entries/[videoId]/reprocess?jobId=...
+ *
+ * status: queued / running / completed (result — сколько планов заменено) /
+ * dead (error — почему лист не изменился) / cancelled
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const jobId = request.nextUrl.searchParams.get('jobId');
+
+    if (!jobId) {
+      return NextResponse.json({ error: 'Missing jobId' }, { status: 400 });
+    }
+
+    const access = await getOwnedSheet(videoId, request.nextUrl.searchParams.get('sheetId'));
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const job = await getReprocessRangeJob(access.supabase, videoId, jobId);
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Error loading range reprocessing status:', error);
+    if (error instanceof ReprocessRangeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { getOwnedSheet, isSheetAccessError } from '@/lib/supabase/sheet-access';
+import { fetchOrderedEntries } from '@/lib/montage-editor';
+import { createRevisionContext, restoreSheet, RevisionError } from '@/lib/montage-revisions';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Возврат всего листа к точке в истории
+ * POST /api/montage-entries/[videoId]/revisions/restore
+ * Body: { revisionId } — состояние до этой ревизии (она и все последующие отменяются)
+ *   или { at } — состояние на момент времени (ISO)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const { revisionId, at } = await request.json();
+
+    if (!Number.isInteger(revisionId) && (typeof at !== 'string' || Number.isNaN(Date.parse(at)))) {
+      return NextResponse.json({ error: 'Provide revisionId or a valid ISO timestamp in at' }, { status: 400 });
+    }
+
+    const access = await getOwnedSheet(videoId, request.nextUrl.searchParams.get('sheetId'));
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const current = await fetchOrderedEntries(access.supabase, access.sheetId);
+    const { restored } = await restoreSheet(
+      access.supabase,
+      createRevisionContext(access.sheetId, access.userId, 'restore'),
+      current,
+      Number.isInteger(revisionId) ? { revisionId } : { at: new Date(at).toISOString() }
+    );
+
+    const entries = await fetchOrderedEntries(access.supabase, access.sheetId);
+
+    return NextResponse.json({ restored, entries });
+  } catch (error) {
+    console.error('Error restoring sheet:', error);
+    if (error instanceof RevisionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
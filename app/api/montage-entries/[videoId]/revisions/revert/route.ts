@@ -0,0 +1,64 @@
+import { getOwnedSheet, isSheetAccessError } from '@/lib/supabase/sheet-access';
+import { fetchOrderedEntries, renumberEntries } from '@/lib/montage-editor';
+import { createRevisionContext, revertRevision, RevisionError } from '@/lib/montage-revisions';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import type { MontageEntryRevision } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Откат одного плана к состоянию до ревизии
+ * POST /api/montage-entries/[videoId]/revisions/revert
+ * Body: { revisionId }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const { revisionId } = await request.json();
+
+    if (!Number.isInteger(revisionId)) {
+      return NextResponse.json({ error: 'Missing revisionId' }, { status: 400 });
+    }
+
+    const access = await getOwnedSheet(videoId, request.nextUrl.searchParams.get('sheetId'));
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { data: revision, error: revisionError } = await access.supabase
+      .from('montage_entry_revisions')
+      .select('*')
+      .eq('id', revisionId)
+      .eq('sheet_id', access.sheetId)
+      .single();
+
+    if (revisionError || !revision) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    const revisions = createRevisionContext(access.sheetId, access.userId, 'revert');
+    const current = await fetchOrderedEntries(access.supabase, access.sheetId);
+    const result = await revertRevision(access.supabase, revisions, current, revision as MontageEntryRevision);
+
+    const entries = result.needsRenumber
+      ? await renumberEntries(access.supabase, result.entries, revisions)
+      : result.entries;
+
+    console.log(`↩️  Reverted revision ${revisionId} (entry ${revision.entry_id})`);
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Error reverting revision:', error);
+    if (error instanceof RevisionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { getOwnedSheet, isSheetAccessError } from '@/lib/supabase/sheet-access';
+import { fetchRevisions } from '@/lib/montage-revisions';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * История изменений монтажного листа (новые сверху)
+ * GET /api/montage-entries/[videoId]/revisions?limit=500
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const limit = Math.min(Number(request.nextUrl.searchParams.get('limit')) || 500, 2000);
+
+    const access = await getOwnedSheet(videoId, request.nextUrl.searchParams.get('sheetId'));
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const revisions = await fetchRevisions(access.supabase, access.sheetId, limit);
+
+    return NextResponse.json({ revisions });
+  } catch (error) {
+    console.error('Error fetching revisions:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,38 +1,63 @@
-import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getOwnedSheet, isSheetAccessError } from '@/lib/supabase/sheet-access';
+import {
+  sanitizeEntryChanges,
+  validateEntryRange,
+  fetchOrderedEntries,
+  renumberEntries,
+  spliceEntries,
+} from '@/lib/montage-editor';
+import {
+  loadDiarizationContext,
+  loadVideoFps,
+  buildDialoguesFromWords,
+  partitionPlan,
+  findHostIndex,
+  absorbDeletedPlan,
+  PlanOperationError,
+} from '@/lib/plan-operations';
+import { createRevisionContext, recordRevisions, type EntryChange } from '@/lib/montage-revisions';
+import { timecodeToFrames, timecodeToMs } from '@/lib/video-chunking';
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import type { MontageEntry } from '@/types';
 
+export const dynamic = 'force-dynamic';
+
+/**
+ * Планы монтажного листа
+ * GET /api/montage-entries/[videoId]?sheetId=...
+ *
+ * Все методы этого роута (и вложенных split/merge/revisions) принимают
+ * ?sheetId= — версию листа; без него работают с основным листом.
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ videoId: string }> }
 ) {
   try {
     const { videoId } = await params;
-    const supabase = createServiceRoleClient();
-    
-    // Get sheet for this video
-    const { data: sheet, error: sheetError } = await supabase
-      .from('montage_sheets')
-      .select('id')
-      .eq('video_id', videoId)
-      .single();
-    
-    if (sheetError || !sheet) {
-      return NextResponse.json({ entries: [] });
+    const access = await getOwnedSheet(videoId, request.nextUrl.searchParams.get('sheetId'));
+
+    if (isSheetAccessError(access)) {
+      // Лист ещё не создан (видео в обработке) — отдаём пустой список, как раньше
+      if (access.status === 404 && access.error === 'Montage sheet not found') {
+        return NextResponse.json({ entries: [] });
+      }
+      return NextResponse.json({ error: access.error }, { status: access.status });
     }
-    
+
     // Get all entries for this sheet, ordered by plan_number
-    const { data: entries, error: entriesError } = await supabase
+    const { data: entries, error: entriesError } = await access.supabase
       .from('montage_entries')
       .select('*')
-      .eq('sheet_id', sheet.id)
+      .eq('sheet_id', access.sheetId)
       .order('plan_number', { ascending: true });
-    
+
     if (entriesError) {
       console.error('Error fetching entries:', entriesError);
       return NextResponse.json({ entries: [] });
     }
-    
+
     return NextResponse.json({
       entries: entries || [],
       count: entries?.length || 0,
@@ -42,3 +67,297 @@ export async function GET(
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
+
+/**
+ * Редактирование одного плана
+ * PATCH /api/montage-entries/[videoId]
+ * Body: { entryId, changes: { start_timecode?, end_timecode?, plan_type?, description?, dialogues? } }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const { entryId, changes: rawChanges } = await request.json();
+
+    if (!entryId) {
+      return NextResponse.json({ error: 'Missing entryId' }, { status: 400 });
+    }
+
+    const { changes, error: changesError } = sanitizeEntryChanges(rawChanges);
+    if (changesError || !changes) {
+      return NextResponse.json({ error: changesError }, { status: 400 });
+    }
+
+    const access = await getOwnedSheet(videoId, request.nextUrl.searchParams.get('sheetId'));
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const [{ data: existing, error: fetchError }, fps] = await Promise.all([
+      access.supabase
+        .from('montage_entries')
+        .select('*')
+        .eq('id', entryId)
+        .eq('sheet_id', access.sheetId)
+        .single(),
+      loadVideoFps(access.supabase, videoId),
+    ]);
+
+    if (fetchError || !existing) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+
+    // Правка текста не должна упираться в таймкоды старых листов — диапазон
+    // проверяем, только если его меняют
+    if (changes.start_timecode !== undefined || changes.end_timecode !== undefined) {
+      const rangeError = validateEntryRange(
+        changes.start_timecode ?? existing.start_timecode,
+        changes.end_timecode ?? existing.end_timecode,
+        fps
+      );
+      if (rangeError) {
+        return NextResponse.json({ error: rangeError }, { status: 400 });
+      }
+    }
+
+    const { data: entry, error: updateError } = await access.supabase
+      .from('montage_entries')
+      .update(changes)
+      .eq('id', entryId)
+      .eq('sheet_id', access.sheetId)
+      .select()
+      .single();
+
+    if (updateError || !entry) {
+      console.error('Error updating entry:', updateError);
+      return NextResponse.json({ error: 'Failed to update entry' }, { status: 500 });
+    }
+
+    await recordRevisions(
+      access.supabase,
+      createRevisionContext(access.sheetId, access.userId, 'edit'),
+      [{ before: existing, after: entry }]
+    );
+
+    console.log(`✏️  Entry ${entryId} (plan ${entry.plan_number}) updated: ${Object.keys(changes).join(', ')}`);
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error('Error updating montage entry:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Вставка нового плана встык
+ * POST /api/montage-entries/[videoId]
+ * Body: { entry: { start_timecode, end_timecode, plan_type?, description?, dialogues? } }
+ *
+ * Новый план вырезается из плана, внутри которого лежит его диапазон:
+ * тот обрезается (или делится на две части), таймкоды остаются встык.
+ * Реплики перераспределяются по словам диаризации.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const { entry: rawEntry } = await request.json();
+
+    const { changes: fields, error: fieldsError } = sanitizeEntryChanges(rawEntry);
+    if (fieldsError || !fields) {
+      return NextResponse.json({ error: fieldsError }, { status: 400 });
+    }
+
+    const { start_timecode: startTimecode, end_timecode: endTimecode } = fields;
+    if (!startTimecode || !endTimecode) {
+      return NextResponse.json({ error: 'start_timecode and end_timecode are required' }, { status: 400 });
+    }
+
+    const access = await getOwnedSheet(videoId, request.nextUrl.searchParams.get('sheetId'));
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const [entries, context] = await Promise.all([
+      fetchOrderedEntries(access.supabase, access.sheetId),
+      loadDiarizationContext(access.supabase, videoId),
+    ]);
+
+    // Те же правила, что и при PATCH: кадры в пределах FPS, план ненулевой длины
+    const rangeError = validateEntryRange(startTimecode, endTimecode, context.fps);
+    if (rangeError) {
+      return NextResponse.json({ error: rangeError }, { status: 400 });
+    }
+
+    const newContent = {
+      start_timecode: startTimecode,
+      end_timecode: endTimecode,
+      plan_type: fields.plan_type ?? '',
+      description: fields.description ?? '',
+      dialogues: fields.dialogues ?? '',
+    };
+
+    const hostIndex = findHostIndex(entries, startTimecode, context.fps);
+
+    // Пустой лист или добавление в конец встык
+    if (hostIndex === -1) {
+      const last = entries[entries.length - 1];
+      if (last && last.end_timecode !== startTimecode) {
+        return NextResponse.json(
+          { error: `New plan must start inside an existing plan or at the sheet end (${last.end_timecode})` },
+          { status: 400 }
+        );
+      }
+
+      if (!fields.dialogues) {
+        newContent.dialogues = buildDialoguesFromWords(
+          context,
+          timecodeToMs(startTimecode, context.fps),
+          timecodeToMs(endTimecode, context.fps)
+        );
+      }
+
+      const result = await spliceEntries(
+        access.supabase, access.sheetId, entries, entries.length, 0, [newContent],
+        createRevisionContext(access.sheetId, access.userId, 'insert')
+      );
+      console.log(`➕ Appended plan ${entries.length + 1} to sheet ${access.sheetId}`);
+      return NextResponse.json({ entry: result.changed[0], entries: result.entries });
+    }
+
+    const host = entries[hostIndex];
+    if (timecodeToFrames(endTimecode, context.fps) > timecodeToFrames(host.end_timecode, context.fps)) {
+      return NextResponse.json(
+        { error: `New plan must fit inside plan ${host.plan_number} (${host.start_timecode} – ${host.end_timecode})` },
+        { status: 400 }
+      );
+    }
+    if (host.start_timecode === startTimecode && host.end_timecode === endTimecode) {
+      return NextResponse.json(
+        { error: `Plan ${host.plan_number} already covers this range — edit it instead` },
+        { status: 400 }
+      );
+    }
+
+    const cuts = [startTimecode, endTimecode].filter(
+      tc => tc !== host.start_timecode && tc !== host.end_timecode
+    );
+    const parts = partitionPlan(host, cuts, context);
+    const newIndex = parts.findIndex(p => p.start_timecode === startTimecode);
+
+    parts[newIndex] = {
+      ...newContent,
+      dialogues: fields.dialogues ?? parts[newIndex].dialogues,
+    };
+
+    const result = await spliceEntries(
+      access.supabase, access.sheetId, entries, hostIndex, 1, parts,
+      createRevisionContext(access.sheetId, access.userId, 'insert')
+    );
+
+    console.log(`➕ Inserted plan ${hostIndex + newIndex + 1} (${startTimecode} – ${endTimecode}) into sheet ${access.sheetId}`);
+
+    return NextResponse.json({
+      entry: result.entries[hostIndex + newIndex],
+      entries: result.entries,
+    });
+  } catch (error) {
+    console.error('Error inserting montage entry:', error);
+    if (error instanceof PlanOperationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Удаление плана с перенумерацией оставшихся
+ * DELETE /api/montage-entries/[videoId]?entryId=...
+ *
+ * Время удалённого плана забирает сосед (см. absorbDeletedPlan) — лист
+ * остаётся встык, как после split и merge.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const entryId = request.nextUrl.searchParams.get('entryId');
+
+    if (!entryId) {
+      return NextResponse.json({ error: 'Missing entryId' }, { status: 400 });
+    }
+
+    const access = await getOwnedSheet(videoId, request.nextUrl.searchParams.get('sheetId'));
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const entries = await fetchOrderedEntries(access.supabase, access.sheetId);
+    const targetIndex = entries.findIndex(e => e.id === entryId);
+
+    if (targetIndex === -1) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+    const target = entries[targetIndex];
+
+    const { error: deleteError } = await access.supabase
+      .from('montage_entries')
+      .delete()
+      .eq('id', entryId)
+      .eq('sheet_id', access.sheetId);
+
+    if (deleteError) {
+      console.error('Error deleting entry:', deleteError);
+      return NextResponse.json({ error: 'Failed to delete entry' }, { status: 500 });
+    }
+
+    const remaining = entries.filter(e => e.id !== entryId);
+    const revisionChanges: EntryChange[] = [{ before: target, after: null }];
+
+    const absorbed = absorbDeletedPlan(entries, targetIndex);
+    if (absorbed) {
+      const neighbor = entries[absorbed.neighborIndex];
+      const { data: extended, error: extendError } = await access.supabase
+        .from('montage_entries')
+        .update(absorbed.changes)
+        .eq('id', neighbor.id)
+        .eq('sheet_id', access.sheetId)
+        .select()
+        .single();
+
+      if (extendError || !extended) {
+        throw new Error(`Failed to extend neighbouring entry: ${extendError?.message}`);
+      }
+
+      remaining[remaining.findIndex(e => e.id === neighbor.id)] = extended as MontageEntry;
+      revisionChanges.push({ before: neighbor, after: extended as MontageEntry });
+    }
+
+    const revisions = createRevisionContext(access.sheetId, access.userId, 'delete');
+    await recordRevisions(access.supabase, revisions, revisionChanges);
+
+    const renumbered = await renumberEntries(access.supabase, remaining, revisions);
+
+    console.log(`🗑️  Deleted plan ${target.plan_number} from sheet ${access.sheetId}`);
+
+    return NextResponse.json({ entries: renumbered });
+  } catch (error) {
+    console.error('Error deleting montage entry:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
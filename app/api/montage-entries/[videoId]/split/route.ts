@@ -0,0 +1,70 @@
+import { getOwnedSheet, isSheetAccessError } from '@/lib/supabase/sheet-access';
+import { isValidTimecode, fetchOrderedEntries, spliceEntries } from '@/lib/montage-editor';
+import { loadDiarizationContext, partitionPlan, PlanOperationError } from '@/lib/plan-operations';
+import { createRevisionContext } from '@/lib/montage-revisions';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Разрезка плана на два встык
+ * POST /api/montage-entries/[videoId]/split
+ * Body: { entryId, atTimecode }
+ *
+ * Первая часть сохраняет id плана, вторая вставляется следом.
+ * Реплики делятся по словам диаризации, номера планов пересчитываются.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const { entryId, atTimecode } = await request.json();
+
+    if (!entryId) {
+      return NextResponse.json({ error: 'Missing entryId' }, { status: 400 });
+    }
+    if (!isValidTimecode(atTimecode)) {
+      return NextResponse.json({ error: 'Invalid atTimecode: expected HH:MM:SS:FF' }, { status: 400 });
+    }
+
+    const access = await getOwnedSheet(videoId, request.nextUrl.searchParams.get('sheetId'));
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const [entries, context] = await Promise.all([
+      fetchOrderedEntries(access.supabase, access.sheetId),
+      loadDiarizationContext(access.supabase, videoId),
+    ]);
+
+    const index = entries.findIndex(e => e.id === entryId);
+    if (index === -1) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+
+    const parts = partitionPlan(entries[index], [atTimecode], context);
+    const result = await spliceEntries(
+      access.supabase, access.sheetId, entries, index, 1, parts,
+      createRevisionContext(access.sheetId, access.userId, 'split')
+    );
+
+    console.log(`✂️  Split plan ${entries[index].plan_number} at ${atTimecode}`);
+
+    return NextResponse.json({
+      entries: result.entries,
+      created: result.changed,
+    });
+  } catch (error) {
+    console.error('Error splitting montage entry:', error);
+    if (error instanceof PlanOperationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getOwnedSheet, isSheetAccessError } from '@/lib/supabase/sheet-access';
+import { fetchOrderedEntries } from '@/lib/montage-editor';
+import { loadVideoFps } from '@/lib/plan-operations';
+import { generateMissingThumbnails, createThumbnailUrls, getThumbnailFrame, getThumbnailPath } from '@/lib/plan-thumbnails';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const maxDuration = 300;
+export const dynamic = 'force-dynamic';
+
+/**
+ * Миниатюры планов листа
+ * GET /api/montage-entries/[videoId]/thumbnails?sheetId=
+ *
+ * Возвращает подписанные ссылки (entryId → url) и число планов,
+ * у которых миниатюры нет или она снята до правки таймкодов.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+
+    const access = await getOwnedSheet(videoId, request.nextUrl.searchParams.get('sheetId'));
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const [entries, fps] = await Promise.all([
+      fetchOrderedEntries(access.supabase, access.sheetId),
+      loadVideoFps(access.supabase, videoId),
+    ]);
+
+    const thumbnails = await createThumbnailUrls(createServiceRoleClient(), entries);
+    const missing = entries.filter(entry =>
+      entry.thumbnail_path !== getThumbnailPath(access.userId, videoId, getThumbnailFrame(entry, fps))
+    ).length;
+
+    return NextResponse.json({ thumbnails, missing });
+  } catch (error) {
+    console.error('Error fetching thumbnails:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Генерация недостающих миниатюр (пачкой)
+ * POST /api/montage-entries/[videoId]/thumbnails?sheetId=
+ *
+ * Body: { skipFrames?: number[] } — кадры, не извлёкшиеся в прошлых пачках
+ *
+ * За один вызов обрабатывается не больше THUMBNAIL_BATCH_SIZE кадров;
+ * клиент повторяет запрос, пока remaining > 0, добавляя failedFrames в skipFrames.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const { skipFrames = [] } = await request.json();
+
+    if (!Array.isArray(skipFrames) || !skipFrames.every(Number.isInteger)) {
+      return NextResponse.json({ error: 'skipFrames must be an array of frame numbers' }, { status: 400 });
+    }
+
+    const access = await getOwnedSheet(videoId, request.nextUrl.searchParams.get('sheetId'));
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { data: video, error: videoError } = await access.supabase
+      .from('videos')
+      .select('storage_path')
+      .eq('id', videoId)
+      .single();
+
+    if (videoError || !video?.storage_path) {
+      return NextResponse.json({ error: 'Video file not found' }, { status: 404 });
+    }
+
+    const serviceClient = createServiceRoleClient();
+    const { data: urlData, error: urlError } = await serviceClient.storage
+      .from('videos')
+      .createSignedUrl(video.storage_path, 3600);
+
+    if (urlError || !urlData?.signedUrl) {
+      console.error('Error creating signed URL:', urlError);
+      return NextResponse.json({ error: 'Failed to create signed URL' }, { status: 500 });
+    }
+
+    const [entries, fps] = await Promise.all([
+      fetchOrderedEntries(access.supabase, access.sheetId),
+      loadVideoFps(access.supabase, videoId),
+    ]);
+
+    const result = await generateMissingThumbnails(serviceClient, access.supabase, {
+      userId: access.userId,
+      videoId,
+      sourceUrl: urlData.signedUrl,
+      entries,
+      fps,
+      skipFrames,
+    });
+
+    const thumbnails = await createThumbnailUrls(serviceClient, entries);
+
+    return NextResponse.json({ ...result, thumbnails });
+  } catch (error) {
+    console.error('Error generating thumbnails:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { getOwnedSheet, isSheetAccessError } from '@/lib/supabase/sheet-access';
+import {
+  isValidTimecode,
+  validateTimecodeFrames,
+  validateEntryRange,
+  fetchOrderedEntries,
+  spliceEntries,
+} from '@/lib/montage-editor';
+import { loadDiarizationContext, moveBoundary, PlanOperationError } from '@/lib/plan-operations';
+import { createRevisionContext } from '@/lib/montage-revisions';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+type TrimEdge = 'start' | 'end';
+
+/**
+ * Mark in / mark out из плеера
+ * POST /api/montage-entries/[videoId]/trim
+ * Body: { entryId, edge: 'start' | 'end', timecode }
+ *
+ * Переносит начало (или конец) плана на кадр плеера. Соседний план
+ * (предыдущий для начала, следующий для конца) подтягивается к той же
+ * склейке, чтобы лист остался встык. У первого плана нет предыдущего,
+ * у последнего — следующего: тогда меняется только сам план.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const { entryId, edge, timecode } = await request.json() as {
+      entryId?: string;
+      edge?: TrimEdge;
+      timecode?: string;
+    };
+
+    if (!entryId) {
+      return NextResponse.json({ error: 'Missing entryId' }, { status: 400 });
+    }
+    if (edge !== 'start' && edge !== 'end') {
+      return NextResponse.json({ error: "Invalid edge: expected 'start' or 'end'" }, { status: 400 });
+    }
+    if (!isValidTimecode(timecode)) {
+      return NextResponse.json({ error: 'Invalid timecode: expected HH:MM:SS:FF' }, { status: 400 });
+    }
+
+    const access = await getOwnedSheet(videoId, request.nextUrl.searchParams.get('sheetId'));
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const [entries, context] = await Promise.all([
+      fetchOrderedEntries(access.supabase, access.sheetId),
+      loadDiarizationContext(access.supabase, videoId),
+    ]);
+
+    const index = entries.findIndex(e => e.id === entryId);
+    if (index === -1) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+
+    const entry = entries[index];
+    const neighbourIndex = edge === 'start' ? index - 1 : index + 1;
+    const revisions = createRevisionContext(access.sheetId, access.userId, edge === 'start' ? 'mark-in' : 'mark-out');
+
+    let result;
+    if (neighbourIndex < 0 || neighbourIndex >= entries.length) {
+      const start = edge === 'start' ? timecode : entry.start_timecode;
+      const end = edge === 'end' ? timecode : entry.end_timecode;
+      const rangeError = validateEntryRange(start, end, context.fps);
+      if (rangeError) {
+        return NextResponse.json({ error: rangeError }, { status: 400 });
+      }
+
+      result = await spliceEntries(access.supabase, access.sheetId, entries, index, 1, [{
+        start_timecode: start,
+        end_timecode: end,
+        plan_type: entry.plan_type || '',
+        description: entry.description || '',
+        dialogues: entry.dialogues || '',
+      }], revisions);
+    } else {
+      const framesError = validateTimecodeFrames(timecode, context.fps);
+      if (framesError) {
+        return NextResponse.json({ error: framesError }, { status: 400 });
+      }
+
+      // Склейка между левым и правым планом; moveBoundary проверяет, что она внутри пары
+      const leftIndex = Math.min(index, neighbourIndex);
+      const parts = moveBoundary(entries[leftIndex], entries[leftIndex + 1], timecode, context);
+      result = await spliceEntries(access.supabase, access.sheetId, entries, leftIndex, 2, parts, revisions);
+    }
+
+    console.log(`🎯 Mark ${edge === 'start' ? 'in' : 'out'}: plan ${entry.plan_number} ${edge} → ${timecode}`);
+
+    return NextResponse.json({
+      entries: result.entries,
+      updated: result.changed,
+    });
+  } catch (error) {
+    console.error('Error trimming montage entry:', error);
+    if (error instanceof PlanOperationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
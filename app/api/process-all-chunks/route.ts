@@ -105,6 +105,7 @@ async function processAllChunksInBackground(videoId: string, baseUrl: string) {
       .from('montage_sheets')
       .select('id')
       .eq('video_id', videoId)
+      .eq('is_primary', true)
       .single();
 
     // ════════════════════════════════════════════════════════════════
@@ -0,0 +1,109 @@
+import { createClient } from '@/lib/supabase/server';
+import {
+  getVideoProviderStatus,
+  isVideoProviderId,
+  parseVideoProviderIds,
+  resolveVideoProviderChain,
+} from '@/lib/video-providers';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Порядок провайдеров визуального анализа пользователя (profiles.video_providers)
+ * GET /api/profile/video-providers
+ *
+ * providers — сохранённый порядок ([] — по умолчанию), chain — цепочка, с которой
+ * запустится следующая обработка, available — все провайдеры и их ключи.
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .select('video_providers')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch profile: ${error.message}`);
+    }
+
+    const providers = parseVideoProviderIds(profile?.video_providers);
+
+    return NextResponse.json({
+      providers,
+      chain: resolveVideoProviderChain(providers),
+      available: getVideoProviderStatus().map(({ id, label, configured }) => ({ id, label, configured })),
+    });
+  } catch (error) {
+    console.error('Error fetching video providers:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Сохранить порядок провайдеров
+ * PUT /api/profile/video-providers
+ * Body: { providers: string[] } — id из VIDEO_PROVIDER_IDS; [] — сбросить на порядок по умолчанию
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { providers } = await request.json();
+
+    if (!Array.isArray(providers) || !providers.every(id => typeof id === 'string')) {
+      return NextResponse.json({ error: 'providers must be an array of provider ids' }, { status: 400 });
+    }
+
+    // Опечатка в настройке не должна молча превращаться в порядок по умолчанию
+    const unknown = providers.filter(id => !isVideoProviderId(id));
+    if (unknown.length > 0) {
+      return NextResponse.json({ error: `Unknown video provider: ${unknown.join(', ')}` }, { status: 400 });
+    }
+
+    const providerIds = parseVideoProviderIds(providers);
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ video_providers: providerIds.length > 0 ? providerIds : null })
+      .eq('id', user.id);
+
+    if (error) {
+      throw new Error(`Failed to update profile: ${error.message}`);
+    }
+
+    return NextResponse.json({
+      providers: providerIds,
+      chain: resolveVideoProviderChain(providerIds),
+    });
+  } catch (error) {
+    console.error('Error updating video providers:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { createServiceRoleClient } from '@/lib/supabase/server';
+import { createRevisionContext, recordRevisions, type EntryChange } from '@/lib/montage-revisions';
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 
@@ -12,7 +13,7 @@ export const dynamic = 'force-dynamic';
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { videoId } = body;
+    const { videoId, sheetId: requestedSheetId } = body;
 
     if (!videoId) {
       return NextResponse.json(
@@ -28,7 +29,7 @@ export async function POST(request: NextRequest) {
     // Get video and its sheet
     const { data: video, error: videoError } = await supabase
       .from('videos')
-      .select('id, montage_sheets(id)')
+      .select('id, montage_sheets(id, is_primary)')
       .eq('id', videoId)
       .single();
 
@@ -39,7 +40,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const sheetId = (video.montage_sheets as any)?.[0]?.id;
+    // Версия листа из запроса, иначе основной лист
+    const sheets = (video.montage_sheets as Array<{ id: string; is_primary: boolean }>) || [];
+    const sheetId = (requestedSheetId
+      ? sheets.find(s => s.id === requestedSheetId)
+      : sheets.find(s => s.is_primary))?.id;
     if (!sheetId) {
       return NextResponse.json(
         { error: 'Montage sheet not found' },
@@ -97,6 +102,7 @@ export async function POST(request: NextRequest) {
     // Update in batches for better performance
     const BATCH_SIZE = 50;
     let updatedCount = 0;
+    const revisionChanges: EntryChange[] = [];
 
     for (let i = 0; i < updates.length; i += BATCH_SIZE) {
       const batch = updates.slice(i, i + BATCH_SIZE);
@@ -115,12 +121,22 @@ export async function POST(request: NextRequest) {
           // Continue with other updates
         } else {
           updatedCount++;
+          const entry = entries.find(e => e.id === update.id);
+          if (entry) {
+            revisionChanges.push({ before: entry, after: { ...entry, ...update } });
+          }
         }
       }
 
       console.log(`✅ Updated batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(updates.length / BATCH_SIZE)} (${updatedCount}/${updates.length} total)`);
     }
 
+    await recordRevisions(
+      supabase,
+      createRevisionContext(sheetId, null, 'renumber-plans'),
+      revisionChanges
+    );
+
     console.log(`🎉 Renumbering completed! Updated ${updatedCount}/${updates.length} entries`);
 
     return NextResponse.json({
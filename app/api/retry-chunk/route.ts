@@ -1,6 +1,9 @@
 import { createServiceRoleClient } from '@/lib/supabase/server';
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { getVideoChunks, updateChunkStatus } from '@/lib/supabase/chunk-status';
+import { enqueueJob } from '@/lib/job-queue';
+import type { ChunkJobPayload } from '@/lib/process-chunk-v5';
 
 export const maxDuration = 60;
 export const dynamic = 'force-dynamic';
@@ -25,6 +28,35 @@ export async function POST(request: NextRequest) {
 
     const supabase = createServiceRoleClient();
 
+    // V5: чанк в video_chunks — повтор через очередь задач
+    const videoChunk = (await getVideoChunks(videoId, supabase)).find(c => c.chunk_index === chunkIndex);
+    if (videoChunk) {
+      if (!videoChunk.storage_url) {
+        return NextResponse.json(
+          { error: `Chunk ${chunkIndex} is not uploaded yet` },
+          { status: 400 }
+        );
+      }
+
+      await updateChunkStatus(videoId, chunkIndex, 'ready');
+
+      const payload: ChunkJobPayload = {
+        chunkIndex,
+        chunkUrl: videoChunk.storage_url,
+        startTimecode: videoChunk.start_timecode,
+        endTimecode: videoChunk.end_timecode,
+      };
+      const jobId = await enqueueJob(videoId, 'process-chunk', { chunkIndex, payload });
+
+      console.log(jobId ? `📥 Chunk ${chunkIndex} queued for retry` : `⏭️ Chunk ${chunkIndex} already in queue`);
+
+      return NextResponse.json({
+        success: true,
+        message: jobId ? `Chunk ${chunkIndex} queued for retry` : `Chunk ${chunkIndex} is already in queue`,
+        jobId,
+      });
+    }
+
     // Get video and chunk progress
     const { data: video, error: videoError } = await supabase
       .from('videos')
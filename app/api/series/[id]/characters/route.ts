@@ -0,0 +1,122 @@
+import { getOwnedSeries, isSeriesAccessError } from '@/lib/series';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_VARIANTS = 30;
+
+/**
+ * Правка персонажа реестра: каноническое имя и варианты обращения
+ * PATCH /api/series/[id]/characters
+ * Body: { characterId, name?, variants? }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { characterId, name, variants } = await request.json();
+
+    if (!characterId) {
+      return NextResponse.json({ error: 'Missing characterId' }, { status: 400 });
+    }
+
+    const update: { name?: string; variants?: string[] } = {};
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return NextResponse.json({ error: 'name must be a non-empty string' }, { status: 400 });
+      }
+      // Имя — как в репликах листа ("ИМЯ\nтекст")
+      update.name = name.trim().replace(/\s+/g, ' ').toUpperCase();
+    }
+
+    if (variants !== undefined) {
+      if (!Array.isArray(variants) || variants.length > MAX_VARIANTS || variants.some(v => typeof v !== 'string')) {
+        return NextResponse.json({ error: `variants must be an array of up to ${MAX_VARIANTS} strings` }, { status: 400 });
+      }
+      update.variants = Array.from(new Set(variants.map((v: string) => v.trim()).filter(Boolean)));
+    }
+
+    const access = await getOwnedSeries(id);
+    if (isSeriesAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { data: character, error } = await access.supabase
+      .from('series_characters')
+      .update(update)
+      .eq('id', characterId)
+      .eq('series_id', id)
+      .select()
+      .maybeSingle();
+
+    // UNIQUE (series_id, name)
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: `Character ${update.name} already exists in this series` }, { status: 409 });
+    }
+    if (error) {
+      console.error('Error updating series character:', error);
+      return NextResponse.json({ error: 'Failed to update character' }, { status: 500 });
+    }
+    if (!character) {
+      return NextResponse.json({ error: 'Character not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ character });
+  } catch (error) {
+    console.error('Error updating series character:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Удаление персонажа из реестра вместе с его отпечатками
+ * DELETE /api/series/[id]/characters?characterId=...
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const characterId = request.nextUrl.searchParams.get('characterId');
+
+    if (!characterId) {
+      return NextResponse.json({ error: 'Missing characterId' }, { status: 400 });
+    }
+
+    const access = await getOwnedSeries(id);
+    if (isSeriesAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { data: deleted, error } = await access.supabase
+      .from('series_characters')
+      .delete()
+      .eq('id', characterId)
+      .eq('series_id', id)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting series character:', error);
+      return NextResponse.json({ error: 'Failed to delete character' }, { status: 500 });
+    }
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Character not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting series character:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,183 @@
+import {
+  assignVideoToSeries,
+  getOwnedSeries,
+  isSeriesAccessError,
+  SeriesError,
+  setEpisodeNumbers,
+} from '@/lib/series';
+import type { EpisodeNumbers } from '@/lib/series';
+import { parseEpisodeNumber } from '@/lib/series-episodes';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * { seasonNumber, episodeNumber } из тела запроса; строка — текст ошибки
+ */
+function parseEpisodeNumbers(body: { seasonNumber?: unknown; episodeNumber?: unknown }): EpisodeNumbers | string {
+  const seasonNumber = parseEpisodeNumber(body.seasonNumber ?? null);
+  const episodeNumber = parseEpisodeNumber(body.episodeNumber ?? null);
+
+  if (seasonNumber === undefined || episodeNumber === undefined) {
+    return 'seasonNumber and episodeNumber must be positive integers';
+  }
+  if (seasonNumber !== null && episodeNumber === null) {
+    return 'episodeNumber is required when seasonNumber is set';
+  }
+  return { seasonNumber, episodeNumber };
+}
+
+/**
+ * Добавление видео в сериал
+ * POST /api/series/[id]/episodes
+ * Body: { videoId, seasonNumber?, episodeNumber? }
+ *
+ * Обработанная серия с подтверждённым маппингом сразу пополняет реестр персонажей.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { videoId } = body;
+
+    if (typeof videoId !== 'string' || !videoId) {
+      return NextResponse.json({ error: 'Missing videoId' }, { status: 400 });
+    }
+
+    const numbers = parseEpisodeNumbers(body);
+    if (typeof numbers === 'string') {
+      return NextResponse.json({ error: numbers }, { status: 400 });
+    }
+
+    const access = await getOwnedSeries(id);
+    if (isSeriesAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const video = await assignVideoToSeries(
+      access.supabase,
+      access.userId,
+      videoId,
+      id,
+      numbers.episodeNumber !== null ? numbers : undefined
+    );
+
+    return NextResponse.json({ video });
+  } catch (error) {
+    console.error('Error adding episode to series:', error);
+    if (error instanceof SeriesError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Номер сезона и серии (null — снять номер)
+ * PATCH /api/series/[id]/episodes
+ * Body: { videoId, seasonNumber, episodeNumber }
+ *
+ * Номер уникален в пределах сезона сериала — занятый даёт 409.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { videoId } = body;
+
+    if (typeof videoId !== 'string' || !videoId) {
+      return NextResponse.json({ error: 'Missing videoId' }, { status: 400 });
+    }
+
+    const numbers = parseEpisodeNumbers(body);
+    if (typeof numbers === 'string') {
+      return NextResponse.json({ error: numbers }, { status: 400 });
+    }
+
+    const access = await getOwnedSeries(id);
+    if (isSeriesAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { data: episode } = await access.supabase
+      .from('videos')
+      .select('id')
+      .eq('id', videoId)
+      .eq('series_id', id)
+      .maybeSingle();
+
+    if (!episode) {
+      return NextResponse.json({ error: 'Episode not found' }, { status: 404 });
+    }
+
+    const video = await setEpisodeNumbers(access.supabase, access.userId, videoId, numbers);
+
+    return NextResponse.json({ video });
+  } catch (error) {
+    console.error('Error numbering episode:', error);
+    if (error instanceof SeriesError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Видео больше не серия этого сериала; его вклад в реестр удаляется
+ * DELETE /api/series/[id]/episodes?videoId=...
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const videoId = request.nextUrl.searchParams.get('videoId');
+
+    if (!videoId) {
+      return NextResponse.json({ error: 'Missing videoId' }, { status: 400 });
+    }
+
+    const access = await getOwnedSeries(id);
+    if (isSeriesAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { data: episode } = await access.supabase
+      .from('videos')
+      .select('id')
+      .eq('id', videoId)
+      .eq('series_id', id)
+      .maybeSingle();
+
+    if (!episode) {
+      return NextResponse.json({ error: 'Episode not found' }, { status: 404 });
+    }
+
+    const video = await assignVideoToSeries(access.supabase, access.userId, videoId, null);
+
+    return NextResponse.json({ video });
+  } catch (error) {
+    console.error('Error removing episode from series:', error);
+    if (error instanceof SeriesError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import { getOwnedSeries, isSeriesAccessError } from '@/lib/series';
+import { compareEpisodes, formatEpisodeCode, inheritFilmMetadata } from '@/lib/series-episodes';
+import { renderMontageXlsx } from '@/lib/montage-xlsx';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import JSZip from 'jszip';
+import type { FilmMetadata, MontageEntry, Video } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+type ExportEpisode = Pick<Video, 'id' | 'original_filename' | 'season_number' | 'episode_number' | 'created_at'> & {
+  film_metadata_json: FilmMetadata | null;
+};
+
+/**
+ * Архив монтажных листов всех серий сериала (XLSX основного листа каждой серии)
+ * GET /api/series/[id]/export
+ *
+ * Серии без листа (ещё не обработаны) пропускаются. Метаданные фильма —
+ * с наследованием от сериала, как в /api/export.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await getOwnedSeries(id);
+    if (isSeriesAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { data: episodes, error: episodesError } = await access.supabase
+      .from('videos')
+      .select('id, original_filename, season_number, episode_number, created_at, film_metadata_json')
+      .eq('series_id', id);
+
+    if (episodesError) {
+      throw new Error(`Failed to fetch episodes: ${episodesError.message}`);
+    }
+
+    const ordered = ((episodes || []) as ExportEpisode[]).sort(compareEpisodes);
+
+    const { data: sheets, error: sheetsError } = ordered.length > 0
+      ? await access.supabase
+          .from('montage_sheets')
+          .select('id, video_id')
+          .in('video_id', ordered.map(e => e.id))
+          .eq('is_primary', true)
+      : { data: [], error: null };
+
+    if (sheetsError) {
+      throw new Error(`Failed to fetch montage sheets: ${sheetsError.message}`);
+    }
+
+    const sheetByVideo = new Map((sheets || []).map(sheet => [sheet.video_id, sheet.id]));
+    const zip = new JSZip();
+    let exported = 0;
+
+    // Записи — отдельным запросом на серию: лист может быть большим
+    for (const episode of ordered) {
+      const sheetId = sheetByVideo.get(episode.id);
+      if (!sheetId) continue;
+
+      const { data: entries, error: entriesError } = await access.supabase
+        .from('montage_entries')
+        .select('*')
+        .eq('sheet_id', sheetId)
+        .order('order_index', { ascending: true });
+
+      if (entriesError) {
+        throw new Error(`Failed to fetch entries for ${episode.id}: ${entriesError.message}`);
+      }
+
+      const buffer = renderMontageXlsx({
+        title: episode.original_filename || '',
+        filmMetadata: inheritFilmMetadata(episode.film_metadata_json, access.series.default_film_metadata),
+        entries: (entries || []) as MontageEntry[],
+      });
+
+      // Безопасные имена (только латиница, цифры): S01E02_montage_1a2b3c4d.xlsx
+      const code = formatEpisodeCode(episode);
+      zip.file(`${code ? `${code}_` : ''}montage_${episode.id.substring(0, 8)}.xlsx`, buffer);
+      exported++;
+    }
+
+    if (exported === 0) {
+      return NextResponse.json({ error: 'No processed episodes to export' }, { status: 404 });
+    }
+
+    const archive = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+    console.log(`📦 Exported ${exported} episode sheet(s) of series ${id}`);
+
+    return new NextResponse(new Uint8Array(archive), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="series_${id.substring(0, 8)}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error('Series export error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import {
+  getOwnedSeries,
+  getSeriesOverview,
+  isSeriesAccessError,
+  MAX_SERIES_TITLE_LENGTH,
+  sanitizeSeriesTitle,
+} from '@/lib/series';
+import { sanitizeFilmMetadata } from '@/lib/series-episodes';
+import { loadSeriesRegistry, summarizeRegistry } from '@/lib/series-registry';
+import type { FilmMetadata } from '@/types';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Сериал: серии по порядку с прогрессом обработки и реестр персонажей
+ * GET /api/series/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await getOwnedSeries(id);
+    if (isSeriesAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const [overview, registry] = await Promise.all([
+      getSeriesOverview(access.supabase, id),
+      loadSeriesRegistry(id, access.supabase),
+    ]);
+
+    return NextResponse.json({
+      series: access.series,
+      episodes: overview.episodes,
+      progress: overview.progress,
+      characters: summarizeRegistry(registry),
+    });
+  } catch (error) {
+    console.error('Error fetching series:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Переименование сериала и метаданные фильма по умолчанию
+ * PATCH /api/series/[id]
+ * Body: { title?, defaultFilmMetadata? }
+ *
+ * defaultFilmMetadata заменяется целиком; серии наследуют его непустые поля.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { title: rawTitle, defaultFilmMetadata: rawMetadata } = await request.json();
+
+    const updates: { title?: string; default_film_metadata?: FilmMetadata } = {};
+
+    if (rawTitle !== undefined) {
+      const title = sanitizeSeriesTitle(rawTitle);
+      if (!title) {
+        return NextResponse.json(
+          { error: `Series title is required (up to ${MAX_SERIES_TITLE_LENGTH} characters)` },
+          { status: 400 }
+        );
+      }
+      updates.title = title;
+    }
+
+    if (rawMetadata !== undefined) {
+      const metadata = sanitizeFilmMetadata(rawMetadata);
+      if (!metadata) {
+        return NextResponse.json({ error: 'defaultFilmMetadata must be an object' }, { status: 400 });
+      }
+      updates.default_film_metadata = metadata;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const access = await getOwnedSeries(id);
+    if (isSeriesAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { data: series, error } = await access.supabase
+      .from('series')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error || !series) {
+      console.error('Error updating series:', error);
+      return NextResponse.json({ error: 'Failed to update series' }, { status: 500 });
+    }
+
+    return NextResponse.json({ series });
+  } catch (error) {
+    console.error('Error updating series:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Удаление сериала вместе с реестром; серии остаются без сериала
+ * DELETE /api/series/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const access = await getOwnedSeries(id);
+    if (isSeriesAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { error } = await access.supabase
+      .from('series')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting series:', error);
+      return NextResponse.json({ error: 'Failed to delete series' }, { status: 500 });
+    }
+
+    console.log(`🗑️  Deleted series ${id}`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting series:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
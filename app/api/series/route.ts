@@ -0,0 +1,91 @@
+import { createClient } from '@/lib/supabase/server';
+import { MAX_SERIES_TITLE_LENGTH, sanitizeSeriesTitle } from '@/lib/series';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Сериалы пользователя
+ * GET /api/series
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: series, error } = await supabase
+      .from('series')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch series: ${error.message}`);
+    }
+
+    return NextResponse.json({ series: series || [] });
+  } catch (error) {
+    console.error('Error fetching series:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Новый сериал
+ * POST /api/series
+ * Body: { title }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { title: rawTitle } = await request.json();
+    const title = sanitizeSeriesTitle(rawTitle);
+    if (!title) {
+      return NextResponse.json(
+        { error: `Series title is required (up to ${MAX_SERIES_TITLE_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+
+    const { data: series, error } = await supabase
+      .from('series')
+      .insert({ user_id: user.id, title })
+      .select()
+      .single();
+
+    if (error || !series) {
+      console.error('Error creating series:', error);
+      return NextResponse.json({ error: 'Failed to create series' }, { status: 500 });
+    }
+
+    console.log(`📺 Created series "${title}" (${series.id})`);
+
+    return NextResponse.json({ series });
+  } catch (error) {
+    console.error('Error creating series:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { createClient } from '@/lib/supabase/server';
+import { createImportedSheet, numberImportedEntries } from '@/lib/sheet-versions';
+import { parseMontageFile, MontageImportError } from '@/lib/montage-import';
+import { loadVideoFps } from '@/lib/plan-operations';
+import { validateMontageEntries } from '@/lib/validate-montage';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+const MAX_IMPORT_FILE_SIZE = 20 * 1024 * 1024;
+const MAX_VERSION_NAME_LENGTH = 100;
+
+/**
+ * Импорт монтажного листа из файла как новой версии
+ * POST /api/sheet-versions/[videoId]/import
+ * FormData: file (.xlsx / .csv / .docx), name?
+ *
+ * Листу не нужен основной лист видео — можно загрузить человеческий лист
+ * до обработки. Результат validateMontageEntries возвращается, но импорт
+ * не блокирует: лист загружают как раз для того, чтобы его сверить и поправить.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: video, error: videoError } = await supabase
+      .from('videos')
+      .select('id')
+      .eq('id', videoId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (videoError || !video) {
+      return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      return NextResponse.json({ error: 'File is too large (max 20 MB)' }, { status: 400 });
+    }
+
+    const rawName = formData.get('name');
+    const name = (typeof rawName === 'string' && rawName.trim() ? rawName.trim() : `Импорт: ${file.name}`)
+      .slice(0, MAX_VERSION_NAME_LENGTH);
+
+    const parsed = await parseMontageFile(Buffer.from(await file.arrayBuffer()), file.name);
+
+    const fps = await loadVideoFps(supabase, videoId);
+    const validation = validateMontageEntries(numberImportedEntries(parsed.entries), fps);
+
+    const { sheet, entriesCount } = await createImportedSheet(supabase, {
+      videoId,
+      userId: user.id,
+      name,
+      title: file.name,
+      entries: parsed.entries,
+    });
+
+    return NextResponse.json({
+      sheet,
+      entriesCount,
+      format: parsed.format,
+      skippedRows: parsed.skippedRows,
+      renumbered: parsed.renumbered,
+      validation,
+    });
+  } catch (error) {
+    console.error('Error importing montage sheet:', error);
+    if (error instanceof MontageImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,179 @@
+import { getOwnedSheet, isSheetAccessError } from '@/lib/supabase/sheet-access';
+import { listSheetVersions, createSheetVersion } from '@/lib/sheet-versions';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_VERSION_NAME_LENGTH = 100;
+
+function sanitizeVersionName(name: unknown): string | null {
+  if (typeof name !== 'string') return null;
+  const trimmed = name.trim();
+  return trimmed && trimmed.length <= MAX_VERSION_NAME_LENGTH ? trimmed : null;
+}
+
+/**
+ * Список версий листа видео
+ * GET /api/sheet-versions/[videoId]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+
+    const access = await getOwnedSheet(videoId);
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const versions = await listSheetVersions(access.supabase, videoId);
+
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error('Error fetching sheet versions:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Новая версия — копия листа
+ * POST /api/sheet-versions/[videoId]
+ * Body: { name, fromSheetId? }  — без fromSheetId копируется основной лист
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const { name: rawName, fromSheetId = null } = await request.json();
+
+    const name = sanitizeVersionName(rawName);
+    if (!name) {
+      return NextResponse.json(
+        { error: `Version name is required (up to ${MAX_VERSION_NAME_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+
+    const access = await getOwnedSheet(videoId, fromSheetId);
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { sheet, entriesCount } = await createSheetVersion(access.supabase, {
+      videoId,
+      userId: access.userId,
+      sourceSheetId: access.sheetId,
+      name,
+    });
+
+    return NextResponse.json({ sheet, entriesCount });
+  } catch (error) {
+    console.error('Error creating sheet version:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Переименование версии
+ * PATCH /api/sheet-versions/[videoId]
+ * Body: { sheetId, name }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const { sheetId, name: rawName } = await request.json();
+
+    const name = sanitizeVersionName(rawName);
+    if (!sheetId || !name) {
+      return NextResponse.json({ error: 'Missing sheetId or name' }, { status: 400 });
+    }
+
+    const access = await getOwnedSheet(videoId, sheetId);
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { data: sheet, error } = await access.supabase
+      .from('montage_sheets')
+      .update({ version_name: name, updated_at: new Date().toISOString() })
+      .eq('id', access.sheetId)
+      .select()
+      .single();
+
+    if (error || !sheet) {
+      console.error('Error renaming sheet version:', error);
+      return NextResponse.json({ error: 'Failed to rename version' }, { status: 500 });
+    }
+
+    return NextResponse.json({ sheet });
+  } catch (error) {
+    console.error('Error renaming sheet version:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Удаление версии (основной лист удалить нельзя)
+ * DELETE /api/sheet-versions/[videoId]?sheetId=...
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ videoId: string }> }
+) {
+  try {
+    const { videoId } = await params;
+    const sheetId = request.nextUrl.searchParams.get('sheetId');
+
+    if (!sheetId) {
+      return NextResponse.json({ error: 'Missing sheetId' }, { status: 400 });
+    }
+
+    const access = await getOwnedSheet(videoId, sheetId);
+    if (isSheetAccessError(access)) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { data: deleted, error } = await access.supabase
+      .from('montage_sheets')
+      .delete()
+      .eq('id', access.sheetId)
+      .eq('is_primary', false)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting sheet version:', error);
+      return NextResponse.json({ error: 'Failed to delete version' }, { status: 500 });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'The primary sheet cannot be deleted' }, { status: 400 });
+    }
+
+    console.log(`🗑️  Deleted sheet version ${access.sheetId}`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting sheet version:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
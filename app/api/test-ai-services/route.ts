@@ -9,6 +9,7 @@ import { NextResponse } from 'next/server';
 import Replicate from 'replicate';
 import { fal } from '@fal-ai/client';
 import { getAllCircuitStats, resetAllCircuits } from '@/lib/circuit-breaker';
+import { getVideoProvider } from '@/lib/video-providers';
 
 export const dynamic = 'force-dynamic';
 
@@ -35,12 +36,12 @@ export async function GET(request: Request) {
   
   // Test Replicate (Gemini)
   const replicateStatus = await testReplicate();
-  replicateStatus.circuitState = circuitStats.find(s => s.name === 'gemini-replicate')?.state;
+  replicateStatus.circuitState = getVideoProvider('gemini-replicate').circuitBreaker.getState();
   results.push(replicateStatus);
   
   // Test FAL.ai
   const falStatus = await testFal();
-  falStatus.circuitState = circuitStats.find(s => s.name === 'fal-ai')?.state;
+  falStatus.circuitState = getVideoProvider('fal').circuitBreaker.getState();
   results.push(falStatus);
   
   // Summary
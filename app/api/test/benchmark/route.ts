@@ -0,0 +1,120 @@
+/**
+ * TEST: Бенчмарк — сгенерированный лист против эталонного
+ *
+ * POST /api/test/benchmark
+ * Body:
+ * {
+ *   videoId?: string,            // нужен для листов из БД и FPS видео
+ *   generatedSheetId?: string,   // по умолчанию — основной лист видео
+ *   referenceSheetId?: string,   // эталон, например импортированный человеческий лист
+ *   generated?: BenchmarkEntry[],  // или планы напрямую (без БД)
+ *   reference?: BenchmarkEntry[],
+ *   fps?: number,
+ *   toleranceFrames?: number,
+ *   speakerAliases?: { "ГАЛИНА": "ГАЛЯ" }
+ * }
+ *
+ * Возвращает метрики lib/montage-benchmark.ts — чтобы правки промптов
+ * prompts-v4/v5 и весов SpeakerCharacterMapper мерились цифрами, а не на глаз.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { scoreSheets } from '@/lib/montage-benchmark';
+import type { BenchmarkEntry } from '@/lib/montage-benchmark';
+import { getVideoFps } from '@/lib/video-chunking';
+
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      videoId,
+      generatedSheetId,
+      referenceSheetId,
+      generated: inlineGenerated,
+      reference: inlineReference,
+      fps: requestedFps,
+      toleranceFrames,
+      speakerAliases,
+    } = await request.json();
+
+    if (!inlineReference && !referenceSheetId) {
+      return NextResponse.json({ error: 'referenceSheetId or reference entries required' }, { status: 400 });
+    }
+    if ((!inlineGenerated || !requestedFps) && !videoId) {
+      return NextResponse.json({ error: 'videoId required (or generated entries with fps)' }, { status: 400 });
+    }
+    if (toleranceFrames !== undefined && (!Number.isInteger(toleranceFrames) || toleranceFrames < 0)) {
+      return NextResponse.json({ error: 'toleranceFrames must be a non-negative integer' }, { status: 400 });
+    }
+
+    const supabase = createServiceRoleClient();
+
+    let fps = Number(requestedFps) || 0;
+    if (videoId && !fps) {
+      const { data: video, error } = await supabase
+        .from('videos')
+        .select('chunk_progress_json')
+        .eq('id', videoId)
+        .single();
+
+      if (error || !video) {
+        return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+      }
+      fps = getVideoFps(video.chunk_progress_json);
+    }
+
+    const fetchSheetEntries = async (sheetId: string | null): Promise<BenchmarkEntry[] | null> => {
+      let query = supabase.from('montage_sheets').select('id').eq('video_id', videoId);
+      query = sheetId ? query.eq('id', sheetId) : query.eq('is_primary', true).order('created_at', { ascending: true });
+
+      const { data: sheet, error: sheetError } = await query.limit(1).maybeSingle();
+      if (sheetError) {
+        throw new Error(`Failed to fetch montage sheet: ${sheetError.message}`);
+      }
+      if (!sheet) return null;
+
+      const { data: entries, error: entriesError } = await supabase
+        .from('montage_entries')
+        .select('start_timecode, end_timecode, plan_type, description, dialogues')
+        .eq('sheet_id', sheet.id)
+        .order('order_index', { ascending: true });
+
+      if (entriesError) {
+        throw new Error(`Failed to fetch montage entries: ${entriesError.message}`);
+      }
+
+      return (entries || []) as BenchmarkEntry[];
+    };
+
+    const generated = inlineGenerated || await fetchSheetEntries(generatedSheetId || null);
+    const reference = inlineReference || await fetchSheetEntries(referenceSheetId);
+
+    if (!generated || !reference) {
+      return NextResponse.json({ error: 'Montage sheet not found' }, { status: 404 });
+    }
+
+    const startedAt = Date.now();
+    const report = scoreSheets(generated, reference, { fps, toleranceFrames, speakerAliases });
+
+    console.log(
+      `📏 Benchmark: boundaries F1 ${(report.boundaries.f1 * 100).toFixed(1)}%, ` +
+      `plan types ${(report.planTypes.accuracy * 100).toFixed(1)}%, ` +
+      `speakers ${(report.speakers.accuracy * 100).toFixed(1)}%, ` +
+      `WER ${(report.dialogue.wer * 100).toFixed(1)}% (${Date.now() - startedAt}ms)`
+    );
+
+    return NextResponse.json({
+      videoId: videoId || null,
+      generatedSheetId: generatedSheetId || null,
+      referenceSheetId: referenceSheetId || null,
+      fps,
+      report,
+    });
+  } catch (error) {
+    console.error('Error running benchmark:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
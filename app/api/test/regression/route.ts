@@ -0,0 +1,120 @@
+/**
+ * TEST: Регрессия пайплайна на записанных ответах провайдеров
+ *
+ * Сценарий (CI без сети):
+ * 1. Один раз: PROVIDER_FIXTURES=record, обработать тестовое видео как обычно
+ *    (init-processing-v5 → process-chunk-v5 → finalize-processing) — ответы
+ *    Gemini/FAL/AssemblyAI/face clustering и итоговый лист лягут в fixtures/providers
+ * 2. В CI: PROVIDER_FIXTURES=replay, та же обработка того же файла
+ * 3. POST /api/test/regression — сверка montage_entries с записанным листом
+ *
+ * Body:
+ * {
+ *   videoId: string,
+ *   fixtureVideoKey?: string,   // по умолчанию — из chunk_progress_json видео
+ *   toleranceFrames?: number    // для метрик scoreSheets
+ * }
+ *
+ * passed = листы совпадают план в план (diffSheets без изменений);
+ * report — метрики lib/montage-benchmark.ts, чтобы видеть масштаб расхождения.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { diffSheets } from '@/lib/sheet-versions';
+import { scoreSheets } from '@/lib/montage-benchmark';
+import { loadExpectedEntries } from '@/lib/provider-fixtures';
+import { getVideoFps } from '@/lib/video-chunking';
+import type { MontageEntry } from '@/types';
+
+type ExpectedEntry = Pick<
+  MontageEntry,
+  'plan_number' | 'start_timecode' | 'end_timecode' | 'plan_type' | 'description' | 'dialogues'
+>;
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const { videoId, fixtureVideoKey: requestedKey, toleranceFrames } = await request.json();
+
+  if (!videoId) {
+    return NextResponse.json({ error: 'videoId required' }, { status: 400 });
+  }
+
+  const supabase = createServiceRoleClient();
+
+  const { data: video, error: videoError } = await supabase
+    .from('videos')
+    .select('status, chunk_progress_json')
+    .eq('id', videoId)
+    .single();
+
+  if (videoError || !video) {
+    return NextResponse.json({ error: 'Video not found' }, { status: 404 });
+  }
+
+  const fixtureVideoKey = requestedKey || video.chunk_progress_json?.fixtureVideoKey;
+  if (!fixtureVideoKey) {
+    return NextResponse.json({ error: 'Video was not processed with PROVIDER_FIXTURES' }, { status: 400 });
+  }
+
+  const expected = loadExpectedEntries<ExpectedEntry>(fixtureVideoKey);
+  if (!expected) {
+    return NextResponse.json({ error: `No expected entries recorded for ${fixtureVideoKey}` }, { status: 404 });
+  }
+
+  const { data: sheet } = await supabase
+    .from('montage_sheets')
+    .select('id')
+    .eq('video_id', videoId)
+    .eq('is_primary', true)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (!sheet) {
+    return NextResponse.json({ error: 'Montage sheet not found' }, { status: 404 });
+  }
+
+  const { data: actual } = await supabase
+    .from('montage_entries')
+    .select('*')
+    .eq('sheet_id', sheet.id)
+    .order('order_index', { ascending: true });
+
+  const actualEntries = (actual || []) as MontageEntry[];
+
+  // Записанный лист без служебных полей — достраиваем до MontageEntry для diffSheets
+  const expectedEntries: MontageEntry[] = expected.map((entry, index) => ({
+    ...entry,
+    id: `expected-${index}`,
+    sheet_id: sheet.id,
+    order_index: index,
+    created_at: '',
+    updated_at: '',
+  }));
+
+  const diff = diffSheets(expectedEntries, actualEntries);
+  const report = scoreSheets(actualEntries, expectedEntries, {
+    fps: getVideoFps(video.chunk_progress_json),
+    toleranceFrames,
+  });
+
+  const passed = video.status === 'completed' && diff.stats.same === expectedEntries.length && diff.stats.added === 0;
+
+  console.log(
+    `🧪 Regression ${fixtureVideoKey}: ${passed ? 'PASSED' : 'FAILED'} — ` +
+    `${diff.stats.same} same, ${diff.stats.changed} changed, ${diff.stats.added} added, ${diff.stats.removed} removed`
+  );
+
+  return NextResponse.json({
+    videoId,
+    fixtureVideoKey,
+    status: video.status,
+    passed,
+    stats: diff.stats,
+    // Только расхождения — совпавшие планы в ответе не нужны
+    differences: diff.rows.filter(row => row.status !== 'same'),
+    report,
+  });
+}
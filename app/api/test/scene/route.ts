@@ -64,6 +64,7 @@ export async function GET(request: NextRequest) {
     .from('montage_sheets')
     .select('id')
     .eq('video_id', videoId)
+    .eq('is_primary', true)
     .limit(1);
     
   let generatedEntry = null;
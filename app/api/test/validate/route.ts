@@ -104,6 +104,7 @@ export async function POST(request: NextRequest) {
     .from('montage_sheets')
     .select('id')
     .eq('video_id', videoId)
+    .eq('is_primary', true)
     .limit(1);
     
   let generatedEntries: Record<number, { description: string; dialogues: string }> = {};
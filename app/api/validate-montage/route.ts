@@ -2,6 +2,7 @@ import { createServiceRoleClient } from '@/lib/supabase/server';
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { validateMontageEntries } from '@/lib/validate-montage';
+import { loadVideoFps } from '@/lib/plan-operations';
 
 export const maxDuration = 60;
 export const dynamic = 'force-dynamic';
@@ -31,6 +32,7 @@ export async function POST(request: NextRequest) {
       .from('montage_sheets')
       .select('*')
       .eq('video_id', videoId)
+      .eq('is_primary', true)
       .order('created_at', { ascending: true })
       .limit(1)
       .maybeSingle();
@@ -42,6 +44,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const fps = await loadVideoFps(supabase, videoId);
+
     // Get all entries
     const { data: entries, error: entriesError } = await supabase
       .from('montage_entries')
@@ -59,7 +63,7 @@ export async function POST(request: NextRequest) {
     console.log(`📊 Validating ${entries.length} entries...`);
 
     // Run validation
-    const validation = validateMontageEntries(entries);
+    const validation = validateMontageEntries(entries, fps);
 
     console.log(`\n📊 VALIDATION COMPLETE:`);
     console.log(`   Valid: ${validation.isValid}`);
@@ -1,4 +1,5 @@
 import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getVideoChunks, mergeChunkProgress } from '@/lib/supabase/chunk-status';
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 
@@ -9,21 +10,39 @@ export async function GET(
   try {
     const { videoId } = await params;
     const supabase = createServiceRoleClient();
-    
+
     const { data: video, error } = await supabase
       .from('videos')
       .select('id, status, chunk_progress_json')
       .eq('id', videoId)
       .single();
-    
+
     if (error || !video) {
       return NextResponse.json({ error: 'Video not found' }, { status: 404 });
     }
-    
+
+    // V5: статусы чанков — из video_chunks (completedChunks/totalChunks для клиента)
+    const chunks = await getVideoChunks(videoId, supabase);
+
     return NextResponse.json({
       id: video.id,
       status: video.status,
-      chunk_progress_json: video.chunk_progress_json,
+      chunk_progress_json: video.chunk_progress_json
+        ? mergeChunkProgress(video.chunk_progress_json, chunks)
+        : null,
+      chunks: chunks.map(chunk => ({
+        index: chunk.chunk_index,
+        status: chunk.status,
+        startTimecode: chunk.start_timecode,
+        endTimecode: chunk.end_timecode,
+        attempts: chunk.attempts,
+        provider: chunk.provider,
+        plansCreated: chunk.plans_created,
+        error: chunk.error,
+        startedAt: chunk.started_at,
+        completedAt: chunk.completed_at,
+        durationMs: chunk.duration_ms,
+      })),
     });
   } catch (error) {
     console.error('Error fetching video status:', error);
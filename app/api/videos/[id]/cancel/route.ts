@@ -0,0 +1,32 @@
+import { assertVideoOwner, stopProcessing, ProcessingControlError } from '@/lib/processing-control';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Отмена обработки: новые чанки не начинаются, начатые прерываются
+ * POST /api/videos/[id]/cancel
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    await assertVideoOwner(id);
+    const result = await stopProcessing(id, 'cancel');
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error cancelling processing:', error);
+    if (error instanceof ProcessingControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
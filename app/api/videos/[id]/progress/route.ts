@@ -0,0 +1,47 @@
+import { assertVideoOwner, ProcessingControlError } from '@/lib/processing-control';
+import { createProgressStream } from '@/lib/processing-progress';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Живой прогресс обработки (Server-Sent Events)
+ * GET /api/videos/[id]/progress?entries=1
+ *
+ * События: status, chunk, entries (только с entries=1), done — см.
+ * lib/processing-progress.ts. После done клиент закрывает EventSource.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    await assertVideoOwner(id);
+
+    const stream = createProgressStream(id, request.signal, {
+      includeEntries: request.nextUrl.searchParams.get('entries') === '1',
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        // nginx на VPS иначе буферизует поток
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    console.error('Error opening progress stream:', error);
+    if (error instanceof ProcessingControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { assertVideoOwner, resumeProcessing, ProcessingControlError } from '@/lib/processing-control';
+import { enqueueChunkJobs } from '@/lib/process-chunk-v5';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Продолжение обработки с первого незавершённого чанка
+ * POST /api/videos/[id]/resume
+ *
+ * Если пауза пришлась на init — init перезапускается (уже сохранённые
+ * диаризация и кластеры лиц берутся из video_artifacts). Если маппинг
+ * спикеров ещё ждёт проверки — чанки не запускаются до подтверждения.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    await assertVideoOwner(id);
+    const resumed = await resumeProcessing(id);
+
+    if (resumed.stage === 'mapping-review') {
+      return NextResponse.json({ success: true, stage: resumed.stage });
+    }
+
+    if (resumed.stage === 'chunks') {
+      const enqueued = await enqueueChunkJobs(id);
+      console.log(`   📥 ${enqueued} chunks queued`);
+
+      return NextResponse.json({ success: true, stage: resumed.stage, enqueued });
+    }
+
+    // Init идёт до 10 минут — не ждём ответа (как автозапуск из preprocess-audio)
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || `http://localhost:${process.env.PORT || 3000}`;
+
+    fetch(`${baseUrl}/api/init-processing-v5`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-internal-request': 'true',
+      },
+      body: JSON.stringify({ videoId: id, ...resumed.initRequest, resume: true }),
+    }).then(async (res) => {
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        console.error(`   ❌ init-processing-v5 resume failed:`, error);
+      }
+    }).catch((err) => {
+      console.error(`   ❌ init-processing-v5 resume trigger error:`, err.message);
+    });
+
+    return NextResponse.json({ success: true, stage: resumed.stage });
+  } catch (error) {
+    console.error('Error resuming processing:', error);
+    if (error instanceof ProcessingControlError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
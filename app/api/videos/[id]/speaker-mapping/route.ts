@@ -0,0 +1,68 @@
+import { assertVideoOwner, ProcessingControlError } from '@/lib/processing-control';
+import {
+  confirmSpeakerMapping,
+  getSpeakerMappingReview,
+  SpeakerMappingReviewError,
+} from '@/lib/speaker-mapping-review';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Обзор маппинга спикеров
+ * GET /api/videos/[id]/speaker-mapping
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    await assertVideoOwner(id);
+    return NextResponse.json(await getSpeakerMappingReview(id));
+  } catch (error) {
+    console.error('Error loading speaker mapping review:', error);
+    if (error instanceof ProcessingControlError || error instanceof SpeakerMappingReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Подтверждение маппинга и запуск анализа чанков
+ * POST /api/videos/[id]/speaker-mapping
+ * Body: { assignments: { [speakerId]: characterName | null } }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { assignments = {} } = await request.json();
+
+    if (typeof assignments !== 'object' || assignments === null || Array.isArray(assignments)) {
+      return NextResponse.json({ error: 'assignments must be an object' }, { status: 400 });
+    }
+
+    await assertVideoOwner(id);
+    const result = await confirmSpeakerMapping(id, assignments);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error confirming speaker mapping:', error);
+    if (error instanceof ProcessingControlError || error instanceof SpeakerMappingReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { createClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import { notFound } from 'next/navigation';
+import SheetDiffClient from '@/components/SheetDiffClient';
+import { diffSheets } from '@/lib/sheet-versions';
+import type { Video, MontageSheet, MontageEntry } from '@/types';
+
+interface PageProps {
+  params: Promise<{
+    videoId: string;
+  }>;
+  searchParams: Promise<{
+    from?: string;
+    to?: string;
+  }>;
+}
+
+export default async function SheetDiffPage({ params, searchParams }: PageProps) {
+  const { videoId } = await params;
+  const { from, to } = await searchParams;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/auth/login');
+  }
+
+  const { data: video, error: videoError } = await supabase
+    .from('videos')
+    .select('*')
+    .eq('id', videoId)
+    .eq('user_id', user.id)
+    .single();
+
+  if (videoError || !video) {
+    notFound();
+  }
+
+  const { data: sheets } = await supabase
+    .from('montage_sheets')
+    .select('*')
+    .eq('video_id', videoId)
+    .order('is_primary', { ascending: false })
+    .order('created_at', { ascending: true });
+
+  if (!sheets || sheets.length === 0) {
+    notFound();
+  }
+
+  // По умолчанию: основной лист против последней версии
+  const fromSheet = sheets.find((s) => s.id === from) || sheets[0];
+  const toSheet = sheets.find((s) => s.id === to) || sheets[sheets.length - 1];
+
+  const fetchEntries = async (sheetId: string) => {
+    const { data } = await supabase
+      .from('montage_entries')
+      .select('*')
+      .eq('sheet_id', sheetId)
+      .order('order_index', { ascending: true });
+    return (data as MontageEntry[]) || [];
+  };
+
+  const [fromEntries, toEntries] = await Promise.all([
+    fetchEntries(fromSheet.id),
+    fetchEntries(toSheet.id),
+  ]);
+
+  return (
+    <div className="min-h-screen bg-[#101010]">
+      <SheetDiffClient
+        video={video as Video}
+        sheets={sheets as MontageSheet[]}
+        fromSheet={fromSheet as MontageSheet}
+        toSheet={toSheet as MontageSheet}
+        diff={diffSheets(fromEntries, toEntries)}
+      />
+    </div>
+  );
+}
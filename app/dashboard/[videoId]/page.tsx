@@ -8,10 +8,14 @@ interface PageProps {
   params: Promise<{
     videoId: string;
   }>;
+  searchParams: Promise<{
+    version?: string;
+  }>;
 }
 
-export default async function MontagePage({ params }: PageProps) {
+export default async function MontagePage({ params, searchParams }: PageProps) {
   const { videoId } = await params;
+  const { version } = await searchParams;
   const supabase = await createClient();
 
   const {
@@ -34,14 +38,18 @@ export default async function MontagePage({ params }: PageProps) {
     notFound();
   }
 
-  // Fetch montage sheet (use maybeSingle to handle duplicates gracefully)
-  const { data: sheet, error: sheetError } = await supabase
+  // Fetch all sheet versions: primary first, then named versions by creation date
+  const { data: sheets, error: sheetError } = await supabase
     .from('montage_sheets')
     .select('*')
     .eq('video_id', videoId)
-    .order('created_at', { ascending: true })
-    .limit(1)
-    .maybeSingle();
+    .order('is_primary', { ascending: false })
+    .order('created_at', { ascending: true });
+
+  // ?version=<sheetId> selects a named version, otherwise the primary sheet
+  const sheet = (version && sheets?.find((s) => s.id === version))
+    || sheets?.find((s) => s.is_primary)
+    || null;
 
   // DEBUG: Log what we found
   console.log(`🔍 Video ${videoId} status: ${video.status}`);
@@ -90,6 +98,7 @@ export default async function MontagePage({ params }: PageProps) {
       <MontageTableClient
         video={video as Video}
         sheet={sheet as MontageSheet}
+        sheets={(sheets as MontageSheet[]) || []}
         entries={(entries as MontageEntry[]) || []}
         user={user}
         profile={profile}
@@ -0,0 +1,58 @@
+import { createClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import { notFound } from 'next/navigation';
+import SpeakerMappingReviewClient from '@/components/SpeakerMappingReviewClient';
+import { getSpeakerMappingReview, SpeakerMappingReviewError } from '@/lib/speaker-mapping-review';
+import type { Video } from '@/types';
+
+interface PageProps {
+  params: Promise<{
+    videoId: string;
+  }>;
+}
+
+export default async function SpeakerMappingPage({ params }: PageProps) {
+  const { videoId } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/auth/login');
+  }
+
+  const { data: video, error: videoError } = await supabase
+    .from('videos')
+    .select('*')
+    .eq('id', videoId)
+    .eq('user_id', user.id)
+    .single();
+
+  if (videoError || !video) {
+    notFound();
+  }
+
+  let data;
+  try {
+    data = await getSpeakerMappingReview(videoId);
+  } catch (error) {
+    // Видео обработано без проверки маппинга
+    if (error instanceof SpeakerMappingReviewError) {
+      notFound();
+    }
+    throw error;
+  }
+
+  return (
+    <div className="min-h-screen bg-[#101010]">
+      <SpeakerMappingReviewClient
+        video={video as Video}
+        review={data.review}
+        speakerCharacterMap={data.speakerCharacterMap}
+        awaitingReview={data.awaitingReview}
+      />
+    </div>
+  );
+}
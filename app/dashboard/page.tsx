@@ -1,7 +1,7 @@
 import { createClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
 import DashboardClient from '@/components/DashboardClient';
-import type { Video } from '@/types';
+import type { Series, Video } from '@/types';
 
 export default async function DashboardPage() {
   const supabase = await createClient();
@@ -25,6 +25,13 @@ export default async function DashboardPage() {
     chunk_progress: video.chunk_progress_json,
   })) as Video[];
 
+  // Сериалы — вкладка "Сериалы" и подписи серий на карточках
+  const { data: series } = await supabase
+    .from('series')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false });
+
   // Fetch user profile
   const { data: profile } = await supabase
     .from('profiles')
@@ -36,6 +43,7 @@ export default async function DashboardPage() {
     <div className="min-h-screen bg-[#101010]">
       <DashboardClient
         videos={mappedVideos}
+        series={(series || []) as Series[]}
         user={user}
         profile={profile}
       />
@@ -0,0 +1,48 @@
+import { redirect } from 'next/navigation';
+import { notFound } from 'next/navigation';
+import SeriesClient from '@/components/SeriesClient';
+import { getOwnedSeries, getSeriesOverview, isSeriesAccessError } from '@/lib/series';
+import { loadSeriesRegistry, summarizeRegistry } from '@/lib/series-registry';
+import type { Video } from '@/types';
+
+interface PageProps {
+  params: Promise<{
+    seriesId: string;
+  }>;
+}
+
+export default async function SeriesPage({ params }: PageProps) {
+  const { seriesId } = await params;
+
+  const access = await getOwnedSeries(seriesId);
+  if (isSeriesAccessError(access)) {
+    if (access.status === 401) {
+      redirect('/auth/login');
+    }
+    notFound();
+  }
+
+  const [overview, registry, { data: freeVideos }] = await Promise.all([
+    getSeriesOverview(access.supabase, seriesId),
+    loadSeriesRegistry(seriesId, access.supabase),
+    // Кандидаты в серии — видео без сериала
+    access.supabase
+      .from('videos')
+      .select('id, original_filename, created_at')
+      .eq('user_id', access.userId)
+      .is('series_id', null)
+      .order('created_at', { ascending: false }),
+  ]);
+
+  return (
+    <div className="min-h-screen bg-[#101010]">
+      <SeriesClient
+        series={access.series}
+        episodes={overview.episodes}
+        progress={overview.progress}
+        characters={summarizeRegistry(registry)}
+        freeVideos={(freeVideos || []) as Pick<Video, 'id' | 'original_filename' | 'created_at'>[]}
+      />
+    </div>
+  );
+}
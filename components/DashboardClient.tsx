@@ -3,10 +3,13 @@
 import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { DocumentCheckIcon, ArrowPathIcon, ExclamationCircleIcon } from '@heroicons/react/16/solid';
+import { DocumentCheckIcon, ArrowPathIcon, ExclamationCircleIcon, FilmIcon } from '@heroicons/react/16/solid';
 import { toast } from 'sonner';
 import { createClient } from '@/lib/supabase/client';
-import type { Video, Profile } from '@/types';
+import { describeProgress, subscribeToProgress } from '@/lib/processing-progress-client';
+import { formatEpisodeCode, getEpisodeProgress, summarizeSeriesProgress } from '@/lib/series-episodes';
+import type { ProgressStatusEvent } from '@/lib/processing-progress';
+import type { Video, Profile, Series } from '@/types';
 import type { User } from '@supabase/supabase-js';
 import TwoStepUploadModal from './TwoStepUploadModal';
 import UploadModalV3 from './UploadModalV3';
@@ -16,14 +19,16 @@ import Header from './Header';
 
 interface DashboardClientProps {
   videos: Video[];
+  series: Series[];
   user: User;
   profile: Profile | null;
 }
 
-type TabType = 'ready' | 'processing' | 'errors';
+type TabType = 'ready' | 'processing' | 'errors' | 'series';
 
 export default function DashboardClient({
   videos: initialVideos,
+  series,
   user,
   profile,
 }: DashboardClientProps) {
@@ -37,13 +42,19 @@ export default function DashboardClient({
   const [isV5ModalOpen, setIsV5ModalOpen] = useState(false);
   const [activeTab, setActiveTab] = useState<TabType>('ready');
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [controlId, setControlId] = useState<string | null>(null);
+  const [liveProgress, setLiveProgress] = useState<Record<string, ProgressStatusEvent>>({});
   const router = useRouter();
   const supabase = createClient();
   const previousVideosRef = useRef<Video[]>(initialVideos);
 
   // Separate videos by status
   const readyVideos = videos.filter((v) => v.status === 'completed');
+  // Остановленные (пауза/отмена) остаются в работе — их можно продолжить
   const processingVideos = videos.filter((v) =>
+    ['uploading', 'processing', 'paused', 'cancelled'].includes(v.status)
+  );
+  const activeVideos = processingVideos.filter((v) =>
     ['uploading', 'processing'].includes(v.status)
   );
   const errorVideos = videos.filter((v) => v.status === 'error');
@@ -55,6 +66,27 @@ export default function DashboardClient({
       ? processingVideos
       : errorVideos;
 
+  // Прогресс серий — из живого потока (чанки), готовые — 100%
+  const seriesTitles = new Map(series.map((s) => [s.id, s.title]));
+  const seriesCards = series.map((s) => ({
+    series: s,
+    progress: summarizeSeriesProgress(
+      videos
+        .filter((v) => v.series_id === s.id)
+        .map((v) => getEpisodeProgress(
+          { ...v, processing_step: liveProgress[v.id]?.step ?? v.processing_step },
+          {
+            total: liveProgress[v.id]?.totalChunks ?? 0,
+            completed: liveProgress[v.id]?.completedChunks ?? 0,
+          }
+        ))
+    ),
+  }));
+
+  // Init остановился на проверке спикеров — карточка ведёт на экран маппинга
+  const isAwaitingMappingReview = (video: Video) =>
+    (liveProgress[video.id]?.step ?? video.processing_step) === 'mapping-review';
+
   // Update videos state when initialVideos changes
   useEffect(() => {
     setVideos(initialVideos);
@@ -89,22 +121,27 @@ export default function DashboardClient({
     previousVideosRef.current = initialVideos;
   }, [initialVideos]);
 
-  // Poll for video status updates - продолжаем обновлять пока есть видео в обработке
+  // Живой прогресс — поток на каждое видео в работе (lib/processing-progress.ts)
+  const activeVideoIds = activeVideos.map((v) => v.id).join(',');
+
   useEffect(() => {
-    if (processingVideos.length === 0) return;
+    if (!activeVideoIds) return;
 
-    // Обновляем каждые 3 секунды
-    const interval = setInterval(() => {
-      router.refresh();
-    }, 3000);
+    const unsubscribers = activeVideoIds.split(',').map((videoId) =>
+      subscribeToProgress(videoId, {
+        status: (status) => setLiveProgress((prev) => ({ ...prev, [videoId]: status })),
+        // Обработка закончилась — перечитываем список (вкладки, тост о готовности)
+        done: () => router.refresh(),
+      })
+    );
 
-    return () => clearInterval(interval);
-  }, [processingVideos.length, router]);
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [activeVideoIds, router]);
 
   // Дополнительное обновление при монтировании компонента
   useEffect(() => {
     // Обновляем сразу при загрузке если есть видео в обработке
-    if (processingVideos.length > 0) {
+    if (activeVideos.length > 0) {
       router.refresh();
     }
   }, []);
@@ -133,6 +170,15 @@ export default function DashboardClient({
             </span>
           </div>
         );
+      case 'paused':
+      case 'cancelled':
+        return (
+          <div className="border border-[#7e7e7e] px-2.5 py-1 rounded-lg h-6 flex items-center justify-center">
+            <span className="text-xs font-medium text-[#9b9b9b] leading-none">
+              {status === 'paused' ? 'Пауза' : 'Отменено'}
+            </span>
+          </div>
+        );
       case 'error':
         return (
           <div className="border border-[#6f0606] px-2.5 py-1 rounded-lg h-6 flex items-center justify-center">
@@ -208,6 +254,66 @@ export default function DashboardClient({
     }
   };
 
+  // Пауза / отмена / продолжение обработки (lib/processing-control.ts)
+  const handleProcessingControl = async (
+    e: React.MouseEvent,
+    videoId: string,
+    action: 'pause' | 'cancel' | 'resume'
+  ) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (action === 'cancel' && !confirm('Отменить обработку? Продолжить её можно будет позже.')) {
+      return;
+    }
+
+    setControlId(videoId);
+
+    try {
+      const response = await fetch(`/api/videos/${videoId}/${action}`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+
+      toast.success(
+        action === 'pause' ? 'Обработка на паузе' :
+        action === 'cancel' ? 'Обработка отменена' :
+        'Обработка продолжена'
+      );
+      router.refresh();
+    } catch (error) {
+      console.error(`Error (${action}) processing:`, error);
+      toast.error(error instanceof Error ? error.message : 'Ошибка');
+    } finally {
+      setControlId(null);
+    }
+  };
+
+  const handleCreateSeries = async () => {
+    const title = prompt('Название сериала:');
+    if (!title?.trim()) return;
+
+    try {
+      const response = await fetch('/api/series', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+
+      router.push(`/dashboard/series/${data.series.id}`);
+    } catch (error) {
+      console.error('Error creating series:', error);
+      toast.error(error instanceof Error ? error.message : 'Ошибка');
+    }
+  };
+
   const handleUploadComplete = () => {
     setUploadModalState({ isOpen: false, isLongVideo: false });
     // Переключаем на таб "В работе" чтобы показать загруженное видео
@@ -344,9 +450,86 @@ export default function DashboardClient({
                 </div>
               </div>
             </button>
+
+            {/* Сериалы Tab */}
+            <button
+              onClick={() => setActiveTab('series')}
+              className={`flex items-end gap-2 px-0 py-2.5 ${
+                activeTab === 'series' ? 'border-b-2 border-white' : ''
+              }`}
+            >
+              <div className="flex items-center gap-2 px-2 py-1 rounded-md">
+                <FilmIcon className="w-4 h-4 text-[#9b9b9b]" />
+                <span className={`text-sm leading-5 ${activeTab === 'series' ? 'text-white font-medium' : 'text-white font-normal'}`}>
+                  Сериалы
+                </span>
+                <div className="h-[18px] px-1.5 bg-[#2c2c2c] rounded-sm flex items-center justify-center">
+                  <span className="text-white text-xs font-medium leading-5">
+                    {series.length}
+                  </span>
+                </div>
+              </div>
+            </button>
           </div>
 
-          {/* Video Grid */}
+          {/* Series Grid */}
+          {activeTab === 'series' ? (
+            <div className="pt-2 flex flex-col gap-5">
+              <div className="flex justify-end">
+                <button
+                  onClick={handleCreateSeries}
+                  className="h-9 px-3 bg-[#191919] border border-[#2e2e2e] rounded-lg flex items-center justify-center hover:bg-[#222] transition-colors"
+                >
+                  <span className="text-white text-sm font-medium leading-none">
+                    Новый сериал
+                  </span>
+                </button>
+              </div>
+              {seriesCards.length === 0 ? (
+                <div className="text-center py-16">
+                  <h3 className="text-lg font-medium text-white mb-2">
+                    Нет сериалов
+                  </h3>
+                  <p className="text-gray-400">
+                    Серии одного сериала делят персонажей и метаданные фильма
+                  </p>
+                </div>
+              ) : (
+                <div className="grid grid-cols-3 gap-5">
+                  {seriesCards.map(({ series: item, progress }) => (
+                    <Link
+                      key={item.id}
+                      href={`/dashboard/series/${item.id}`}
+                      className="bg-[#191919] rounded-2xl p-5 flex flex-col gap-4 hover:bg-[#1f1f1f] transition-colors overflow-hidden"
+                    >
+                      <p className="text-base font-semibold leading-6 text-white truncate">
+                        {item.title}
+                      </p>
+                      <div className="flex flex-col gap-2">
+                        <div className="flex justify-between text-xs text-[#9b9b9b]">
+                          <span>Готово {progress.completed} из {progress.total}</span>
+                          <span>{Math.round(progress.progress * 100)}%</span>
+                        </div>
+                        <div className="w-full bg-[#2a2a2a] rounded-full h-1.5">
+                          <div
+                            className="bg-[#3c6f06] h-1.5 rounded-full transition-all duration-300"
+                            style={{ width: `${Math.round(progress.progress * 100)}%` }}
+                          />
+                        </div>
+                      </div>
+                      <p className="text-xs font-normal leading-5 text-[#7e7e7e]">
+                        В работе: {progress.processing}
+                        {progress.awaitingReview > 0 && ` (проверка спикеров: ${progress.awaitingReview})`}
+                        {progress.stopped > 0 && ` • Остановлено: ${progress.stopped}`}
+                        {progress.errors > 0 && ` • Ошибки: ${progress.errors}`}
+                      </p>
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : (
+          /* Video Grid */
           <div className="pt-2">
             {displayVideos.length === 0 ? (
               <div className="text-center py-16">
@@ -387,12 +570,47 @@ export default function DashboardClient({
                 {displayVideos.map((video) => (
                   <Link
                     key={video.id}
-                    href={`/dashboard/${video.id}`}
+                    href={isAwaitingMappingReview(video)
+                      ? `/dashboard/${video.id}/speakers`
+                      : `/dashboard/${video.id}`}
                     className="bg-[#191919] rounded-2xl p-5 flex flex-col gap-5 hover:bg-[#1f1f1f] transition-colors overflow-hidden"
                   >
                     <div className="flex items-start justify-between">
                       {getStatusBadge(video.status)}
                       <div className="flex items-center gap-2">
+                        {video.status === 'processing' && (
+                          <button
+                            onClick={(e) => handleProcessingControl(e, video.id, 'pause')}
+                            disabled={controlId === video.id}
+                            className="bg-[#191919] border border-[#2e2e2e] rounded-lg h-8 px-2 flex items-center justify-center hover:bg-[#222] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            <span className="text-xs font-medium text-white leading-none">
+                              Пауза
+                            </span>
+                          </button>
+                        )}
+                        {(video.status === 'processing' || video.status === 'paused') && (
+                          <button
+                            onClick={(e) => handleProcessingControl(e, video.id, 'cancel')}
+                            disabled={controlId === video.id}
+                            className="bg-[#191919] border border-[#2e2e2e] rounded-lg h-8 px-2 flex items-center justify-center hover:bg-[#222] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            <span className="text-xs font-medium text-white leading-none">
+                              Отменить
+                            </span>
+                          </button>
+                        )}
+                        {(video.status === 'paused' || video.status === 'cancelled') && (
+                          <button
+                            onClick={(e) => handleProcessingControl(e, video.id, 'resume')}
+                            disabled={controlId === video.id}
+                            className="bg-[#191919] border border-[#2e2e2e] rounded-lg h-8 px-2 flex items-center justify-center hover:bg-[#222] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            <span className="text-xs font-medium text-white leading-none">
+                              Продолжить
+                            </span>
+                          </button>
+                        )}
                         <button 
                           onClick={(e) => handleDownload(e, video.id)}
                           disabled={video.status !== 'completed'}
@@ -424,15 +642,26 @@ export default function DashboardClient({
                       <p className="text-base font-semibold leading-6 text-white truncate">
                         {video.original_filename || 'Название фильма'}
                       </p>
+                      {video.series_id && seriesTitles.has(video.series_id) && (
+                        <p className="text-xs font-normal leading-5 text-[#9b9b9b] truncate">
+                          {[seriesTitles.get(video.series_id), formatEpisodeCode(video)].filter(Boolean).join(' • ')}
+                        </p>
+                      )}
                       <p className="text-xs font-normal leading-5 text-[#7e7e7e]">
                         {formatDate(video.created_at)}
                       </p>
+                      {liveProgress[video.id] && ['uploading', 'processing'].includes(video.status) && (
+                        <p className="text-xs font-normal leading-5 text-[#9b9b9b] truncate">
+                          {describeProgress(liveProgress[video.id])}
+                        </p>
+                      )}
                     </div>
                   </Link>
                 ))}
               </div>
             )}
           </div>
+          )}
         </div>
       </main>
 
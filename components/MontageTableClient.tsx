@@ -2,22 +2,38 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import Link from 'next/link';
-import { ArrowLeftIcon, ChevronDownIcon, ChevronUpDownIcon } from '@heroicons/react/16/solid';
+import Image from 'next/image';
+import { useRouter } from 'next/navigation';
+import { ArrowLeftIcon, ArrowPathIcon, ChevronDownIcon, ChevronUpDownIcon, PlusIcon, TrashIcon, ScissorsIcon, LinkIcon } from '@heroicons/react/16/solid';
+import { toast } from 'sonner';
 import type { Video, MontageSheet, MontageEntry, Profile } from '@/types';
 import type { User } from '@supabase/supabase-js';
+import type { EditableEntryField } from '@/lib/montage-editor';
+import { timecodeToFrames, framesToTimecode, getVideoFps } from '@/lib/video-chunking';
+import { getSheetLabel } from '@/lib/sheet-versions';
+import { findEntryIndexAtFrame, timecodeToSeekSeconds } from '@/lib/montage-player';
+import { describeProgress, mergeProgressEntries, subscribeToProgress } from '@/lib/processing-progress-client';
+import type { ProgressStatusEvent } from '@/lib/processing-progress';
 import Header from './Header';
+import RevisionHistoryPanel from './RevisionHistoryPanel';
+import VideoPlayerPanel from './VideoPlayerPanel';
 
 interface MontageTableClientProps {
   video: Video;
   sheet: MontageSheet;
+  sheets: MontageSheet[];
   entries: MontageEntry[];
   user: User;
   profile: Profile | null;
 }
 
+/** Опрос статуса задачи переобработки (5 секунд) */
+const REPROCESS_POLL_INTERVAL_MS = 5000;
+
 export default function MontageTableClient({
   video,
   sheet,
+  sheets,
   entries: initialEntries,
   user,
   profile,
@@ -26,63 +42,63 @@ export default function MontageTableClient({
   const [downloading, setDownloading] = useState(false);
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [renumbering, setRenumbering] = useState(false);
+  const [reassigning, setReassigning] = useState(false);
   const exportMenuRef = useRef<HTMLDivElement>(null);
   
-  // Live update state
+  // Inline editing state
+  const [editingCell, setEditingCell] = useState<{ entryId: string; field: EditableEntryField } | null>(null);
+  const [draftValue, setDraftValue] = useState('');
+  const [savingEntryId, setSavingEntryId] = useState<string | null>(null);
+  const [reprocessingEntryId, setReprocessingEntryId] = useState<string | null>(null);
+
+  // Версии листа: API-вызовы получают ?sheetId=, основной лист — без параметра
+  const router = useRouter();
+  const [creatingVersion, setCreatingVersion] = useState(false);
+  const [importingSheet, setImportingSheet] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const withSheet = (url: string) =>
+    sheet.is_primary ? url : `${url}${url.includes('?') ? '&' : '?'}sheetId=${sheet.id}`;
+
+  // Плеер: активный план подсвечивается и прокручивается в видимую область,
+  // выбранный кликом план получает mark in / mark out
+  const [showPlayer, setShowPlayer] = useState(false);
+  const [activeEntryId, setActiveEntryId] = useState<string | null>(null);
+  const [selectedEntryId, setSelectedEntryId] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const rowRefs = useRef(new Map<string, HTMLDivElement>());
+
+  // Миниатюры планов (кадр из середины плана)
+  const [showThumbnails, setShowThumbnails] = useState(false);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [generatingThumbnails, setGeneratingThumbnails] = useState(false);
+  const syncingThumbnailsRef = useRef(false);
+
+  // История изменений
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  
+  // Live update state — поток /api/videos/[id]/progress (lib/processing-progress.ts)
   const [entries, setEntries] = useState<MontageEntry[]>(initialEntries);
   const [isProcessing, setIsProcessing] = useState(video.status === 'processing');
-  const [progress, setProgress] = useState({ completed: 0, total: 0 });
-  
-  // Fetch latest entries and progress
-  const fetchLatestData = useCallback(async () => {
-    try {
-      // Fetch video status and progress
-      const videoRes = await fetch(`/api/video-status/${video.id}`);
-      if (videoRes.ok) {
-        const videoData = await videoRes.json();
-        setIsProcessing(videoData.status === 'processing');
-        if (videoData.chunk_progress_json) {
-          setProgress({
-            completed: videoData.chunk_progress_json.completedChunks || 0,
-            total: videoData.chunk_progress_json.totalChunks || 0,
-          });
-        }
-        
-        // If completed, stop polling
-        if (videoData.status !== 'processing') {
-          return false; // Stop polling
-        }
-      }
-      
-      // Fetch latest entries
-      const entriesRes = await fetch(`/api/montage-entries/${video.id}`);
-      if (entriesRes.ok) {
-        const entriesData = await entriesRes.json();
-        if (entriesData.entries && entriesData.entries.length > entries.length) {
-          setEntries(entriesData.entries);
-        }
-      }
-      
-      return true; // Continue polling
-    } catch (error) {
-      console.error('Error fetching latest data:', error);
-      return true; // Continue polling on error
-    }
-  }, [video.id, entries.length]);
+  const [liveStatus, setLiveStatus] = useState<ProgressStatusEvent | null>(null);
+  const progress = {
+    completed: liveStatus?.completedChunks || 0,
+    total: liveStatus?.totalChunks || 0,
+  };
   
-  // Poll for updates while processing
   useEffect(() => {
     if (!isProcessing) return;
     
-    const pollInterval = setInterval(async () => {
-      const shouldContinue = await fetchLatestData();
-      if (!shouldContinue) {
-        clearInterval(pollInterval);
-      }
-    }, 5000); // Poll every 5 seconds
-    
-    return () => clearInterval(pollInterval);
-  }, [isProcessing, fetchLatestData]);
+    // Пайплайн пишет только в основной лист — планы версий не подписываем
+    return subscribeToProgress(video.id, {
+      status: (status) => {
+        setLiveStatus(status);
+        setIsProcessing(status.status === 'processing');
+      },
+      entries: ({ entries: updated }) => setEntries(prev => mergeProgressEntries(prev, updated)),
+      done: () => setIsProcessing(false),
+    }, { entries: sheet.is_primary });
+  }, [isProcessing, video.id, sheet.is_primary]);
 
   // Close export menu when clicking outside
   useEffect(() => {
@@ -125,7 +141,7 @@ export default function MontageTableClient({
     setDownloading(true);
     setShowExportMenu(false);
     try {
-      const response = await fetch(`/api/export/${video.id}`);
+      const response = await fetch(withSheet(`/api/export/${video.id}`));
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -142,11 +158,11 @@ export default function MontageTableClient({
     }
   };
 
-  const handleDownloadDoc = async () => {
+  const handleDownloadDoc = async (withThumbnails = false) => {
     setDownloading(true);
     setShowExportMenu(false);
     try {
-      const response = await fetch(`/api/export-doc/${video.id}`);
+      const response = await fetch(withSheet(`/api/export-doc/${video.id}${withThumbnails ? '?thumbnails=1' : ''}`));
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -163,6 +179,69 @@ export default function MontageTableClient({
     }
   };
 
+  const handleDownloadPdf = async (withThumbnails = false) => {
+    setDownloading(true);
+    setShowExportMenu(false);
+    try {
+      const response = await fetch(withSheet(`/api/export-pdf/${video.id}${withThumbnails ? '?thumbnails=1' : ''}`));
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `montage_${video.id.substring(0, 8)}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Error downloading PDF:', error);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleDownloadSubtitles = async (format: 'srt' | 'vtt' | 'ass') => {
+    setDownloading(true);
+    setShowExportMenu(false);
+    try {
+      const response = await fetch(withSheet(`/api/export-subtitles/${video.id}?format=${format}`));
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `montage_${video.id.substring(0, 8)}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Error downloading subtitles:', error);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleDownloadNle = async (format: 'edl' | 'fcpxml' | 'xmeml') => {
+    setDownloading(true);
+    setShowExportMenu(false);
+    try {
+      const response = await fetch(withSheet(`/api/export-nle/${video.id}?format=${format}`));
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `montage_${video.id.substring(0, 8)}.${format === 'xmeml' ? 'xml' : format}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Error downloading NLE export:', error);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
   const handleRenumber = async () => {
     if (!confirm('Перенумеровать планы? Все планы будут пронумерованы заново от 1 до ' + entries.length)) {
       return;
@@ -173,7 +252,7 @@ export default function MontageTableClient({
       const response = await fetch('/api/renumber-plans', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ videoId: video.id }),
+        body: JSON.stringify({ videoId: video.id, sheetId: sheet.id }),
       });
 
       const result = await response.json();
@@ -192,6 +271,552 @@ export default function MontageTableClient({
     }
   };
 
+  const postSpeakerOperation = async (url: string, body: Record<string, unknown>, errorTitle: string) => {
+    setReassigning(true);
+    try {
+      const response = await fetch(withSheet(url), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(errorTitle, { description: result.error });
+        return null;
+      }
+
+      setEntries(result.entries);
+      setHistoryVersion((v) => v + 1);
+      return result;
+    } catch (error) {
+      console.error(`${errorTitle}:`, error);
+      toast.error(errorTitle);
+      return null;
+    } finally {
+      setReassigning(false);
+    }
+  };
+
+  const handleUndoReassign = async (batchId: string) => {
+    const result = await postSpeakerOperation(
+      `/api/montage-entries/${video.id}/reassign-speaker/undo`,
+      { batchId },
+      'Не удалось отменить переназначение'
+    );
+
+    if (result) {
+      toast.success(`Возвращено планов: ${result.revertedEntries}`, {
+        description: result.skippedEntries > 0 ? `Изменены после переназначения и не тронуты: ${result.skippedEntries}` : undefined,
+      });
+    }
+  };
+
+  const handleReassignSpeaker = async () => {
+    const fromName = prompt('Кого переименовать во всём листе? Имя персонажа или ID спикера без имени (A, B, ...):');
+    if (!fromName?.trim()) return;
+
+    const toName = prompt(`Новое имя для ${fromName.trim().toUpperCase()}:`);
+    if (!toName?.trim()) return;
+
+    cancelEdit();
+    const result = await postSpeakerOperation(
+      `/api/montage-entries/${video.id}/reassign-speaker`,
+      { fromName, toName },
+      'Не удалось переназначить спикера'
+    );
+
+    if (result) {
+      toast.success(`${result.fromName} → ${result.toName}: реплик ${result.changedBlocks} в планах ${result.changedEntries}`, {
+        action: { label: 'Отменить', onClick: () => handleUndoReassign(result.batchId) },
+      });
+    }
+  };
+
+  // Во время обработки чанки пишут планы по plan_number — ручные правки основного листа запрещены
+  const canEdit = !isProcessing || !sheet.is_primary;
+
+  // Загружает ссылки на миниатюры и догенерирует недостающие пачками
+  const thumbnailsUrl = withSheet(`/api/montage-entries/${video.id}/thumbnails`);
+  const syncThumbnails = useCallback(async () => {
+    if (syncingThumbnailsRef.current) return;
+    syncingThumbnailsRef.current = true;
+
+    try {
+      const response = await fetch(thumbnailsUrl);
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error('Не удалось загрузить кадры', { description: result.error });
+        return;
+      }
+
+      setThumbnails(result.thumbnails);
+      if (result.missing === 0 || !canEdit) return;
+
+      setGeneratingThumbnails(true);
+      // Кадры, которые ffmpeg не смог извлечь, — следующие пачки их пропускают
+      const failedFrames: number[] = [];
+      let remaining = result.missing;
+      while (remaining > 0) {
+        const generationResponse = await fetch(thumbnailsUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ skipFrames: failedFrames }),
+        });
+        const generation = await generationResponse.json();
+
+        if (!generationResponse.ok) {
+          toast.error('Не удалось извлечь кадры', { description: generation.error });
+          break;
+        }
+
+        setThumbnails(generation.thumbnails);
+        failedFrames.push(...generation.failedFrames);
+        remaining = generation.remaining;
+      }
+
+      if (failedFrames.length > 0) {
+        toast.error(`Не удалось извлечь кадров: ${failedFrames.length}`);
+      }
+    } catch (error) {
+      console.error('Error syncing thumbnails:', error);
+    } finally {
+      syncingThumbnailsRef.current = false;
+      setGeneratingThumbnails(false);
+    }
+  }, [thumbnailsUrl, canEdit]);
+
+  // Правки таймкодов меняют середину плана — после каждой операции досинхронизируем
+  useEffect(() => {
+    if (showThumbnails) syncThumbnails();
+  }, [showThumbnails, syncThumbnails, historyVersion]);
+
+  const versionHref = (sheetId: string) => {
+    const target = sheets.find((s) => s.id === sheetId);
+    return target?.is_primary ? `/dashboard/${video.id}` : `/dashboard/${video.id}?version=${sheetId}`;
+  };
+
+  const handleCreateVersion = async () => {
+    const name = prompt(`Название новой версии (копия «${getSheetLabel(sheet)}»):`, `Редактура ${sheets.length}`);
+    if (!name?.trim()) return;
+
+    setCreatingVersion(true);
+    try {
+      const response = await fetch(`/api/sheet-versions/${video.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), fromSheetId: sheet.id }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error('Не удалось создать версию', { description: result.error });
+        return;
+      }
+
+      toast.success(`Версия «${result.sheet.version_name}» создана`);
+      router.push(`/dashboard/${video.id}?version=${result.sheet.id}`);
+      router.refresh();
+    } catch (error) {
+      console.error('Error creating version:', error);
+      toast.error('Не удалось создать версию');
+    } finally {
+      setCreatingVersion(false);
+    }
+  };
+
+  const handleImportSheet = async (file: File) => {
+    setImportingSheet(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch(`/api/sheet-versions/${video.id}/import`, {
+        method: 'POST',
+        body: formData,
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error('Не удалось импортировать лист', { description: result.error });
+        return;
+      }
+
+      const notes = [
+        result.skippedRows > 0 ? `пропущено строк: ${result.skippedRows}` : null,
+        result.renumbered ? 'планы пронумерованы заново' : null,
+        result.validation?.errors?.length > 0 ? `ошибок проверки: ${result.validation.errors.length}` : null,
+      ].filter(Boolean);
+
+      toast.success(`Импортировано планов: ${result.entriesCount}`, {
+        description: notes.length > 0 ? notes.join(', ') : undefined,
+      });
+      router.push(`/dashboard/${video.id}?version=${result.sheet.id}`);
+      router.refresh();
+    } catch (error) {
+      console.error('Error importing sheet:', error);
+      toast.error('Не удалось импортировать лист');
+    } finally {
+      setImportingSheet(false);
+      if (importInputRef.current) importInputRef.current.value = '';
+    }
+  };
+
+  const handleDeleteVersion = async () => {
+    if (!confirm(`Удалить версию «${getSheetLabel(sheet)}»? Это действие нельзя отменить.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `/api/sheet-versions/${video.id}?sheetId=${encodeURIComponent(sheet.id)}`,
+        { method: 'DELETE' }
+      );
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error('Не удалось удалить версию', { description: result.error });
+        return;
+      }
+
+      router.push(`/dashboard/${video.id}`);
+      router.refresh();
+    } catch (error) {
+      console.error('Error deleting version:', error);
+      toast.error('Не удалось удалить версию');
+    }
+  };
+
+  const startEdit = (entry: MontageEntry, field: EditableEntryField) => {
+    if (!canEdit || savingEntryId) return;
+    setEditingCell({ entryId: entry.id, field });
+    setDraftValue(entry[field] || '');
+  };
+
+  const cancelEdit = () => {
+    setEditingCell(null);
+    setDraftValue('');
+  };
+
+  const saveEdit = async () => {
+    if (!editingCell) return;
+
+    const { entryId, field } = editingCell;
+    const entry = entries.find((e) => e.id === entryId);
+    const value = field === 'start_timecode' || field === 'end_timecode' ? draftValue.trim() : draftValue;
+
+    if (!entry || (entry[field] || '') === value) {
+      cancelEdit();
+      return;
+    }
+
+    setSavingEntryId(entryId);
+    try {
+      const response = await fetch(withSheet(`/api/montage-entries/${video.id}`), {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entryId, changes: { [field]: value } }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error('Не удалось сохранить план', { description: result.error });
+        return;
+      }
+
+      setEntries((prev) => prev.map((e) => (e.id === entryId ? result.entry : e)));
+      setHistoryVersion((v) => v + 1);
+      cancelEdit();
+    } catch (error) {
+      console.error('Error saving entry:', error);
+      toast.error('Не удалось сохранить план');
+    } finally {
+      setSavingEntryId(null);
+    }
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>, multiline: boolean) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      cancelEdit();
+    } else if (e.key === 'Enter' && (!multiline || e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      saveEdit();
+    }
+  };
+
+  const videoFps = getVideoFps(video.chunk_progress_json);
+
+  const handlePlayerFrame = useCallback((frame: number) => {
+    const index = findEntryIndexAtFrame(entries, frame, videoFps);
+    setActiveEntryId(index === -1 ? null : entries[index].id);
+  }, [entries, videoFps]);
+
+  // Во время воспроизведения держим текущий план в видимой области
+  useEffect(() => {
+    if (!activeEntryId || videoRef.current?.paused !== false) return;
+    rowRefs.current.get(activeEntryId)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [activeEntryId]);
+
+  const handleRowClick = (entry: MontageEntry, e: React.MouseEvent) => {
+    if (!showPlayer || !videoRef.current) return;
+    if ((e.target as HTMLElement).closest('button, input, textarea')) return;
+    setSelectedEntryId(entry.id);
+    videoRef.current.currentTime = timecodeToSeekSeconds(entry.start_timecode, videoFps);
+  };
+
+  /** Середина плана с точностью до кадра — подсказка для разрезки и вставки */
+  const getMidTimecode = (entry: MontageEntry) => {
+    const startFrame = timecodeToFrames(entry.start_timecode, videoFps);
+    const endFrame = timecodeToFrames(entry.end_timecode, videoFps);
+    return framesToTimecode(Math.floor((startFrame + endFrame) / 2), videoFps);
+  };
+
+  /** Общий вызов операций над планами, возвращающих весь лист */
+  const runEntriesOperation = async (
+    entry: MontageEntry,
+    url: string,
+    body: Record<string, unknown>,
+    errorTitle: string
+  ) => {
+    setSavingEntryId(entry.id);
+    try {
+      const response = await fetch(withSheet(url), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(errorTitle, { description: result.error });
+        return null;
+      }
+
+      setEntries(result.entries);
+      setHistoryVersion((v) => v + 1);
+      cancelEdit();
+      return result;
+    } catch (error) {
+      console.error(`${errorTitle}:`, error);
+      toast.error(errorTitle);
+      return null;
+    } finally {
+      setSavingEntryId(null);
+    }
+  };
+
+  const handleInsertInto = async (entry: MontageEntry) => {
+    const range = prompt(
+      `Диапазон нового плана внутри плана ${entry.plan_number} (${entry.start_timecode} – ${entry.end_timecode}):`,
+      `${getMidTimecode(entry)}-${entry.end_timecode}`
+    );
+    if (!range) return;
+
+    const [startTimecode, endTimecode] = range.split('-').map((tc) => tc.trim());
+    const result = await runEntriesOperation(
+      entry,
+      `/api/montage-entries/${video.id}`,
+      { entry: { start_timecode: startTimecode, end_timecode: endTimecode } },
+      'Не удалось добавить план'
+    );
+
+    if (result?.entry) {
+      setEditingCell({ entryId: result.entry.id, field: 'description' });
+      setDraftValue('');
+    }
+  };
+
+  const handleSplitEntry = async (entry: MontageEntry) => {
+    const atTimecode = prompt(
+      `Разрезать план ${entry.plan_number} (${entry.start_timecode} – ${entry.end_timecode}) на таймкоде:`,
+      getMidTimecode(entry)
+    );
+    if (!atTimecode) return;
+
+    await runEntriesOperation(
+      entry,
+      `/api/montage-entries/${video.id}/split`,
+      { entryId: entry.id, atTimecode: atTimecode.trim() },
+      'Не удалось разрезать план'
+    );
+  };
+
+  const handleMergeWithNext = async (entry: MontageEntry, next: MontageEntry) => {
+    if (!confirm(`Склеить планы ${entry.plan_number} и ${next.plan_number}?`)) {
+      return;
+    }
+
+    await runEntriesOperation(
+      entry,
+      `/api/montage-entries/${video.id}/merge`,
+      { entryIds: [entry.id, next.id] },
+      'Не удалось склеить планы'
+    );
+  };
+
+  /**
+   * Переобработка диапазона: задача уходит в очередь, анализ идёт минуты —
+   * опрашиваем её статус и показываем итог (или почему лист не изменился)
+   */
+  const handleReprocessEntry = async (entry: MontageEntry) => {
+    const range = prompt(
+      'Переобработать диапазон (задетые планы будут заменены целиком):',
+      `${entry.start_timecode}-${entry.end_timecode}`
+    );
+    if (!range) return;
+
+    const [startTimecode, endTimecode] = range.split('-').map((tc) => tc.trim());
+    const reprocessUrl = `/api/montage-entries/${video.id}/reprocess`;
+
+    setReprocessingEntryId(entry.id);
+    try {
+      const response = await fetch(withSheet(reprocessUrl), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ startTimecode, endTimecode }),
+      });
+      const queued = await response.json();
+
+      if (!response.ok) {
+        toast.error('Не удалось запустить переобработку', { description: queued.error });
+        return;
+      }
+      toast.info(`Переобработка ${queued.startTimecode} – ${queued.endTimecode} поставлена в очередь`);
+
+      for (;;) {
+        await new Promise((resolve) => setTimeout(resolve, REPROCESS_POLL_INTERVAL_MS));
+
+        const statusResponse = await fetch(withSheet(`${reprocessUrl}?jobId=${encodeURIComponent(queued.jobId)}`));
+        const status = await statusResponse.json();
+
+        if (!statusResponse.ok) {
+          toast.error('Не удалось узнать статус переобработки', { description: status.error });
+          return;
+        }
+
+        const { job } = status;
+        if (job.status === 'completed') {
+          const entriesResponse = await fetch(withSheet(`/api/montage-entries/${video.id}`));
+          if (entriesResponse.ok) {
+            setEntries((await entriesResponse.json()).entries);
+          }
+          setHistoryVersion((v) => v + 1);
+          toast.success('Диапазон переобработан', {
+            description: `Планов: ${job.result.replacedPlans} → ${job.result.createdPlans}`,
+          });
+          return;
+        }
+        if (job.status === 'dead' || job.status === 'cancelled') {
+          toast.error('Переобработка не удалась, лист не изменён', { description: job.error ?? undefined });
+          return;
+        }
+      }
+    } catch (error) {
+      console.error('Error reprocessing range:', error);
+      toast.error('Не удалось переобработать диапазон');
+    } finally {
+      setReprocessingEntryId(null);
+    }
+  };
+
+  const markTarget =
+    entries.find((e) => e.id === selectedEntryId) ?? entries.find((e) => e.id === activeEntryId);
+
+  /** Mark in / mark out: соседний план подтягивается на сервере, лист остаётся встык */
+  const handleMark = async (edge: 'start' | 'end', timecode: string) => {
+    if (!markTarget) {
+      toast.error('Выберите план в таблице');
+      return;
+    }
+
+    const result = await runEntriesOperation(
+      markTarget,
+      `/api/montage-entries/${video.id}/trim`,
+      { entryId: markTarget.id, edge, timecode },
+      edge === 'start' ? 'Не удалось задать начало плана' : 'Не удалось задать конец плана'
+    );
+
+    if (result) {
+      toast.success(`План ${markTarget.plan_number}: ${edge === 'start' ? 'начало' : 'конец'} ${timecode}`);
+    }
+  };
+
+  const handleDeleteEntry = async (entry: MontageEntry) => {
+    if (!confirm(`Удалить план ${entry.plan_number}? Остальные планы будут перенумерованы.`)) {
+      return;
+    }
+
+    setSavingEntryId(entry.id);
+    try {
+      const response = await fetch(
+        withSheet(`/api/montage-entries/${video.id}?entryId=${encodeURIComponent(entry.id)}`),
+        { method: 'DELETE' }
+      );
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error('Не удалось удалить план', { description: result.error });
+        return;
+      }
+
+      setEntries(result.entries);
+      setHistoryVersion((v) => v + 1);
+      if (editingCell?.entryId === entry.id) cancelEdit();
+    } catch (error) {
+      console.error('Error deleting entry:', error);
+      toast.error('Не удалось удалить план');
+    } finally {
+      setSavingEntryId(null);
+    }
+  };
+
+  const renderEditableCell = (
+    entry: MontageEntry,
+    field: EditableEntryField,
+    options: { multiline?: boolean; clamp?: boolean; placeholder?: string } = {}
+  ) => {
+    const isEditing = editingCell?.entryId === entry.id && editingCell.field === field;
+    const value = entry[field];
+
+    if (isEditing) {
+      return options.multiline ? (
+        <textarea
+          autoFocus
+          value={draftValue}
+          onChange={(e) => setDraftValue(e.target.value)}
+          onBlur={saveEdit}
+          onKeyDown={(e) => handleEditKeyDown(e, true)}
+          disabled={savingEntryId === entry.id}
+          rows={Math.max(3, draftValue.split('\n').length)}
+          className="w-full bg-[#1a1a1a] border border-[#3e3e3e] rounded-md px-2 py-1 text-white text-sm leading-normal outline-none focus:border-[#5a5a5a] resize-y"
+        />
+      ) : (
+        <input
+          autoFocus
+          value={draftValue}
+          onChange={(e) => setDraftValue(e.target.value)}
+          onBlur={saveEdit}
+          onKeyDown={(e) => handleEditKeyDown(e, false)}
+          disabled={savingEntryId === entry.id}
+          placeholder={options.placeholder}
+          className="w-full bg-[#1a1a1a] border border-[#3e3e3e] rounded-md px-1 py-0.5 text-white text-sm leading-normal outline-none focus:border-[#5a5a5a]"
+        />
+      );
+    }
+
+    return (
+      <div
+        onClick={() => startEdit(entry, field)}
+        className={`text-white text-sm font-normal leading-normal w-full ${options.clamp ? 'line-clamp-1' : ''} ${canEdit ? 'cursor-text hover:bg-[#1a1a1a] rounded-sm' : ''}`}
+        title={canEdit ? 'Нажмите, чтобы редактировать' : undefined}
+      >
+        {value || '—'}
+      </div>
+    );
+  };
+
   return (
     <div className="flex-1">
       {/* Header */}
@@ -229,6 +854,39 @@ export default function MontageTableClient({
               </h1>
               
               <div className="flex gap-3 shrink-0">
+                {/* Player Button */}
+                <button
+                  onClick={() => setShowPlayer(!showPlayer)}
+                  className={`h-10 px-4 py-2.5 rounded-lg transition-colors flex items-center justify-center gap-2 ${showPlayer ? 'bg-[#3e3e3e]' : 'bg-[#2a2a2a] hover:bg-[#3e3e3e]'}`}
+                  title="Плеер, синхронизированный с таблицей"
+                >
+                  <span className="text-white text-sm font-medium leading-none tracking-[-0.3962px]">
+                    Плеер
+                  </span>
+                </button>
+
+                {/* Thumbnails Button */}
+                <button
+                  onClick={() => setShowThumbnails(!showThumbnails)}
+                  className={`h-10 px-4 py-2.5 rounded-lg transition-colors flex items-center justify-center gap-2 ${showThumbnails ? 'bg-[#3e3e3e]' : 'bg-[#2a2a2a] hover:bg-[#3e3e3e]'}`}
+                  title="Кадр из середины каждого плана"
+                >
+                  <span className="text-white text-sm font-medium leading-none tracking-[-0.3962px]">
+                    {generatingThumbnails ? 'Кадры...' : 'Кадры'}
+                  </span>
+                </button>
+
+                {/* History Button */}
+                <button
+                  onClick={() => setShowHistory(!showHistory)}
+                  className="h-10 px-4 py-2.5 bg-[#2a2a2a] rounded-lg hover:bg-[#3e3e3e] transition-colors flex items-center justify-center gap-2"
+                  title="История изменений и откат"
+                >
+                  <span className="text-white text-sm font-medium leading-none tracking-[-0.3962px]">
+                    История
+                  </span>
+                </button>
+
                 {/* Renumber Button */}
                 <button
                   onClick={handleRenumber}
@@ -241,6 +899,18 @@ export default function MontageTableClient({
                   </span>
                 </button>
               
+                {/* Reassign Speaker Button */}
+                <button
+                  onClick={handleReassignSpeaker}
+                  disabled={reassigning || !canEdit}
+                  className="h-10 px-4 py-2.5 bg-[#2a2a2a] rounded-lg hover:bg-[#3e3e3e] transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                  title="Переименовать персонажа или спикера во всех планах листа"
+                >
+                  <span className="text-white text-sm font-medium leading-none tracking-[-0.3962px]">
+                    {reassigning ? 'Переименование...' : 'Спикер'}
+                  </span>
+                </button>
+
               {/* Download Dropdown */}
                 <div className="relative" ref={exportMenuRef}>
                 <button
@@ -271,16 +941,130 @@ export default function MontageTableClient({
                       Сохранить в Excel
                     </button>
                     <button
-                      onClick={handleDownloadDoc}
+                      onClick={() => handleDownloadDoc()}
                       className="w-full px-4 py-3 text-left text-white text-sm hover:bg-[#3e3e3e] transition-colors border-t border-[#3e3e3e]"
                     >
                       Сохранить в Word
                     </button>
+                    <button
+                      onClick={() => handleDownloadDoc(true)}
+                      className="w-full px-4 py-3 text-left text-white text-sm hover:bg-[#3e3e3e] transition-colors border-t border-[#3e3e3e]"
+                      title="Только уже извлечённые кадры — включите «Кадры», чтобы извлечь недостающие"
+                    >
+                      Word с кадрами
+                    </button>
+                    <button
+                      onClick={() => handleDownloadPdf()}
+                      className="w-full px-4 py-3 text-left text-white text-sm hover:bg-[#3e3e3e] transition-colors border-t border-[#3e3e3e]"
+                    >
+                      Сохранить в PDF
+                    </button>
+                    <button
+                      onClick={() => handleDownloadPdf(true)}
+                      className="w-full px-4 py-3 text-left text-white text-sm hover:bg-[#3e3e3e] transition-colors border-t border-[#3e3e3e]"
+                      title="Только уже извлечённые кадры — включите «Кадры», чтобы извлечь недостающие"
+                    >
+                      PDF с кадрами
+                    </button>
+                    <button
+                      onClick={() => handleDownloadSubtitles('srt')}
+                      className="w-full px-4 py-3 text-left text-white text-sm hover:bg-[#3e3e3e] transition-colors border-t border-[#3e3e3e]"
+                    >
+                      Субтитры SRT
+                    </button>
+                    <button
+                      onClick={() => handleDownloadSubtitles('vtt')}
+                      className="w-full px-4 py-3 text-left text-white text-sm hover:bg-[#3e3e3e] transition-colors border-t border-[#3e3e3e]"
+                    >
+                      Субтитры WebVTT
+                    </button>
+                    <button
+                      onClick={() => handleDownloadSubtitles('ass')}
+                      className="w-full px-4 py-3 text-left text-white text-sm hover:bg-[#3e3e3e] transition-colors border-t border-[#3e3e3e]"
+                    >
+                      Субтитры ASS
+                    </button>
+                    <button
+                      onClick={() => handleDownloadNle('edl')}
+                      className="w-full px-4 py-3 text-left text-white text-sm hover:bg-[#3e3e3e] transition-colors border-t border-[#3e3e3e]"
+                    >
+                      EDL (CMX3600)
+                    </button>
+                    <button
+                      onClick={() => handleDownloadNle('fcpxml')}
+                      className="w-full px-4 py-3 text-left text-white text-sm hover:bg-[#3e3e3e] transition-colors border-t border-[#3e3e3e]"
+                    >
+                      Final Cut Pro XML
+                    </button>
+                    <button
+                      onClick={() => handleDownloadNle('xmeml')}
+                      className="w-full px-4 py-3 text-left text-white text-sm hover:bg-[#3e3e3e] transition-colors border-t border-[#3e3e3e]"
+                    >
+                      Premiere XML
+                    </button>
                   </div>
                 )}
                 </div>
               </div>
             </div>
+
+            {/* Sheet Versions */}
+            <div className="flex items-center gap-3 w-full">
+              <select
+                value={sheet.id}
+                onChange={(e) => router.push(versionHref(e.target.value))}
+                className="h-9 px-3 bg-[#191919] border border-[#2e2e2e] rounded-lg text-white text-sm outline-none focus:border-[#5a5a5a]"
+                title="Версия листа"
+              >
+                {sheets.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {getSheetLabel(s)}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleCreateVersion}
+                disabled={creatingVersion}
+                className="h-9 px-3 bg-[#2a2a2a] rounded-lg hover:bg-[#3e3e3e] transition-colors disabled:opacity-50 text-white text-sm font-medium"
+                title="Сохранить копию текущей версии под новым именем"
+              >
+                {creatingVersion ? 'Сохранение...' : 'Сохранить как версию'}
+              </button>
+              <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={importingSheet}
+                className="h-9 px-3 bg-[#2a2a2a] rounded-lg hover:bg-[#3e3e3e] transition-colors disabled:opacity-50 text-white text-sm font-medium"
+                title="Загрузить готовый монтажный лист (XLSX, CSV, DOCX) как новую версию"
+              >
+                {importingSheet ? 'Импорт...' : 'Импорт листа'}
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".xlsx,.xls,.csv,.docx"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImportSheet(file);
+                }}
+              />
+              {sheets.length > 1 && (
+                <Link
+                  href={`/dashboard/${video.id}/diff?from=${sheets.find((s) => s.id !== sheet.id)?.id}&to=${sheet.id}`}
+                  className="h-9 px-3 bg-[#2a2a2a] rounded-lg hover:bg-[#3e3e3e] transition-colors text-white text-sm font-medium flex items-center"
+                >
+                  Сравнить версии
+                </Link>
+              )}
+              {!sheet.is_primary && (
+                <button
+                  onClick={handleDeleteVersion}
+                  className="h-9 px-3 bg-transparent rounded-lg hover:bg-[#2a2a2a] transition-colors text-[#979797] text-sm font-medium"
+                >
+                  Удалить версию
+                </button>
+              )}
+            </div>
           </div>
 
           {/* Processing Progress Bar */}
@@ -294,8 +1078,8 @@ export default function MontageTableClient({
                   </span>
                 </div>
                 <span className="text-gray-400 text-sm">
-                  {progress.total > 0 
-                    ? `${progress.completed}/${progress.total} чанков (${Math.round(progress.completed / progress.total * 100)}%)`
+                  {liveStatus && (liveStatus.step || progress.total > 0)
+                    ? describeProgress(liveStatus)
                     : 'Инициализация...'}
                 </span>
               </div>
@@ -305,12 +1089,35 @@ export default function MontageTableClient({
                   style={{ width: progress.total > 0 ? `${(progress.completed / progress.total) * 100}%` : '5%' }}
                 />
               </div>
-              <p className="text-gray-500 text-xs mt-2">
-                Планы появляются по мере обработки. Страница обновляется автоматически.
-              </p>
+              {(liveStatus?.step ?? video.processing_step) === 'mapping-review' ? (
+                <Link
+                  href={`/dashboard/${video.id}/speakers`}
+                  className="inline-block text-blue-400 hover:text-blue-300 text-xs mt-2"
+                >
+                  Проверить спикеров и запустить анализ →
+                </Link>
+              ) : (
+                <p className="text-gray-500 text-xs mt-2">
+                  Планы появляются по мере обработки.
+                </p>
+              )}
             </div>
           )}
 
+          {/* Video Player */}
+          {showPlayer && (
+            <VideoPlayerPanel
+              videoId={video.id}
+              fps={videoFps}
+              entries={entries}
+              videoRef={videoRef}
+              onFrameChange={handlePlayerFrame}
+              onMark={canEdit ? handleMark : undefined}
+              markTargetLabel={markTarget ? `План ${markTarget.plan_number}: ${markTarget.start_timecode} – ${markTarget.end_timecode}` : null}
+              onClose={() => setShowPlayer(false)}
+            />
+          )}
+
           {/* Table */}
           <div className="flex gap-14 items-start justify-center w-full">
             <div className="flex-1 flex flex-col gap-px overflow-hidden pb-px">
@@ -331,6 +1138,13 @@ export default function MontageTableClient({
                     {'Конечный\nтаймкод'}
                   </span>
                 </div>
+                {showThumbnails && (
+                  <div className="bg-[#191919] h-14 w-[128px] px-4 py-[22px] flex gap-2.5 items-center">
+                    <span className="text-[#979797] text-sm font-medium leading-normal">
+                      Кадр
+                    </span>
+                  </div>
+                )}
                 <div className="bg-[#191919] h-14 w-[80px] px-4 py-[22px] flex gap-2.5 items-center">
                   <span className="text-[#979797] text-sm font-medium leading-normal">
                     План
@@ -346,6 +1160,9 @@ export default function MontageTableClient({
                     Содержание (описание) плана, титры
                   </span>
                 </div>
+                {canEdit && (
+                  <div className="bg-[#191919] h-14 w-[148px] px-1.5 py-[22px]" />
+                )}
                 <div className="bg-[#191919] h-14 px-4 py-[22px] flex gap-2.5 items-center">
                   <button
                     onClick={toggleAll}
@@ -359,7 +1176,8 @@ export default function MontageTableClient({
 
               {/* Table Body */}
               <div className="flex flex-col gap-px w-full">
-                {entries.map((entry) => {
+                {entries.map((entry, index) => {
+                  const nextEntry = entries[index + 1];
                   const isExpanded = expandedRows.has(entry.id);
                   const hasLongDialogues = (entry.dialogues?.length || 0) > 60;
                   const hasLongDescription = (entry.description?.length || 0) > 60;
@@ -368,50 +1186,109 @@ export default function MontageTableClient({
                   return (
                     <div
                       key={entry.id}
-                      className="flex items-center w-full border-b border-[#2c2c2c]"
+                      ref={(node) => {
+                        if (node) rowRefs.current.set(entry.id, node);
+                        else rowRefs.current.delete(entry.id);
+                      }}
+                      onClick={(e) => handleRowClick(entry, e)}
+                      className={`flex items-center w-full border-b border-[#2c2c2c] ${showPlayer ? 'cursor-pointer' : ''} ${entry.id === activeEntryId && showPlayer ? 'outline outline-1 outline-[#5a8dee] -outline-offset-1' : ''}`}
                     >
                       {/* № плана */}
-                      <div className="bg-[#101010] w-[80px] px-4 py-4 flex gap-2.5 items-center">
+                      <div className={`${showPlayer && entry.id === selectedEntryId ? 'bg-[#44391d]' : showPlayer && entry.id === activeEntryId ? 'bg-[#1d2a44]' : 'bg-[#101010]'} w-[80px] px-4 py-4 flex gap-2.5 items-center`}>
                         <span className="text-white text-sm font-medium leading-normal">
                           {entry.plan_number}
                         </span>
                       </div>
 
                       {/* Начальный таймкод */}
-                      <div className="bg-[#101010] w-24 px-4 py-4 flex gap-2.5 items-center">
-                        <span className="text-white text-sm font-normal leading-normal">
-                          {entry.start_timecode}
-                        </span>
+                      <div className="bg-[#101010] w-24 px-2 py-4 flex gap-2.5 items-center">
+                        {renderEditableCell(entry, 'start_timecode', { placeholder: '00:00:00:00' })}
                       </div>
 
                       {/* Конечный таймкод */}
-                      <div className="bg-[#101010] w-24 px-4 py-4 flex gap-2.5 items-center">
-                        <span className="text-white text-sm font-normal leading-normal">
-                          {entry.end_timecode}
-                        </span>
+                      <div className="bg-[#101010] w-24 px-2 py-4 flex gap-2.5 items-center">
+                        {renderEditableCell(entry, 'end_timecode', { placeholder: '00:00:00:00' })}
                       </div>
 
+                      {/* Кадр */}
+                      {showThumbnails && (
+                        <div className="bg-[#101010] w-[128px] px-2 py-2 flex items-center justify-center self-stretch">
+                          {thumbnails[entry.id] ? (
+                            <Image
+                              src={thumbnails[entry.id]}
+                              alt={`План ${entry.plan_number}`}
+                              width={112}
+                              height={63}
+                              unoptimized
+                              className="w-[112px] h-auto rounded-sm"
+                            />
+                          ) : (
+                            <div className="w-[112px] aspect-video rounded-sm bg-[#1a1a1a]" />
+                          )}
+                        </div>
+                      )}
+
                       {/* План */}
                       <div className="bg-[#101010] w-[80px] px-4 py-4 flex gap-2.5 items-center">
-                        <span className="text-white text-sm font-normal leading-normal">
-                          {entry.plan_type || '—'}
-                        </span>
+                        {renderEditableCell(entry, 'plan_type', { placeholder: 'Ср.' })}
                       </div>
 
                       {/* Монологи, диалоги */}
                       <div className="bg-[#101010] flex-1 px-4 py-4 flex gap-2.5 items-start">
-                        <div className={`text-white text-sm font-normal leading-normal w-full ${isExpanded ? '' : 'line-clamp-1'}`}>
-                          {entry.dialogues || '—'}
-                        </div>
+                        {renderEditableCell(entry, 'dialogues', { multiline: true, clamp: !isExpanded })}
                       </div>
 
                       {/* Содержание */}
                       <div className="bg-[#101010] flex-1 px-4 py-4 flex gap-2.5 items-start">
-                        <div className={`text-white text-sm font-normal leading-normal w-full ${isExpanded ? '' : 'line-clamp-1'}`}>
-                          {entry.description || '—'}
-                        </div>
+                        {renderEditableCell(entry, 'description', { multiline: true, clamp: !isExpanded })}
                       </div>
 
+                      {/* Row actions */}
+                      {canEdit && (
+                        <div className="bg-[#101010] w-[148px] px-1.5 py-4 flex gap-1 items-center">
+                          <button
+                            onClick={() => handleInsertInto(entry)}
+                            disabled={!!savingEntryId}
+                            className="w-6 h-6 p-1 rounded-md bg-transparent hover:bg-[#2a2a2a] transition-colors flex items-center justify-center disabled:opacity-50"
+                            title="Вставить план внутрь"
+                          >
+                            <PlusIcon className="w-4 h-4 text-white" />
+                          </button>
+                          <button
+                            onClick={() => handleSplitEntry(entry)}
+                            disabled={!!savingEntryId}
+                            className="w-6 h-6 p-1 rounded-md bg-transparent hover:bg-[#2a2a2a] transition-colors flex items-center justify-center disabled:opacity-50"
+                            title="Разрезать план"
+                          >
+                            <ScissorsIcon className="w-4 h-4 text-white" />
+                          </button>
+                          <button
+                            onClick={() => nextEntry && handleMergeWithNext(entry, nextEntry)}
+                            disabled={!!savingEntryId || !nextEntry}
+                            className="w-6 h-6 p-1 rounded-md bg-transparent hover:bg-[#2a2a2a] transition-colors flex items-center justify-center disabled:opacity-50"
+                            title="Склеить со следующим"
+                          >
+                            <LinkIcon className="w-4 h-4 text-white" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteEntry(entry)}
+                            disabled={!!savingEntryId}
+                            className="w-6 h-6 p-1 rounded-md bg-transparent hover:bg-[#2a2a2a] transition-colors flex items-center justify-center disabled:opacity-50"
+                            title="Удалить план"
+                          >
+                            <TrashIcon className="w-4 h-4 text-white" />
+                          </button>
+                          <button
+                            onClick={() => handleReprocessEntry(entry)}
+                            disabled={!!savingEntryId || !!reprocessingEntryId || isProcessing}
+                            className="w-6 h-6 p-1 rounded-md bg-transparent hover:bg-[#2a2a2a] transition-colors flex items-center justify-center disabled:opacity-50"
+                            title="Переобработать диапазон"
+                          >
+                            <ArrowPathIcon className={`w-4 h-4 text-white ${reprocessingEntryId === entry.id ? 'animate-spin' : ''}`} />
+                          </button>
+                        </div>
+                      )}
+
                       {/* Expand/Collapse Button */}
                       <div className="bg-[#101010] px-4 py-4 flex gap-2.5 items-center justify-center">
                         {hasLongContent ? (
@@ -443,6 +1320,22 @@ export default function MontageTableClient({
           )}
         </div>
       </main>
+
+      {/* History Panel */}
+      {showHistory && (
+        <RevisionHistoryPanel
+          videoId={video.id}
+          sheetId={sheet.is_primary ? null : sheet.id}
+          currentUserId={user.id}
+          canEdit={canEdit}
+          refreshKey={historyVersion}
+          onEntriesChange={(updated) => {
+            setEntries(updated);
+            cancelEdit();
+          }}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,279 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { XMarkIcon, ChevronDownIcon } from '@heroicons/react/16/solid';
+import { toast } from 'sonner';
+import type { MontageEntry, MontageEntryRevision, MontageEntrySnapshot } from '@/types';
+
+interface RevisionHistoryPanelProps {
+  videoId: string;
+  /** Версия листа; null — основной лист */
+  sheetId: string | null;
+  currentUserId: string;
+  canEdit: boolean;
+  /** Меняется при каждом изменении листа — панель перезагружает историю */
+  refreshKey: number;
+  onEntriesChange: (entries: MontageEntry[]) => void;
+  onClose: () => void;
+}
+
+interface RevisionBatch {
+  batchId: string;
+  source: string;
+  userId: string | null;
+  createdAt: string;
+  revisions: MontageEntryRevision[];
+  firstRevisionId: number;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  edit: 'Редактирование',
+  insert: 'Вставка плана',
+  delete: 'Удаление плана',
+  split: 'Разрезка плана',
+  merge: 'Склейка планов',
+  'mark-in': 'Начало плана из плеера',
+  'mark-out': 'Конец плана из плеера',
+  revert: 'Откат плана',
+  restore: 'Возврат листа',
+  'fix-montage-issues': 'Автоисправление',
+  'cleanup-duplicates': 'Удаление дублей',
+  'renumber-plans': 'Перенумерация',
+  'reprocess-range': 'Переобработка диапазона',
+  'reassign-speaker': 'Переназначение спикера',
+  'reassign-speaker-undo': 'Отмена переназначения спикера',
+};
+
+const FIELD_LABELS: Partial<Record<keyof MontageEntrySnapshot, string>> = {
+  plan_number: '№',
+  start_timecode: 'Начало',
+  end_timecode: 'Конец',
+  plan_type: 'План',
+  description: 'Содержание',
+  dialogues: 'Диалоги',
+};
+
+function groupByBatch(revisions: MontageEntryRevision[]): RevisionBatch[] {
+  const batches = new Map<string, RevisionBatch>();
+
+  for (const revision of revisions) {
+    const batch = batches.get(revision.batch_id);
+    if (batch) {
+      batch.revisions.push(revision);
+      batch.firstRevisionId = Math.min(batch.firstRevisionId, revision.id);
+    } else {
+      batches.set(revision.batch_id, {
+        batchId: revision.batch_id,
+        source: revision.source,
+        userId: revision.user_id,
+        createdAt: revision.created_at,
+        revisions: [revision],
+        firstRevisionId: revision.id,
+      });
+    }
+  }
+
+  return Array.from(batches.values()).sort((a, b) => b.firstRevisionId - a.firstRevisionId);
+}
+
+function describeRevision(revision: MontageEntryRevision): string {
+  const planNumber = (revision.after || revision.before)?.plan_number;
+  const plan = planNumber && planNumber > 0 ? `План ${planNumber}` : 'План';
+
+  if (revision.action === 'create') return `${plan}: создан`;
+  if (revision.action === 'delete') return `${plan}: удалён`;
+
+  const changedFields = (Object.keys(FIELD_LABELS) as Array<keyof MontageEntrySnapshot>)
+    .filter((field) => revision.before?.[field] !== revision.after?.[field])
+    .map((field) => FIELD_LABELS[field]);
+
+  return `${plan}: ${changedFields.join(', ') || 'порядок'}`;
+}
+
+export default function RevisionHistoryPanel({
+  videoId,
+  sheetId,
+  currentUserId,
+  canEdit,
+  refreshKey,
+  onEntriesChange,
+  onClose,
+}: RevisionHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<MontageEntryRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [expandedBatches, setExpandedBatches] = useState<Set<string>>(new Set());
+
+  const sheetQuery = sheetId ? `?sheetId=${sheetId}` : '';
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/montage-entries/${videoId}/revisions${sheetQuery}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error('Не удалось загрузить историю', { description: result.error });
+        return;
+      }
+
+      setRevisions(result.revisions);
+    } catch (error) {
+      console.error('Error loading revisions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [videoId, sheetQuery]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions, refreshKey]);
+
+  const runHistoryAction = async (url: string, body: Record<string, unknown>, errorTitle: string) => {
+    setBusy(true);
+    try {
+      const response = await fetch(`${url}${sheetQuery}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(errorTitle, { description: result.error });
+        return;
+      }
+
+      onEntriesChange(result.entries);
+      await loadRevisions();
+    } catch (error) {
+      console.error(`${errorTitle}:`, error);
+      toast.error(errorTitle);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevert = (revision: MontageEntryRevision) =>
+    runHistoryAction(
+      `/api/montage-entries/${videoId}/revisions/revert`,
+      { revisionId: revision.id },
+      'Не удалось откатить план'
+    );
+
+  const handleRestore = (batch: RevisionBatch) => {
+    const time = new Date(batch.createdAt).toLocaleString('ru-RU');
+    if (!confirm(`Вернуть весь лист к состоянию до изменения от ${time}? Все последующие изменения будут отменены.`)) {
+      return;
+    }
+
+    runHistoryAction(
+      `/api/montage-entries/${videoId}/revisions/restore`,
+      { revisionId: batch.firstRevisionId },
+      'Не удалось вернуть лист'
+    );
+  };
+
+  const toggleBatch = (batchId: string) => {
+    setExpandedBatches((prev) => {
+      const next = new Set(prev);
+      if (next.has(batchId)) {
+        next.delete(batchId);
+      } else {
+        next.add(batchId);
+      }
+      return next;
+    });
+  };
+
+  const batches = groupByBatch(revisions);
+
+  return (
+    <div className="fixed top-0 right-0 h-full w-[420px] bg-[#191919] border-l border-[#2e2e2e] z-40 flex flex-col">
+      <div className="flex items-center justify-between px-6 pt-6 pb-4 border-b border-[#2e2e2e]">
+        <h2 className="text-white text-lg font-medium leading-none tracking-[-0.3962px]">
+          История изменений
+        </h2>
+        <div className="flex gap-2 items-center">
+          {canEdit && batches.length > 0 && (
+            <button
+              onClick={() => handleRestore(batches[0])}
+              disabled={busy}
+              className="h-8 px-3 bg-[#2a2a2a] rounded-lg hover:bg-[#3e3e3e] transition-colors disabled:opacity-50 text-white text-sm font-medium"
+              title="Отменить последнее изменение"
+            >
+              Отменить
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="w-8 h-8 p-1 rounded-md hover:bg-[#2a2a2a] transition-colors flex items-center justify-center"
+            title="Закрыть"
+          >
+            <XMarkIcon className="w-4 h-4 text-white" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-4 flex flex-col gap-2">
+        {loading && <p className="text-[#979797] text-sm px-2">Загрузка...</p>}
+        {!loading && batches.length === 0 && (
+          <p className="text-[#979797] text-sm px-2">Изменений пока не было</p>
+        )}
+
+        {batches.map((batch) => {
+          const isExpanded = expandedBatches.has(batch.batchId);
+          const author = !batch.userId ? 'Система' : batch.userId === currentUserId ? 'Вы' : 'Другой пользователь';
+
+          return (
+            <div key={batch.batchId} className="bg-[#101010] rounded-lg border border-[#2c2c2c]">
+              <button
+                onClick={() => toggleBatch(batch.batchId)}
+                className="w-full px-3 py-2.5 flex items-center justify-between gap-2 text-left hover:bg-[#1a1a1a] rounded-lg transition-colors"
+              >
+                <div className="flex flex-col gap-1 min-w-0">
+                  <span className="text-white text-sm font-medium truncate">
+                    {SOURCE_LABELS[batch.source] || batch.source}
+                  </span>
+                  <span className="text-[#979797] text-xs">
+                    {new Date(batch.createdAt).toLocaleString('ru-RU')} · {author} · {batch.revisions.length}
+                  </span>
+                </div>
+                <ChevronDownIcon className={`w-4 h-4 text-white shrink-0 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+              </button>
+
+              {isExpanded && (
+                <div className="flex flex-col gap-1 px-3 pb-3">
+                  {batch.revisions.map((revision) => (
+                    <div key={revision.id} className="flex items-center justify-between gap-2">
+                      <span className="text-[#d4d4d4] text-xs truncate" title={revision.after?.description || revision.before?.description}>
+                        {describeRevision(revision)}
+                      </span>
+                      {canEdit && (
+                        <button
+                          onClick={() => handleRevert(revision)}
+                          disabled={busy}
+                          className="shrink-0 text-xs text-white px-2 py-1 rounded-md bg-[#2a2a2a] hover:bg-[#3e3e3e] transition-colors disabled:opacity-50"
+                        >
+                          Откатить
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {canEdit && (
+                    <button
+                      onClick={() => handleRestore(batch)}
+                      disabled={busy}
+                      className="mt-2 text-xs text-white px-2 py-1.5 rounded-md bg-[#2a2a2a] hover:bg-[#3e3e3e] transition-colors disabled:opacity-50"
+                    >
+                      Вернуть лист к состоянию до этого изменения
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
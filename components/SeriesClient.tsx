@@ -0,0 +1,411 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowLeftIcon } from '@heroicons/react/16/solid';
+import { toast } from 'sonner';
+import { FILM_METADATA_FIELDS, formatEpisodeCode } from '@/lib/series-episodes';
+import type { EpisodeProgress, SeriesProgress } from '@/lib/series-episodes';
+import type { RegistryCharacterSummary } from '@/lib/series-registry';
+import type { FilmMetadata, Series, Video, VideoStatus } from '@/types';
+
+interface SeriesClientProps {
+  series: Series;
+  episodes: EpisodeProgress[];
+  progress: SeriesProgress;
+  characters: RegistryCharacterSummary[];
+  /** Видео пользователя без сериала — можно добавить серией */
+  freeVideos: Pick<Video, 'id' | 'original_filename' | 'created_at'>[];
+}
+
+const STATUS_LABELS: Record<VideoStatus, string> = {
+  uploading: 'Загрузка',
+  processing: 'Обработка',
+  paused: 'Пауза',
+  cancelled: 'Отменено',
+  completed: 'Готово',
+  error: 'Ошибка',
+};
+
+export default function SeriesClient({
+  series,
+  episodes,
+  progress,
+  characters,
+  freeVideos,
+}: SeriesClientProps) {
+  const router = useRouter();
+
+  const [metadata, setMetadata] = useState<FilmMetadata>(series.default_film_metadata || {});
+  const [addVideoId, setAddVideoId] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+
+  // Все запросы страницы: JSON, ошибка — тост, успех — перечитать данные
+  const request = async (key: string, url: string, init: RequestInit, success: string): Promise<boolean> => {
+    setBusy(key);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+
+      toast.success(success);
+      router.refresh();
+      return true;
+    } catch (error) {
+      console.error(`Series request (${key}) failed:`, error);
+      toast.error(error instanceof Error ? error.message : 'Ошибка');
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRename = async () => {
+    const title = prompt('Название сериала:', series.title);
+    if (!title?.trim() || title.trim() === series.title) return;
+
+    await request('rename', `/api/series/${series.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ title }),
+    }, 'Сериал переименован');
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Удалить сериал и реестр персонажей? Серии останутся в списке без сериала.')) {
+      return;
+    }
+
+    const deleted = await request('delete', `/api/series/${series.id}`, { method: 'DELETE' }, 'Сериал удалён');
+    if (deleted) {
+      router.push('/dashboard');
+    }
+  };
+
+  const handleSaveMetadata = async () => {
+    await request('metadata', `/api/series/${series.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ defaultFilmMetadata: metadata }),
+    }, 'Метаданные сохранены');
+  };
+
+  const handleAddEpisode = async () => {
+    if (!addVideoId) return;
+
+    const added = await request('add', `/api/series/${series.id}/episodes`, {
+      method: 'POST',
+      body: JSON.stringify({ videoId: addVideoId }),
+    }, 'Серия добавлена');
+    if (added) {
+      setAddVideoId('');
+    }
+  };
+
+  const handleRemoveEpisode = async (episode: EpisodeProgress) => {
+    if (!confirm(`Убрать «${episode.original_filename}» из сериала?`)) return;
+
+    await request(
+      episode.id,
+      `/api/series/${series.id}/episodes?videoId=${episode.id}`,
+      { method: 'DELETE' },
+      'Серия убрана из сериала'
+    );
+  };
+
+  // Номер сохраняется при уходе с поля; пустое поле — номер снят
+  const handleNumberChange = async (
+    episode: EpisodeProgress,
+    field: 'seasonNumber' | 'episodeNumber',
+    value: string
+  ) => {
+    const numbers = {
+      seasonNumber: episode.season_number ?? null,
+      episodeNumber: episode.episode_number ?? null,
+      [field]: value ? Number(value) : null,
+    };
+
+    if (numbers.seasonNumber === (episode.season_number ?? null)
+      && numbers.episodeNumber === (episode.episode_number ?? null)) {
+      return;
+    }
+
+    const saved = await request(episode.id, `/api/series/${series.id}/episodes`, {
+      method: 'PATCH',
+      body: JSON.stringify({ videoId: episode.id, ...numbers }),
+    }, 'Номер серии сохранён');
+
+    // Поля неуправляемые: при ошибке перечитываем, чтобы вернуть прежний номер
+    if (!saved) {
+      router.refresh();
+    }
+  };
+
+  const handleDownloadZip = async () => {
+    setBusy('zip');
+    try {
+      const response = await fetch(`/api/series/${series.id}/export`);
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to download');
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `series_${series.id.substring(0, 8)}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+
+      toast.success('Архив скачан');
+    } catch (error) {
+      console.error('Error downloading series archive:', error);
+      toast.error(error instanceof Error ? error.message : 'Ошибка при скачивании');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const percent = Math.round(progress.progress * 100);
+
+  return (
+    <main className="max-w-[1000px] mx-auto px-8 py-6 flex flex-col gap-8">
+      <div className="flex flex-col gap-4">
+        <div className="flex items-center gap-2">
+          <Link
+            href="/dashboard"
+            className="bg-[#222222] px-1.5 pr-2.5 py-1 rounded-md flex gap-2 items-center hover:bg-[#2a2a2a] transition-colors"
+          >
+            <ArrowLeftIcon className="w-4 h-4 text-white" />
+            <span className="text-white text-sm font-medium leading-[1.2] tracking-[-0.3962px]">
+              Назад
+            </span>
+          </Link>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="text-white text-2xl leading-9 font-medium truncate" title={series.title}>
+            {series.title}
+          </h1>
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={handleDownloadZip}
+              disabled={busy !== null || progress.completed === 0}
+              className="h-9 px-3 bg-neutral-100 rounded-lg hover:bg-neutral-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <span className="text-black text-sm font-medium">
+                {busy === 'zip' ? 'Архивация...' : 'Скачать все (ZIP)'}
+              </span>
+            </button>
+            <button
+              onClick={handleRename}
+              disabled={busy !== null}
+              className="h-9 px-3 bg-[#191919] border border-[#2e2e2e] rounded-lg hover:bg-[#222] transition-colors disabled:opacity-50"
+            >
+              <span className="text-white text-sm font-medium">Переименовать</span>
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={busy !== null}
+              className="h-9 px-3 bg-[#191919] border border-[#6f0606] rounded-lg hover:bg-[#222] transition-colors disabled:opacity-50"
+            >
+              <span className="text-[#c04040] text-sm font-medium">Удалить</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Сводка по сериалу */}
+        <div className="bg-[#191919] rounded-2xl p-5 flex flex-col gap-3">
+          <div className="flex justify-between text-sm text-[#c0c0c0]">
+            <span>Готово {progress.completed} из {progress.total} серий</span>
+            <span>{percent}%</span>
+          </div>
+          <div className="w-full bg-[#2a2a2a] rounded-full h-1.5">
+            <div
+              className="bg-[#3c6f06] h-1.5 rounded-full transition-all duration-300"
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          <p className="text-xs text-[#7e7e7e]">
+            В работе: {progress.processing}
+            {progress.awaitingReview > 0 && ` (проверка спикеров: ${progress.awaitingReview})`}
+            {' • '}Остановлено: {progress.stopped}
+            {' • '}Ошибки: {progress.errors}
+          </p>
+        </div>
+      </div>
+
+      {/* Серии */}
+      <section className="flex flex-col gap-3">
+        <h2 className="text-white text-base font-medium">Серии</h2>
+
+        {episodes.length === 0 ? (
+          <p className="text-[#979797] text-sm">
+            В сериале пока нет серий. Загрузите видео с выбранным сериалом или добавьте уже загруженное.
+          </p>
+        ) : (
+          <div className="bg-[#191919] rounded-2xl overflow-hidden">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-[#979797] text-xs text-left border-b border-[#2e2e2e]">
+                  <th className="px-4 py-2 font-medium w-16">Сезон</th>
+                  <th className="px-4 py-2 font-medium w-16">Серия</th>
+                  <th className="px-4 py-2 font-medium">Название</th>
+                  <th className="px-4 py-2 font-medium w-32">Статус</th>
+                  <th className="px-4 py-2 w-24" />
+                </tr>
+              </thead>
+              <tbody>
+                {episodes.map((episode) => (
+                  <tr key={episode.id} className="border-b border-[#2e2e2e] last:border-b-0">
+                    <td className="px-4 py-2">
+                      <input
+                        key={`season-${episode.season_number ?? ''}`}
+                        type="number"
+                        min={1}
+                        defaultValue={episode.season_number ?? ''}
+                        onBlur={(e) => handleNumberChange(episode, 'seasonNumber', e.target.value)}
+                        disabled={busy === episode.id}
+                        className="w-14 h-8 px-2 bg-[#101010] border border-[#2e2e2e] rounded-lg text-white outline-none"
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        key={`episode-${episode.episode_number ?? ''}`}
+                        type="number"
+                        min={1}
+                        defaultValue={episode.episode_number ?? ''}
+                        onBlur={(e) => handleNumberChange(episode, 'episodeNumber', e.target.value)}
+                        disabled={busy === episode.id}
+                        className="w-14 h-8 px-2 bg-[#101010] border border-[#2e2e2e] rounded-lg text-white outline-none"
+                      />
+                    </td>
+                    <td className="px-4 py-2 max-w-0">
+                      <Link
+                        href={episode.processing_step === 'mapping-review' && episode.status === 'processing'
+                          ? `/dashboard/${episode.id}/speakers`
+                          : `/dashboard/${episode.id}`}
+                        className="text-white hover:underline truncate block"
+                        title={episode.original_filename}
+                      >
+                        {formatEpisodeCode(episode) && (
+                          <span className="text-[#979797] mr-2">{formatEpisodeCode(episode)}</span>
+                        )}
+                        {episode.original_filename}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-2 text-[#c0c0c0]">
+                      {STATUS_LABELS[episode.status]}
+                      {episode.status !== 'completed' && episode.totalChunks > 0 && (
+                        <span className="text-[#7e7e7e]"> • {Math.round(episode.progress * 100)}%</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => handleRemoveEpisode(episode)}
+                        disabled={busy !== null}
+                        className="text-[#979797] text-xs hover:text-white disabled:opacity-50"
+                      >
+                        Убрать
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {freeVideos.length > 0 && (
+          <div className="flex items-center gap-2">
+            <select
+              value={addVideoId}
+              onChange={(e) => setAddVideoId(e.target.value)}
+              className="h-9 px-3 bg-[#101010] border border-[#2e2e2e] rounded-lg text-white text-sm outline-none max-w-[400px]"
+            >
+              <option value="">Добавить загруженное видео…</option>
+              {freeVideos.map((video) => (
+                <option key={video.id} value={video.id}>{video.original_filename}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleAddEpisode}
+              disabled={!addVideoId || busy !== null}
+              className="h-9 px-3 bg-[#191919] border border-[#2e2e2e] rounded-lg hover:bg-[#222] transition-colors disabled:opacity-50"
+            >
+              <span className="text-white text-sm font-medium">Добавить</span>
+            </button>
+          </div>
+        )}
+      </section>
+
+      {/* Метаданные фильма по умолчанию */}
+      <section className="flex flex-col gap-3">
+        <h2 className="text-white text-base font-medium">Информация о фильме</h2>
+        <p className="text-[#979797] text-sm">
+          Значения по умолчанию для всех серий: при экспорте серия берёт их, если её собственное поле пустое.
+        </p>
+        <div className="grid grid-cols-2 gap-3">
+          {FILM_METADATA_FIELDS.map(({ key, label }) => (
+            <label key={key} className="flex flex-col gap-1">
+              <span className="text-[#979797] text-xs">{label}</span>
+              <input
+                value={metadata[key] || ''}
+                onChange={(e) => setMetadata((prev) => ({ ...prev, [key]: e.target.value }))}
+                className="h-9 px-3 bg-[#101010] border border-[#2e2e2e] rounded-lg text-white text-sm outline-none"
+              />
+            </label>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <button
+            onClick={handleSaveMetadata}
+            disabled={busy !== null}
+            className="h-9 px-4 bg-gradient-to-r from-cyan-500 to-blue-500 rounded-lg hover:from-cyan-600 hover:to-blue-600 disabled:opacity-50"
+          >
+            <span className="text-white text-sm font-medium">
+              {busy === 'metadata' ? 'Сохранение...' : 'Сохранить'}
+            </span>
+          </button>
+        </div>
+      </section>
+
+      {/* Реестр персонажей (lib/series-registry.ts) */}
+      <section className="flex flex-col gap-3">
+        <h2 className="text-white text-base font-medium">Персонажи</h2>
+        {characters.length === 0 ? (
+          <p className="text-[#979797] text-sm">
+            Реестр пополнится после подтверждения маппинга спикеров первой серии.
+          </p>
+        ) : (
+          <div className="bg-[#191919] rounded-2xl divide-y divide-[#2e2e2e]">
+            {characters.map((character) => (
+              <div key={character.id} className="px-4 py-2 flex items-center justify-between gap-4 text-sm">
+                <div className="flex flex-col min-w-0">
+                  <span className="text-white font-medium">{character.name}</span>
+                  {character.variants.length > 0 && (
+                    <span className="text-[#7e7e7e] text-xs truncate">{character.variants.join(', ')}</span>
+                  )}
+                </div>
+                <span className="text-[#979797] text-xs shrink-0">
+                  Серий: {character.episodes}
+                  {character.hasVoice && ' • голос'}
+                  {character.hasFace && ' • лицо'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
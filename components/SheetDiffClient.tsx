@@ -0,0 +1,156 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowLeftIcon } from '@heroicons/react/16/solid';
+import { getSheetLabel } from '@/lib/sheet-versions';
+import type { SheetDiff, SheetDiffRow, DiffField } from '@/lib/sheet-versions';
+import type { Video, MontageSheet, MontageEntry } from '@/types';
+
+interface SheetDiffClientProps {
+  video: Video;
+  sheets: MontageSheet[];
+  fromSheet: MontageSheet;
+  toSheet: MontageSheet;
+  diff: SheetDiff;
+}
+
+const STATUS_STYLES: Record<SheetDiffRow['status'], string> = {
+  same: 'bg-[#101010]',
+  changed: 'bg-[#1f1c10]',
+  added: 'bg-[#102016]',
+  removed: 'bg-[#241212]',
+};
+
+function DiffSide({
+  entry,
+  changedFields,
+}: {
+  entry: MontageEntry | null;
+  changedFields: DiffField[];
+}) {
+  if (!entry) {
+    return <div className="flex-1 px-4 py-3 text-[#5a5a5a] text-sm">—</div>;
+  }
+
+  const highlight = (field: DiffField) =>
+    changedFields.includes(field) ? 'bg-[#4a3d10] rounded-sm px-1 -mx-1' : '';
+
+  return (
+    <div className="flex-1 flex gap-3 px-4 py-3 text-white text-sm min-w-0">
+      <span className="w-10 shrink-0 text-[#979797]">{entry.plan_number}</span>
+      <div className="w-[92px] shrink-0 flex flex-col gap-0.5 font-mono text-xs">
+        <span className={highlight('start_timecode')}>{entry.start_timecode}</span>
+        <span className={highlight('end_timecode')}>{entry.end_timecode}</span>
+      </div>
+      <span className={`w-12 shrink-0 ${highlight('plan_type')}`}>{entry.plan_type || '—'}</span>
+      <div className="flex-1 flex flex-col gap-1 min-w-0">
+        <span className={`whitespace-pre-wrap break-words ${highlight('dialogues')}`}>{entry.dialogues || '—'}</span>
+        <span className={`text-[#979797] text-xs whitespace-pre-wrap break-words ${highlight('description')}`}>
+          {entry.description}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export default function SheetDiffClient({
+  video,
+  sheets,
+  fromSheet,
+  toSheet,
+  diff,
+}: SheetDiffClientProps) {
+  const router = useRouter();
+  const [onlyChanges, setOnlyChanges] = useState(true);
+
+  const navigate = (from: string, to: string) => {
+    router.push(`/dashboard/${video.id}/diff?from=${from}&to=${to}`);
+  };
+
+  const rows = onlyChanges ? diff.rows.filter((row) => row.status !== 'same') : diff.rows;
+
+  const renderSelect = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="h-9 px-3 bg-[#191919] border border-[#2e2e2e] rounded-lg text-white text-sm outline-none focus:border-[#5a5a5a]"
+    >
+      {sheets.map((s) => (
+        <option key={s.id} value={s.id}>
+          {getSheetLabel(s)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <main className="max-w-[1400px] mx-auto px-8 py-6">
+      <div className="flex flex-col gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <Link
+            href={toSheet.is_primary ? `/dashboard/${video.id}` : `/dashboard/${video.id}?version=${toSheet.id}`}
+            className="bg-[#222222] px-1.5 pr-2.5 py-1 rounded-md flex gap-2 items-center hover:bg-[#2a2a2a] transition-colors"
+          >
+            <ArrowLeftIcon className="w-4 h-4 text-white" />
+            <span className="text-white text-sm font-medium leading-[1.2] tracking-[-0.3962px]">
+              Назад
+            </span>
+          </Link>
+        </div>
+
+        <h1 className="text-white text-base font-medium leading-7 truncate" title={video.original_filename}>
+          Сравнение версий: {video.original_filename}
+        </h1>
+
+        <div className="flex items-center gap-3 flex-wrap">
+          {renderSelect(fromSheet.id, (id) => navigate(id, toSheet.id))}
+          <span className="text-[#979797] text-sm">→</span>
+          {renderSelect(toSheet.id, (id) => navigate(fromSheet.id, id))}
+
+          <label className="flex items-center gap-2 text-white text-sm ml-4 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={onlyChanges}
+              onChange={(e) => setOnlyChanges(e.target.checked)}
+            />
+            Только изменения
+          </label>
+
+          <div className="flex gap-4 ml-auto text-sm">
+            <span className="text-[#e0c060]">Изменено: {diff.stats.changed}</span>
+            <span className="text-[#60c080]">Добавлено: {diff.stats.added}</span>
+            <span className="text-[#e06060]">Удалено: {diff.stats.removed}</span>
+            <span className="text-[#979797]">Без изменений: {diff.stats.same}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="rounded-lg overflow-hidden border border-[#2c2c2c]">
+        <div className="flex bg-[#191919] text-[#979797] text-sm font-medium">
+          <div className="flex-1 px-4 py-3 border-r border-[#2c2c2c]">{getSheetLabel(fromSheet)}</div>
+          <div className="flex-1 px-4 py-3">{getSheetLabel(toSheet)}</div>
+        </div>
+
+        {rows.map((row, index) => (
+          <div
+            key={`${row.left?.id || 'none'}-${row.right?.id || 'none'}-${index}`}
+            className={`flex border-t border-[#2c2c2c] ${STATUS_STYLES[row.status]}`}
+          >
+            <div className="flex-1 flex border-r border-[#2c2c2c] min-w-0">
+              <DiffSide entry={row.left} changedFields={row.changedFields} />
+            </div>
+            <div className="flex-1 flex min-w-0">
+              <DiffSide entry={row.right} changedFields={row.changedFields} />
+            </div>
+          </div>
+        ))}
+
+        {rows.length === 0 && (
+          <div className="text-center py-16 text-gray-400 text-sm">Версии совпадают</div>
+        )}
+      </div>
+    </main>
+  );
+}
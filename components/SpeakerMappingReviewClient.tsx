@@ -0,0 +1,278 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowLeftIcon, PlayIcon, PauseIcon, LockClosedIcon } from '@heroicons/react/16/solid';
+import { toast } from 'sonner';
+import type {
+  SpeakerEvidenceType,
+  SpeakerMappingReview,
+  SpeakerReviewItem,
+  SpeakerUtterance,
+} from '@/lib/speaker-mapping-review';
+import type { Video } from '@/types';
+
+interface SpeakerMappingReviewClientProps {
+  video: Video;
+  review: SpeakerMappingReview;
+  speakerCharacterMap: Record<string, string>;
+  /** false — маппинг уже подтверждён, экран только для просмотра */
+  awaitingReview: boolean;
+}
+
+const EVIDENCE_LABELS: Record<SpeakerEvidenceType, string> = {
+  alignment: 'сверка со сценарием',
+  face_presence: 'лицо в кадре',
+  gemini_hint: 'подсказка Gemini',
+  name_mention: 'обращение по имени',
+  scene_context: 'персонаж сцены',
+  voice_embedding: 'голосовой отпечаток',
+};
+
+function formatMs(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+export default function SpeakerMappingReviewClient({
+  video,
+  review,
+  speakerCharacterMap,
+  awaitingReview,
+}: SpeakerMappingReviewClientProps) {
+  const router = useRouter();
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const stopAtRef = useRef<number | null>(null);
+
+  const [assignments, setAssignments] = useState<Record<string, string>>(() =>
+    Object.fromEntries(review.speakers.map((s) => [s.speakerId, speakerCharacterMap[s.speakerId] || '']))
+  );
+  const [mediaUrl, setMediaUrl] = useState<string | null>(null);
+  const [playingKey, setPlayingKey] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Реплика играет до своего конца, а не до конца фильма
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const handleTimeUpdate = () => {
+      if (stopAtRef.current !== null && audio.currentTime >= stopAtRef.current) {
+        audio.pause();
+        stopAtRef.current = null;
+        setPlayingKey(null);
+      }
+    };
+
+    audio.addEventListener('timeupdate', handleTimeUpdate);
+    return () => audio.removeEventListener('timeupdate', handleTimeUpdate);
+  }, []);
+
+  // Подписанная ссылка на видео — только когда впервые нажали "слушать"
+  const loadMediaUrl = async (): Promise<string | null> => {
+    if (mediaUrl) return mediaUrl;
+
+    const response = await fetch(`/api/videos/${video.id}`);
+    const result = await response.json();
+    if (!response.ok || !result.signedUrl) {
+      toast.error(result.error || 'Не удалось загрузить видео');
+      return null;
+    }
+
+    setMediaUrl(result.signedUrl);
+    return result.signedUrl;
+  };
+
+  const togglePlay = async (key: string, utterance: SpeakerUtterance) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (playingKey === key) {
+      audio.pause();
+      stopAtRef.current = null;
+      setPlayingKey(null);
+      return;
+    }
+
+    const url = await loadMediaUrl();
+    if (!url) return;
+
+    if (audio.src !== url) {
+      audio.src = url;
+    }
+    audio.currentTime = utterance.startMs / 1000;
+    stopAtRef.current = utterance.endMs / 1000;
+    setPlayingKey(key);
+
+    audio.play().catch((error) => {
+      console.error('Playback error:', error);
+      setPlayingKey(null);
+    });
+  };
+
+  const changedCount = review.speakers.filter(
+    (s) => (assignments[s.speakerId] || '') !== (speakerCharacterMap[s.speakerId] || '')
+  ).length;
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    try {
+      const payload = Object.fromEntries(
+        Object.entries(assignments).map(([speakerId, character]) => [speakerId, character.trim() || null])
+      );
+
+      const response = await fetch(`/api/videos/${video.id}/speaker-mapping`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ assignments: payload }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Не удалось сохранить маппинг');
+      }
+
+      toast.success(result.enqueued > 0 ? 'Маппинг подтверждён, анализ запущен' : 'Маппинг подтверждён');
+      router.push(`/dashboard/${video.id}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Не удалось сохранить маппинг');
+      setSubmitting(false);
+    }
+  };
+
+  const renderSpeaker = (speaker: SpeakerReviewItem) => (
+    <div key={speaker.speakerId} className="bg-[#191919] rounded-2xl p-5 flex flex-col gap-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex flex-col gap-1">
+          <div className="flex items-center gap-2">
+            <span className="text-white text-base font-semibold">Спикер {speaker.speakerId}</span>
+            {speaker.locked && <LockClosedIcon className="w-4 h-4 text-[#979797]" title="Зафиксирован автоматически" />}
+          </div>
+          <span className="text-[#7e7e7e] text-xs">
+            {speaker.wordCount} слов · {formatMs(speaker.speechMs)} речи
+          </span>
+        </div>
+
+        <div className="flex flex-col items-end gap-1">
+          <input
+            list="speaker-characters"
+            value={assignments[speaker.speakerId] || ''}
+            onChange={(e) => setAssignments((prev) => ({ ...prev, [speaker.speakerId]: e.target.value }))}
+            disabled={!awaitingReview}
+            placeholder="Без имени"
+            className="h-9 w-56 px-3 bg-[#101010] border border-[#2e2e2e] rounded-lg text-white text-sm outline-none focus:border-[#5a5a5a] disabled:opacity-60"
+          />
+          <span className="text-[#7e7e7e] text-xs">
+            Предложено: {speaker.proposedCharacter || '—'}
+            {speaker.confidence !== null && ` (${Math.round(speaker.confidence * 100)}%)`}
+          </span>
+        </div>
+      </div>
+
+      {speaker.conflict && (
+        <div className="text-[#e0c060] text-xs bg-[#1f1c10] rounded-lg px-3 py-2">
+          Конфликт: {speaker.conflict.candidates.slice(0, 3).map((c) => `${c.character} (${c.score.toFixed(1)})`).join(' / ')}
+        </div>
+      )}
+
+      {speaker.utterances.length > 0 && (
+        <div className="flex flex-col gap-2">
+          {speaker.utterances.map((utterance, index) => {
+            const key = `${speaker.speakerId}-${index}`;
+            return (
+              <div key={key} className="flex items-start gap-3">
+                <button
+                  onClick={() => togglePlay(key, utterance)}
+                  className="shrink-0 w-8 h-8 rounded-full bg-[#252525] hover:bg-[#303030] flex items-center justify-center"
+                >
+                  {playingKey === key
+                    ? <PauseIcon className="w-4 h-4 text-white" />
+                    : <PlayIcon className="w-4 h-4 text-white" />}
+                </button>
+                <div className="flex flex-col min-w-0">
+                  <span className="text-[#7e7e7e] text-xs font-mono">
+                    {formatMs(utterance.startMs)} – {formatMs(utterance.endMs)}
+                  </span>
+                  <span className="text-white text-sm break-words">{utterance.text}</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {speaker.evidence.length > 0 && (
+        <div className="flex flex-col gap-1">
+          <span className="text-[#979797] text-xs font-medium">Доказательства</span>
+          {speaker.evidence.map((evidence) => (
+            <div key={`${evidence.type}-${evidence.character}`} className="flex justify-between text-xs text-[#c0c0c0]">
+              <span>{EVIDENCE_LABELS[evidence.type]} → {evidence.character}</span>
+              <span className="text-[#7e7e7e]">
+                ×{evidence.count} · вес {evidence.weight.toFixed(1)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <main className="max-w-[1000px] mx-auto px-8 py-6">
+      <audio ref={audioRef} preload="none" className="hidden" />
+      <datalist id="speaker-characters">
+        {review.characters.map((name) => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+
+      <div className="flex flex-col gap-4 mb-6">
+        <div className="flex items-center gap-2">
+          <Link
+            href={`/dashboard/${video.id}`}
+            className="bg-[#222222] px-1.5 pr-2.5 py-1 rounded-md flex gap-2 items-center hover:bg-[#2a2a2a] transition-colors"
+          >
+            <ArrowLeftIcon className="w-4 h-4 text-white" />
+            <span className="text-white text-sm font-medium leading-[1.2] tracking-[-0.3962px]">
+              Назад
+            </span>
+          </Link>
+        </div>
+
+        <h1 className="text-white text-base font-medium leading-7 truncate" title={video.original_filename}>
+          Спикеры: {video.original_filename}
+        </h1>
+
+        <p className="text-[#979797] text-sm">
+          {awaitingReview
+            ? 'Проверьте, кто есть кто: имя спикера попадёт в реплики всех планов. Пустое поле — реплики без имени.'
+            : 'Маппинг подтверждён, анализ планов уже запущен.'}
+        </p>
+      </div>
+
+      <div className="flex flex-col gap-4">
+        {review.speakers.map(renderSpeaker)}
+      </div>
+
+      {awaitingReview && (
+        <div className="sticky bottom-0 mt-6 py-4 bg-[#101010] flex items-center justify-end gap-4">
+          {changedCount > 0 && (
+            <span className="text-[#979797] text-sm">Изменено: {changedCount}</span>
+          )}
+          <button
+            onClick={handleConfirm}
+            disabled={submitting}
+            className="h-[42px] px-4 bg-gradient-to-r from-cyan-500 to-blue-500 rounded-lg hover:from-cyan-600 hover:to-blue-600 disabled:opacity-50"
+          >
+            <span className="text-white text-sm font-medium">
+              {submitting ? 'Сохранение...' : 'Подтвердить и запустить анализ'}
+            </span>
+          </button>
+        </div>
+      )}
+    </main>
+  );
+}
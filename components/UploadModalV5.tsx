@@ -13,10 +13,10 @@
  * Workflow: сценарий → видео → улучшенная обработка
  */
 
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import Image from 'next/image';
 import { createClient } from '@/lib/supabase/client';
-import type { FilmMetadata, ScriptData } from '@/types';
+import type { FilmMetadata, ScriptData, Series } from '@/types';
 import * as tus from 'tus-js-client';
 
 interface UploadModalV5Props {
@@ -51,8 +51,47 @@ export default function UploadModalV5({
   const [error, setError] = useState('');
   const [isDragging, setIsDragging] = useState(false);
   const [videoDuration, setVideoDuration] = useState<number | null>(null);
+  // Остановиться после init и проверить маппинг спикеров перед анализом планов
+  const [reviewMapping, setReviewMapping] = useState(false);
+  // Серия сериала — персонажи засеваются из реестра сериала
+  const [seriesList, setSeriesList] = useState<Series[]>([]);
+  const [seriesId, setSeriesId] = useState('');
+  const [seasonNumber, setSeasonNumber] = useState('');
+  const [episodeNumber, setEpisodeNumber] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => {
+    fetch('/api/series')
+      .then((response) => (response.ok ? response.json() : { series: [] }))
+      .then((result) => setSeriesList(result.series || []))
+      .catch((error) => console.error('Failed to load series:', error));
+  }, []);
+
+  const handleSeriesChange = async (value: string) => {
+    if (value !== '__new__') {
+      setSeriesId(value);
+      return;
+    }
+
+    const title = prompt('Название сериала:');
+    if (!title?.trim()) return;
+
+    const response = await fetch('/api/series', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title }),
+    });
+    const result = await response.json();
+
+    if (!response.ok) {
+      setError(result.error || 'Не удалось создать сериал');
+      return;
+    }
+
+    setSeriesList((prev) => [result.series, ...prev]);
+    setSeriesId(result.series.id);
+  };
+
   // Get video duration
   const getVideoDuration = (file: File): Promise<number> => {
     return new Promise((resolve, reject) => {
@@ -351,6 +390,9 @@ export default function UploadModalV5({
           skipAutoProcess: 'true',
           filmMetadata: enrichedMetadata,
           scriptData: scriptData,
+          seriesId: seriesId || null,
+          seasonNumber: seriesId && seasonNumber ? Number(seasonNumber) : null,
+          episodeNumber: seriesId && episodeNumber ? Number(episodeNumber) : null,
           processingVersion: 'v5-beta', // <-- МАРКЕР V5 BETA
         }),
       });
@@ -382,6 +424,7 @@ export default function UploadModalV5({
           videoDuration: videoDuration,
           filmMetadata: enrichedMetadata,
           scriptData: scriptData,
+          reviewMapping,
         }),
       });
 
@@ -613,6 +656,46 @@ export default function UploadModalV5({
                   {videoDuration && <span className="ml-2">• {formatDuration(videoDuration)}</span>}
                 </p>
               </div>
+              <label className="flex items-center gap-2 text-[#a4a4a4] text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={reviewMapping}
+                  onChange={(e) => setReviewMapping(e.target.checked)}
+                />
+                Проверить спикеров перед анализом
+              </label>
+              <select
+                value={seriesId}
+                onChange={(e) => handleSeriesChange(e.target.value)}
+                className="h-9 px-3 bg-[#101010] border border-[#2e2e2e] rounded-lg text-white text-sm outline-none"
+                title="Персонажи прошлых серий подскажут маппинг спикеров"
+              >
+                <option value="">Без сериала</option>
+                {seriesList.map((series) => (
+                  <option key={series.id} value={series.id}>{series.title}</option>
+                ))}
+                <option value="__new__">+ Новый сериал…</option>
+              </select>
+              {seriesId && (
+                <div className="flex items-center gap-2 text-[#a4a4a4] text-sm">
+                  <span>Сезон</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={seasonNumber}
+                    onChange={(e) => setSeasonNumber(e.target.value)}
+                    className="w-16 h-9 px-2 bg-[#101010] border border-[#2e2e2e] rounded-lg text-white outline-none"
+                  />
+                  <span>Серия</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={episodeNumber}
+                    onChange={(e) => setEpisodeNumber(e.target.value)}
+                    className="w-16 h-9 px-2 bg-[#101010] border border-[#2e2e2e] rounded-lg text-white outline-none"
+                  />
+                </div>
+              )}
               <button
                 onClick={() => { setFile(null); setVideoDuration(null); }}
                 className="text-[#a4a4a4] text-sm hover:text-white"
@@ -9,6 +9,7 @@ import {
 } from '@heroicons/react/24/outline';
 import { createClient } from '@/lib/supabase/client';
 import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
 import type { User } from '@supabase/supabase-js';
 import type { Profile } from '@/types';
 
@@ -17,9 +18,19 @@ interface UserMenuProps {
   profile: Profile | null;
 }
 
+interface VideoProviderOption {
+  id: string;
+  label: string;
+  configured: boolean;
+}
+
 export default function UserMenu({ user, profile }: UserMenuProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isPasswordVisible, setIsPasswordVisible] = useState(false);
+  // Порядок провайдеров анализа видео: выбранные — в порядке нажатия
+  const [videoProviders, setVideoProviders] = useState<string[]>([]);
+  const [providerOptions, setProviderOptions] = useState<VideoProviderOption[]>([]);
+  const [isSavingProviders, setIsSavingProviders] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const router = useRouter();
   const supabase = createClient();
@@ -94,6 +105,48 @@ export default function UserMenu({ user, profile }: UserMenuProps) {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  useEffect(() => {
+    if (!isOpen) return;
+
+    fetch('/api/profile/video-providers')
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error);
+        setVideoProviders(result.providers);
+        setProviderOptions(result.available);
+      })
+      .catch((error) => console.error('Error loading video providers:', error));
+  }, [isOpen]);
+
+  const toggleVideoProvider = (id: string) => {
+    setVideoProviders((prev) => (prev.includes(id) ? prev.filter((p) => p !== id) : [...prev, id]));
+  };
+
+  const handleSaveVideoProviders = async () => {
+    setIsSavingProviders(true);
+    try {
+      const response = await fetch('/api/profile/video-providers', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ providers: videoProviders }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error('Не удалось сохранить провайдеров', { description: result.error });
+        return;
+      }
+
+      setVideoProviders(result.providers);
+      toast.success('Порядок провайдеров сохранён', { description: result.chain.join(' → ') });
+    } catch (error) {
+      console.error('Error saving video providers:', error);
+      toast.error('Не удалось сохранить провайдеров');
+    } finally {
+      setIsSavingProviders(false);
+    }
+  };
+
   const handleSignOut = async () => {
     await supabase.auth.signOut();
     router.push('/auth/login');
@@ -154,6 +207,42 @@ export default function UserMenu({ user, profile }: UserMenuProps) {
               </div>
             </div>
 
+            {/* Video providers */}
+            {providerOptions.length > 0 && (
+              <div className="space-y-2">
+                <label className="text-[#8c8a87] text-xs font-medium tracking-wide">
+                  Анализ видео (порядок — по нажатию, без выбора — по умолчанию)
+                </label>
+                <div className="flex flex-wrap gap-1.5">
+                  {providerOptions.map((option) => {
+                    const position = videoProviders.indexOf(option.id);
+                    return (
+                      <button
+                        key={option.id}
+                        type="button"
+                        onClick={() => toggleVideoProvider(option.id)}
+                        title={option.configured ? option.id : `${option.id}: ключ не настроен`}
+                        className={`h-8 px-2.5 rounded-lg text-xs font-medium transition-colors flex items-center gap-1.5 ${
+                          position >= 0 ? 'bg-white text-black' : 'bg-[#1e1e1e] text-[#979797] hover:text-white'
+                        } ${option.configured ? '' : 'opacity-50'}`}
+                      >
+                        {position >= 0 && <span>{position + 1}</span>}
+                        {option.label}
+                      </button>
+                    );
+                  })}
+                </div>
+                <button
+                  type="button"
+                  onClick={handleSaveVideoProviders}
+                  disabled={isSavingProviders}
+                  className="h-9 rounded-lg border border-[#2e2e2e] text-white text-sm font-medium w-full hover:bg-[#1c1c1c] transition-colors disabled:opacity-50"
+                >
+                  {isSavingProviders ? 'Сохранение...' : 'Сохранить'}
+                </button>
+              </div>
+            )}
+
             {/* Plan card */}
             <div className="bg-[#191919] border border-[#2e2e2e] rounded-xl p-4 space-y-3">
               <div>
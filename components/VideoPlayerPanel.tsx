@@ -0,0 +1,289 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { RefObject } from 'react';
+import { XMarkIcon, PlayIcon, PauseIcon, ChevronLeftIcon, ChevronRightIcon, ChevronDoubleLeftIcon, ChevronDoubleRightIcon } from '@heroicons/react/16/solid';
+import type { MontageEntry } from '@/types';
+import {
+  secondsToFrame,
+  frameToSeconds,
+  secondsToFrameTimecode,
+  timecodeToSeekSeconds,
+  getPlanStepTarget,
+} from '@/lib/montage-player';
+
+interface VideoPlayerPanelProps {
+  videoId: string;
+  fps: number;
+  entries: MontageEntry[];
+  videoRef: RefObject<HTMLVideoElement | null>;
+  /** Вызывается при каждом новом кадре (во время воспроизведения и после перемотки) */
+  onFrameChange: (frame: number) => void;
+  /** Mark in / mark out: таймкод текущего кадра в начало или конец выбранного плана */
+  onMark?: (edge: 'start' | 'end', timecode: string) => void;
+  /** Подпись плана, к которому применяются mark in / mark out */
+  markTargetLabel?: string | null;
+  onClose: () => void;
+}
+
+const MAX_URL_RETRIES = 2;
+
+const SHORTCUTS = [
+  ['Пробел', 'пауза / воспроизведение'],
+  ['↑ / ↓', 'план назад / вперёд'],
+  ['← / →', 'кадр назад / вперёд'],
+  ['Shift + ← / →', 'секунда назад / вперёд'],
+  ['I / O', 'начало / конец выбранного плана на текущий кадр'],
+];
+
+/** Не перехватываем клавиши, когда пользователь печатает */
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+export default function VideoPlayerPanel({
+  videoId,
+  fps,
+  entries,
+  videoRef,
+  onFrameChange,
+  onMark,
+  markTargetLabel,
+  onClose,
+}: VideoPlayerPanelProps) {
+  const [signedUrl, setSignedUrl] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTimecode, setCurrentTimecode] = useState('00:00:00:00');
+
+  // Подписанная ссылка живёт 2 часа — при ошибке воспроизведения запрашиваем новую
+  const [urlRequest, setUrlRequest] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSignedUrl = async () => {
+      try {
+        const response = await fetch(`/api/videos/${videoId}`);
+        const result = await response.json();
+        if (cancelled) return;
+
+        if (!response.ok || !result.signedUrl) {
+          setLoadError(result.error || 'Не удалось загрузить видео');
+          return;
+        }
+
+        setLoadError(null);
+        setSignedUrl(result.signedUrl);
+      } catch (error) {
+        console.error('Error loading video URL:', error);
+        if (!cancelled) setLoadError('Не удалось загрузить видео');
+      }
+    };
+
+    loadSignedUrl();
+    return () => {
+      cancelled = true;
+    };
+  }, [videoId, urlRequest]);
+
+  const handleVideoError = () => {
+    if (urlRequest < MAX_URL_RETRIES) {
+      setUrlRequest((n) => n + 1);
+    } else {
+      setLoadError('Не удалось воспроизвести видео');
+    }
+  };
+
+  const reportPosition = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    setCurrentTimecode(secondsToFrameTimecode(video.currentTime, fps));
+    onFrameChange(secondsToFrame(video.currentTime, fps));
+  }, [videoRef, fps, onFrameChange]);
+
+  // Во время воспроизведения обновляем позицию покадрово (timeupdate приходит ~4 раза в секунду)
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frameRequest = 0;
+    const tick = () => {
+      reportPosition();
+      frameRequest = requestAnimationFrame(tick);
+    };
+    frameRequest = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frameRequest);
+  }, [isPlaying, reportPosition]);
+
+  const seekToFrame = useCallback((frame: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = frameToSeconds(frame, fps);
+  }, [videoRef, fps]);
+
+  const togglePlay = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) {
+      video.play().catch((error) => console.error('Playback error:', error));
+    } else {
+      video.pause();
+    }
+  }, [videoRef]);
+
+  const stepFrames = useCallback((delta: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    seekToFrame(secondsToFrame(video.currentTime, fps) + delta);
+  }, [videoRef, fps, seekToFrame]);
+
+  const stepPlan = useCallback((direction: 1 | -1) => {
+    const video = videoRef.current;
+    if (!video) return;
+    const target = getPlanStepTarget(entries, secondsToFrame(video.currentTime, fps), fps, direction);
+    if (target) {
+      video.currentTime = timecodeToSeekSeconds(target.start_timecode, fps);
+    }
+  }, [videoRef, entries, fps]);
+
+  const markCurrentFrame = useCallback((edge: 'start' | 'end') => {
+    const video = videoRef.current;
+    if (!video || !onMark) return;
+    video.pause();
+    onMark(edge, secondsToFrameTimecode(video.currentTime, fps));
+  }, [videoRef, fps, onMark]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target) || e.metaKey || e.ctrlKey || e.altKey) return;
+
+      switch (e.key) {
+        case ' ':
+          e.preventDefault();
+          togglePlay();
+          break;
+        case 'ArrowLeft':
+          e.preventDefault();
+          stepFrames(e.shiftKey ? -Math.round(fps) : -1);
+          break;
+        case 'ArrowRight':
+          e.preventDefault();
+          stepFrames(e.shiftKey ? Math.round(fps) : 1);
+          break;
+        case 'ArrowUp':
+          e.preventDefault();
+          stepPlan(-1);
+          break;
+        case 'ArrowDown':
+          e.preventDefault();
+          stepPlan(1);
+          break;
+        case 'i':
+        case 'I':
+        case 'ш':
+        case 'Ш':
+          markCurrentFrame('start');
+          break;
+        case 'o':
+        case 'O':
+        case 'щ':
+        case 'Щ':
+          markCurrentFrame('end');
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [togglePlay, stepFrames, stepPlan, markCurrentFrame, fps]);
+
+  const controlClass = 'w-8 h-8 p-1.5 rounded-md bg-[#2a2a2a] hover:bg-[#3e3e3e] transition-colors flex items-center justify-center';
+
+  return (
+    <div className="sticky top-0 z-20 mb-4 bg-[#191919] rounded-lg border border-[#2e2e2e] p-3 flex gap-4">
+      <div className="w-[480px] shrink-0 aspect-video bg-black rounded-md overflow-hidden flex items-center justify-center">
+        {signedUrl ? (
+          <video
+            ref={videoRef}
+            src={signedUrl}
+            className="w-full h-full"
+            preload="auto"
+            onPlay={() => setIsPlaying(true)}
+            onPause={() => setIsPlaying(false)}
+            onSeeked={reportPosition}
+            onLoadedMetadata={reportPosition}
+            onError={handleVideoError}
+            onClick={togglePlay}
+          />
+        ) : (
+          <span className="text-[#979797] text-sm">{loadError || 'Загрузка видео...'}</span>
+        )}
+      </div>
+
+      <div className="flex-1 flex flex-col gap-3 min-w-0">
+        <div className="flex items-center justify-between">
+          <span className="text-white text-2xl font-mono tracking-wider">{currentTimecode}</span>
+          <div className="flex items-center gap-3">
+            <span className="text-[#979797] text-xs">{fps} fps</span>
+            <button onClick={onClose} className="w-8 h-8 p-1 rounded-md hover:bg-[#2a2a2a] transition-colors flex items-center justify-center" title="Закрыть плеер">
+              <XMarkIcon className="w-4 h-4 text-white" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button onClick={() => stepPlan(-1)} className={controlClass} title="План назад (↑)">
+            <ChevronDoubleLeftIcon className="w-4 h-4 text-white" />
+          </button>
+          <button onClick={() => stepFrames(-1)} className={controlClass} title="Кадр назад (←)">
+            <ChevronLeftIcon className="w-4 h-4 text-white" />
+          </button>
+          <button onClick={togglePlay} className={controlClass} title="Пауза / воспроизведение (пробел)">
+            {isPlaying ? <PauseIcon className="w-4 h-4 text-white" /> : <PlayIcon className="w-4 h-4 text-white" />}
+          </button>
+          <button onClick={() => stepFrames(1)} className={controlClass} title="Кадр вперёд (→)">
+            <ChevronRightIcon className="w-4 h-4 text-white" />
+          </button>
+          <button onClick={() => stepPlan(1)} className={controlClass} title="План вперёд (↓)">
+            <ChevronDoubleRightIcon className="w-4 h-4 text-white" />
+          </button>
+        </div>
+
+        {onMark && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => markCurrentFrame('start')}
+              disabled={!markTargetLabel}
+              className="h-8 px-3 rounded-md bg-[#2a2a2a] hover:bg-[#3e3e3e] transition-colors disabled:opacity-50 text-white text-sm"
+              title="Записать текущий кадр в начальный таймкод (I)"
+            >
+              Mark in
+            </button>
+            <button
+              onClick={() => markCurrentFrame('end')}
+              disabled={!markTargetLabel}
+              className="h-8 px-3 rounded-md bg-[#2a2a2a] hover:bg-[#3e3e3e] transition-colors disabled:opacity-50 text-white text-sm"
+              title="Записать текущий кадр в конечный таймкод (O)"
+            >
+              Mark out
+            </button>
+            <span className="text-[#979797] text-xs truncate">
+              {markTargetLabel || 'Выберите план в таблице'}
+            </span>
+          </div>
+        )}
+
+        <div className="flex flex-col gap-1 mt-auto">
+          {SHORTCUTS.map(([keys, action]) => (
+            <span key={keys} className="text-[#979797] text-xs">
+              <span className="text-[#d4d4d4]">{keys}</span> — {action}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
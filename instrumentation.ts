@@ -0,0 +1,20 @@
+/**
+ * Next.js instrumentation — выполняется один раз при старте процесса сервера
+ *
+ * Запускает воркер очереди обработки (lib/job-queue.ts). После рестарта
+ * посреди фильма воркер подхватывает задачи, аренда которых истекла.
+ */
+
+export async function register() {
+  // Edge runtime не умеет ни ffmpeg, ни долгие задачи
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { startJobWorker } = await import('./lib/job-queue');
+  const { runChunkJob } = await import('./lib/process-chunk-v5');
+  const { runReprocessRangeJob } = await import('./lib/reprocess-range');
+
+  startJobWorker({
+    'process-chunk': runChunkJob,
+    'reprocess-range': runReprocessRangeJob,
+  });
+}
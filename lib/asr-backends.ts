@@ -0,0 +1,348 @@
+/**
+ * ASR Backends — реестр бэкендов распознавания речи с диаризацией
+ *
+ * Все бэкенды приводят ответ к ASRWord/ASRSegment (lib/asr-script-alignment.ts):
+ * время в миллисекундах, спикеры — 'A', 'B', 'C'… как у AssemblyAI, поэтому
+ * сверка со сценарием, голосовые отпечатки и чанки не зависят от бэкенда.
+ *
+ * Выбор бэкенда для видео:
+ * 1. asrBackend из запроса init-processing-v5
+ * 2. ASR_BACKEND в окружении
+ * 3. первый настроенный из ASR_BACKEND_IDS
+ *
+ * 'local-whisper' — faster-whisper (+ pyannote, если есть HF_TOKEN) в
+ * scripts/asr-worker.py на этой же машине: фильм обрабатывается без AssemblyAI
+ * и без отправки аудио наружу.
+ */
+
+import { spawn, spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { groupWordsIntoSegments, type ASRSegment, type ASRWord } from './asr-script-alignment';
+import { withProviderFixture } from './provider-fixtures';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const ASR_BACKEND_IDS = ['assemblyai', 'whisper-replicate', 'local-whisper'] as const;
+export type AsrBackendId = typeof ASR_BACKEND_IDS[number];
+
+export interface AsrRequest {
+  /** Публичная ссылка на видео/аудио — для облачных бэкендов */
+  audioUrl: string;
+  /** Скачанный файл — для локального бэкенда */
+  localPath?: string;
+  language: string;
+  /** Имена персонажей и редкие слова (word boost / initial prompt) */
+  speakerHints: string[];
+  maxSpeakers: number;
+}
+
+/** Общий контракт ответа всех бэкендов */
+export interface AsrTranscript {
+  backend: AsrBackendId;
+  words: ASRWord[];
+  segments: ASRSegment[];
+  speakers: string[];
+  durationSeconds: number;
+  language: string;
+}
+
+export interface AsrBackend {
+  id: AsrBackendId;
+  label: string;
+  isConfigured: () => boolean;
+  transcribe: (request: AsrRequest, fixtureVideoKey?: string) => Promise<AsrTranscript>;
+}
+
+export interface AsrBackendStatus {
+  id: AsrBackendId;
+  label: string;
+  configured: boolean;
+}
+
+/** Ответ scripts/asr-worker.py */
+interface LocalWhisperResult {
+  words: ASRWord[];
+  language: string;
+  duration: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// NORMALIZATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * 'SPEAKER_00', 'SPEAKER_01'… → 'A', 'B'… в порядке первой реплики
+ */
+function normalizeSpeakerLabels(words: ASRWord[]): ASRWord[] {
+  const labels = new Map<string, string>();
+
+  return words.map(word => {
+    const original = word.speaker || 'unknown';
+    let label = labels.get(original);
+    if (!label) {
+      const index = labels.size;
+      label = index < 26 ? String.fromCharCode(65 + index) : `S${index + 1}`;
+      labels.set(original, label);
+    }
+    return { ...word, speaker: label };
+  });
+}
+
+function buildTranscript(
+  backend: AsrBackendId,
+  words: ASRWord[],
+  durationSeconds: number,
+  language: string
+): AsrTranscript {
+  const speakers = Array.from(new Set(words.map(w => w.speaker || 'A'))).sort();
+
+  return {
+    backend,
+    words,
+    segments: groupWordsIntoSegments(words),
+    speakers,
+    durationSeconds,
+    language,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LOCAL WORKER
+// ═══════════════════════════════════════════════════════════════════════════
+
+let localWhisperInstalled: boolean | undefined;
+
+/**
+ * faster-whisper установлен в Python воркера (проверяется один раз на процесс) —
+ * без него задан LOCAL_WHISPER_MODEL или нет, воркер сразу завершится с ошибкой
+ */
+function isLocalWhisperInstalled(): boolean {
+  if (localWhisperInstalled === undefined) {
+    const check = spawnSync(process.env.LOCAL_WHISPER_PYTHON || 'python3', ['-c', 'import faster_whisper'], {
+      stdio: 'ignore',
+      timeout: 30000,
+    });
+    localWhisperInstalled = check.status === 0;
+    if (!localWhisperInstalled) {
+      console.warn('⚠️ local-whisper: faster-whisper is not installed (pip3 install faster-whisper)');
+    }
+  }
+  return localWhisperInstalled;
+}
+
+/**
+ * Запуск scripts/asr-worker.py — прогресс в лог, результат после __RESULT_JSON__
+ */
+async function runLocalWhisper(mediaPath: string, request: AsrRequest): Promise<LocalWhisperResult> {
+  const workerPath = path.join(process.cwd(), 'scripts', 'asr-worker.py');
+  if (!fs.existsSync(workerPath)) {
+    throw new Error(`ASR worker not found: ${workerPath}`);
+  }
+
+  const optionsPath = path.join(os.tmpdir(), `asr_options_${Date.now()}.json`);
+  fs.writeFileSync(optionsPath, JSON.stringify({
+    model: process.env.LOCAL_WHISPER_MODEL,
+    language: request.language,
+    hints: request.speakerHints,
+    maxSpeakers: request.maxSpeakers,
+  }));
+
+  try {
+    return await new Promise<LocalWhisperResult>((resolve, reject) => {
+      const worker = spawn(process.env.LOCAL_WHISPER_PYTHON || 'python3', [workerPath, mediaPath, optionsPath], {
+        cwd: process.cwd(),
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      let stdout = '';
+      let stderr = '';
+
+      worker.stdout.on('data', (data) => {
+        const text = data.toString();
+        stdout += text;
+        if (!stdout.includes('__RESULT_JSON__')) {
+          process.stdout.write(text);
+        }
+      });
+
+      worker.stderr.on('data', (data) => {
+        stderr += data.toString();
+        process.stderr.write(data);
+      });
+
+      worker.on('close', (code) => {
+        if (code !== 0) {
+          reject(new Error(`ASR worker failed with code ${code}\n${stderr.slice(-2000)}`));
+          return;
+        }
+
+        const jsonMarker = '__RESULT_JSON__';
+        const jsonStart = stdout.indexOf(jsonMarker);
+        if (jsonStart === -1) {
+          reject(new Error('No result JSON found in ASR worker output'));
+          return;
+        }
+
+        try {
+          resolve(JSON.parse(stdout.slice(jsonStart + jsonMarker.length).trim()) as LocalWhisperResult);
+        } catch (parseError) {
+          reject(new Error(`Failed to parse ASR worker result: ${parseError}`));
+        }
+      });
+
+      worker.on('error', (err) => {
+        reject(new Error(`Failed to start ASR worker: ${err.message}`));
+      });
+    });
+  } finally {
+    try {
+      fs.unlinkSync(optionsPath);
+    } catch {}
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BACKENDS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const BACKENDS: Record<AsrBackendId, AsrBackend> = {
+  'assemblyai': {
+    id: 'assemblyai',
+    label: 'AssemblyAI (speaker labels)',
+    isConfigured: () => Boolean(process.env.ASSEMBLYAI_API_KEY),
+    transcribe: async (request, fixtureVideoKey) => {
+      const { performFullDiarization } = await import('./full-audio-diarization');
+
+      // Фикстуры AssemblyAI исторически лежат в 'diarization' — старые записи остаются валидными
+      const result = await withProviderFixture(
+        'diarization',
+        fixtureVideoKey,
+        { language: request.language, speakerHints: request.speakerHints, maxSpeakers: request.maxSpeakers },
+        () => performFullDiarization(request.audioUrl, request.language, request.speakerHints, request.maxSpeakers)
+      );
+
+      // AssemblyAI: поле 'word', время уже в мс, спикеры уже 'A', 'B'…
+      const words: ASRWord[] = result.words.map(w => ({
+        text: w.word,
+        startMs: w.start,
+        endMs: w.end,
+        confidence: w.confidence,
+        speaker: w.speaker,
+      }));
+
+      return buildTranscript('assemblyai', words, result.totalDuration, request.language);
+    },
+  },
+
+  'whisper-replicate': {
+    id: 'whisper-replicate',
+    label: 'Whisper + pyannote (Replicate)',
+    isConfigured: () => Boolean(process.env.REPLICATE_API_TOKEN_1),
+    transcribe: async (request, fixtureVideoKey) => {
+      const { transcribeWithDiarization } = await import('./whisper-diarization');
+
+      // maxSpeakers — верхняя граница, а num_speakers модели — точное число: оставляем автоопределение
+      const result = await withProviderFixture(
+        'whisper-replicate',
+        fixtureVideoKey,
+        { language: request.language, speakerHints: request.speakerHints },
+        () => transcribeWithDiarization(request.audioUrl, {
+          language: request.language,
+          prompt: request.speakerHints.join(', '),
+        })
+      );
+
+      // Секунды → мс; сегмент без word timestamps становится одним "словом"
+      const words: ASRWord[] = (result.segments || []).flatMap(segment =>
+        segment.words && segment.words.length > 0
+          ? segment.words.map(w => ({
+              text: w.word.trim(),
+              startMs: Math.round(w.start * 1000),
+              endMs: Math.round(w.end * 1000),
+              confidence: w.probability ?? 1,
+              speaker: segment.speaker,
+            }))
+          : [{
+              text: segment.text.trim(),
+              startMs: Math.round(segment.start * 1000),
+              endMs: Math.round(segment.end * 1000),
+              confidence: 1,
+              speaker: segment.speaker,
+            }]
+      ).filter(w => w.text);
+
+      const durationSeconds = words.length > 0 ? words[words.length - 1].endMs / 1000 : 0;
+      return buildTranscript('whisper-replicate', normalizeSpeakerLabels(words), durationSeconds, result.language || request.language);
+    },
+  },
+
+  'local-whisper': {
+    id: 'local-whisper',
+    label: 'faster-whisper (local worker)',
+    isConfigured: () => Boolean(process.env.LOCAL_WHISPER_MODEL) && isLocalWhisperInstalled(),
+    transcribe: async (request, fixtureVideoKey) => {
+      const result = await withProviderFixture(
+        'local-whisper',
+        fixtureVideoKey,
+        { language: request.language, speakerHints: request.speakerHints, maxSpeakers: request.maxSpeakers },
+        () => {
+          if (!request.localPath) {
+            throw new Error('local-whisper requires a downloaded media file (localPath)');
+          }
+          return runLocalWhisper(request.localPath, request);
+        }
+      );
+
+      return buildTranscript('local-whisper', normalizeSpeakerLabels(result.words), result.duration, result.language || request.language);
+    },
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function isAsrBackendId(value: unknown): value is AsrBackendId {
+  return typeof value === 'string' && (ASR_BACKEND_IDS as readonly string[]).includes(value);
+}
+
+export function getAsrBackend(id: AsrBackendId): AsrBackend {
+  return BACKENDS[id];
+}
+
+/**
+ * Бэкенд для видео: запрос → ASR_BACKEND → первый настроенный
+ *
+ * @param ignoreConfiguration - replay фикстур: ключи не нужны, ответы из файлов
+ * @returns null — ни один бэкенд не настроен, диаризация пропускается
+ */
+export function resolveAsrBackend(preferred?: unknown, ignoreConfiguration = false): AsrBackendId | null {
+  const usable = (id: AsrBackendId) => ignoreConfiguration || BACKENDS[id].isConfigured();
+
+  for (const candidate of [preferred, process.env.ASR_BACKEND?.trim().toLowerCase()]) {
+    if (candidate === undefined || candidate === null || candidate === '') continue;
+    if (!isAsrBackendId(candidate)) {
+      console.warn(`⚠️ Unknown ASR backend "${candidate}" (expected: ${ASR_BACKEND_IDS.join(', ')})`);
+      continue;
+    }
+    if (usable(candidate)) return candidate;
+    console.warn(`⚠️ ASR backend "${candidate}" is not configured, falling back`);
+  }
+
+  return ASR_BACKEND_IDS.find(usable) || null;
+}
+
+/**
+ * Состояние всех бэкендов — для /api/health
+ */
+export function getAsrBackendStatus(): AsrBackendStatus[] {
+  return ASR_BACKEND_IDS.map(id => ({
+    id,
+    label: BACKENDS[id].label,
+    configured: BACKENDS[id].isConfigured(),
+  }));
+}
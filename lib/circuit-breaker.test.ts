@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker, CircuitOpenError, getCircuitBreaker } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const fail = () => Promise.reject(new Error('timeout'));
+
+  it('opens after the threshold of consecutive failures', async () => {
+    const breaker = new CircuitBreaker('test', { threshold: 2, cooldown: 1000 });
+
+    await expect(breaker.execute(fail)).rejects.toThrow('timeout');
+    expect(breaker.getState()).toBe('CLOSED');
+    await expect(breaker.execute(fail)).rejects.toThrow('timeout');
+    expect(breaker.getState()).toBe('OPEN');
+
+    await expect(breaker.execute(async () => 'ok')).rejects.toThrow(CircuitOpenError);
+  });
+
+  it('resets the failure count on success', async () => {
+    const breaker = new CircuitBreaker('test', { threshold: 2, cooldown: 1000 });
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await breaker.execute(async () => 'ok');
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    expect(breaker.getState()).toBe('CLOSED');
+  });
+
+  it('lets a test request through after the cooldown', async () => {
+    const breaker = new CircuitBreaker('test', { threshold: 1, cooldown: 1000 });
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.getState()).toBe('HALF_OPEN');
+    await expect(breaker.execute(fail)).rejects.toThrow('timeout');
+    expect(breaker.getState()).toBe('OPEN');
+
+    vi.advanceTimersByTime(1000);
+    await expect(breaker.execute(async () => 'ok')).resolves.toBe('ok');
+    expect(breaker.getStats()).toMatchObject({ state: 'CLOSED', failures: 0, totalRequests: 3, totalFailures: 2 });
+  });
+});
+
+describe('getCircuitBreaker', () => {
+  it('returns one breaker per name, ignoring later options', () => {
+    const breaker = getCircuitBreaker('registry-test', { threshold: 1 });
+
+    expect(getCircuitBreaker('registry-test', { threshold: 5 })).toBe(breaker);
+    expect(getCircuitBreaker('registry-other')).not.toBe(breaker);
+  });
+});
@@ -193,23 +193,26 @@ export class CircuitOpenError extends Error {
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
-// SINGLETON INSTANCES для внешних API
+// REGISTRY — один circuit breaker на внешний API
 // ═══════════════════════════════════════════════════════════════════════════
 
-/** Circuit Breaker для Gemini на Replicate */
-export const geminiCircuitBreaker = new CircuitBreaker('gemini-replicate', {
-  threshold: 3,
-  cooldown: 60000, // 1 минута
-});
+const circuitBreakers = new Map<string, CircuitBreaker>();
 
-/** Circuit Breaker для FAL.ai */
-export const falCircuitBreaker = new CircuitBreaker('fal-ai', {
-  threshold: 3,
-  cooldown: 60000, // 1 минута
-});
+/**
+ * Circuit breaker по имени: создаётся при первом обращении, дальше —
+ * тот же экземпляр (опции повторных вызовов игнорируются)
+ */
+export function getCircuitBreaker(name: string, options: Partial<CircuitBreakerOptions> = {}): CircuitBreaker {
+  let breaker = circuitBreakers.get(name);
+  if (!breaker) {
+    breaker = new CircuitBreaker(name, options);
+    circuitBreakers.set(name, breaker);
+  }
+  return breaker;
+}
 
 /** Circuit Breaker для AssemblyAI */
-export const assemblyAICircuitBreaker = new CircuitBreaker('assemblyai', {
+export const assemblyAICircuitBreaker = getCircuitBreaker('assemblyai', {
   threshold: 2,
   cooldown: 120000, // 2 минуты (AssemblyAI более критичен)
 });
@@ -218,18 +221,12 @@ export const assemblyAICircuitBreaker = new CircuitBreaker('assemblyai', {
  * Получить статистику всех circuit breakers
  */
 export function getAllCircuitStats(): CircuitBreakerStats[] {
-  return [
-    geminiCircuitBreaker.getStats(),
-    falCircuitBreaker.getStats(),
-    assemblyAICircuitBreaker.getStats(),
-  ];
+  return Array.from(circuitBreakers.values(), breaker => breaker.getStats());
 }
 
 /**
  * Сбросить все circuit breakers
  */
 export function resetAllCircuits(): void {
-  geminiCircuitBreaker.reset();
-  falCircuitBreaker.reset();
-  assemblyAICircuitBreaker.reset();
+  circuitBreakers.forEach(breaker => breaker.reset());
 }
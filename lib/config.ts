@@ -8,7 +8,7 @@
 // PROCESSING LIMITS
 // ═══════════════════════════════════════════════════════════════════════════
 
-/** Максимум одновременно обрабатываемых чанков */
+/** Максимум одновременно обрабатываемых чанков — на все процессы сервера (claim_processing_job) */
 export const MAX_CONCURRENT_CHUNKS = 1;
 
 /** Максимальное время обработки одного чанка (5 минут) */
@@ -24,14 +24,31 @@ export const GEMINI_TIMEOUT_MS = 300000;
 export const MAX_CHUNK_RETRIES = 3;
 
 // ═══════════════════════════════════════════════════════════════════════════
-// TIMEOUTS FOR STUCK DETECTION
+// JOB QUEUE (lib/job-queue.ts)
 // ═══════════════════════════════════════════════════════════════════════════
 
-/** Timeout для 'triggering' статуса (60 секунд) */
-export const TRIGGERING_TIMEOUT_MS = 60 * 1000;
+/** Аренда задачи: без heartbeat дольше — воркер считается потерянным (2 минуты) */
+export const JOB_LEASE_MS = 2 * 60 * 1000;
 
-/** Timeout для 'in_progress' статуса (20 минут) */
-export const STUCK_CHUNK_TIMEOUT_MS = 20 * 60 * 1000;
+/** Интервал heartbeat (30 секунд) */
+export const JOB_HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+/** Опрос очереди воркером (5 секунд) */
+export const JOB_POLL_INTERVAL_MS = 5000;
+
+/** Backoff между попытками: 30s, 60s, 120s… не больше 10 минут */
+export const JOB_RETRY_BASE_DELAY_MS = 30 * 1000;
+export const JOB_RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PROGRESS STREAM (lib/processing-progress.ts)
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Опрос БД потоком прогресса (2 секунды) */
+export const PROGRESS_POLL_INTERVAL_MS = 2000;
+
+/** Поток закрывается не позже (10 минут) — EventSource переподключится сам */
+export const PROGRESS_STREAM_MAX_MS = 10 * 60 * 1000;
 
 // ═══════════════════════════════════════════════════════════════════════════
 // CIRCUIT BREAKER SETTINGS
@@ -111,8 +128,13 @@ export const PROCESSING_CONFIG = {
   FAL_TIMEOUT_MS,
   GEMINI_TIMEOUT_MS,
   MAX_CHUNK_RETRIES,
-  TRIGGERING_TIMEOUT_MS,
-  STUCK_CHUNK_TIMEOUT_MS,
+  JOB_LEASE_MS,
+  JOB_HEARTBEAT_INTERVAL_MS,
+  JOB_POLL_INTERVAL_MS,
+  JOB_RETRY_BASE_DELAY_MS,
+  JOB_RETRY_MAX_DELAY_MS,
+  PROGRESS_POLL_INTERVAL_MS,
+  PROGRESS_STREAM_MAX_MS,
   CIRCUIT_BREAKER_THRESHOLD,
   CIRCUIT_BREAKER_COOLDOWN_MS,
   CHUNK_DURATION_SECONDS,
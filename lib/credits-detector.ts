@@ -9,18 +9,16 @@
  * Этот модуль объединяет быстрые сцены обратно в один план
  */
 
+import { msToFrameTimecode } from './video-chunking';
+
 export interface FFmpegScene {
   timecode: string;
   timestamp: number;
 }
 
-// Helper: timestamp (seconds) to timecode HH:MM:SS:FF
-function timestampToTimecode(seconds: number, fps: number = 25): string {
-  const h = Math.floor(seconds / 3600);
-  const m = Math.floor((seconds % 3600) / 60);
-  const s = Math.floor(seconds % 60);
-  const f = Math.floor((seconds % 1) * fps);
-  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}:${f.toString().padStart(2, '0')}`;
+// Helper: timestamp (seconds) to timecode HH:MM:SS:FF at the real video FPS
+function timestampToTimecode(seconds: number, fps: number): string {
+  return msToFrameTimecode(seconds * 1000, fps);
 }
 
 export interface MergedScene {
@@ -247,7 +245,7 @@ export function detectClosingCredits(
 export function mergeCreditsScenes(
   scenes: FFmpegScene[],
   videoDuration: number,
-  fps: number = 24,
+  fps: number,
   options: { 
     skipCreditsMerging?: boolean;
     firstDialogueTime?: number;  // Время первого диалога (сек) — для умной детекции конца заставки
@@ -430,7 +428,7 @@ export function mergeCreditsScenes(
 /**
  * Форматирует timestamp в таймкод
  */
-function formatTimecode(seconds: number, fps: number = 24): string {
+function formatTimecode(seconds: number, fps: number): string {
   const safeFps = Math.max(1, Math.round(fps));
   const totalFrames = Math.round(seconds * safeFps);
   const f = ((totalFrames % safeFps) + safeFps) % safeFps;
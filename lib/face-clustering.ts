@@ -85,6 +85,7 @@ export interface FaceCluster {
   clusterId: string;        // "FACE_0", "FACE_1", ...
   faces: FaceInstance[];    // Все экземпляры этого лица (может быть пустым в worker mode)
   faceTimestamps?: number[]; // Timestamps лиц (сек) - используется когда faces пустой
+  faceHeights?: number[];    // Высота лица / высота кадра, параллельно faceTimestamps
   centroid: Float32Array;   // Центроид для сравнения
   appearances: number;      // Сколько раз появлялся
   firstSeen: number;        // Первое появление (сек)
@@ -568,6 +569,7 @@ interface WorkerResult {
     lastSeen: number;
     centroid: number[];
     faceTimestamps?: number[]; // Timestamps of all faces in this cluster (for Face Presence Evidence)
+    faceHeights?: number[];    // Relative face heights, parallel to faceTimestamps (plan type estimation)
   }>;
   stats?: {
     framesProcessed: number;
@@ -672,6 +674,7 @@ export async function clusterFacesInVideoWorker(
           clusterId: c.clusterId,
           faces: [], // Not included in worker output to save memory
           faceTimestamps: c.faceTimestamps || [], // Timestamps for Face Presence Evidence
+          faceHeights: c.faceHeights || [],
           centroid: new Float32Array(c.centroid),
           appearances: c.appearances,
           firstSeen: c.firstSeen,
@@ -29,6 +29,7 @@ export interface FaceCluster {
   clusterId: string;        // "FACE_0", "FACE_1", ...
   faces: FaceInstance[];    // Все экземпляры этого лица (может быть пустым в worker mode)
   faceTimestamps?: number[]; // Timestamps лиц (сек) - используется когда faces пустой
+  faceHeights?: number[];    // Высота лица / высота кадра, параллельно faceTimestamps
   centroid: Float32Array | number[];   // Центроид для сравнения
   appearances: number;      // Сколько раз появлялся
   firstSeen: number;        // Первое появление (сек)
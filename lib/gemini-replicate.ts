@@ -8,11 +8,10 @@
  * 
  * Fallback: fal.ai (если Replicate недоступен)
  * 
- * Защита: Circuit Breaker предотвращает DDoS при падении API
+ * Защита: Circuit Breaker провайдера в lib/video-providers.ts
  */
 
 import Replicate from 'replicate';
-import { geminiCircuitBreaker, CircuitOpenError } from './circuit-breaker';
 import { GEMINI_TIMEOUT_MS } from './config';
 
 export interface VideoAnalysisPlan {
@@ -34,29 +33,37 @@ export interface VideoAnalysisResult {
 }
 
 /**
- * Анализирует видео через Gemini 2.5 Flash на Replicate
+ * Версии промпта визуального анализа
+ * - default — персонажи в кадре, описание, тип плана
+ * - plan-types — то же + глоссарий крупности планов и НДП при титрах
+ *   (когда default ошибается в типе плана)
  */
-export async function analyzeVideoWithGemini(
-  videoUrl: string,
-  scenes: Array<{ start_timecode: string; end_timecode: string }>,
-  characters: Array<{ name: string; description?: string; attributes?: any }>,
-  scriptScenes?: Array<{ sceneNumber: string; location: string; characters: string[]; description?: string }>
-): Promise<VideoAnalysisResult> {
-  
-  // Инициализация Replicate (поддержка нумерованных токенов)
-  const apiToken = process.env.REPLICATE_API_TOKEN || process.env.REPLICATE_API_TOKEN_1;
-  if (!apiToken) {
-    console.log('⚠️ REPLICATE_API_TOKEN not found, will use FAL fallback');
-    return {
-      success: false,
-      plans: [],
-      error: 'No Replicate token',
-      source: 'error'
-    };
-  }
+export const VIDEO_PROMPT_VERSIONS = ['default', 'plan-types'] as const;
+export type VideoPromptVersion = typeof VIDEO_PROMPT_VERSIONS[number];
 
-  const replicate = new Replicate({ auth: apiToken });
+export function isVideoPromptVersion(value: unknown): value is VideoPromptVersion {
+  return typeof value === 'string' && (VIDEO_PROMPT_VERSIONS as readonly string[]).includes(value);
+}
 
+const PLAN_TYPES_GLOSSARY = `
+🎥 ТИП ПЛАНА (planType) — по крупности:
+- "Деталь" — часть лица или предмет (руки, телефон)
+- "Кр." — голова и плечи
+- "Ср." — по пояс / по колени
+- "Общ." — человек в полный рост, вся сцена
+- Если на экране титры или надписи — добавь " НДП": "Кр. НДП", "Ср. НДП"
+`;
+
+/**
+ * Промпт визуального анализа чанка — общий для всех Gemini-провайдеров
+ * (Replicate, Google AI напрямую, OpenRouter)
+ */
+export function buildVideoAnalysisPrompt(
+  scenes: Array<{ start_timecode: string; end_timecode: string }>,
+  characters: Array<{ name: string; description?: string; attributes?: any }>,
+  scriptScenes?: Array<{ sceneNumber: string; location: string; characters: string[]; description?: string }>,
+  version: VideoPromptVersion = 'default'
+): string {
   // Подготовка данных
   const characterList = characters.slice(0, 15).map(c => {
     const attrs = c.attributes ? ` (${c.attributes.gender}, ${c.attributes.ageRange}, волосы: ${c.attributes.hairColor})` : '';
@@ -72,7 +79,7 @@ export async function analyzeVideoWithGemini(
     sceneContext = `\n📋 СЦЕНЫ ИЗ СЦЕНАРИЯ:\n${relevantScenes}\n`;
   }
 
-  const prompt = `Ты профессиональный монтажёр. Проанализируй видео и определи КТО находится в кадре.
+  return `Ты профессиональный монтажёр. Проанализируй видео и определи КТО находится в кадре.
 
 👥 ПЕРСОНАЖИ ФИЛЬМА (используй для идентификации по внешности):
 ${characterList || 'не указаны'}
@@ -100,7 +107,7 @@ ${scenes.length > 10 ? `... и ещё ${scenes.length - 10} планов` : ''}
    - Движению губ
    - Кто в фокусе камеры при звучании реплики
    - Жестикуляции
-
+${version === 'plan-types' ? PLAN_TYPES_GLOSSARY : ''}
 ✅ ФОРМАТ ОТВЕТА - СТРОГО JSON:
 {
   "plans": [
@@ -120,6 +127,92 @@ ${scenes.length > 10 ? `... и ещё ${scenes.length - 10} планов` : ''}
 - Если персонаж соответствует описанию из списка — укажи ИМЯ
 - Если не уверен — опиши внешность (напр. "женщина в красном")
 - Ответь ТОЛЬКО валидным JSON!`;
+}
+
+/**
+ * Разбор ответа модели: JSON (в т.ч. в markdown-блоке) → regex fallback
+ *
+ * Если не удалось ни то, ни другое — пустой список и error, сырой ответ
+ * вызывающий код сохраняет в rawOutput.
+ */
+export function parseVideoAnalysisOutput(output: string): { plans: VideoAnalysisPlan[]; error?: string } {
+  let jsonStr = output;
+  
+  // Убираем markdown блоки
+  const jsonMatch = output.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (jsonMatch) {
+    jsonStr = jsonMatch[1].trim();
+  }
+  
+  // Ищем JSON объект
+  const jsonObjectMatch = jsonStr.match(/\{[\s\S]*\}/);
+  if (jsonObjectMatch) {
+    jsonStr = jsonObjectMatch[0];
+  }
+  
+  // Исправляем частые проблемы в JSON
+  jsonStr = jsonStr
+    .replace(/,\s*}/g, '}')  // Trailing comma
+    .replace(/,\s*]/g, ']')
+    .replace(/'/g, '"');     // Single quotes
+
+  try {
+    const parsed = JSON.parse(jsonStr);
+    const plans: VideoAnalysisPlan[] = parsed.plans || [];
+    
+    console.log(`   📋 Parsed ${plans.length} plans from Gemini`);
+    return { plans };
+  } catch {
+    // Fallback: regex extraction
+    const planRegex = /"planNumber"\s*:\s*(\d+)[\s\S]*?"planType"\s*:\s*"([^"]*)"[\s\S]*?"description"\s*:\s*"([^"]*)"/g;
+    const extractedPlans: VideoAnalysisPlan[] = [];
+    let match;
+    while ((match = planRegex.exec(output)) !== null) {
+      extractedPlans.push({
+        planNumber: parseInt(match[1]),
+        planType: match[2],
+        description: match[3],
+        visualCharacters: [],
+        location: ''
+      });
+    }
+    
+    if (extractedPlans.length > 0) {
+      console.log(`   📋 Extracted ${extractedPlans.length} plans via regex fallback`);
+      return { plans: extractedPlans };
+    }
+    
+    console.warn(`   ⚠️ JSON parse failed, returning raw output`);
+    return { plans: [], error: 'JSON parse failed' };
+  }
+}
+
+/**
+ * Анализирует видео через Gemini 2.5 Flash на Replicate
+ */
+export async function analyzeVideoWithGemini(
+  videoUrl: string,
+  scenes: Array<{ start_timecode: string; end_timecode: string }>,
+  characters: Array<{ name: string; description?: string; attributes?: any }>,
+  scriptScenes?: Array<{ sceneNumber: string; location: string; characters: string[]; description?: string }>,
+  promptVersion?: VideoPromptVersion
+): Promise<VideoAnalysisResult> {
+  
+  // Инициализация Replicate (поддержка нумерованных токенов)
+  const apiToken = process.env.REPLICATE_API_TOKEN || process.env.REPLICATE_API_TOKEN_1;
+  if (!apiToken) {
+    console.log('⚠️ REPLICATE_API_TOKEN not found, will use FAL fallback');
+    return {
+      success: false,
+      plans: [],
+      error: 'No Replicate token',
+      source: 'error'
+    };
+  }
+
+  const replicate = new Replicate({ auth: apiToken });
+
+  const prompt = buildVideoAnalysisPrompt(scenes, characters, scriptScenes, promptVersion);
 
   try {
     console.log(`🎬 [GEMINI/Replicate] Analyzing video: ${videoUrl.slice(0, 80)}...`);
@@ -157,73 +250,15 @@ ${scenes.length > 10 ? `... и ещё ${scenes.length - 10} планов` : ''}
     const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
     console.log(`   ✅ Gemini response in ${elapsed}s (${output.length} chars)`);
 
-    // Парсим JSON с улучшенной обработкой
-    let jsonStr = output;
-    
-    // Убираем markdown блоки
-    const jsonMatch = output.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (jsonMatch) {
-      jsonStr = jsonMatch[1].trim();
-    }
-    
-    // Ищем JSON объект
-    const jsonObjectMatch = jsonStr.match(/\{[\s\S]*\}/);
-    if (jsonObjectMatch) {
-      jsonStr = jsonObjectMatch[0];
-    }
-    
-    // Исправляем частые проблемы в JSON
-    jsonStr = jsonStr
-      .replace(/,\s*}/g, '}')  // Trailing comma
-      .replace(/,\s*]/g, ']')
-      .replace(/'/g, '"');     // Single quotes
+    const { plans, error } = parseVideoAnalysisOutput(output);
 
-    try {
-      const parsed = JSON.parse(jsonStr);
-      const plans: VideoAnalysisPlan[] = parsed.plans || [];
-      
-      console.log(`   📋 Parsed ${plans.length} plans from Gemini`);
-      
-      return {
-        success: true,
-        plans,
-        rawOutput: output,
-        source: 'gemini-replicate'
-      };
-    } catch (parseError) {
-      // Fallback: regex extraction
-      const planRegex = /"planNumber"\s*:\s*(\d+)[\s\S]*?"planType"\s*:\s*"([^"]*)"[\s\S]*?"description"\s*:\s*"([^"]*)"/g;
-      const extractedPlans: VideoAnalysisPlan[] = [];
-      let match;
-      while ((match = planRegex.exec(output)) !== null) {
-        extractedPlans.push({
-          planNumber: parseInt(match[1]),
-          planType: match[2],
-          description: match[3],
-          visualCharacters: [],
-          location: ''
-        });
-      }
-      
-      if (extractedPlans.length > 0) {
-        console.log(`   📋 Extracted ${extractedPlans.length} plans via regex fallback`);
-        return {
-          success: true,
-          plans: extractedPlans,
-          rawOutput: output,
-          source: 'gemini-replicate'
-        };
-      }
-      
-      console.warn(`   ⚠️ JSON parse failed, returning raw output`);
-      return {
-        success: true,
-        plans: [],
-        rawOutput: output,
-        error: 'JSON parse failed',
-        source: 'gemini-replicate'
-      };
-    }
+    return {
+      success: true,
+      plans,
+      rawOutput: output,
+      ...(error ? { error } : {}),
+      source: 'gemini-replicate'
+    };
 
   } catch (error: any) {
     const errorMsg = error.message || 'Unknown error';
@@ -54,13 +54,15 @@ async function downloadVideoAsBase64(videoUrl: string): Promise<string> {
  * @param prompt - Текстовый промпт
  * @param videoId - ID видео для логов
  * @param modelName - Название модели (default: gemini-2.0-flash)
+ * @param jsonMode - Запросить ответ строго в JSON (responseMimeType)
  * @returns Ответ от Gemini
  */
 export async function analyzeVideoWithGemini(
   videoUrl: string,
   prompt: string,
   videoId: string,
-  modelName: string = DEFAULT_MODEL
+  modelName: string = DEFAULT_MODEL,
+  jsonMode: boolean = false
 ): Promise<GeminiVideoResponse> {
   const apiKey = process.env.GOOGLE_AI_API_KEY;
   
@@ -82,7 +84,10 @@ export async function analyzeVideoWithGemini(
     
     // 2. Создаём клиент
     const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: modelName });
+    const model = genAI.getGenerativeModel({
+      model: modelName,
+      ...(jsonMode ? { generationConfig: { responseMimeType: 'application/json' } } : {}),
+    });
     
     // 3. Генерируем ответ с видео (inline data)
     console.log(`🧠 Generating response...`);
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { getRetryDelayMs } from './job-queue';
+import { JOB_RETRY_BASE_DELAY_MS, JOB_RETRY_MAX_DELAY_MS } from './config';
+
+describe('getRetryDelayMs', () => {
+  it('doubles the delay with each attempt', () => {
+    expect(getRetryDelayMs(1)).toBe(JOB_RETRY_BASE_DELAY_MS);
+    expect(getRetryDelayMs(2)).toBe(JOB_RETRY_BASE_DELAY_MS * 2);
+    expect(getRetryDelayMs(3)).toBe(JOB_RETRY_BASE_DELAY_MS * 4);
+  });
+
+  it('treats the first attempt as the base and caps the delay', () => {
+    expect(getRetryDelayMs(0)).toBe(JOB_RETRY_BASE_DELAY_MS);
+    expect(getRetryDelayMs(50)).toBe(JOB_RETRY_MAX_DELAY_MS);
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * Job Queue — очередь задач обработки в Postgres (таблица processing_jobs)
+ *
+ * Вместо цепочки HTTP-вызовов между чанками (process-chunk-v5 → fetch localhost)
+ * с 'triggering'-таймаутами и автосбросом зависших чанков:
+ * - enqueueJob — задача в таблицу; повторный enqueue активного чанка — no-op;
+ * - воркер в каждом процессе сервера (instrumentation.ts) забирает задачи
+ *   через claim_processing_job (FOR UPDATE SKIP LOCKED) — лимит
+ *   MAX_CONCURRENT_CHUNKS общий для всех процессов;
+ * - пока задача выполняется, воркер продлевает аренду heartbeat'ом. Рестарт
+ *   сервера посреди фильма — аренда истекает, задачу забирает новый процесс;
+ * - ошибка — повтор с экспоненциальным backoff, после max_attempts — 'dead';
+ *   NonRetryableJobError — сразу 'dead' (повтор упадёт так же);
+ * - что вернул обработчик, сохраняется в ProcessingJob.result.
+ *
+ * SQL: supabase/migrations/20261019000600_processing_jobs.sql
+ */
+
+import crypto from 'crypto';
+import os from 'os';
+import { createServiceRoleClient } from './supabase/server';
+import {
+  MAX_CONCURRENT_CHUNKS,
+  MAX_CHUNK_RETRIES,
+  JOB_LEASE_MS,
+  JOB_HEARTBEAT_INTERVAL_MS,
+  JOB_POLL_INTERVAL_MS,
+  JOB_RETRY_BASE_DELAY_MS,
+  JOB_RETRY_MAX_DELAY_MS,
+} from './config';
+import type { ProcessingJob, ProcessingJobStatus } from '@/types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type JobType = 'process-chunk' | 'reprocess-range';
+
+/** Возвращённое значение (JSON) попадает в ProcessingJob.result */
+export type JobHandler = (job: ProcessingJob) => Promise<unknown>;
+
+export type JobHandlers = Partial<Record<JobType, JobHandler>>;
+
+export interface EnqueueJobOptions {
+  chunkIndex?: number | null;
+  /** JSON — попадает в ProcessingJob.payload */
+  payload?: object;
+  /** Первая попытка + повторы */
+  maxAttempts?: number;
+}
+
+export type QueueStats = Record<Exclude<ProcessingJobStatus, 'completed' | 'cancelled'>, number>;
+
+/**
+ * Ошибка, которую повтор не исправит (пустой диапазон, неподходящее видео):
+ * задача сразу уходит в 'dead', last_error — сообщение для пользователя
+ */
+export class NonRetryableJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NonRetryableJobError';
+  }
+}
+
+interface WorkerState {
+  id: string;
+  handlers: JobHandlers;
+  /** Задачи, выполняемые этим процессом */
+  active: number;
+  polling: boolean;
+  timer: ReturnType<typeof setInterval>;
+}
+
+// Состояние воркера — в globalThis: instrumentation.ts и роуты собираются
+// в разные бандлы, у каждого свой экземпляр модуля
+const workerGlobal = globalThis as typeof globalThis & { __processingJobWorker?: WorkerState };
+
+const LEASE_SECONDS = Math.ceil(JOB_LEASE_MS / 1000);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// QUEUE OPERATIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Поставить задачу в очередь
+ *
+ * @returns id задачи или null — такая задача уже в очереди или выполняется
+ */
+export async function enqueueJob(
+  videoId: string,
+  jobType: JobType,
+  options: EnqueueJobOptions = {}
+): Promise<string | null> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase.rpc('enqueue_processing_job', {
+    p_video_id: videoId,
+    p_job_type: jobType,
+    p_chunk_index: options.chunkIndex ?? null,
+    p_payload: options.payload || {},
+    p_max_attempts: options.maxAttempts || MAX_CHUNK_RETRIES + 1,
+  });
+
+  if (error) {
+    throw new Error(`Failed to enqueue ${jobType} job: ${error.message}`);
+  }
+
+  wakeJobWorker();
+  return data;
+}
+
+async function claimJob(workerId: string): Promise<ProcessingJob | null> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase.rpc('claim_processing_job', {
+    p_worker_id: workerId,
+    p_lease_seconds: LEASE_SECONDS,
+    p_max_running: MAX_CONCURRENT_CHUNKS,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim job: ${error.message}`);
+  }
+
+  return (data as ProcessingJob[] | null)?.[0] || null;
+}
+
+/**
+ * @returns false — аренду забрал другой воркер
+ */
+async function heartbeatJob(job: ProcessingJob, workerId: string): Promise<boolean> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase.rpc('heartbeat_processing_job', {
+    p_job_id: job.id,
+    p_worker_id: workerId,
+    p_lease_seconds: LEASE_SECONDS,
+  });
+
+  if (error) {
+    throw new Error(`Heartbeat failed: ${error.message}`);
+  }
+  return Boolean(data);
+}
+
+async function completeJob(job: ProcessingJob, workerId: string, result: unknown): Promise<boolean> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase.rpc('complete_processing_job', {
+    p_job_id: job.id,
+    p_worker_id: workerId,
+    p_result: result ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to complete job: ${error.message}`);
+  }
+  return Boolean(data);
+}
+
+/**
+ * Backoff перед попыткой attempts + 1: 30s, 60s, 120s…
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(JOB_RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), JOB_RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * @returns 'queued' — будет повтор, 'dead' — попытки кончились, null — аренда уже не наша
+ */
+async function failJob(
+  job: ProcessingJob,
+  workerId: string,
+  message: string,
+  retryable: boolean
+): Promise<ProcessingJobStatus | null> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase.rpc('fail_processing_job', {
+    p_job_id: job.id,
+    p_worker_id: workerId,
+    p_error: message,
+    p_retry_delay_seconds: Math.round(getRetryDelayMs(job.attempts) / 1000),
+    p_retryable: retryable,
+  });
+
+  if (error) {
+    throw new Error(`Failed to record job failure: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * Снять ожидающие задачи видео (пауза/отмена, lib/processing-control.ts)
+ *
+ * @returns сколько задач снято; выполняющиеся дорабатывают или прерываются сами
+ */
+export async function cancelVideoJobs(videoId: string): Promise<number> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase.rpc('cancel_processing_jobs', {
+    p_video_id: videoId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to cancel jobs for video ${videoId}: ${error.message}`);
+  }
+  return data || 0;
+}
+
+/**
+ * Размер очереди — для /api/health
+ */
+export async function getQueueStats(): Promise<QueueStats> {
+  const supabase = createServiceRoleClient();
+  const statuses = ['queued', 'running', 'dead'] as const;
+
+  const counts = await Promise.all(statuses.map(async status => {
+    const { count, error } = await supabase
+      .from('processing_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', status);
+
+    if (error) {
+      throw new Error(`Failed to read job queue: ${error.message}`);
+    }
+    return count || 0;
+  }));
+
+  return { queued: counts[0], running: counts[1], dead: counts[2] };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// WORKER
+// ═══════════════════════════════════════════════════════════════════════════
+
+function describeJob(job: ProcessingJob): string {
+  const chunk = job.chunk_index !== null ? ` chunk ${job.chunk_index}` : '';
+  return `Job ${job.job_type}${chunk} (video ${job.video_id.slice(0, 8)})`;
+}
+
+async function runJob(state: WorkerState, job: ProcessingJob): Promise<void> {
+  const label = describeJob(job);
+  const handler = state.handlers[job.job_type as JobType];
+
+  console.log(`\n👷 ${label}: attempt ${job.attempts}/${job.max_attempts}`);
+
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job, state.id)
+      .then(alive => {
+        if (!alive) console.warn(`   ⚠️ ${label}: lease lost, result will be discarded`);
+      })
+      .catch(error => console.error(`   ⚠️ ${label}:`, error instanceof Error ? error.message : error));
+  }, JOB_HEARTBEAT_INTERVAL_MS);
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type "${job.job_type}"`);
+    }
+
+    const result = await handler(job);
+
+    if (await completeJob(job, state.id, result)) {
+      console.log(`✅ ${label} completed`);
+    } else {
+      console.warn(`⚠️ ${label} finished after its lease expired — ignored`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryable = !(error instanceof NonRetryableJobError);
+
+    try {
+      const status = await failJob(job, state.id, message, retryable);
+      if (status === 'dead' && !retryable) {
+        console.error(`💀 ${label} failed permanently, moved to dead letter: ${message}`);
+      } else if (status === 'dead') {
+        console.error(`💀 ${label} failed ${job.attempts}/${job.max_attempts} times, moved to dead letter: ${message}`);
+      } else if (status === 'queued') {
+        console.warn(`🔄 ${label} failed: ${message} — retry in ${Math.round(getRetryDelayMs(job.attempts) / 1000)}s`);
+      }
+    } catch (failError) {
+      // Не записали — аренда истечёт, и claim_processing_job вернёт задачу в очередь
+      console.error(`❌ ${label}:`, failError);
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Забрать задачи, пока есть свободные слоты
+ */
+async function pollJobs(state: WorkerState): Promise<void> {
+  if (state.polling) return;
+  state.polling = true;
+
+  try {
+    while (state.active < MAX_CONCURRENT_CHUNKS) {
+      const job = await claimJob(state.id);
+      if (!job) break;
+
+      state.active++;
+      runJob(state, job).finally(() => {
+        state.active--;
+        // Слот освободился — следующую задачу берём сразу, не дожидаясь опроса
+        wakeJobWorker();
+      });
+    }
+  } catch (error) {
+    console.error('❌ Job worker poll error:', error instanceof Error ? error.message : error);
+  } finally {
+    state.polling = false;
+  }
+}
+
+/**
+ * Запуск воркера в процессе сервера (один раз на процесс)
+ */
+export function startJobWorker(handlers: JobHandlers): void {
+  if (workerGlobal.__processingJobWorker) return;
+
+  const state: WorkerState = {
+    id: `${os.hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`,
+    handlers,
+    active: 0,
+    polling: false,
+    timer: setInterval(() => {
+      void pollJobs(state);
+    }, JOB_POLL_INTERVAL_MS),
+  };
+  workerGlobal.__processingJobWorker = state;
+
+  console.log(`👷 Job worker ${state.id} started (max ${MAX_CONCURRENT_CHUNKS} concurrent, poll ${JOB_POLL_INTERVAL_MS / 1000}s)`);
+  void pollJobs(state);
+}
+
+/**
+ * Проверить очередь сейчас (после enqueue) — без воркера в процессе no-op
+ */
+export function wakeJobWorker(): void {
+  const state = workerGlobal.__processingJobWorker;
+  if (state) void pollJobs(state);
+}
@@ -0,0 +1,273 @@
+/**
+ * Local Video Analysis — грубый анализ чанка без AI (только ffmpeg + наши данные)
+ *
+ * Последний провайдер в цепочке lib/video-providers.ts: когда Gemini и FAL
+ * недоступны, лист всё равно получается пригодным для правки:
+ * - границы планов — уже из PySceneDetect (mergedScenes);
+ * - крупность (Кр./Ср./Общ.) — по высоте лиц из face clustering;
+ * - НДП — по горизонтальным полосам контрастных переходов (надписи, титры),
+ *   которые держатся на одних и тех же строках кадра;
+ * - диалоги — из ASR, как и для AI-провайдеров (process-chunk-v5 STEP 2).
+ */
+
+import { spawn } from 'child_process';
+import { timecodeToMs } from './video-chunking';
+import type { VideoAnalysisPlan } from './gemini-replicate';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Лицо из face clustering (worker mode) */
+export interface LocalFaceSample {
+  /** Секунды от начала видео */
+  timestamp: number;
+  /** Высота лица / высота кадра */
+  relativeHeight: number;
+  characterName?: string | null;
+}
+
+export interface LocalAnalysisInput {
+  /** URL чанка (ffmpeg читает по ссылке) */
+  videoUrl: string;
+  /** Планы чанка, таймкоды от начала видео */
+  scenes: Array<{ start_timecode: string; end_timecode: string }>;
+  fps: number;
+  /** Начало чанка от начала видео, сек — кадры чанка отсчитываются от него */
+  chunkStartSeconds: number;
+  faces: LocalFaceSample[];
+}
+
+/** Кластер лиц в video_artifacts (face-clusters) */
+export interface StoredFaceCluster {
+  characterName?: string | null;
+  faceTimestamps?: number[];
+  faceHeights?: number[];
+}
+
+/** Полоса строк кадра [first, last] с признаками текста */
+type TextBand = [number, number];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Высота лица (доля кадра), начиная с которой план крупный / средний */
+const CLOSE_UP_FACE_HEIGHT = 0.28;
+const MEDIUM_FACE_HEIGHT = 0.12;
+/** Шаг кадров face clustering (init-processing-v5, STEP 4): план короче — лиц могло не попасть */
+const FACE_SAMPLE_INTERVAL_SECONDS = 5;
+/** Крупность, когда о лицах в плане ничего не известно — как у пайплайна по умолчанию */
+const UNKNOWN_PLAN_TYPE = 'Ср.';
+
+/** Кадры для поиска надписей: 1 в секунду, 320×180 в оттенках серого */
+const SAMPLE_FPS = 1;
+const SAMPLE_WIDTH = 320;
+const SAMPLE_HEIGHT = 180;
+const SAMPLE_TIMEOUT_MS = 120000;
+
+/** Перепад яркости соседних пикселей, который считаем краем штриха буквы */
+const EDGE_CONTRAST = 48;
+/** Краёв в строке, чтобы строка выглядела как строка текста */
+const MIN_ROW_EDGES = 14;
+/** Высота полосы текста в строках сэмпла (мелкий титр … крупная надпись) */
+const MIN_BAND_ROWS = 4;
+const MAX_BAND_ROWS = 36;
+/** Больше такой доли "текстовых" строк — это фактура (листва, ткань), а не надпись */
+const MAX_TEXT_ROWS_SHARE = 0.35;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PLAN TYPE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Лица чанка из сохранённых кластеров (без высоты — видео обработано до faceHeights)
+ */
+export function collectChunkFaceSamples(
+  clusters: StoredFaceCluster[],
+  chunkStartMs: number,
+  chunkEndMs: number
+): LocalFaceSample[] {
+  const samples: LocalFaceSample[] = [];
+
+  for (const cluster of clusters) {
+    const timestamps = cluster.faceTimestamps || [];
+    const heights = cluster.faceHeights || [];
+
+    timestamps.forEach((timestamp, i) => {
+      const ms = timestamp * 1000;
+      if (heights[i] === undefined || ms < chunkStartMs || ms >= chunkEndMs) return;
+      samples.push({ timestamp, relativeHeight: heights[i], characterName: cluster.characterName });
+    });
+  }
+
+  return samples;
+}
+
+/**
+ * Крупность по самому крупному лицу в плане (null — лиц в плане нет)
+ */
+export function estimatePlanType(maxFaceHeight: number | null): string {
+  if (maxFaceHeight === null) return 'Общ.';
+  if (maxFaceHeight >= CLOSE_UP_FACE_HEIGHT) return 'Кр.';
+  if (maxFaceHeight >= MEDIUM_FACE_HEIGHT) return 'Ср.';
+  return 'Общ.';
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ON-SCREEN TEXT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Полосы текста в кадре (grayscale, width × height)
+ *
+ * Строка текста — много резких перепадов яркости по горизонтали, и сверху
+ * и снизу от неё ровный фон. Сильно фактурные кадры отбрасываются целиком.
+ */
+export function detectTextBands(frame: Uint8Array, width: number, height: number): TextBand[] {
+  const textRows: boolean[] = [];
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let edges = 0;
+    for (let x = 0; x < width - 1; x++) {
+      if (Math.abs(frame[row + x + 1] - frame[row + x]) >= EDGE_CONTRAST) edges++;
+    }
+    textRows.push(edges >= MIN_ROW_EDGES);
+  }
+
+  if (textRows.filter(Boolean).length > height * MAX_TEXT_ROWS_SHARE) {
+    return [];
+  }
+
+  const bands: TextBand[] = [];
+  let start = -1;
+  for (let y = 0; y <= height; y++) {
+    if (y < height && textRows[y]) {
+      if (start < 0) start = y;
+      continue;
+    }
+    if (start >= 0) {
+      const rows = y - start;
+      if (rows >= MIN_BAND_ROWS && rows <= MAX_BAND_ROWS) bands.push([start, y - 1]);
+      start = -1;
+    }
+  }
+
+  return bands;
+}
+
+function bandsOverlap(a: TextBand[], b: TextBand[]): boolean {
+  return a.some(([aStart, aEnd]) => b.some(([bStart, bEnd]) => aStart <= bEnd && bStart <= aEnd));
+}
+
+/**
+ * Надпись в плане: полоса текста на тех же строках в двух соседних сэмплах
+ * (фон движется, надпись стоит). План с одним сэмплом — достаточно одной полосы.
+ */
+function hasStaticText(frameBands: TextBand[][]): boolean {
+  if (frameBands.length === 1) return frameBands[0].length > 0;
+  for (let i = 1; i < frameBands.length; i++) {
+    if (bandsOverlap(frameBands[i - 1], frameBands[i])) return true;
+  }
+  return false;
+}
+
+/**
+ * Кадры чанка 1 fps одним проходом ffmpeg (rawvideo gray в stdout)
+ */
+async function sampleGrayFrames(videoUrl: string): Promise<Uint8Array[]> {
+  const frameSize = SAMPLE_WIDTH * SAMPLE_HEIGHT;
+
+  const output = await new Promise<Buffer>((resolve, reject) => {
+    const ffmpeg = spawn('ffmpeg', [
+      '-v', 'error',
+      '-i', videoUrl,
+      '-vf', `fps=${SAMPLE_FPS},scale=${SAMPLE_WIDTH}:${SAMPLE_HEIGHT},format=gray`,
+      '-f', 'rawvideo',
+      'pipe:1',
+    ]);
+
+    const chunks: Buffer[] = [];
+    let stderr = '';
+    const timer = setTimeout(() => {
+      ffmpeg.kill('SIGKILL');
+      reject(new Error(`ffmpeg frame sampling timeout after ${SAMPLE_TIMEOUT_MS / 1000}s`));
+    }, SAMPLE_TIMEOUT_MS);
+
+    ffmpeg.stdout.on('data', (data: Buffer) => chunks.push(data));
+    ffmpeg.stderr.on('data', (data: Buffer) => { stderr += data.toString(); });
+    ffmpeg.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    ffmpeg.on('close', code => {
+      clearTimeout(timer);
+      if (code !== 0) {
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim().slice(-300)}`));
+        return;
+      }
+      resolve(Buffer.concat(chunks));
+    });
+  });
+
+  const frames: Uint8Array[] = [];
+  for (let offset = 0; offset + frameSize <= output.length; offset += frameSize) {
+    frames.push(output.subarray(offset, offset + frameSize));
+  }
+  return frames;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ANALYSIS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Планы чанка в формате VideoAnalysisPlan — по индексу сцены, как у Gemini
+ */
+export async function analyzeVideoLocally(input: LocalAnalysisInput): Promise<VideoAnalysisPlan[]> {
+  const { scenes, fps, chunkStartSeconds, faces } = input;
+
+  let frames: Uint8Array[] = [];
+  try {
+    frames = await sampleGrayFrames(input.videoUrl);
+  } catch (error) {
+    // Без кадров остаётся крупность по лицам — это всё ещё лучше пустого чанка
+    console.warn(`   ⚠️ Local analysis: frame sampling failed, skipping НДП detection:`, error);
+  }
+  const frameBands = frames.map(frame => detectTextBands(frame, SAMPLE_WIDTH, SAMPLE_HEIGHT));
+
+  console.log(`   🔍 Local analysis: ${scenes.length} plans, ${frames.length} frames, ${faces.length} face samples`);
+
+  return scenes.map((scene, index) => {
+    const startSeconds = timecodeToMs(scene.start_timecode, fps) / 1000;
+    const endSeconds = timecodeToMs(scene.end_timecode, fps) / 1000;
+
+    const facesInPlan = faces.filter(f => f.timestamp >= startSeconds && f.timestamp < endSeconds);
+    const maxFaceHeight = facesInPlan.length > 0
+      ? Math.max(...facesInPlan.map(f => f.relativeHeight))
+      : null;
+
+    // Сэмплы кадров отсчитываются от начала чанка; короткому плану — ближайший кадр
+    const firstFrame = Math.max(0, Math.floor((startSeconds - chunkStartSeconds) * SAMPLE_FPS));
+    const lastFrame = Math.max(firstFrame, Math.ceil((endSeconds - chunkStartSeconds) * SAMPLE_FPS) - 1);
+    const planBands = frameBands.slice(firstFrame, lastFrame + 1);
+    const hasText = planBands.length > 0 && hasStaticText(planBands);
+
+    // Лиц нет в длинном плане — общий; в коротком мог не попасть ни один кадр face clustering
+    const planType = faces.length > 0 && (maxFaceHeight !== null || endSeconds - startSeconds >= FACE_SAMPLE_INTERVAL_SECONDS)
+      ? estimatePlanType(maxFaceHeight)
+      : UNKNOWN_PLAN_TYPE;
+    const visualCharacters = [...new Set(
+      facesInPlan.map(f => f.characterName).filter((name): name is string => !!name)
+    )];
+
+    return {
+      planNumber: index + 1,
+      planType: hasText ? `${planType} НДП` : planType,
+      description: visualCharacters.length > 0 ? `${visualCharacters.join(', ')} в кадре.` : '',
+      visualCharacters,
+      location: '',
+    };
+  });
+}
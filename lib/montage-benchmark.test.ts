@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { scoreSheets, type BenchmarkEntry } from './montage-benchmark';
+
+function entry(start: string, end: string, planType: string, dialogues = ''): BenchmarkEntry {
+  return { start_timecode: start, end_timecode: end, plan_type: planType, description: '', dialogues };
+}
+
+const reference = [
+  entry('00:00:00:00', '00:00:02:00', 'Ср.', 'ГАЛЯ ЗК\nПривет всем.'),
+  entry('00:00:02:00', '00:00:04:00', 'Общ.', 'БОРИС\nДа.'),
+];
+
+// Граница 50 сдвинута на кадр, второй план эталона разрезан пополам
+const generated = [
+  entry('00:00:00:00', '00:00:02:01', 'ср.', 'ГАЛИНА ЗК\nПривет, всем!'),
+  entry('00:00:02:01', '00:00:03:00', 'Кр.', 'АННА\nДа нет.'),
+  entry('00:00:03:00', '00:00:04:00', 'Кр.'),
+];
+
+describe('scoreSheets', () => {
+  it('matches boundaries one to one within the tolerance', () => {
+    const report = scoreSheets(generated, reference, { fps: 25 });
+
+    expect(report.plans).toEqual({ generated: 3, reference: 2 });
+    expect(report.boundaries).toMatchObject({ matched: 3, generated: 4, reference: 3, precision: 0.75, recall: 1 });
+    expect(report.boundaries.f1).toBeCloseTo(6 / 7);
+    expect(report.boundaries.meanOffsetFrames).toBeCloseTo(1 / 3);
+
+    const strict = scoreSheets(generated, reference, { fps: 25, toleranceFrames: 0 });
+    expect(strict.boundaries).toMatchObject({ matched: 2, meanOffsetFrames: 0 });
+  });
+
+  it('compares plan types only for plans covering more than half of each other', () => {
+    const report = scoreSheets(generated, reference, { fps: 25 });
+
+    // Половинки второго плана эталона не сопоставляются; "ср." и "Ср." — один вид
+    expect(report.planTypes).toEqual({ accuracy: 1, compared: 1 });
+  });
+
+  it('scores speakers, off-screen marks and WER on aligned words', () => {
+    const report = scoreSheets(generated, reference, { fps: 25, speakerAliases: { 'галина': 'ГАЛЯ' } });
+
+    expect(report.speakers.comparedWords).toBe(3);
+    expect(report.speakers.accuracy).toBeCloseTo(2 / 3);
+    expect(report.offscreen).toEqual({ accuracy: 1, precision: 1, recall: 1, comparedWords: 3 });
+    expect(report.dialogue).toMatchObject({ errors: 1, referenceWords: 3, generatedWords: 4 });
+    expect(report.dialogue.wer).toBeCloseTo(1 / 3);
+
+    const withoutAliases = scoreSheets(generated, reference, { fps: 25 });
+    expect(withoutAliases.speakers.accuracy).toBe(0);
+  });
+});
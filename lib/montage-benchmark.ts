@@ -0,0 +1,362 @@
+/**
+ * Montage Benchmark — объективная оценка сгенерированного листа по эталонному
+ *
+ * Заменяет ручные сравнения (V5_COMPARISON_*.md, DIALOGUE_COMPARISON.md):
+ * - границы планов: precision / recall / F1 с допуском в кадрах
+ * - вид плана: совпадение у пар планов, перекрывающихся больше чем наполовину
+ * - говорящий: доля совпавших слов реплик, отнесённых к тому же персонажу
+ * - ЗК / ГЗ: то же по пометкам, плюс precision / recall для слов с пометкой
+ * - диалоги: WER по всему листу (слова реплик подряд, без "Музыка" и т.п.)
+ *
+ * Модуль чистый (без БД) — используется /api/test/benchmark.
+ */
+
+import type { MontageEntry } from '@/types';
+import { parseDialogueBlocks } from './plan-operations';
+import { timecodeToFrames } from './video-chunking';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type BenchmarkEntry = Pick<
+  MontageEntry,
+  'start_timecode' | 'end_timecode' | 'plan_type' | 'description' | 'dialogues'
+>;
+
+export interface BenchmarkOptions {
+  fps: number;
+  /** Допуск совпадения границы, кадров (по умолчанию 2) */
+  toleranceFrames?: number;
+  /** Имена сгенерированного листа → имена эталона ("ГАЛИНА" → "ГАЛЯ") */
+  speakerAliases?: Record<string, string>;
+}
+
+export interface BenchmarkReport {
+  plans: { generated: number; reference: number };
+  boundaries: {
+    precision: number;
+    recall: number;
+    f1: number;
+    matched: number;
+    generated: number;
+    reference: number;
+    toleranceFrames: number;
+    /** Средний сдвиг совпавших границ, кадров */
+    meanOffsetFrames: number;
+  };
+  planTypes: { accuracy: number; compared: number };
+  speakers: { accuracy: number; comparedWords: number };
+  offscreen: {
+    accuracy: number;
+    precision: number;
+    recall: number;
+    comparedWords: number;
+  };
+  dialogue: {
+    wer: number;
+    errors: number;
+    referenceWords: number;
+    generatedWords: number;
+  };
+}
+
+/** Слово реплики с атрибуцией */
+interface SpokenWord {
+  text: string;
+  character: string;
+  suffix: string;
+}
+
+interface PlanSpan {
+  startFrame: number;
+  endFrame: number;
+  entry: BenchmarkEntry;
+}
+
+const DEFAULT_TOLERANCE_FRAMES = 2;
+
+/** Минимальная доля перекрытия, при которой планы считаются одним и тем же */
+const PLAN_MATCH_OVERLAP = 0.5;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// NORMALIZATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/ё/g, 'е').replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/** "Ср. НДП" и "ср.НДП" — один вид плана */
+function normalizePlanType(planType: string | undefined): string {
+  return (planType || '').toLowerCase().replace(/[\s.]/g, '');
+}
+
+function normalizeCharacter(name: string, aliases: Record<string, string>): string {
+  const upper = name.trim().toUpperCase();
+  return (aliases[upper] || upper).trim().toUpperCase();
+}
+
+function spokenWords(entry: BenchmarkEntry, aliases: Record<string, string> = {}): SpokenWord[] {
+  return parseDialogueBlocks(entry.dialogues)
+    .filter(block => block.character)
+    .flatMap(block => {
+      const character = normalizeCharacter(block.character!, aliases);
+      return block.text
+        .split(/\s+/)
+        .map(normalizeWord)
+        .filter(Boolean)
+        .map(text => ({ text, character, suffix: block.suffix }));
+    });
+}
+
+function toSpans(entries: BenchmarkEntry[], fps: number): PlanSpan[] {
+  return entries.map(entry => ({
+    startFrame: timecodeToFrames(entry.start_timecode, fps),
+    endFrame: timecodeToFrames(entry.end_timecode, fps),
+    entry,
+  }));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BOUNDARIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+function boundaryFrames(spans: PlanSpan[]): number[] {
+  const frames = new Set<number>();
+  for (const span of spans) {
+    frames.add(span.startFrame);
+    frames.add(span.endFrame);
+  }
+  return Array.from(frames).sort((a, b) => a - b);
+}
+
+/**
+ * Совпадение границ один к одному: обе последовательности отсортированы,
+ * каждая граница эталона забирает ближайшую свободную в пределах допуска
+ */
+function scoreBoundaries(generated: PlanSpan[], reference: PlanSpan[], toleranceFrames: number) {
+  const gen = boundaryFrames(generated);
+  const ref = boundaryFrames(reference);
+
+  let matched = 0;
+  let offsetSum = 0;
+  let g = 0;
+
+  for (const frame of ref) {
+    while (g < gen.length && gen[g] < frame - toleranceFrames) g++;
+    if (g >= gen.length) break;
+
+    // Из кандидатов в окне берём ближайший
+    let best = -1;
+    for (let i = g; i < gen.length && gen[i] <= frame + toleranceFrames; i++) {
+      if (best === -1 || Math.abs(gen[i] - frame) < Math.abs(gen[best] - frame)) best = i;
+    }
+    if (best === -1) continue;
+
+    matched++;
+    offsetSum += Math.abs(gen[best] - frame);
+    // Пропущенные кандидаты до best дальше от следующих границ эталона — отбрасываем их
+    g = best + 1;
+  }
+
+  const precision = ratio(matched, gen.length);
+  const recall = ratio(matched, ref.length);
+
+  return {
+    precision,
+    recall,
+    f1: ratio(2 * precision * recall, precision + recall),
+    matched,
+    generated: gen.length,
+    reference: ref.length,
+    toleranceFrames,
+    meanOffsetFrames: ratio(offsetSum, matched),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PLAN PAIRS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Для каждого плана эталона — план сгенерированного листа с наибольшим
+ * перекрытием, если оно покрывает больше половины обоих планов
+ */
+function pairPlans(generated: PlanSpan[], reference: PlanSpan[]): Array<[PlanSpan, PlanSpan]> {
+  const pairs: Array<[PlanSpan, PlanSpan]> = [];
+  let g = 0;
+
+  for (const ref of reference) {
+    while (g < generated.length && generated[g].endFrame <= ref.startFrame) g++;
+
+    let best: PlanSpan | null = null;
+    let bestOverlap = 0;
+    for (let i = g; i < generated.length && generated[i].startFrame < ref.endFrame; i++) {
+      const overlap = Math.min(ref.endFrame, generated[i].endFrame) - Math.max(ref.startFrame, generated[i].startFrame);
+      if (overlap > bestOverlap) {
+        best = generated[i];
+        bestOverlap = overlap;
+      }
+    }
+
+    if (
+      best &&
+      bestOverlap > PLAN_MATCH_OVERLAP * (ref.endFrame - ref.startFrame) &&
+      bestOverlap > PLAN_MATCH_OVERLAP * (best.endFrame - best.startFrame)
+    ) {
+      pairs.push([best, ref]);
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Слова сгенерированного листа в окне плана эталона (все пересекающиеся планы)
+ */
+function generatedWordsInSpan(generated: PlanSpan[], span: PlanSpan, aliases: Record<string, string>): SpokenWord[] {
+  return generated
+    .filter(g => g.startFrame < span.endFrame && g.endFrame > span.startFrame)
+    .flatMap(g => spokenWords(g.entry, aliases));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// WORD ALIGNMENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Пары совпавших слов (LCS) — реплики плана короткие, полная матрица допустима
+ */
+function alignWords(reference: SpokenWord[], generated: SpokenWord[]): Array<[SpokenWord, SpokenWord]> {
+  const n = reference.length;
+  const m = generated.length;
+  if (n === 0 || m === 0) return [];
+
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = reference[i].text === generated[j].text
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[SpokenWord, SpokenWord]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (reference[i].text === generated[j].text) {
+      pairs.push([reference[i], generated[j]]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Расстояние Левенштейна по словам (две строки DP — лист целиком, без обратного хода)
+ */
+function wordEditDistance(reference: string[], generated: string[]): number {
+  let previous = new Int32Array(generated.length + 1);
+  let current = new Int32Array(generated.length + 1);
+  for (let j = 0; j <= generated.length; j++) previous[j] = j;
+
+  for (let i = 1; i <= reference.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= generated.length; j++) {
+      const substitution = previous[j - 1] + (reference[i - 1] === generated[j - 1] ? 0 : 1);
+      current[j] = Math.min(substitution, previous[j] + 1, current[j - 1] + 1);
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return previous[generated.length];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCORE
+// ═══════════════════════════════════════════════════════════════════════════
+
+const OFFSCREEN_SUFFIXES = new Set(['ЗК', 'ГЗ', 'ГЗК']);
+
+/**
+ * Сравнивает сгенерированный лист с эталонным
+ */
+export function scoreSheets(
+  generatedEntries: BenchmarkEntry[],
+  referenceEntries: BenchmarkEntry[],
+  options: BenchmarkOptions
+): BenchmarkReport {
+  const { fps, toleranceFrames = DEFAULT_TOLERANCE_FRAMES } = options;
+  const aliases = Object.fromEntries(
+    Object.entries(options.speakerAliases || {}).map(([from, to]) => [from.trim().toUpperCase(), to])
+  );
+
+  const byStart = (a: PlanSpan, b: PlanSpan) => a.startFrame - b.startFrame;
+  const generated = toSpans(generatedEntries, fps).sort(byStart);
+  const reference = toSpans(referenceEntries, fps).sort(byStart);
+
+  // Вид плана
+  const pairs = pairPlans(generated, reference);
+  const sameType = pairs.filter(([gen, ref]) =>
+    normalizePlanType(gen.entry.plan_type) === normalizePlanType(ref.entry.plan_type)
+  ).length;
+
+  // Говорящий и ЗК — по совпавшим словам в окне каждого плана эталона
+  let comparedWords = 0;
+  let sameSpeaker = 0;
+  let sameSuffix = 0;
+  let offscreenTruePositive = 0;
+  let offscreenGenerated = 0;
+  let offscreenReference = 0;
+
+  for (const span of reference) {
+    const aligned = alignWords(spokenWords(span.entry), generatedWordsInSpan(generated, span, aliases));
+
+    for (const [ref, gen] of aligned) {
+      const refOffscreen = OFFSCREEN_SUFFIXES.has(ref.suffix);
+      const genOffscreen = OFFSCREEN_SUFFIXES.has(gen.suffix);
+
+      comparedWords++;
+      if (ref.character === gen.character) sameSpeaker++;
+      if (ref.suffix === gen.suffix) sameSuffix++;
+      if (refOffscreen) offscreenReference++;
+      if (genOffscreen) offscreenGenerated++;
+      if (refOffscreen && genOffscreen) offscreenTruePositive++;
+    }
+  }
+
+  // WER по листу целиком — реплики, разрезанные по-разному, не штрафуются
+  const referenceWords = reference.flatMap(span => spokenWords(span.entry).map(w => w.text));
+  const generatedWords = generated.flatMap(span => spokenWords(span.entry).map(w => w.text));
+  const errors = wordEditDistance(referenceWords, generatedWords);
+
+  return {
+    plans: { generated: generated.length, reference: reference.length },
+    boundaries: scoreBoundaries(generated, reference, toleranceFrames),
+    planTypes: { accuracy: ratio(sameType, pairs.length), compared: pairs.length },
+    speakers: { accuracy: ratio(sameSpeaker, comparedWords), comparedWords },
+    offscreen: {
+      accuracy: ratio(sameSuffix, comparedWords),
+      precision: ratio(offscreenTruePositive, offscreenGenerated),
+      recall: ratio(offscreenTruePositive, offscreenReference),
+      comparedWords,
+    },
+    dialogue: {
+      wer: ratio(errors, referenceWords.length),
+      errors,
+      referenceWords: referenceWords.length,
+      generatedWords: generatedWords.length,
+    },
+  };
+}
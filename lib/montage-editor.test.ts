@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import {
+  isValidTimecode,
+  sanitizeEntryChanges,
+  validateEntryRange,
+  validateTimecodeFrames,
+} from './montage-editor';
+
+describe('sanitizeEntryChanges', () => {
+  it('keeps only editable fields and trims timecodes', () => {
+    expect(sanitizeEntryChanges({
+      start_timecode: ' 00:00:01:00 ',
+      description: null,
+      dialogues: 'АННА\nПривет',
+      plan_number: 7,
+      sheet_id: 'other',
+    })).toEqual({
+      changes: { start_timecode: '00:00:01:00', description: '', dialogues: 'АННА\nПривет' },
+    });
+  });
+
+  it('rejects invalid values and empty patches', () => {
+    expect(sanitizeEntryChanges(null)).toEqual({ error: 'Missing changes' });
+    expect(sanitizeEntryChanges({ end_timecode: '1:00' }).error).toMatch('Invalid end_timecode');
+    expect(sanitizeEntryChanges({ plan_type: 5 }).error).toMatch('Invalid plan_type');
+    expect(sanitizeEntryChanges({ plan_number: 1 })).toEqual({ error: 'No editable fields provided' });
+  });
+});
+
+describe('timecode validation', () => {
+  it('checks the HH:MM:SS:FF format', () => {
+    expect(isValidTimecode('00:00:01:00')).toBe(true);
+    expect(isValidTimecode('0:00:01:00')).toBe(false);
+    expect(isValidTimecode(100)).toBe(false);
+  });
+
+  it('limits frames by the nominal video FPS', () => {
+    expect(validateTimecodeFrames('00:00:01:24', 25)).toBeNull();
+    expect(validateTimecodeFrames('00:00:01:24', 24)).toMatch('frames must be below 24');
+    expect(validateTimecodeFrames('00:00:01:29', 29.97)).toBeNull();
+  });
+
+  it('requires the end after the start', () => {
+    expect(validateEntryRange('00:00:01:00', '00:00:01:01', 25)).toBeNull();
+    expect(validateEntryRange('00:00:01:00', '00:00:01:00', 25)).toMatch('must be after start');
+    expect(validateEntryRange('00:00:01:30', '00:00:02:00', 25)).toMatch('frames must be below 25');
+  });
+});
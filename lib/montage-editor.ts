@@ -0,0 +1,268 @@
+/**
+ * Montage Editor — ручное редактирование планов монтажного листа
+ *
+ * Общие правила для API-роутов редактирования:
+ * - какие поля можно менять руками и как их валидировать
+ * - перенумерация plan_number / order_index после вставки и удаления
+ * - замена диапазона планов (разрезка, склейка, вставка встык)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { MontageEntry } from '@/types';
+import { timecodeToFrames } from './video-chunking';
+import { recordRevisions, type RevisionContext } from './montage-revisions';
+
+/** Поля, которые редактор может менять в таблице */
+export const EDITABLE_ENTRY_FIELDS = [
+  'start_timecode',
+  'end_timecode',
+  'plan_type',
+  'description',
+  'dialogues',
+] as const;
+
+export type EditableEntryField = typeof EDITABLE_ENTRY_FIELDS[number];
+export type EntryChanges = Partial<Pick<MontageEntry, EditableEntryField>>;
+
+/** Содержимое плана, которое меняют операции редактора */
+export type EntryContent = Pick<MontageEntry, EditableEntryField>;
+
+/**
+ * Временные номера для новых строк до перенумерации.
+ * Далеко от -1..-N, которые renumberEntries использует в первом проходе.
+ */
+const TEMP_PLAN_NUMBER_BASE = -1_000_000;
+
+/** Формат ЧЧ:ММ:СС:КК */
+export const TIMECODE_REGEX = /^\d{2}:\d{2}:\d{2}:\d{2}$/;
+
+export function isValidTimecode(value: unknown): value is string {
+  return typeof value === 'string' && TIMECODE_REGEX.test(value);
+}
+
+/**
+ * Отбирает из тела запроса только редактируемые поля и проверяет их типы
+ */
+export function sanitizeEntryChanges(
+  input: unknown
+): { changes?: EntryChanges; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Missing changes' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const changes: EntryChanges = {};
+
+  for (const field of EDITABLE_ENTRY_FIELDS) {
+    if (!(field in raw)) continue;
+
+    const value = raw[field];
+
+    if (field === 'start_timecode' || field === 'end_timecode') {
+      const timecode = typeof value === 'string' ? value.trim() : value;
+      if (!isValidTimecode(timecode)) {
+        return { error: `Invalid ${field}: expected HH:MM:SS:FF` };
+      }
+      changes[field] = timecode;
+      continue;
+    }
+
+    if (value !== null && typeof value !== 'string') {
+      return { error: `Invalid ${field}: expected string` };
+    }
+    changes[field] = value ?? '';
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return { error: 'No editable fields provided' };
+  }
+
+  return { changes };
+}
+
+/**
+ * Проверяет, что номер кадра в таймкоде меньше FPS видео
+ */
+export function validateTimecodeFrames(timecode: string, fps: number): string | null {
+  const nominalFps = Math.round(fps);
+  if (Number(timecode.split(':')[3]) >= nominalFps) {
+    return `Invalid timecode ${timecode}: frames must be below ${nominalFps} (video FPS)`;
+  }
+  return null;
+}
+
+/**
+ * Проверяет таймкоды плана: кадры в пределах FPS, конец строго после начала
+ */
+export function validateEntryRange(startTimecode: string, endTimecode: string, fps: number): string | null {
+  const framesError = validateTimecodeFrames(startTimecode, fps) || validateTimecodeFrames(endTimecode, fps);
+  if (framesError) {
+    return framesError;
+  }
+
+  if (timecodeToFrames(endTimecode, fps) <= timecodeToFrames(startTimecode, fps)) {
+    return `End timecode (${endTimecode}) must be after start (${startTimecode})`;
+  }
+  return null;
+}
+
+/**
+ * Загружает все планы листа в порядке показа (order_index, затем plan_number)
+ */
+export async function fetchOrderedEntries(
+  supabase: SupabaseClient,
+  sheetId: string
+): Promise<MontageEntry[]> {
+  const { data, error } = await supabase
+    .from('montage_entries')
+    .select('*')
+    .eq('sheet_id', sheetId)
+    .order('order_index', { ascending: true })
+    .order('plan_number', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch montage entries: ${error.message}`);
+  }
+
+  return (data || []) as MontageEntry[];
+}
+
+/**
+ * Перенумеровывает планы 1..N в переданном порядке (как /api/renumber-plans)
+ *
+ * UNIQUE(sheet_id, plan_number) проверяется построчно, поэтому сдвиг
+ * номеров делаем в два прохода: сначала временные отрицательные номера,
+ * затем итоговые. Трогаем только планы, у которых номер реально меняется.
+ */
+export async function renumberEntries(
+  supabase: SupabaseClient,
+  orderedEntries: MontageEntry[],
+  revisions: RevisionContext
+): Promise<MontageEntry[]> {
+  const renumbered = orderedEntries.map((entry, index) => ({
+    ...entry,
+    plan_number: index + 1,
+    order_index: index + 1,
+  }));
+
+  const changed = renumbered.filter((entry, index) =>
+    orderedEntries[index].plan_number !== entry.plan_number ||
+    orderedEntries[index].order_index !== entry.order_index
+  );
+
+  if (changed.length === 0) {
+    return renumbered;
+  }
+
+  const { error: tempError } = await supabase
+    .from('montage_entries')
+    .upsert(
+      changed.map(entry => ({ ...entry, plan_number: -entry.plan_number })),
+      { onConflict: 'id' }
+    );
+
+  if (tempError) {
+    throw new Error(`Failed to renumber entries: ${tempError.message}`);
+  }
+
+  const { error: finalError } = await supabase
+    .from('montage_entries')
+    .upsert(changed, { onConflict: 'id' });
+
+  if (finalError) {
+    throw new Error(`Failed to renumber entries: ${finalError.message}`);
+  }
+
+  await recordRevisions(supabase, revisions, changed.map(entry => ({
+    before: orderedEntries.find(e => e.id === entry.id) || null,
+    after: entry,
+  })));
+
+  console.log(`🔢 Renumbered ${changed.length}/${renumbered.length} entries`);
+
+  return renumbered;
+}
+
+/**
+ * Заменяет планы [start, start + deleteCount) на новое содержимое и перенумеровывает лист
+ *
+ * Существующие строки переиспользуются по порядку (id первого плана
+ * сохраняется), лишние удаляются, недостающие вставляются.
+ */
+export async function spliceEntries(
+  supabase: SupabaseClient,
+  sheetId: string,
+  orderedEntries: MontageEntry[],
+  start: number,
+  deleteCount: number,
+  contents: EntryContent[],
+  revisions: RevisionContext
+): Promise<{ entries: MontageEntry[]; changed: MontageEntry[] }> {
+  const replaced = orderedEntries.slice(start, start + deleteCount);
+  const reused = replaced.slice(0, contents.length);
+  const removed = replaced.slice(contents.length);
+  const changed: MontageEntry[] = [];
+
+  for (let i = 0; i < reused.length; i++) {
+    const { data, error } = await supabase
+      .from('montage_entries')
+      .update(contents[i])
+      .eq('id', reused[i].id)
+      .eq('sheet_id', sheetId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to update entry: ${error?.message}`);
+    }
+    changed.push(data as MontageEntry);
+  }
+
+  const extra = contents.slice(reused.length);
+  if (extra.length > 0) {
+    const { data, error } = await supabase
+      .from('montage_entries')
+      .insert(extra.map((content, i) => ({
+        ...content,
+        sheet_id: sheetId,
+        plan_number: TEMP_PLAN_NUMBER_BASE - i,
+        order_index: TEMP_PLAN_NUMBER_BASE - i,
+      })))
+      .select();
+
+    if (error || !data) {
+      throw new Error(`Failed to insert entries: ${error?.message}`);
+    }
+    // insert().select() не гарантирует порядок строк
+    changed.push(...(data as MontageEntry[]).sort((a, b) => b.plan_number - a.plan_number));
+  }
+
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from('montage_entries')
+      .delete()
+      .in('id', removed.map(e => e.id))
+      .eq('sheet_id', sheetId);
+
+    if (error) {
+      throw new Error(`Failed to delete entries: ${error.message}`);
+    }
+  }
+
+  await recordRevisions(supabase, revisions, [
+    ...reused.map((entry, i) => ({ before: entry, after: changed[i] })),
+    ...changed.slice(reused.length).map(entry => ({ before: null, after: entry })),
+    ...removed.map(entry => ({ before: entry, after: null })),
+  ]);
+
+  const renumbered = await renumberEntries(supabase, [
+    ...orderedEntries.slice(0, start),
+    ...changed,
+    ...orderedEntries.slice(start + deleteCount),
+  ], revisions);
+
+  return {
+    entries: renumbered,
+    changed: renumbered.slice(start, start + changed.length),
+  };
+}
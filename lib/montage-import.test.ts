@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { detectImportFormat, MontageImportError, normalizeTimecode, parseMontageFile } from './montage-import';
+
+describe('detectImportFormat', () => {
+  it('maps extensions to import formats', () => {
+    expect(detectImportFormat('Лист.XLSX')).toBe('xlsx');
+    expect(detectImportFormat('old.xls')).toBe('xlsx');
+    expect(detectImportFormat('sheet.csv')).toBe('csv');
+    expect(detectImportFormat('sheet.docx')).toBe('docx');
+    expect(detectImportFormat('sheet.pdf')).toBeNull();
+  });
+});
+
+describe('normalizeTimecode', () => {
+  it('pads hours and accepts drop-frame separators', () => {
+    expect(normalizeTimecode(' 1:02:03:04 ')).toBe('01:02:03:04');
+    expect(normalizeTimecode('00:00:01;12')).toBe('00:00:01:12');
+    expect(normalizeTimecode('00:00:01.12')).toBe('00:00:01:12');
+  });
+
+  it('rejects malformed timecodes', () => {
+    expect(normalizeTimecode('00:61:00:00')).toBeNull();
+    expect(normalizeTimecode('00:00:01')).toBeNull();
+    expect(normalizeTimecode('итого')).toBeNull();
+  });
+});
+
+describe('parseMontageFile', () => {
+  it('parses CSV by headers, skipping rows without timecodes', async () => {
+    const csv = [
+      'Монтажный лист',
+      'Содержание,Начальный таймкод,Конечный таймкод,№,План,Монологи',
+      '"Кухня",00:00:00:00,00:00:02:00,1,Ср.,"АННА',
+      'Привет"',
+      'Итого,,,,,',
+      '"Окно",0:00:02.00,00:00:05:10,2,Общ.,',
+    ].join('\n');
+
+    const result = await parseMontageFile(Buffer.from(csv), 'sheet.csv');
+
+    expect(result).toEqual({
+      format: 'csv',
+      skippedRows: 1,
+      renumbered: false,
+      entries: [
+        {
+          plan_number: 1,
+          start_timecode: '00:00:00:00',
+          end_timecode: '00:00:02:00',
+          plan_type: 'Ср.',
+          description: 'Кухня',
+          dialogues: 'АННА\nПривет',
+        },
+        {
+          plan_number: 2,
+          start_timecode: '00:00:02:00',
+          end_timecode: '00:00:05:10',
+          plan_type: 'Общ.',
+          description: 'Окно',
+          dialogues: '',
+        },
+      ],
+    });
+  });
+
+  it('renumbers plans with missing or repeated numbers', async () => {
+    const csv = [
+      '1,00:00:00:00,00:00:01:00,Ср.,А,',
+      '1,00:00:01:00,00:00:02:00,Ср.,Б,',
+    ].join('\n');
+
+    const result = await parseMontageFile(Buffer.from(csv), 'sheet.csv');
+
+    expect(result.renumbered).toBe(true);
+    expect(result.entries.map(e => e.plan_number)).toEqual([1, 2]);
+  });
+
+  it('rejects unsupported files and files without plans', async () => {
+    await expect(parseMontageFile(Buffer.from(''), 'sheet.pdf')).rejects.toThrow(MontageImportError);
+    await expect(parseMontageFile(Buffer.from('a,b,c'), 'sheet.csv')).rejects.toThrow('No montage plans');
+  });
+});
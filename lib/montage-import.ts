@@ -0,0 +1,254 @@
+/**
+ * Montage Import — загрузка готового монтажного листа (XLSX / CSV / DOCX)
+ *
+ * Листы, сделанные людьми (examples/real-montage-sheet.csv, .docx в корне),
+ * загружаются как версия листа — для сравнения с AI-листом и правки.
+ *
+ * Таблица ищется по строке заголовков (Начальный / Конечный тайм-код и т.д.);
+ * без заголовков — стандартный порядок колонок (№, начало, конец, вид,
+ * содержание, диалоги). Строки без корректных таймкодов пропускаются
+ * (нумерация колонок "1 2 3 4 5 6", пустые строки, подписи).
+ */
+
+import * as XLSX from 'xlsx';
+import mammoth from 'mammoth';
+import type { MontageEntry } from '@/types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const IMPORT_FORMATS = ['xlsx', 'csv', 'docx'] as const;
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+/** План из файла — без служебных полей (sheet_id, order_index) */
+export type ImportedEntry = Pick<
+  MontageEntry,
+  'plan_number' | 'start_timecode' | 'end_timecode' | 'plan_type' | 'description' | 'dialogues'
+>;
+
+export interface ImportResult {
+  format: ImportFormat;
+  entries: ImportedEntry[];
+  /** Непустые строки таблицы, которые не удалось разобрать как план */
+  skippedRows: number;
+  /** Номера планов в файле отсутствовали или повторялись — пронумерованы заново */
+  renumbered: boolean;
+}
+
+export class MontageImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MontageImportError';
+  }
+}
+
+type ColumnKey = 'number' | 'start' | 'end' | 'type' | 'description' | 'dialogues';
+
+/** Порядок колонок во всех наших экспортах и в типовом листе */
+const DEFAULT_COLUMNS: Record<ColumnKey, number> = {
+  number: 0,
+  start: 1,
+  end: 2,
+  type: 3,
+  description: 4,
+  dialogues: 5,
+};
+
+/** Распознавание заголовков; порядок важен: "№ плана" — номер, а не вид */
+const HEADER_PATTERNS: Array<[ColumnKey, RegExp]> = [
+  ['number', /^№|номер/i],
+  ['start', /начал/i],
+  ['end', /конеч|конец/i],
+  ['description', /содержан|описан/i],
+  ['dialogues', /монолог|диалог|разговор/i],
+  ['type', /вид|^план$/i],
+];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FILE → ROWS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function detectImportFormat(filename: string): ImportFormat | null {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'xlsx' || extension === 'xls') return 'xlsx';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'docx') return 'docx';
+  return null;
+}
+
+function worksheetRows(workbook: XLSX.WorkBook): string[][] {
+  // Берём лист с наибольшим числом строк — в наших XLSX он единственный
+  const sheets = workbook.SheetNames.map(name =>
+    XLSX.utils.sheet_to_json<string[]>(workbook.Sheets[name], { header: 1, raw: false, defval: '' })
+  );
+  return sheets.sort((a, b) => b.length - a.length)[0] || [];
+}
+
+/**
+ * CSV из Excel под Windows бывает в cp1251 — пробуем UTF-8, при битых символах перекодируем
+ */
+function decodeCsv(buffer: Buffer): string {
+  const utf8 = buffer.toString('utf8');
+  if (!utf8.includes('\uFFFD')) return utf8.replace(/^\uFEFF/, '');
+  return new TextDecoder('windows-1251').decode(buffer);
+}
+
+function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Таблицы DOCX через HTML mammoth: абзацы ячейки → строки через \n
+ * Разметка mammoth простая (table/tr/td/p), вложенных таблиц в листах нет.
+ */
+async function docxRows(buffer: Buffer): Promise<string[][]> {
+  const { value: html } = await mammoth.convertToHtml({ buffer });
+  const rows: string[][] = [];
+
+  for (const table of html.match(/<table>[\s\S]*?<\/table>/g) || []) {
+    for (const row of table.match(/<tr>[\s\S]*?<\/tr>/g) || []) {
+      const cells = row.match(/<t[dh][^>]*>[\s\S]*?<\/t[dh]>/g) || [];
+      rows.push(cells.map(cell =>
+        decodeHtmlEntities(
+          cell
+            .replace(/<\/p>/g, '\n')
+            .replace(/<br\s*\/?>/g, '\n')
+            .replace(/<[^>]+>/g, '')
+        )
+      ));
+    }
+  }
+
+  return rows;
+}
+
+async function readRows(buffer: Buffer, format: ImportFormat): Promise<string[][]> {
+  switch (format) {
+    case 'xlsx':
+      return worksheetRows(XLSX.read(buffer, { type: 'buffer' }));
+    case 'csv':
+      return worksheetRows(XLSX.read(decodeCsv(buffer), { type: 'string', raw: true }));
+    case 'docx':
+      return docxRows(buffer);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROWS → ENTRIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Таймкод к виду HH:MM:SS:FF
+ * Допускаем одну цифру часов, разделители "." и ";" (drop-frame) перед кадрами.
+ */
+export function normalizeTimecode(value: string): string | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2}):(\d{2})[:;.](\d{2})$/);
+  if (!match) return null;
+
+  const [, hours, minutes, seconds, frames] = match;
+  if (Number(minutes) > 59 || Number(seconds) > 59) return null;
+
+  return `${hours.padStart(2, '0')}:${minutes}:${seconds}:${frames}`;
+}
+
+function findColumns(rows: string[][]): { columns: Record<ColumnKey, number>; headerIndex: number } {
+  for (let i = 0; i < rows.length; i++) {
+    const found: Partial<Record<ColumnKey, number>> = {};
+
+    rows[i].forEach((cell, column) => {
+      const text = cell.replace(/\s+/g, ' ').trim();
+      if (!text) return;
+      const match = HEADER_PATTERNS.find(([key, pattern]) => found[key] === undefined && pattern.test(text));
+      if (match) found[match[0]] = column;
+    });
+
+    if (found.start !== undefined && found.end !== undefined) {
+      return { columns: { ...DEFAULT_COLUMNS, ...found }, headerIndex: i };
+    }
+  }
+
+  return { columns: DEFAULT_COLUMNS, headerIndex: -1 };
+}
+
+function cellText(row: string[], column: number): string {
+  return (row[column] || '')
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function rowsToEntries(rows: string[][]): Omit<ImportResult, 'format'> {
+  const { columns, headerIndex } = findColumns(rows);
+  const entries: ImportedEntry[] = [];
+  let skippedRows = 0;
+
+  for (const row of rows.slice(headerIndex + 1)) {
+    if (row.every(cell => !cell.trim())) continue;
+
+    const start = normalizeTimecode(cellText(row, columns.start));
+    const end = normalizeTimecode(cellText(row, columns.end));
+    if (!start || !end) {
+      skippedRows++;
+      continue;
+    }
+
+    entries.push({
+      plan_number: parseInt(cellText(row, columns.number), 10),
+      start_timecode: start,
+      end_timecode: end,
+      plan_type: cellText(row, columns.type),
+      description: cellText(row, columns.description),
+      dialogues: cellText(row, columns.dialogues),
+    });
+  }
+
+  // UNIQUE(sheet_id, plan_number): без номеров (автонумерация Word) или с повторами — нумеруем по порядку
+  const numbers = entries.map(e => e.plan_number);
+  const renumbered =
+    numbers.some(n => !Number.isInteger(n) || n < 1) ||
+    new Set(numbers).size !== numbers.length;
+
+  if (renumbered) {
+    entries.forEach((entry, i) => { entry.plan_number = i + 1; });
+  }
+
+  return { entries, skippedRows, renumbered };
+}
+
+/**
+ * Разбирает файл монтажного листа
+ */
+export async function parseMontageFile(buffer: Buffer, filename: string): Promise<ImportResult> {
+  const format = detectImportFormat(filename);
+  if (!format) {
+    throw new MontageImportError(`Unsupported file type. Use ${IMPORT_FORMATS.map(f => `.${f}`).join(', ')}`);
+  }
+
+  let rows: string[][];
+  try {
+    rows = await readRows(buffer, format);
+  } catch (error) {
+    throw new MontageImportError(
+      `Could not read ${format.toUpperCase()} file: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  const result = rowsToEntries(rows);
+  if (result.entries.length === 0) {
+    throw new MontageImportError('No montage plans with valid timecodes found in the file');
+  }
+
+  console.log(`📥 Parsed ${format.toUpperCase()} "${filename}": ${result.entries.length} plans, ${result.skippedRows} rows skipped${result.renumbered ? ', renumbered' : ''}`);
+
+  return { format, ...result };
+}
@@ -0,0 +1,449 @@
+/**
+ * Montage PDF — монтажный лист в PDF (та же вёрстка, что у DOCX-экспорта)
+ *
+ * Рендер целиком на сервере через node-canvas (PDF-бэкенд Cairo), без
+ * внешних сервисов. Страницы: титульный лист, информация о фильме, таблица
+ * планов (A4 альбомная, шапка таблицы повторяется на каждой странице),
+ * блок подписей. Внизу каждой страницы — "Лист N из M".
+ *
+ * Шрифт берётся из системы (нужна кириллица: DejaVu Sans / Liberation Sans).
+ * PDF_FONT_PATH — путь к своему TTF, если в системе подходящего нет.
+ *
+ * Готовый файл запирается (стандартное шифрование PDF, AES-256): открывается
+ * без пароля, печать разрешена, правка, копирование и сборка страниц — нет.
+ * Снять ограничения можно паролем владельца PDF_OWNER_PASSWORD; без него
+ * пароль случайный и ограничения не снимаются.
+ */
+
+import crypto from 'crypto';
+import { createCanvas, Image, registerFont } from 'canvas';
+import type { CanvasRenderingContext2D } from 'canvas';
+import { PDFDocument } from '@cantoo/pdf-lib';
+import { readJpegSize } from './plan-thumbnails';
+import type { FilmMetadata, MontageEntry } from '@/types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LAYOUT (единицы PDF-холста — пункты, 1/72 дюйма)
+// ═══════════════════════════════════════════════════════════════════════════
+
+const PAGE_WIDTH = 841.89;   // A4 альбомная: 297 мм
+const PAGE_HEIGHT = 595.28;  // 210 мм
+const MARGIN = 42.5;         // ~1.5 см, как в DOCX
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 24;
+const CONTENT_BOTTOM = PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT;
+
+const TABLE_FONT_SIZE = 10;
+const TABLE_LINE_HEIGHT = 12;
+const CELL_PADDING = 4;
+
+const INFO_FONT_SIZE = 13;
+const INFO_LINE_HEIGHT = 18;
+
+const CUSTOM_FONT_FAMILY = 'MontageSheet';
+const SYSTEM_FONT_FAMILY = '"DejaVu Sans", "Liberation Sans", Arial, sans-serif';
+
+let fontFamily: string | null = null;
+
+function getFontFamily(): string {
+  if (fontFamily) return fontFamily;
+
+  fontFamily = SYSTEM_FONT_FAMILY;
+  if (process.env.PDF_FONT_PATH) {
+    try {
+      registerFont(process.env.PDF_FONT_PATH, { family: CUSTOM_FONT_FAMILY });
+      fontFamily = `"${CUSTOM_FONT_FAMILY}", ${SYSTEM_FONT_FAMILY}`;
+    } catch (error) {
+      console.warn(`⚠️  Could not register PDF font ${process.env.PDF_FONT_PATH}:`, error);
+    }
+  }
+  return fontFamily;
+}
+
+function setFont(ctx: CanvasRenderingContext2D, size: number, bold = false): void {
+  // В PDF-холсте 1px == 1pt
+  ctx.font = `${bold ? 'bold ' : ''}${size}px ${getFontFamily()}`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONTENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Поля информации о фильме — подписи как в DOCX-экспорте */
+export const FILM_INFO_FIELDS: Array<[label: string, field: keyof FilmMetadata]> = [
+  ['Фирма-производитель – ', 'producer_company'],
+  ['Год выпуска – ', 'release_year'],
+  ['Страна производства – ', 'country'],
+  ['Автор (ы) сценария – ', 'screenwriter'],
+  ['Режиссер-постановщик – ', 'director'],
+  ['Правообладатель (и) – ', 'copyright_holder'],
+  ['Продолжительность фильма ', 'duration_text'],
+  ['Количество серий – ', 'episodes_count'],
+  ['Формат кадра ', 'frame_format'],
+  ['Цветной / черно-белый – ', 'color_format'],
+  ['Носитель информации – ', 'media_carrier'],
+  ['Язык оригинала – ', 'original_language'],
+  ['Язык надписей – ', 'subtitles_language'],
+  ['Язык фонограммы – ', 'audio_language'],
+];
+
+type ColumnKey = 'number' | 'start' | 'end' | 'thumbnail' | 'type' | 'description' | 'dialogues';
+
+interface TableColumn {
+  key: ColumnKey;
+  header: string;
+  width: number;  // доля ширины таблицы
+  align: 'center' | 'left';
+  value: (entry: MontageEntry) => string;
+}
+
+// Доли ширины таблицы: с колонкой кадров и без (как в /api/export-doc)
+const COLUMN_WIDTHS: Record<'plain' | 'withThumbnails', Record<ColumnKey, number>> = {
+  plain: { number: 0.08, start: 0.12, end: 0.12, thumbnail: 0, type: 0.10, description: 0.28, dialogues: 0.30 },
+  withThumbnails: { number: 0.06, start: 0.10, end: 0.10, thumbnail: 0.12, type: 0.08, description: 0.26, dialogues: 0.28 },
+};
+
+const TABLE_COLUMNS: Array<Omit<TableColumn, 'width'>> = [
+  { key: 'number', header: '№ плана', align: 'center', value: e => e.plan_number.toString() },
+  { key: 'start', header: 'Начальный тайм-код плана (часы: мин.: сек.: кадры)', align: 'center', value: e => e.start_timecode },
+  { key: 'end', header: 'Конечный тайм-код плана (часы: мин.: сек.: кадры)', align: 'center', value: e => e.end_timecode },
+  // Текста нет — в ячейке рисуется миниатюра плана
+  { key: 'thumbnail', header: 'Кадр', align: 'center', value: () => '' },
+  { key: 'type', header: 'Вид плана', align: 'center', value: e => e.plan_type || '' },
+  { key: 'description', header: 'Содержание (описание) плана, титры', align: 'left', value: e => e.description || '' },
+  { key: 'dialogues', header: 'Монологи, разговоры, песни, субтитры Музыка.', align: 'left', value: e => e.dialogues || '' },
+];
+
+function tableColumns(withThumbnails: boolean): TableColumn[] {
+  const widths = withThumbnails ? COLUMN_WIDTHS.withThumbnails : COLUMN_WIDTHS.plain;
+  return TABLE_COLUMNS
+    .filter(column => withThumbnails || column.key !== 'thumbnail')
+    .map(column => ({ ...column, width: widths[column.key] }));
+}
+
+const CLOSING_STATEMENT = 'Монтажные листы соответствуют копии фильма, принятого к выпуску на экран.';
+const SIGNATURE_LABEL = 'Руководитель организации ';
+const SIGNATURE_FIELDS: Array<[field: string, caption: string]> = [
+  ['____________', 'подпись'],
+  ['____________________', 'расшифровка подписи'],
+  ['____________', 'дата'],
+];
+const SIGNATURE_GAP = '  ';
+
+export interface MontagePdfInput {
+  title: string;
+  filmMetadata: FilmMetadata | null | undefined;
+  entries: MontageEntry[];
+  /** Колонка "Кадр": entryId → JPEG (downloadThumbnails); без неё колонки нет */
+  thumbnails?: Map<string, Buffer>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TEXT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Переносит текст по словам в пределах ширины; слишком длинные слова режутся по символам
+ */
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (ctx.measureText(candidate).width <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+
+      if (line) lines.push(line);
+      line = '';
+
+      let rest = word;
+      while (ctx.measureText(rest).width > maxWidth && rest.length > 1) {
+        let cut = rest.length - 1;
+        while (cut > 1 && ctx.measureText(rest.slice(0, cut)).width > maxWidth) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PAGINATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+type DrawOp = (ctx: CanvasRenderingContext2D) => void;
+
+interface Thumbnail {
+  image: Image;
+  width: number;
+  height: number;
+}
+
+interface TableRowSlice {
+  cells: string[][];  // строки текста по колонкам
+  bold?: boolean;
+  /** Миниатюра — только в первом куске плана, разорванного между страницами */
+  thumbnail?: Thumbnail;
+}
+
+function measureTableRow(
+  ctx: CanvasRenderingContext2D,
+  columns: TableColumn[],
+  values: string[],
+  bold = false
+): string[][] {
+  setFont(ctx, TABLE_FONT_SIZE, bold);
+  return values.map((value, i) =>
+    wrapText(ctx, value, columns[i].width * CONTENT_WIDTH - CELL_PADDING * 2)
+  );
+}
+
+/**
+ * Миниатюра во всю ширину колонки "Кадр" с сохранением пропорций
+ */
+function loadThumbnail(jpeg: Buffer | undefined, columnWidth: number): Thumbnail | undefined {
+  if (!jpeg) return undefined;
+
+  const size = readJpegSize(jpeg);
+  if (!size) return undefined;
+
+  const image = new Image();
+  image.src = jpeg;
+
+  const width = columnWidth - CELL_PADDING * 2;
+  return { image, width, height: width * size.height / size.width };
+}
+
+function rowHeight(row: TableRowSlice): number {
+  const textHeight = Math.max(1, ...row.cells.map(lines => lines.length)) * TABLE_LINE_HEIGHT;
+  return Math.max(textHeight, row.thumbnail?.height || 0) + CELL_PADDING * 2;
+}
+
+function drawTableRow(columns: TableColumn[], row: TableRowSlice, y: number): DrawOp {
+  return (ctx) => {
+    const height = rowHeight(row);
+    setFont(ctx, TABLE_FONT_SIZE, row.bold);
+    ctx.lineWidth = 0.5;
+
+    let x = MARGIN;
+    row.cells.forEach((lines, i) => {
+      const column = columns[i];
+      const width = column.width * CONTENT_WIDTH;
+      ctx.strokeRect(x, y, width, height);
+
+      if (column.key === 'thumbnail' && row.thumbnail) {
+        const { image, width: imageWidth, height: imageHeight } = row.thumbnail;
+        ctx.drawImage(image, x + CELL_PADDING, y + CELL_PADDING, imageWidth, imageHeight);
+      }
+
+      lines.forEach((line, lineIndex) => {
+        const textY = y + CELL_PADDING + lineIndex * TABLE_LINE_HEIGHT;
+        if (column.align === 'center') {
+          ctx.textAlign = 'center';
+          ctx.fillText(line, x + width / 2, textY);
+        } else {
+          ctx.textAlign = 'left';
+          ctx.fillText(line, x + CELL_PADDING, textY);
+        }
+      });
+
+      x += width;
+    });
+  };
+}
+
+/**
+ * Раскладывает документ по страницам; отрисовка — вторым проходом,
+ * когда известно общее число листов для колонтитула
+ */
+function layoutPages(ctx: CanvasRenderingContext2D, input: MontagePdfInput): DrawOp[][] {
+  const pages: DrawOp[][] = [];
+
+  // ===== Титульный лист =====
+  const titleText = input.title.charAt(0).toUpperCase() + input.title.slice(1);
+  setFont(ctx, 16);
+  const titleLines = wrapText(ctx, titleText, CONTENT_WIDTH);
+  pages.push([(c) => {
+    c.textAlign = 'center';
+    setFont(c, 30, true);
+    c.fillText('МОНТАЖНЫЕ ЛИСТЫ', PAGE_WIDTH / 2, PAGE_HEIGHT / 3);
+    setFont(c, 16);
+    titleLines.forEach((line, i) => c.fillText(line, PAGE_WIDTH / 2, PAGE_HEIGHT / 3 + 60 + i * 22));
+  }]);
+
+  // ===== Информация о фильме =====
+  const metadata = input.filmMetadata || {};
+  setFont(ctx, INFO_FONT_SIZE);
+  const infoLines = FILM_INFO_FIELDS.flatMap(([label, field]) =>
+    wrapText(ctx, `${label}${metadata[field] || ''}`, CONTENT_WIDTH)
+  );
+  pages.push([(c) => {
+    c.textAlign = 'left';
+    setFont(c, INFO_FONT_SIZE);
+    infoLines.forEach((line, i) => c.fillText(line, MARGIN, MARGIN + i * INFO_LINE_HEIGHT));
+  }]);
+
+  // ===== Таблица планов =====
+  const thumbnails = input.thumbnails;
+  const columns = tableColumns(Boolean(thumbnails));
+  const thumbnailColumn = columns.find(c => c.key === 'thumbnail');
+
+  const header: TableRowSlice = {
+    cells: measureTableRow(ctx, columns, columns.map(c => c.header), true),
+    bold: true,
+  };
+  const headerHeight = rowHeight(header);
+
+  let page: DrawOp[] = [];
+  let y = MARGIN;
+
+  const startTablePage = () => {
+    page = [drawTableRow(columns, header, MARGIN)];
+    pages.push(page);
+    y = MARGIN + headerHeight;
+  };
+
+  startTablePage();
+
+  for (const entry of input.entries) {
+    const row: TableRowSlice = {
+      cells: measureTableRow(ctx, columns, columns.map(c => c.value(entry))),
+      thumbnail: thumbnailColumn
+        ? loadThumbnail(thumbnails?.get(entry.id), thumbnailColumn.width * CONTENT_WIDTH)
+        : undefined,
+    };
+
+    while (row.cells.length > 0) {
+      const height = rowHeight(row);
+      const isPageEmpty = y === MARGIN + headerHeight;
+
+      if (y + height <= CONTENT_BOTTOM) {
+        page.push(drawTableRow(columns, row, y));
+        y += height;
+        break;
+      }
+
+      // Целиком влезет на следующую страницу — переносим, не разрывая
+      if (!isPageEmpty && height <= CONTENT_BOTTOM - MARGIN - headerHeight) {
+        startTablePage();
+        continue;
+      }
+
+      // План длиннее страницы — разрываем по строкам; миниатюра целиком в первом куске
+      const linesFit = Math.floor((CONTENT_BOTTOM - y - CELL_PADDING * 2) / TABLE_LINE_HEIGHT);
+      const thumbnailFits = !row.thumbnail || y + row.thumbnail.height + CELL_PADDING * 2 <= CONTENT_BOTTOM;
+      if (linesFit < 1 || (!thumbnailFits && !isPageEmpty)) {
+        startTablePage();
+        continue;
+      }
+
+      page.push(drawTableRow(columns, { ...row, cells: row.cells.map(lines => lines.slice(0, linesFit)) }, y));
+      row.cells = row.cells.map(lines => lines.slice(linesFit));
+      row.thumbnail = undefined;
+      startTablePage();
+    }
+  }
+
+  // ===== Подписи =====
+  const closingHeight = 140;
+  if (y + closingHeight > CONTENT_BOTTOM) {
+    page = [];
+    pages.push(page);
+    y = MARGIN;
+  }
+
+  const closingY = y + 30;
+  setFont(ctx, 14);
+  // Подпись под серединой каждого поля, как в DOCX
+  const signatureFields: Array<{ text: string; caption: string; x: number; center: number }> = [];
+  let fieldX = MARGIN + ctx.measureText(SIGNATURE_LABEL).width;
+  for (const [text, caption] of SIGNATURE_FIELDS) {
+    const width = ctx.measureText(text).width;
+    signatureFields.push({ text, caption, x: fieldX, center: fieldX + width / 2 });
+    fieldX += width + ctx.measureText(SIGNATURE_GAP).width;
+  }
+
+  page.push((c) => {
+    c.textAlign = 'left';
+    setFont(c, 14);
+    c.fillText(CLOSING_STATEMENT, MARGIN, closingY);
+    c.fillText(SIGNATURE_LABEL, MARGIN, closingY + 50);
+    for (const field of signatureFields) c.fillText(field.text, field.x, closingY + 50);
+
+    setFont(c, 9);
+    c.textAlign = 'center';
+    for (const field of signatureFields) c.fillText(field.caption, field.center, closingY + 68);
+
+    setFont(c, 14);
+    c.textAlign = 'right';
+    c.fillText('М.П.', MARGIN + CONTENT_WIDTH, closingY + 90);
+  });
+
+  return pages;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RENDER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Запирает PDF: без пароля на открытие, с ограничениями для всех, кроме владельца
+ */
+async function lockPdf(pdf: Buffer): Promise<Buffer> {
+  const document = await PDFDocument.load(pdf, { updateMetadata: false });
+
+  document.encrypt({
+    ownerPassword: process.env.PDF_OWNER_PASSWORD || crypto.randomBytes(24).toString('hex'),
+    permissions: {
+      printing: 'highResolution',
+      modifying: false,
+      copying: false,
+      annotating: false,
+      fillingForms: false,
+      contentAccessibility: true,
+      documentAssembly: false,
+    },
+  });
+
+  return Buffer.from(await document.save());
+}
+
+/**
+ * Рендерит монтажный лист в запертый PDF
+ */
+export async function renderMontagePdf(input: MontagePdfInput): Promise<Buffer> {
+  const canvas = createCanvas(PAGE_WIDTH, PAGE_HEIGHT, 'pdf');
+  const ctx = canvas.getContext('2d');
+
+  const pages = layoutPages(ctx, input);
+  const total = pages.length;
+
+  pages.forEach((ops, index) => {
+    if (index > 0) ctx.addPage(PAGE_WIDTH, PAGE_HEIGHT);
+
+    ctx.fillStyle = '#000000';
+    ctx.strokeStyle = '#000000';
+    ctx.textBaseline = 'top';
+
+    for (const op of ops) op(ctx);
+
+    setFont(ctx, 9);
+    ctx.textAlign = 'center';
+    ctx.fillText(`Лист ${index + 1} из ${total}`, PAGE_WIDTH / 2, PAGE_HEIGHT - MARGIN - 10);
+  });
+
+  return lockPdf(canvas.toBuffer('application/pdf', {
+    title: `Монтажные листы — ${input.title}`,
+    creator: 'Monty',
+  }));
+}
@@ -0,0 +1,87 @@
+/**
+ * Montage Player — синхронизация плеера с монтажным листом
+ *
+ * Кадровая арифметика для плеера: время <video> (секунды) ↔ номер кадра ↔
+ * таймкод ЧЧ:ММ:СС:КК по реальному FPS видео (chunk_progress_json.videoFPS).
+ */
+
+import type { MontageEntry } from '@/types';
+import { timecodeToFrames, framesToTimecode } from './video-chunking';
+
+/**
+ * Номер кадра, который показывается в момент currentTime
+ */
+export function secondsToFrame(seconds: number, fps: number): number {
+  return Math.floor(seconds * Math.round(fps) + 1e-6);
+}
+
+/**
+ * Время для перемотки на кадр — середина кадра, чтобы браузер
+ * не округлил позицию к предыдущему кадру
+ */
+export function frameToSeconds(frame: number, fps: number): number {
+  return (Math.max(0, frame) + 0.5) / Math.round(fps);
+}
+
+export function secondsToFrameTimecode(seconds: number, fps: number): string {
+  return framesToTimecode(secondsToFrame(seconds, fps), fps);
+}
+
+export function timecodeToSeekSeconds(timecode: string, fps: number): number {
+  return frameToSeconds(timecodeToFrames(timecode, fps), fps);
+}
+
+/**
+ * Индекс плана, внутри которого находится кадр (start <= frame < end)
+ * Планы должны идти по времени; -1 — кадр вне листа.
+ */
+export function findEntryIndexAtFrame(entries: MontageEntry[], frame: number, fps: number): number {
+  let low = 0;
+  let high = entries.length - 1;
+  let candidate = -1;
+
+  // Последний план, начинающийся не позже кадра
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (timecodeToFrames(entries[mid].start_timecode, fps) <= frame) {
+      candidate = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  if (candidate === -1) return -1;
+  return frame < timecodeToFrames(entries[candidate].end_timecode, fps) ? candidate : -1;
+}
+
+/**
+ * Начало соседнего плана для перехода "план вперёд/назад"
+ *
+ * Назад: если с начала текущего плана прошло больше секунды, возвращаемся
+ * к его началу (как в монтажных программах), иначе — к предыдущему плану.
+ */
+export function getPlanStepTarget(
+  entries: MontageEntry[],
+  frame: number,
+  fps: number,
+  direction: 1 | -1
+): MontageEntry | null {
+  if (entries.length === 0) return null;
+
+  const startFrames = entries.map(e => timecodeToFrames(e.start_timecode, fps));
+
+  if (direction === 1) {
+    const nextIndex = startFrames.findIndex(start => start > frame);
+    return nextIndex === -1 ? null : entries[nextIndex];
+  }
+
+  let currentIndex = -1;
+  for (let i = 0; i < startFrames.length && startFrames[i] <= frame; i++) {
+    currentIndex = i;
+  }
+
+  if (currentIndex === -1) return null;
+  if (frame - startFrames[currentIndex] > Math.round(fps)) return entries[currentIndex];
+  return entries[Math.max(0, currentIndex - 1)];
+}
@@ -0,0 +1,357 @@
+/**
+ * Montage Revisions — история изменений планов и откаты
+ *
+ * Любой код, меняющий montage_entries, пишет пачку ревизий (batch) со
+ * снимками плана до/после. По истории можно:
+ * - откатить один план к снимку "до" конкретной ревизии
+ * - вернуть весь лист к состоянию до ревизии / на момент времени
+ *
+ * Откаты сами пишутся в историю, поэтому их тоже можно отменить.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  MontageEntry,
+  MontageEntrySnapshot,
+  MontageEntryRevision,
+  MontageRevisionAction,
+} from '@/types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Кто и в рамках какой операции меняет лист */
+export interface RevisionContext {
+  sheetId: string;
+  userId: string | null;  // null — служебные роуты без сессии
+  source: string;
+  batchId: string;
+}
+
+export interface EntryChange {
+  before: MontageEntry | MontageEntrySnapshot | null;
+  after: MontageEntry | MontageEntrySnapshot | null;
+}
+
+const SNAPSHOT_FIELDS: Array<keyof MontageEntrySnapshot> = [
+  'id',
+  'sheet_id',
+  'plan_number',
+  'order_index',
+  'start_timecode',
+  'end_timecode',
+  'plan_type',
+  'description',
+  'dialogues',
+];
+
+/** Поля содержимого — их возвращает откат одного плана */
+const CONTENT_FIELDS = ['start_timecode', 'end_timecode', 'plan_type', 'description', 'dialogues'] as const;
+
+/**
+ * Временные номера при восстановлении (см. TEMP_PLAN_NUMBER_BASE в montage-editor);
+ * restore_montage_entries использует ту же базу
+ */
+const RESTORE_TEMP_PLAN_NUMBER_BASE = -2_000_000;
+
+export class RevisionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'RevisionError';
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RECORDING
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function createRevisionContext(
+  sheetId: string,
+  userId: string | null,
+  source: string
+): RevisionContext {
+  return { sheetId, userId, source, batchId: crypto.randomUUID() };
+}
+
+export function toSnapshot(entry: MontageEntry | MontageEntrySnapshot): MontageEntrySnapshot {
+  return {
+    id: entry.id,
+    sheet_id: entry.sheet_id,
+    plan_number: entry.plan_number,
+    order_index: entry.order_index,
+    start_timecode: entry.start_timecode,
+    end_timecode: entry.end_timecode,
+    plan_type: entry.plan_type ?? '',
+    description: entry.description ?? '',
+    dialogues: entry.dialogues ?? '',
+  };
+}
+
+function isSameSnapshot(a: MontageEntrySnapshot, b: MontageEntrySnapshot): boolean {
+  return SNAPSHOT_FIELDS.every(field => a[field] === b[field]);
+}
+
+/**
+ * Записывает пачку изменений в montage_entry_revisions
+ *
+ * Неизменившиеся планы пропускаются. Ошибка записи истории не отменяет
+ * уже выполненное изменение листа — только логируется.
+ */
+export async function recordRevisions(
+  supabase: SupabaseClient,
+  context: RevisionContext,
+  changes: EntryChange[]
+): Promise<number> {
+  const rows = changes.flatMap(({ before, after }) => {
+    const beforeSnapshot = before ? toSnapshot(before) : null;
+    const afterSnapshot = after ? toSnapshot(after) : null;
+
+    if (beforeSnapshot && afterSnapshot && isSameSnapshot(beforeSnapshot, afterSnapshot)) {
+      return [];
+    }
+
+    const action: MontageRevisionAction = !beforeSnapshot ? 'create' : !afterSnapshot ? 'delete' : 'update';
+    const entryId = (afterSnapshot || beforeSnapshot)?.id;
+    if (!entryId) return [];
+
+    return [{
+      sheet_id: context.sheetId,
+      entry_id: entryId,
+      batch_id: context.batchId,
+      action,
+      source: context.source,
+      user_id: context.userId,
+      before: beforeSnapshot,
+      after: afterSnapshot,
+    }];
+  });
+
+  if (rows.length === 0) return 0;
+
+  const { error } = await supabase
+    .from('montage_entry_revisions')
+    .insert(rows);
+
+  if (error) {
+    console.error(`⚠️  Failed to record ${rows.length} revisions (${context.source}):`, error.message);
+    return 0;
+  }
+
+  return rows.length;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// READING
+// ═══════════════════════════════════════════════════════════════════════════
+
+export async function fetchRevisions(
+  supabase: SupabaseClient,
+  sheetId: string,
+  limit: number = 500
+): Promise<MontageEntryRevision[]> {
+  const { data, error } = await supabase
+    .from('montage_entry_revisions')
+    .select('*')
+    .eq('sheet_id', sheetId)
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch revisions: ${error.message}`);
+  }
+
+  return (data || []) as MontageEntryRevision[];
+}
+
+/**
+ * Восстанавливает состояние листа по текущим планам и ревизиям, сделанным ПОСЛЕ нужной точки
+ *
+ * Для каждого затронутого плана берётся снимок "до" самой ранней из этих
+ * ревизий: null — план появился позже и должен быть удалён.
+ */
+export function computeSheetState(
+  currentEntries: MontageEntry[],
+  laterRevisions: MontageEntryRevision[]
+): MontageEntrySnapshot[] {
+  const earliestByEntry = new Map<string, MontageEntryRevision>();
+  for (const revision of [...laterRevisions].sort((a, b) => a.id - b.id)) {
+    if (!earliestByEntry.has(revision.entry_id)) {
+      earliestByEntry.set(revision.entry_id, revision);
+    }
+  }
+
+  const state = new Map<string, MontageEntrySnapshot>();
+  for (const entry of currentEntries) {
+    state.set(entry.id, toSnapshot(entry));
+  }
+
+  for (const [entryId, revision] of earliestByEntry) {
+    if (revision.before) {
+      state.set(entryId, revision.before);
+    } else {
+      state.delete(entryId);
+    }
+  }
+
+  return Array.from(state.values()).sort(
+    (a, b) => a.order_index - b.order_index || a.plan_number - b.plan_number
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RESTORE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Возвращает весь лист к состоянию до ревизии `revisionId` (включительно отменяет её)
+ * или на момент времени `at`
+ */
+export async function restoreSheet(
+  supabase: SupabaseClient,
+  context: RevisionContext,
+  current: MontageEntry[],
+  point: { revisionId?: number; at?: string }
+): Promise<{ restored: number; entries: MontageEntrySnapshot[] }> {
+  let query = supabase
+    .from('montage_entry_revisions')
+    .select('*')
+    .eq('sheet_id', context.sheetId);
+
+  if (point.revisionId !== undefined) {
+    query = query.gte('id', point.revisionId);
+  } else if (point.at) {
+    query = query.gt('created_at', point.at);
+  } else {
+    throw new RevisionError('Either revisionId or at is required');
+  }
+
+  const { data: laterRevisions, error } = await query.order('id', { ascending: true });
+  if (error) {
+    throw new Error(`Failed to fetch revisions: ${error.message}`);
+  }
+
+  const target = computeSheetState(current, (laterRevisions || []) as MontageEntryRevision[]);
+
+  const currentById = new Map(current.map(e => [e.id, e]));
+  const targetIds = new Set(target.map(e => e.id));
+  const removed = current.filter(e => !targetIds.has(e.id));
+  const changed = target.filter(e => {
+    const existing = currentById.get(e.id);
+    return !existing || !isSameSnapshot(toSnapshot(existing), e);
+  });
+
+  if (removed.length === 0 && changed.length === 0) {
+    return { restored: 0, entries: target };
+  }
+
+  // Удаление и два прохода перенумерации — одной транзакцией в БД
+  const { error: restoreError } = await supabase.rpc('restore_montage_entries', {
+    p_sheet_id: context.sheetId,
+    p_removed_ids: removed.map(e => e.id),
+    p_entries: changed,
+  });
+
+  if (restoreError) {
+    throw new Error(`Failed to restore entries: ${restoreError.message}`);
+  }
+
+  await recordRevisions(supabase, context, [
+    ...removed.map(entry => ({ before: entry, after: null })),
+    ...changed.map(entry => ({ before: currentById.get(entry.id) || null, after: entry })),
+  ]);
+
+  console.log(`⏪ Restored sheet ${context.sheetId}: ${changed.length} restored, ${removed.length} removed`);
+
+  return { restored: changed.length + removed.length, entries: target };
+}
+
+/**
+ * Откатывает один план к снимку "до" ревизии
+ *
+ * - update → возвращается содержимое плана (номер не трогаем)
+ * - create → план удаляется
+ * - delete → план вставляется обратно по таймкоду
+ *
+ * Возвращает упорядоченный список планов; перенумерацию после удаления
+ * или вставки выполняет вызывающий код.
+ */
+export async function revertRevision(
+  supabase: SupabaseClient,
+  context: RevisionContext,
+  current: MontageEntry[],
+  revision: MontageEntryRevision
+): Promise<{ entries: MontageEntry[]; needsRenumber: boolean }> {
+  const existing = current.find(e => e.id === revision.entry_id);
+
+  // План был создан этой ревизией — удаляем
+  if (!revision.before) {
+    if (!existing) {
+      throw new RevisionError('Entry no longer exists', 409);
+    }
+
+    const { error } = await supabase
+      .from('montage_entries')
+      .delete()
+      .eq('id', existing.id)
+      .eq('sheet_id', context.sheetId);
+
+    if (error) {
+      throw new Error(`Failed to delete entry: ${error.message}`);
+    }
+
+    await recordRevisions(supabase, context, [{ before: existing, after: null }]);
+    return { entries: current.filter(e => e.id !== existing.id), needsRenumber: true };
+  }
+
+  const content = Object.fromEntries(
+    CONTENT_FIELDS.map(field => [field, revision.before![field] ?? ''])
+  );
+
+  // План существует — возвращаем содержимое
+  if (existing) {
+    const { data: updated, error } = await supabase
+      .from('montage_entries')
+      .update(content)
+      .eq('id', existing.id)
+      .eq('sheet_id', context.sheetId)
+      .select()
+      .single();
+
+    if (error || !updated) {
+      throw new Error(`Failed to revert entry: ${error?.message}`);
+    }
+
+    await recordRevisions(supabase, context, [{ before: existing, after: updated }]);
+    return {
+      entries: current.map(e => (e.id === existing.id ? updated as MontageEntry : e)),
+      needsRenumber: false,
+    };
+  }
+
+  // План был удалён — вставляем обратно с временным номером
+  const { data: inserted, error } = await supabase
+    .from('montage_entries')
+    .insert({
+      ...content,
+      id: revision.entry_id,
+      sheet_id: context.sheetId,
+      plan_number: RESTORE_TEMP_PLAN_NUMBER_BASE,
+      order_index: RESTORE_TEMP_PLAN_NUMBER_BASE,
+    })
+    .select()
+    .single();
+
+  if (error || !inserted) {
+    throw new Error(`Failed to restore entry: ${error?.message}`);
+  }
+
+  await recordRevisions(supabase, context, [{ before: null, after: inserted }]);
+
+  // ЧЧ:ММ:СС:КК с ведущими нулями упорядочиваются как строки при любом FPS
+  const insertIndex = current.findIndex(e => e.start_timecode > inserted.start_timecode);
+  const entries = [...current];
+  entries.splice(insertIndex === -1 ? entries.length : insertIndex, 0, inserted as MontageEntry);
+
+  return { entries, needsRenumber: true };
+}
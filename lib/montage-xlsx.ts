@@ -0,0 +1,174 @@
+/**
+ * Montage XLSX — монтажный лист в Excel
+ *
+ * Лист "Montage": блок "Информация о фильме" (таблица из двух колонок
+ * с рамками) и под ним таблица планов. Используется экспортом одного листа
+ * (/api/export) и архивом серий сериала (/api/series/[id]/export).
+ */
+
+import * as XLSX from 'xlsx';
+import type { FilmMetadata, MontageEntry } from '@/types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LAYOUT (строки 0-based)
+// ═══════════════════════════════════════════════════════════════════════════
+
+const FILM_INFO_START_ROW = 2;  // Row 3
+const FILM_INFO_END_ROW = 18;   // Row 19 — последняя строка "Композитор(ы)"
+const MONTAGE_HEADER_ROW = 20;  // Row 21
+
+const THIN_BORDER = {
+  top: { style: 'thin', color: { rgb: '000000' } },
+  bottom: { style: 'thin', color: { rgb: '000000' } },
+  left: { style: 'thin', color: { rgb: '000000' } },
+  right: { style: 'thin', color: { rgb: '000000' } },
+};
+
+export interface MontageXlsxInput {
+  title: string;
+  filmMetadata?: FilmMetadata | null;
+  entries: Pick<MontageEntry, 'plan_number' | 'start_timecode' | 'end_timecode' | 'plan_type' | 'description' | 'dialogues'>[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RENDER
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function renderMontageXlsx(input: MontageXlsxInput): Buffer {
+  const workbook = XLSX.utils.book_new();
+
+  // Prepare data for Excel with film information section
+  const filmMetadata = input.filmMetadata || {};
+  const data = [
+    // Film Information Header
+    ['Информация о фильме.'],
+    [], // Empty row
+
+    // Film Information Table (2 columns: label and value)
+    ['Название', input.title || ''],
+    ['Фирма-производитель', filmMetadata.producer_company || ''],
+    ['Год выпуска', filmMetadata.release_year || ''],
+    ['Страна производства', filmMetadata.country || ''],
+    ['Правообладатель(и)', filmMetadata.copyright_holder || ''],
+    ['Продолжительность фильма', filmMetadata.duration_text || ''],
+    ['Количество серий', filmMetadata.episodes_count || ''],
+    ['Формат кадра', filmMetadata.frame_format || ''],
+    ['Цветной / черно-белый', filmMetadata.color_format || ''],
+    ['Носитель информации', filmMetadata.media_carrier || ''],
+    ['Язык оригинала', filmMetadata.original_language || ''],
+    ['Язык надписей', filmMetadata.subtitles_language || ''],
+    ['Язык фонограммы', filmMetadata.audio_language || ''],
+    ['Автор(ы) сценария', filmMetadata.screenwriter || ''],
+    ['Режиссер(ы)', filmMetadata.director || ''],
+    ['Оператор(ы)', ''],
+    ['Композитор(ы)', ''],
+
+    [], // Empty row separator
+    [], // Empty row separator
+
+    // Montage Table Header
+    [
+      '№ плана',
+      'Начальный тайм-код',
+      'Конечный тайм-код',
+      'План',
+      'Содержание (описание) плана, титры',
+      'Монологи, разговоры, песни, субтитры, музыка',
+    ],
+    // Montage Data rows
+    ...input.entries.map((entry) => [
+      entry.plan_number,
+      entry.start_timecode,
+      entry.end_timecode,
+      entry.plan_type || '',
+      entry.description || '',
+      entry.dialogues || '',
+    ]),
+  ];
+
+  // Create worksheet
+  const worksheet = XLSX.utils.aoa_to_sheet(data);
+
+  // Ensure empty cells exist for film info values (column B)
+  // This is needed for borders to show up
+  for (let row = FILM_INFO_START_ROW; row <= FILM_INFO_END_ROW; row++) {
+    const cellAddress = XLSX.utils.encode_cell({ r: row, c: 1 });
+    if (!worksheet[cellAddress]) {
+      worksheet[cellAddress] = { t: 's', v: '' };
+    }
+  }
+
+  // Update worksheet range to include all cells
+  if (worksheet['!ref']) {
+    const oldRange = XLSX.utils.decode_range(worksheet['!ref']);
+    if (oldRange.e.c < 1) oldRange.e.c = 1; // Ensure column B is included
+    worksheet['!ref'] = XLSX.utils.encode_range(oldRange);
+  }
+
+  // Set column widths
+  // For film info section: wider label column and value column
+  // For montage table: standard widths
+  worksheet['!cols'] = [
+    { wch: 30 }, // Film info labels / № плана
+    { wch: 50 }, // Film info values / Начальный тайм-код
+    { wch: 18 }, // Конечный тайм-код
+    { wch: 12 }, // План
+    { wch: 50 }, // Содержание
+    { wch: 50 }, // Монологи
+  ];
+
+  // Включаем перенос текста в ячейках и добавляем стили
+  const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+
+  for (let row = range.s.r; row <= range.e.r; row++) {
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      const cellAddress = XLSX.utils.encode_cell({ r: row, c: col });
+      if (!worksheet[cellAddress]) continue;
+
+      const isFilmInfoRow = row >= FILM_INFO_START_ROW && row <= FILM_INFO_END_ROW;
+
+      // Title row "Информация о фильме." - bold and centered
+      if (row === 0 && col === 0) {
+        worksheet[cellAddress].s = {
+          font: { bold: true, size: 14 },
+          alignment: { horizontal: 'center', vertical: 'center' },
+        };
+      }
+      // Film info table labels (column A, rows 3-19) - bold
+      else if (isFilmInfoRow && col === 0) {
+        worksheet[cellAddress].s = {
+          font: { bold: true },
+          alignment: { vertical: 'center' },
+          border: THIN_BORDER,
+        };
+      }
+      // Film info table values (column B, rows 3-19) - with border
+      else if (isFilmInfoRow && col === 1) {
+        worksheet[cellAddress].s = {
+          alignment: { vertical: 'center' },
+          border: THIN_BORDER,
+        };
+      }
+      // Montage table header - bold
+      else if (row === MONTAGE_HEADER_ROW) {
+        worksheet[cellAddress].s = {
+          font: { bold: true },
+          alignment: { wrapText: true, vertical: 'top', horizontal: 'center' },
+        };
+      }
+      // All other cells - wrap text
+      else {
+        worksheet[cellAddress].s = {
+          alignment: { wrapText: true, vertical: 'top' },
+        };
+      }
+    }
+  }
+
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Montage');
+
+  return XLSX.write(workbook, {
+    type: 'buffer',
+    bookType: 'xlsx',
+  }) as Buffer;
+}
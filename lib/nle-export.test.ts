@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { MontageEntry } from '@/types';
+import { formatNleExport, isNleFormat, type NleExportInput } from './nle-export';
+
+function entry(planNumber: number, start: string, end: string, description = ''): MontageEntry {
+  return {
+    id: `entry-${planNumber}`,
+    sheet_id: 'sheet-1',
+    plan_number: planNumber,
+    start_timecode: start,
+    end_timecode: end,
+    description,
+    order_index: planNumber,
+    created_at: '',
+    updated_at: '',
+  };
+}
+
+function input(entries: MontageEntry[], fps = 25): NleExportInput {
+  return { title: 'Серия 1', sourceFilename: 'episode 1.mov', entries, fps };
+}
+
+describe('isNleFormat', () => {
+  it('accepts only known formats', () => {
+    expect(isNleFormat('edl')).toBe(true);
+    expect(isNleFormat('xmeml')).toBe(true);
+    expect(isNleFormat('aaf')).toBe(false);
+    expect(isNleFormat(undefined)).toBe(false);
+  });
+});
+
+describe('formatNleExport', () => {
+  it('writes CMX3600 events, trimming overlaps and dropping empty plans', () => {
+    const edl = formatNleExport(input([
+      entry(1, '00:00:00:00', '00:00:02:00', 'Кухня,\n  утро'),
+      entry(2, '00:00:01:00', '00:00:03:00'),
+      entry(3, '00:00:05:00', '00:00:05:00'),
+    ]), 'edl');
+
+    expect(edl.split('\r\n')).toEqual([
+      'TITLE: Серия 1',
+      'FCM: NON-DROP FRAME',
+      '',
+      '001  AX       V     C        00:00:00:00 00:00:02:00 00:00:00:00 00:00:02:00',
+      '* FROM CLIP NAME: План 1',
+      '* SOURCE FILE: episode 1.mov',
+      '* COMMENT: Кухня, утро',
+      '',
+      '002  AX       V     C        00:00:02:00 00:00:03:00 00:00:02:00 00:00:03:00',
+      '* FROM CLIP NAME: План 2',
+      '* SOURCE FILE: episode 1.mov',
+      '',
+    ]);
+  });
+
+  it('uses NTSC rational time in FCPXML and fills gaps', () => {
+    const xml = formatNleExport(input([
+      entry(1, '00:00:00:00', '00:00:02:00'),
+      entry(2, '00:00:03:00', '00:00:04:00', 'Финал & титры'),
+    ], 23.976), 'fcpxml');
+
+    expect(xml).toContain('<format id="r1" frameDuration="1001/24000s"/>');
+    expect(xml).toContain('<gap name="Gap" offset="48048/24000s" duration="24024/24000s"/>');
+    expect(xml).toContain('value="Финал &amp; титры"');
+    expect(xml).toContain('src="file:///episode%201.mov"');
+  });
+
+  it('describes the source file once in FCP7 XML', () => {
+    const xml = formatNleExport(input([
+      entry(1, '00:00:00:00', '00:00:01:00'),
+      entry(2, '00:00:01:00', '00:00:02:00'),
+    ], 29.97), 'xmeml');
+
+    expect(xml).toContain('<rate><timebase>30</timebase><ntsc>TRUE</ntsc></rate>');
+    expect(xml.match(/<file id="file-1">/g)).toHaveLength(1);
+    expect(xml).toContain('<file id="file-1"/>');
+    expect(xml).toContain('<start>30</start>');
+    expect(xml).toContain('<end>60</end>');
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * NLE Export — границы планов как монтажный список для монтажных систем
+ *
+ * Форматы:
+ * - edl    — CMX3600 (Avid, Resolve, Premiere)
+ * - fcpxml — Final Cut Pro X (FCPXML 1.10)
+ * - xmeml  — Final Cut Pro 7 XML, его же импортирует Premiere Pro
+ *
+ * Каждый план — клип исходного видео от начального до конечного таймкода,
+ * на таймлайне стоит там же, где и в исходнике (record == source), поэтому
+ * склейки можно сверять прямо по картинке. Имя клипа — "План N",
+ * описание — комментарий (EDL) или маркер на клипе (XML).
+ *
+ * Файла в монтажке нет — медиа переподключается по имени исходника.
+ */
+
+import type { MontageEntry } from '@/types';
+import { timecodeToFrames, framesToTimecode } from './video-chunking';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const NLE_FORMATS = ['edl', 'fcpxml', 'xmeml'] as const;
+export type NleFormat = typeof NLE_FORMATS[number];
+
+export const NLE_FILE_EXTENSIONS: Record<NleFormat, string> = {
+  edl: 'edl',
+  fcpxml: 'fcpxml',
+  xmeml: 'xml',
+};
+
+export interface NleExportInput {
+  title: string;
+  /** Имя исходного файла — по нему монтажка найдёт медиа */
+  sourceFilename: string;
+  entries: MontageEntry[];
+  fps: number;
+}
+
+export function isNleFormat(value: unknown): value is NleFormat {
+  return typeof value === 'string' && (NLE_FORMATS as readonly string[]).includes(value);
+}
+
+/** План в кадрах */
+interface NleClip {
+  name: string;
+  comment: string;
+  startFrame: number;
+  endFrame: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RATE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Таймбаза: целое число кадров (как в таймкодах листа) и признак NTSC (23.976, 29.97)
+ */
+function getRate(fps: number): { timebase: number; ntsc: boolean } {
+  const timebase = Math.round(fps);
+  return { timebase, ntsc: Math.abs(fps - (timebase * 1000) / 1001) < 0.01 };
+}
+
+/** Рациональное время FCPXML: "1001/24000s" на кадр для NTSC, "1/25s" иначе */
+function framesToRational(frames: number, fps: number): string {
+  const { timebase, ntsc } = getRate(fps);
+  if (frames === 0) return '0s';
+  return ntsc ? `${frames * 1001}/${timebase * 1000}s` : `${frames}/${timebase}s`;
+}
+
+/**
+ * Планы в кадрах; наложения (лист не прошёл валидацию) обрезаются по концу
+ * предыдущего плана — таймлайн не допускает двух клипов в одном месте
+ */
+function toClips(entries: MontageEntry[], fps: number): NleClip[] {
+  const clips: NleClip[] = [];
+  let previousEnd = 0;
+
+  for (const entry of entries) {
+    const startFrame = Math.max(timecodeToFrames(entry.start_timecode, fps), previousEnd);
+    const endFrame = timecodeToFrames(entry.end_timecode, fps);
+    if (endFrame <= startFrame) continue;
+
+    clips.push({
+      name: `План ${entry.plan_number}`,
+      comment: (entry.description || '').replace(/\s+/g, ' ').trim(),
+      startFrame,
+      endFrame,
+    });
+    previousEnd = endFrame;
+  }
+
+  return clips;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CMX3600 EDL
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * CMX3600: номер события — 3 цифры; длинные серии (>999 планов) получают
+ * 4-значные номера, их понимают Resolve и Premiere
+ */
+function formatEdl(input: NleExportInput, clips: NleClip[]): string {
+  const { fps } = input;
+  const lines = [
+    `TITLE: ${input.title}`,
+    'FCM: NON-DROP FRAME',
+    '',
+  ];
+
+  clips.forEach((clip, i) => {
+    const sourceIn = framesToTimecode(clip.startFrame, fps);
+    const sourceOut = framesToTimecode(clip.endFrame, fps);
+    const event = (i + 1).toString().padStart(3, '0');
+
+    lines.push(`${event}  AX       V     C        ${sourceIn} ${sourceOut} ${sourceIn} ${sourceOut}`);
+    lines.push(`* FROM CLIP NAME: ${clip.name}`);
+    lines.push(`* SOURCE FILE: ${input.sourceFilename}`);
+    if (clip.comment) lines.push(`* COMMENT: ${clip.comment}`);
+    lines.push('');
+  });
+
+  return lines.join('\r\n');
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FCPXML
+// ═══════════════════════════════════════════════════════════════════════════
+
+function formatFcpxml(input: NleExportInput, clips: NleClip[]): string {
+  const { fps } = input;
+  const sequenceEnd = clips.length > 0 ? clips[clips.length - 1].endFrame : 0;
+  const title = escapeXml(input.title);
+
+  const assetClips = clips.map(clip => {
+    const offset = framesToRational(clip.startFrame, fps);
+    const duration = framesToRational(clip.endFrame - clip.startFrame, fps);
+    const marker = clip.comment
+      ? `\n              <marker start="${offset}" duration="${framesToRational(1, fps)}" value="${escapeXml(clip.comment)}"/>\n            `
+      : '';
+    return `            <asset-clip ref="r2" name="${escapeXml(clip.name)}" offset="${offset}" start="${offset}" duration="${duration}" format="r1" tcFormat="NDF">${marker}</asset-clip>`;
+  });
+
+  // Разрывы между планами (если лист не встык) — пустые промежутки на таймлайне
+  const spine: string[] = [];
+  let cursor = 0;
+  clips.forEach((clip, i) => {
+    if (clip.startFrame > cursor) {
+      spine.push(`            <gap name="Gap" offset="${framesToRational(cursor, fps)}" duration="${framesToRational(clip.startFrame - cursor, fps)}"/>`);
+    }
+    spine.push(assetClips[i]);
+    cursor = clip.endFrame;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    '<fcpxml version="1.10">',
+    '  <resources>',
+    `    <format id="r1" frameDuration="${framesToRational(1, fps)}"/>`,
+    `    <asset id="r2" name="${escapeXml(input.sourceFilename)}" start="0s" duration="${framesToRational(sequenceEnd, fps)}" hasVideo="1" hasAudio="1" format="r1">`,
+    `      <media-rep kind="original-media" src="file:///${encodeURI(input.sourceFilename)}"/>`,
+    '    </asset>',
+    '  </resources>',
+    '  <library>',
+    `    <event name="${title}">`,
+    `      <project name="${title}">`,
+    `        <sequence format="r1" duration="${framesToRational(sequenceEnd, fps)}" tcStart="0s" tcFormat="NDF">`,
+    '          <spine>',
+    ...spine,
+    '          </spine>',
+    '        </sequence>',
+    '      </project>',
+    '    </event>',
+    '  </library>',
+    '</fcpxml>',
+    '',
+  ].join('\n');
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FCP7 XML (Premiere)
+// ═══════════════════════════════════════════════════════════════════════════
+
+function formatXmeml(input: NleExportInput, clips: NleClip[]): string {
+  const { timebase, ntsc } = getRate(input.fps);
+  const rate = `<rate><timebase>${timebase}</timebase><ntsc>${ntsc ? 'TRUE' : 'FALSE'}</ntsc></rate>`;
+  const sequenceEnd = clips.length > 0 ? clips[clips.length - 1].endFrame : 0;
+  const sourceName = escapeXml(input.sourceFilename);
+
+  const clipItems = clips.map((clip, i) => {
+    // Полное описание файла — в первом клипе, дальше ссылка по id
+    const file = i === 0
+      ? [
+          '            <file id="file-1">',
+          `              <name>${sourceName}</name>`,
+          `              <pathurl>file://localhost/${encodeURI(input.sourceFilename)}</pathurl>`,
+          `              ${rate}`,
+          `              <duration>${sequenceEnd}</duration>`,
+          '              <media><video/><audio/></media>',
+          '            </file>',
+        ].join('\n')
+      : '            <file id="file-1"/>';
+
+    const marker = clip.comment
+      ? [
+          '            <marker>',
+          `              <name>${escapeXml(clip.name)}</name>`,
+          `              <comment>${escapeXml(clip.comment)}</comment>`,
+          `              <in>${clip.startFrame}</in>`,
+          '              <out>-1</out>',
+          '            </marker>',
+        ].join('\n')
+      : null;
+
+    return [
+      `          <clipitem id="clipitem-${i + 1}">`,
+      `            <name>${escapeXml(clip.name)}</name>`,
+      `            <duration>${sequenceEnd}</duration>`,
+      `            ${rate}`,
+      `            <start>${clip.startFrame}</start>`,
+      `            <end>${clip.endFrame}</end>`,
+      `            <in>${clip.startFrame}</in>`,
+      `            <out>${clip.endFrame}</out>`,
+      file,
+      ...(marker ? [marker] : []),
+      '          </clipitem>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE xmeml>',
+    '<xmeml version="4">',
+    '  <sequence id="sequence-1">',
+    `    <name>${escapeXml(input.title)}</name>`,
+    `    <duration>${sequenceEnd}</duration>`,
+    `    ${rate}`,
+    '    <timecode>',
+    `      ${rate}`,
+    '      <string>00:00:00:00</string>',
+    '      <frame>0</frame>',
+    '      <displayformat>NDF</displayformat>',
+    '    </timecode>',
+    '    <media>',
+    '      <video>',
+    '        <track>',
+    ...clipItems,
+    '        </track>',
+    '      </video>',
+    '    </media>',
+    '  </sequence>',
+    '</xmeml>',
+    '',
+  ].join('\n');
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EXPORT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Монтажный список в заданном формате
+ */
+export function formatNleExport(input: NleExportInput, format: NleFormat): string {
+  const clips = toClips(input.entries, input.fps);
+
+  switch (format) {
+    case 'edl':
+      return formatEdl(input, clips);
+    case 'fcpxml':
+      return formatFcpxml(input, clips);
+    case 'xmeml':
+      return formatXmeml(input, clips);
+  }
+}
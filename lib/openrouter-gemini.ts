@@ -40,13 +40,15 @@ async function downloadVideoAsBase64(videoUrl: string): Promise<string> {
  * @param prompt - Текстовый промпт
  * @param videoId - ID видео для логов
  * @param modelName - Название модели
+ * @param jsonMode - Запросить ответ строго в JSON (response_format)
  * @returns Ответ от API
  */
 export async function analyzeVideoWithOpenRouter(
   videoUrl: string,
   prompt: string,
   videoId: string,
-  modelName: string = DEFAULT_MODEL
+  modelName: string = DEFAULT_MODEL,
+  jsonMode: boolean = false
 ): Promise<OpenRouterResponse> {
   const apiKey = process.env.OPENROUTER_API_KEY;
   
@@ -94,6 +96,7 @@ export async function analyzeVideoWithOpenRouter(
           },
         ],
         max_tokens: 8000, // Уменьшено для бесплатного тарифа
+        ...(jsonMode ? { response_format: { type: 'json_object' } } : {}),
       }),
     });
     
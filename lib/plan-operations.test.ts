@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import {
+  absorbDeletedPlan,
+  buildDialoguesFromWords,
+  findHostIndex,
+  formatDialogueBlocks,
+  mergePlans,
+  moveBoundary,
+  parseDialogueBlocks,
+  partitionPlan,
+  PlanOperationError,
+  type DiarizationContext,
+  type PlanContent,
+} from './plan-operations';
+
+const FPS = 25;
+
+function plan(start: string, end: string, dialogues = '', description = ''): PlanContent {
+  return { start_timecode: start, end_timecode: end, plan_type: 'Ср.', description, dialogues };
+}
+
+function context(words: DiarizationContext['words'] = []): DiarizationContext {
+  return { words, speakerCharacterMap: { A: 'АННА', B: 'БОРИС' }, fps: FPS };
+}
+
+describe('dialogue blocks', () => {
+  it('parses character headers with voice-over suffixes', () => {
+    expect(parseDialogueBlocks('АННА ЗК\nПривет.\n\nМузыка')).toEqual([
+      { character: 'АННА', suffix: 'ЗК', text: 'Привет.' },
+      { character: null, suffix: '', text: 'Музыка' },
+    ]);
+  });
+
+  it('formats blocks back, dropping empty ones', () => {
+    expect(formatDialogueBlocks([
+      { character: 'АННА', suffix: 'ЗК', text: 'Привет.' },
+      { character: 'БОРИС', suffix: '', text: ' ' },
+      { character: null, suffix: '', text: 'Музыка' },
+    ])).toBe('АННА ЗК\nПривет.\n\nМузыка');
+  });
+});
+
+describe('buildDialoguesFromWords', () => {
+  it('groups words by mapped character and splits on long pauses', () => {
+    const ctx = context([
+      { text: 'Привет', startMs: 0, endMs: 400, speaker: 'A' },
+      { text: 'Борис.', startMs: 500, endMs: 900, speaker: 'A' },
+      { text: 'Здравствуй.', startMs: 1000, endMs: 1500, speaker: 'B' },
+      { text: 'Опять', startMs: 3000, endMs: 3400, speaker: 'B' },
+      { text: 'вне', startMs: 9000, endMs: 9400, speaker: 'A' },
+    ]);
+
+    expect(buildDialoguesFromWords(ctx, 0, 5000)).toBe(
+      'АННА\nПривет Борис.\n\nБОРИС\nЗдравствуй. Опять'
+    );
+  });
+
+  it('keeps unmapped speaker ids and applies suffix hints', () => {
+    const ctx = context([{ text: 'Алло', startMs: 0, endMs: 300, speaker: 'C' }]);
+    expect(buildDialoguesFromWords(ctx, 0, 1000, new Map([['C', 'ГЗ']]))).toBe('C ГЗ\nАлло');
+  });
+});
+
+describe('partitionPlan', () => {
+  it('splits a plan back to back and redistributes dialogues', () => {
+    const ctx = context([
+      { text: 'Раз.', startMs: 200, endMs: 600, speaker: 'A' },
+      { text: 'Два.', startMs: 2200, endMs: 2600, speaker: 'B' },
+    ]);
+
+    const parts = partitionPlan(plan('00:00:00:00', '00:00:04:00', 'АННА ЗК\nРаз. Два.'), ['00:00:02:00'], ctx);
+
+    expect(parts.map(p => [p.start_timecode, p.end_timecode])).toEqual([
+      ['00:00:00:00', '00:00:02:00'],
+      ['00:00:02:00', '00:00:04:00'],
+    ]);
+    expect(parts[0].dialogues).toBe('АННА ЗК\nРаз.');
+    expect(parts[1].dialogues).toBe('БОРИС\nДва.');
+  });
+
+  it('keeps dialogues in the first part without diarization words', () => {
+    const parts = partitionPlan(plan('00:00:00:00', '00:00:04:00', 'АННА\nТекст'), ['00:00:01:00', '00:00:03:00'], context());
+
+    expect(parts).toHaveLength(3);
+    expect(parts.map(p => p.dialogues)).toEqual(['АННА\nТекст', '', '']);
+  });
+
+  it('rejects cuts on or outside the plan bounds', () => {
+    expect(() => partitionPlan(plan('00:00:00:00', '00:00:04:00'), ['00:00:04:00'], context()))
+      .toThrow(PlanOperationError);
+  });
+});
+
+describe('mergePlans', () => {
+  it('merges descriptions without repeats and joins dialogue blocks', () => {
+    const merged = mergePlans([
+      plan('00:00:00:00', '00:00:01:00', 'АННА\nРаз.', 'Кухня'),
+      plan('00:00:01:00', '00:00:02:00', 'АННА\nДва.', 'Кухня'),
+      plan('00:00:02:00', '00:00:03:00', '', 'Окно'),
+    ], context());
+
+    expect(merged).toEqual({
+      start_timecode: '00:00:00:00',
+      end_timecode: '00:00:03:00',
+      plan_type: 'Ср.',
+      description: 'Кухня\nОкно',
+      dialogues: 'АННА\nРаз. Два.',
+    });
+  });
+
+  it('rejects a single plan and overlapping plans', () => {
+    expect(() => mergePlans([plan('00:00:00:00', '00:00:01:00')], context())).toThrow(PlanOperationError);
+    expect(() => mergePlans([
+      plan('00:00:00:00', '00:00:02:00'),
+      plan('00:00:01:00', '00:00:03:00'),
+    ], context())).toThrow('Plans overlap');
+  });
+});
+
+describe('moveBoundary', () => {
+  it('moves the cut between neighbours and closes gaps', () => {
+    const [left, right] = moveBoundary(
+      plan('00:00:00:00', '00:00:01:00', 'АННА\nРаз.'),
+      plan('00:00:01:10', '00:00:03:00', 'БОРИС\nДва.'),
+      '00:00:02:00',
+      context()
+    );
+
+    expect([left.start_timecode, left.end_timecode]).toEqual(['00:00:00:00', '00:00:02:00']);
+    expect([right.start_timecode, right.end_timecode]).toEqual(['00:00:02:00', '00:00:03:00']);
+    expect(left.dialogues).toBe('АННА\nРаз.');
+  });
+
+  it('rejects a boundary outside both plans', () => {
+    expect(() => moveBoundary(
+      plan('00:00:01:00', '00:00:02:00'),
+      plan('00:00:02:00', '00:00:03:00'),
+      '00:00:03:00',
+      context()
+    )).toThrow(PlanOperationError);
+  });
+});
+
+describe('absorbDeletedPlan', () => {
+  const entries = [
+    plan('00:00:00:00', '00:00:02:00'),
+    plan('00:00:02:00', '00:00:03:00'),
+    plan('00:00:03:10', '00:00:05:00'),
+  ];
+
+  it('extends the previous plan over the deleted one and the gap before it', () => {
+    expect(absorbDeletedPlan(entries, 2)).toEqual({
+      neighborIndex: 1,
+      changes: { start_timecode: '00:00:02:00', end_timecode: '00:00:05:00' },
+    });
+  });
+
+  it('starts the next plan earlier when the first plan is deleted', () => {
+    expect(absorbDeletedPlan(entries, 0)).toEqual({
+      neighborIndex: 1,
+      changes: { start_timecode: '00:00:00:00', end_timecode: '00:00:03:00' },
+    });
+    expect(absorbDeletedPlan([entries[0]], 0)).toBeNull();
+  });
+});
+
+describe('findHostIndex', () => {
+  const entries = [plan('00:00:00:00', '00:00:02:00'), plan('00:00:02:00', '00:00:05:00')];
+
+  it('finds the plan containing the timecode (end exclusive)', () => {
+    expect(findHostIndex(entries, '00:00:01:24', FPS)).toBe(0);
+    expect(findHostIndex(entries, '00:00:02:00', FPS)).toBe(1);
+    expect(findHostIndex(entries, '00:00:05:00', FPS)).toBe(-1);
+  });
+});
@@ -0,0 +1,410 @@
+/**
+ * Plan Operations — разрезка, склейка и вставка планов монтажного листа
+ *
+ * Правила (см. examples/FORMAT_RULES.md):
+ * - таймкоды ВСТЫК: конец плана N == начало плана N+1
+ * - реплики перераспределяются по словам полной диаризации (по startMs слова)
+ * - диалоги в формате "ИМЯ[ ЗК]\nтекст", блоки разделены пустой строкой
+ *
+ * Модуль чистый (без БД), кроме loadDiarizationContext.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { MontageEntry } from '@/types';
+import { timecodeToFrames, framesToTimecode, getVideoFps } from './video-chunking';
+import { DIALOGUE_PAUSE_THRESHOLD_MS } from './config';
+import { loadVideoArtifact } from './supabase/video-artifacts';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface DiarizationWord {
+  text: string;
+  startMs: number;
+  endMs: number;
+  confidence?: number;
+  speaker?: string;
+}
+
+export interface DiarizationContext {
+  words: DiarizationWord[];
+  speakerCharacterMap: Record<string, string>;
+  fps: number;
+}
+
+export interface DialogueBlock {
+  character: string | null;  // null — строка без имени ("Музыка", "Смех")
+  suffix: string;            // "ЗК", "ГЗ", ... или ''
+  text: string;
+}
+
+/** Содержимое плана без служебных полей */
+export type PlanContent = Pick<
+  MontageEntry,
+  'start_timecode' | 'end_timecode' | 'plan_type' | 'description' | 'dialogues'
+>;
+
+export class PlanOperationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlanOperationError';
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DIARIZATION CONTEXT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Загружает слова полной диаризации, speaker→character map и FPS видео
+ * (сохраняются init-processing-v5: слова — в video_artifacts, у видео до
+ * video_artifacts — в chunk_progress_json)
+ */
+export async function loadDiarizationContext(
+  supabase: SupabaseClient,
+  videoId: string
+): Promise<DiarizationContext> {
+  const { data: video } = await supabase
+    .from('videos')
+    .select('chunk_progress_json')
+    .eq('id', videoId)
+    .single();
+
+  const progress = video?.chunk_progress_json || {};
+  const words = await loadVideoArtifact<DiarizationWord[]>(videoId, 'diarization-words', supabase);
+
+  return {
+    words: words || (Array.isArray(progress.fullDiarizationWords) ? progress.fullDiarizationWords : []),
+    speakerCharacterMap: progress.speakerCharacterMap || {},
+    fps: getVideoFps(progress),
+  };
+}
+
+/**
+ * FPS видео без загрузки слов диаризации — для проверки таймкодов
+ */
+export async function loadVideoFps(supabase: SupabaseClient, videoId: string): Promise<number> {
+  const { data: video } = await supabase
+    .from('videos')
+    .select('chunk_progress_json')
+    .eq('id', videoId)
+    .single();
+
+  return getVideoFps(video?.chunk_progress_json);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DIALOGUE FORMAT
+// ═══════════════════════════════════════════════════════════════════════════
+
+const CHARACTER_LINE_REGEX = /^([A-ZА-ЯЁ][A-ZА-ЯЁ0-9.\- ]*?)(?:\s+(ЗК|ГЗК|ГЗ|\(\?\)))?$/;
+
+/**
+ * Разбирает текст колонки диалогов на блоки "ИМЯ[ ЗК]\nтекст"
+ */
+export function parseDialogueBlocks(dialogues: string | undefined | null): DialogueBlock[] {
+  if (!dialogues || !dialogues.trim()) return [];
+
+  return dialogues
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .map(block => {
+      const [firstLine, ...rest] = block.split('\n');
+      const match = firstLine.trim().match(CHARACTER_LINE_REGEX);
+
+      if (match && rest.length > 0) {
+        return {
+          character: match[1].trim(),
+          suffix: match[2] || '',
+          text: rest.join('\n').trim(),
+        };
+      }
+
+      return { character: null, suffix: '', text: block };
+    });
+}
+
+export function formatDialogueBlocks(blocks: DialogueBlock[]): string {
+  return blocks
+    .filter(b => b.text.trim())
+    .map(b => {
+      if (!b.character) return b.text;
+      const header = b.suffix ? `${b.character} ${b.suffix}` : b.character;
+      return `${header}\n${b.text}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Склеивает соседние блоки одного персонажа (с одинаковой пометкой ЗК/ГЗ)
+ */
+function mergeAdjacentBlocks(blocks: DialogueBlock[]): DialogueBlock[] {
+  const result: DialogueBlock[] = [];
+
+  for (const block of blocks) {
+    const last = result[result.length - 1];
+    if (last && block.character && last.character === block.character && last.suffix === block.suffix) {
+      last.text = `${last.text} ${block.text}`.trim();
+    } else {
+      result.push({ ...block });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Пометки ЗК/ГЗ, уже стоящие в исходных планах — сохраняем их при пересборке
+ */
+function collectSuffixHints(dialogues: Array<string | undefined>): Map<string, string> {
+  const hints = new Map<string, string>();
+  for (const text of dialogues) {
+    for (const block of parseDialogueBlocks(text)) {
+      if (block.character && block.suffix && !hints.has(block.character)) {
+        hints.set(block.character, block.suffix);
+      }
+    }
+  }
+  return hints;
+}
+
+/**
+ * Собирает текст диалогов из слов диаризации в диапазоне [startMs, endMs)
+ * Слово принадлежит плану, если его startMs внутри диапазона.
+ */
+export function buildDialoguesFromWords(
+  context: DiarizationContext,
+  startMs: number,
+  endMs: number,
+  suffixHints: Map<string, string> = new Map()
+): string {
+  const words = context.words
+    .filter(w => w.startMs >= startMs && w.startMs < endMs && w.text?.trim())
+    .sort((a, b) => a.startMs - b.startMs);
+
+  const blocks: DialogueBlock[] = [];
+  let current: (DialogueBlock & { lastEndMs: number }) | null = null;
+
+  for (const word of words) {
+    const speaker = word.speaker || 'UNKNOWN';
+    const character = context.speakerCharacterMap[speaker] || speaker;
+    const isPause = current !== null && word.startMs - current.lastEndMs > DIALOGUE_PAUSE_THRESHOLD_MS;
+
+    if (!current || current.character !== character || isPause) {
+      if (current) blocks.push(current);
+      current = {
+        character,
+        suffix: suffixHints.get(character) || '',
+        text: word.text.trim(),
+        lastEndMs: word.endMs,
+      };
+    } else {
+      current.text += ' ' + word.text.trim();
+      current.lastEndMs = word.endMs;
+    }
+  }
+  if (current) blocks.push(current);
+
+  return formatDialogueBlocks(
+    mergeAdjacentBlocks(blocks.map(({ character, suffix, text }) => ({ character, suffix, text })))
+  );
+}
+
+function hasWordsInRange(context: DiarizationContext, startMs: number, endMs: number): boolean {
+  return context.words.some(w => w.startMs >= startMs && w.startMs < endMs);
+}
+
+function framesToMs(frames: number, fps: number): number {
+  return (frames / Math.round(fps)) * 1000;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// OPERATIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Делит план на части по таймкодам разреза (встык)
+ *
+ * Все части наследуют вид и описание плана; реплики перераспределяются по
+ * словам диаризации. Если слов в диапазоне нет (лист без V5-диаризации или
+ * ручной план) — исходные диалоги остаются в первой части.
+ */
+export function partitionPlan(
+  entry: PlanContent,
+  cutTimecodes: string[],
+  context: DiarizationContext
+): PlanContent[] {
+  const fps = context.fps;
+  const startFrame = timecodeToFrames(entry.start_timecode, fps);
+  const endFrame = timecodeToFrames(entry.end_timecode, fps);
+
+  const cutFrames = Array.from(new Set(cutTimecodes.map(tc => timecodeToFrames(tc, fps)))).sort((a, b) => a - b);
+
+  for (const frame of cutFrames) {
+    if (frame <= startFrame || frame >= endFrame) {
+      throw new PlanOperationError(
+        `Cut ${framesToTimecode(frame, fps)} must be strictly inside ${entry.start_timecode} – ${entry.end_timecode}`
+      );
+    }
+  }
+
+  const boundaries = [startFrame, ...cutFrames, endFrame];
+  const redistribute = hasWordsInRange(context, framesToMs(startFrame, fps), framesToMs(endFrame, fps));
+  const suffixHints = collectSuffixHints([entry.dialogues]);
+
+  return boundaries.slice(0, -1).map((fromFrame, index) => {
+    const toFrame = boundaries[index + 1];
+    const dialogues = redistribute
+      ? buildDialoguesFromWords(context, framesToMs(fromFrame, fps), framesToMs(toFrame, fps), suffixHints)
+      : index === 0 ? entry.dialogues || '' : '';
+
+    return {
+      start_timecode: framesToTimecode(fromFrame, fps),
+      end_timecode: framesToTimecode(toFrame, fps),
+      plan_type: entry.plan_type || '',
+      description: entry.description || '',
+      dialogues,
+    };
+  });
+}
+
+/**
+ * Склеивает подряд идущие планы в один
+ *
+ * Вид плана берётся у первого, описания объединяются (без повторов),
+ * реплики пересобираются по словам диаризации на всём диапазоне.
+ */
+export function mergePlans(entries: PlanContent[], context: DiarizationContext): PlanContent {
+  if (entries.length < 2) {
+    throw new PlanOperationError('At least two plans are required to merge');
+  }
+
+  const fps = context.fps;
+  for (let i = 0; i < entries.length - 1; i++) {
+    const gap = timecodeToFrames(entries[i + 1].start_timecode, fps) - timecodeToFrames(entries[i].end_timecode, fps);
+    if (gap < 0) {
+      throw new PlanOperationError(
+        `Plans overlap: ${entries[i].end_timecode} > ${entries[i + 1].start_timecode}`
+      );
+    }
+  }
+
+  const first = entries[0];
+  const last = entries[entries.length - 1];
+  const startMs = framesToMs(timecodeToFrames(first.start_timecode, fps), fps);
+  const endMs = framesToMs(timecodeToFrames(last.end_timecode, fps), fps);
+
+  const descriptions = Array.from(new Set(
+    entries.map(e => (e.description || '').trim()).filter(Boolean)
+  ));
+
+  const dialogues = hasWordsInRange(context, startMs, endMs)
+    ? buildDialoguesFromWords(context, startMs, endMs, collectSuffixHints(entries.map(e => e.dialogues)))
+    : formatDialogueBlocks(mergeAdjacentBlocks(entries.flatMap(e => parseDialogueBlocks(e.dialogues))));
+
+  return {
+    start_timecode: first.start_timecode,
+    end_timecode: last.end_timecode,
+    plan_type: first.plan_type || '',
+    description: descriptions.join('\n'),
+    dialogues,
+  };
+}
+
+/**
+ * Переносит склейку между двумя соседними планами (mark in / mark out)
+ *
+ * Левый план заканчивается, а правый начинается на новом таймкоде — лист
+ * остаётся встык, даже если между планами был зазор. Склейка должна лежать
+ * строго внутри [left.start, right.end]. Реплики обоих планов
+ * пересобираются по словам диаризации, если они есть в диапазоне.
+ */
+export function moveBoundary(
+  left: PlanContent,
+  right: PlanContent,
+  timecode: string,
+  context: DiarizationContext
+): [PlanContent, PlanContent] {
+  const fps = context.fps;
+  const startFrame = timecodeToFrames(left.start_timecode, fps);
+  const cutFrame = timecodeToFrames(timecode, fps);
+  const endFrame = timecodeToFrames(right.end_timecode, fps);
+
+  if (cutFrame <= startFrame || cutFrame >= endFrame) {
+    throw new PlanOperationError(
+      `Boundary ${timecode} must be strictly inside ${left.start_timecode} – ${right.end_timecode}`
+    );
+  }
+
+  const cut = framesToTimecode(cutFrame, fps);
+  const startMs = framesToMs(startFrame, fps);
+  const cutMs = framesToMs(cutFrame, fps);
+  const endMs = framesToMs(endFrame, fps);
+
+  const redistribute = hasWordsInRange(context, startMs, endMs);
+  const suffixHints = collectSuffixHints([left.dialogues, right.dialogues]);
+
+  return [
+    {
+      start_timecode: left.start_timecode,
+      end_timecode: cut,
+      plan_type: left.plan_type || '',
+      description: left.description || '',
+      dialogues: redistribute
+        ? buildDialoguesFromWords(context, startMs, cutMs, suffixHints)
+        : left.dialogues || '',
+    },
+    {
+      start_timecode: cut,
+      end_timecode: right.end_timecode,
+      plan_type: right.plan_type || '',
+      description: right.description || '',
+      dialogues: redistribute
+        ? buildDialoguesFromWords(context, cutMs, endMs, suffixHints)
+        : right.dialogues || '',
+    },
+  ];
+}
+
+/**
+ * Сосед, который занимает место удаляемого плана, — лист остаётся встык
+ *
+ * Предыдущий план продлевается до конца удаляемого (зазор перед удаляемым
+ * тоже закрывается), у первого плана — следующий начинается с его начала.
+ *
+ * @returns индекс соседа и его новые таймкоды; null — других планов нет
+ */
+export function absorbDeletedPlan(
+  entries: PlanContent[],
+  index: number
+): { neighborIndex: number; changes: Pick<PlanContent, 'start_timecode' | 'end_timecode'> } | null {
+  const deleted = entries[index];
+
+  if (index > 0) {
+    const previous = entries[index - 1];
+    return {
+      neighborIndex: index - 1,
+      changes: { start_timecode: previous.start_timecode, end_timecode: deleted.end_timecode },
+    };
+  }
+  if (entries.length > 1) {
+    return {
+      neighborIndex: 1,
+      changes: { start_timecode: deleted.start_timecode, end_timecode: entries[1].end_timecode },
+    };
+  }
+  return null;
+}
+
+/**
+ * Находит план, внутри которого лежит таймкод (start <= tc < end)
+ */
+export function findHostIndex(entries: PlanContent[], timecode: string, fps: number): number {
+  const frame = timecodeToFrames(timecode, fps);
+  return entries.findIndex(e =>
+    timecodeToFrames(e.start_timecode, fps) <= frame &&
+    frame < timecodeToFrames(e.end_timecode, fps)
+  );
+}
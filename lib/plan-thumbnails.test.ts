@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { MontageEntry } from '@/types';
+import { generateMissingThumbnails, getThumbnailFrame, getThumbnailPath } from './plan-thumbnails';
+
+const ffmpeg = vi.hoisted(() => ({ brokenSeconds: new Set<string>(), calls: 0 }));
+
+// ffmpeg: пишет пустой JPEG в выходной путь или падает на «сломанных» секундах
+vi.mock('child_process', () => ({
+  exec: (command: string, _options: unknown, callback: (error: Error | null, stdout?: string) => void) => {
+    ffmpeg.calls++;
+    const seconds = command.match(/-ss (\S+)/)![1];
+    if (ffmpeg.brokenSeconds.has(seconds)) {
+      callback(new Error('ffmpeg failed'));
+      return;
+    }
+    fs.writeFileSync(command.match(/"([^"]+\.jpg)"/)![1], '');
+    callback(null, '');
+  },
+}));
+
+const storage = {
+  storage: { from: () => ({ upload: async () => ({ error: null }) }) },
+} as unknown as SupabaseClient;
+
+const db = {
+  from: () => ({ update: () => ({ in: async () => ({ error: null }) }) }),
+} as unknown as SupabaseClient;
+
+function entry(planNumber: number): MontageEntry {
+  const second = String(planNumber - 1).padStart(2, '0');
+  return {
+    id: `entry-${planNumber}`,
+    sheet_id: 'sheet-1',
+    plan_number: planNumber,
+    start_timecode: `00:00:${second}:00`,
+    end_timecode: `00:00:${second}:24`,
+    description: '',
+    order_index: planNumber,
+    created_at: '',
+    updated_at: '',
+  };
+}
+
+describe('generateMissingThumbnails', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    ffmpeg.brokenSeconds = new Set();
+    ffmpeg.calls = 0;
+  });
+
+  it('moves past a batch where every frame failed', async () => {
+    const entries = [entry(1), entry(2), entry(3)];
+    const options = { userId: 'user-1', videoId: 'video-1', sourceUrl: 'https://video', entries, fps: 25, limit: 2 };
+    // Середины планов 1 и 2: кадры 12 и 37
+    ffmpeg.brokenSeconds = new Set(['0.500', '1.500']);
+
+    const first = await generateMissingThumbnails(storage, db, options);
+    expect(first).toEqual({ generated: 0, failed: 2, failedFrames: [12, 37], remaining: 1 });
+
+    const second = await generateMissingThumbnails(storage, db, { ...options, skipFrames: first.failedFrames });
+    expect(second).toEqual({ generated: 1, failed: 0, failedFrames: [], remaining: 0 });
+    expect(ffmpeg.calls).toBe(3);
+    expect(entries[2].thumbnail_path).toBe(getThumbnailPath('user-1', 'video-1', getThumbnailFrame(entries[2], 25)));
+    expect(fs.existsSync('/tmp/plan-thumbnails/video-1_62.jpg')).toBe(false);
+  });
+});
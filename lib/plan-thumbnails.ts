@@ -0,0 +1,263 @@
+/**
+ * Plan Thumbnails — миниатюры планов монтажного листа
+ *
+ * Для каждого плана берётся кадр из середины (ffmpeg, точно по FPS видео),
+ * сжимается до THUMBNAIL_WIDTH и кладётся в Storage рядом с видео:
+ *   videos/{userId}/thumbnails/{videoId}/{frame}.jpg
+ *
+ * Номер кадра в пути делает миниатюру адресуемой по содержимому: планы с
+ * одной серединой (версии листа) делят файл, а после правки таймкодов
+ * план получает новый путь и перегенерируется только он.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { MontageEntry } from '@/types';
+import { timecodeToFrames } from './video-chunking';
+
+const execAsync = promisify(exec);
+
+export const THUMBNAIL_BUCKET = 'videos';
+export const THUMBNAIL_WIDTH = 320;
+
+/** Сколько миниатюр генерируем за один запрос (остальные — следующими) */
+export const THUMBNAIL_BATCH_SIZE = 40;
+
+/** Параллельные вызовы ffmpeg — каждый читает видео по HTTP с перемоткой */
+const THUMBNAIL_CONCURRENCY = 3;
+
+const SIGNED_URL_TTL_SECONDS = 3600;
+
+const TEMP_DIR = '/tmp/plan-thumbnails';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PATHS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Кадр из середины плана
+ */
+export function getThumbnailFrame(entry: Pick<MontageEntry, 'start_timecode' | 'end_timecode'>, fps: number): number {
+  const startFrame = timecodeToFrames(entry.start_timecode, fps);
+  const endFrame = timecodeToFrames(entry.end_timecode, fps);
+  return Math.floor((startFrame + endFrame) / 2);
+}
+
+export function getThumbnailPath(userId: string, videoId: string, frame: number): string {
+  return `${userId}/thumbnails/${videoId}/${frame}.jpg`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GENERATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Извлекает один кадр в JPEG
+ * -ss до -i — быстрая перемотка по ключевым кадрам, затем точный декод до нужного
+ */
+async function extractFrameJpeg(sourceUrl: string, seconds: number, outputPath: string): Promise<void> {
+  await execAsync(
+    `ffmpeg -y -ss ${seconds.toFixed(3)} -i "${sourceUrl}" -frames:v 1 -vf scale=${THUMBNAIL_WIDTH}:-2 -q:v 4 "${outputPath}" 2>/dev/null`,
+    { timeout: 60000 }
+  );
+}
+
+export interface ThumbnailGenerationResult {
+  generated: number;
+  failed: number;
+  /** Кадры, которые ffmpeg не смог извлечь, — клиент передаёт их в skipFrames */
+  failedFrames: number[];
+  remaining: number;
+}
+
+/**
+ * Генерирует недостающие и устаревшие миниатюры (не больше limit за вызов)
+ *
+ * @param storage - service role клиент (загрузка в Storage)
+ * @param db - клиент, через который обновляются montage_entries
+ * @param sourceUrl - подписанная ссылка на видео
+ * @param skipFrames - кадры, уже не извлёкшиеся в этом проходе: их планы
+ *   пропускаются, иначе каждая пачка начиналась бы с тех же сломанных кадров
+ */
+export async function generateMissingThumbnails(
+  storage: SupabaseClient,
+  db: SupabaseClient,
+  options: {
+    userId: string;
+    videoId: string;
+    sourceUrl: string;
+    entries: MontageEntry[];
+    fps: number;
+    limit?: number;
+    skipFrames?: number[];
+  }
+): Promise<ThumbnailGenerationResult> {
+  const { userId, videoId, sourceUrl, entries, fps, limit = THUMBNAIL_BATCH_SIZE } = options;
+  const skipFrames = new Set(options.skipFrames);
+
+  const stale = entries.filter(entry => {
+    const frame = getThumbnailFrame(entry, fps);
+    return entry.thumbnail_path !== getThumbnailPath(userId, videoId, frame) && !skipFrames.has(frame);
+  });
+
+  // Один кадр может понадобиться нескольким планам — извлекаем его один раз
+  const byFrame = new Map<number, MontageEntry[]>();
+  for (const entry of stale) {
+    const frame = getThumbnailFrame(entry, fps);
+    const group = byFrame.get(frame);
+    if (group) {
+      group.push(entry);
+    } else if (byFrame.size < limit) {
+      byFrame.set(frame, [entry]);
+    }
+  }
+
+  if (!fs.existsSync(TEMP_DIR)) {
+    fs.mkdirSync(TEMP_DIR, { recursive: true });
+  }
+
+  const frames = Array.from(byFrame.keys());
+  let generated = 0;
+  const failedFrames: number[] = [];
+  let processedEntries = 0;
+
+  const processFrame = async (frame: number) => {
+    const storagePath = getThumbnailPath(userId, videoId, frame);
+    const localPath = path.join(TEMP_DIR, `${videoId}_${frame}.jpg`);
+    const group = byFrame.get(frame) || [];
+
+    try {
+      // Середина кадра — чтобы декодер не остановился на предыдущем
+      await extractFrameJpeg(sourceUrl, (frame + 0.5) / Math.round(fps), localPath);
+
+      const { error: uploadError } = await storage.storage
+        .from(THUMBNAIL_BUCKET)
+        .upload(storagePath, fs.readFileSync(localPath), { contentType: 'image/jpeg', upsert: true });
+
+      if (uploadError) {
+        throw new Error(uploadError.message);
+      }
+
+      const { error: updateError } = await db
+        .from('montage_entries')
+        .update({ thumbnail_path: storagePath })
+        .in('id', group.map(e => e.id));
+
+      if (updateError) {
+        throw new Error(updateError.message);
+      }
+
+      for (const entry of group) entry.thumbnail_path = storagePath;
+      generated++;
+    } catch (error) {
+      console.warn(`⚠️  Thumbnail for frame ${frame} failed:`, error instanceof Error ? error.message : error);
+      failedFrames.push(frame);
+    } finally {
+      processedEntries += group.length;
+      if (fs.existsSync(localPath)) fs.unlinkSync(localPath);
+    }
+  };
+
+  for (let i = 0; i < frames.length; i += THUMBNAIL_CONCURRENCY) {
+    await Promise.all(frames.slice(i, i + THUMBNAIL_CONCURRENCY).map(processFrame));
+  }
+
+  console.log(`🖼️  Thumbnails for ${videoId}: ${generated} generated, ${failedFrames.length} failed, ${stale.length - processedEntries} remaining`);
+
+  return {
+    generated,
+    failed: failedFrames.length,
+    failedFrames,
+    // Без пропущенных и сломанных в этой пачке — следующая пачка берёт новые планы
+    remaining: stale.length - processedEntries,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ACCESS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Подписанные ссылки на миниатюры: entryId → url
+ */
+export async function createThumbnailUrls(
+  storage: SupabaseClient,
+  entries: MontageEntry[]
+): Promise<Record<string, string>> {
+  const paths = Array.from(new Set(
+    entries.map(e => e.thumbnail_path).filter((p): p is string => !!p)
+  ));
+  if (paths.length === 0) return {};
+
+  const { data, error } = await storage.storage
+    .from(THUMBNAIL_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+  if (error || !data) {
+    throw new Error(`Failed to sign thumbnail URLs: ${error?.message}`);
+  }
+
+  const urlByPath = new Map(
+    data.filter(item => item.signedUrl && item.path).map(item => [item.path as string, item.signedUrl])
+  );
+
+  const urls: Record<string, string> = {};
+  for (const entry of entries) {
+    const url = entry.thumbnail_path ? urlByPath.get(entry.thumbnail_path) : undefined;
+    if (url) urls[entry.id] = url;
+  }
+  return urls;
+}
+
+/**
+ * Размер JPEG из маркера SOF — высота миниатюры зависит от формата кадра
+ */
+export function readJpegSize(image: Buffer): { width: number; height: number } | null {
+  let offset = 2;
+  while (offset + 9 < image.length) {
+    if (image[offset] !== 0xff) return null;
+    const marker = image[offset + 1];
+    const length = image.readUInt16BE(offset + 2);
+    // SOF0..SOF15, кроме DHT (C4), JPG (C8), DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: image.readUInt16BE(offset + 5), width: image.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+/**
+ * Скачивает миниатюры для встраивания в экспорт: entryId → JPEG
+ */
+export async function downloadThumbnails(
+  storage: SupabaseClient,
+  entries: MontageEntry[]
+): Promise<Map<string, Buffer>> {
+  const byPath = new Map<string, Buffer | null>();
+  for (const entry of entries) {
+    if (entry.thumbnail_path) byPath.set(entry.thumbnail_path, null);
+  }
+
+  const paths = Array.from(byPath.keys());
+  for (let i = 0; i < paths.length; i += THUMBNAIL_CONCURRENCY * 4) {
+    await Promise.all(paths.slice(i, i + THUMBNAIL_CONCURRENCY * 4).map(async (storagePath) => {
+      const { data, error } = await storage.storage.from(THUMBNAIL_BUCKET).download(storagePath);
+      if (error || !data) {
+        console.warn(`⚠️  Thumbnail ${storagePath} not available: ${error?.message}`);
+        return;
+      }
+      byPath.set(storagePath, Buffer.from(await data.arrayBuffer()));
+    }));
+  }
+
+  const images = new Map<string, Buffer>();
+  for (const entry of entries) {
+    const image = entry.thumbnail_path ? byPath.get(entry.thumbnail_path) : null;
+    if (image) images.set(entry.id, image);
+  }
+  return images;
+}
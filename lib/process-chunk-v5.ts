@@ -0,0 +1,890 @@
+/**
+ * Process Chunk V5 — Улучшенная обработка чанка (BETA)
+ * 
+ * Ключевые отличия от V4:
+ * 1. Использует pre-built speaker→character mapping
+ * 2. Gemini НЕ определяет "кто говорит" — только описание и тип плана
+ * 3. Face presence с 3 состояниями для ЗК/ГЗК
+ * 4. Диалоги берутся из ASR, а не из Gemini
+ * 
+ * Чанки обрабатывает воркер очереди (lib/job-queue.ts, задача 'process-chunk'):
+ * init-processing-v5 ставит все чанки в очередь через enqueueChunkJobs.
+ * Статусы чанков — в таблице video_chunks, слова диаризации и кластеры лиц —
+ * в video_artifacts (lib/supabase/video-artifacts.ts).
+ * 
+ * Анализ без записи в лист (buildChunkPlans) использует и повторная
+ * обработка диапазона (lib/reprocess-range.ts).
+ * 
+ * @author AI Assistant
+ * @version 5.0-beta
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getVideoChunks, updateChunkStatus } from '@/lib/supabase/chunk-status';
+import { loadVideoArtifact } from '@/lib/supabase/video-artifacts';
+import { enqueueJob } from '@/lib/job-queue';
+import { assertProcessingActive, ProcessingStoppedError } from '@/lib/processing-control';
+import { analyzeVideo } from '@/lib/video-analyzer';
+import { getVideoFps, timecodeToMs } from '@/lib/video-chunking';
+import { collectChunkFaceSamples } from '@/lib/local-video-analysis';
+import { 
+  detectFacePresence, 
+  formatPresenceStatus,
+} from '@/lib/face-presence-detector';
+import type { FaceCluster } from '@/lib/face-types';
+import type { EntryContent } from '@/lib/montage-editor';
+import type { VideoPromptVersion } from '@/lib/gemini-replicate';
+import type { VideoProviderId } from '@/lib/video-providers';
+import type { ProcessingJob, VideoStatus } from '@/types';
+
+// Types — must match lib/credits-detector.ts MergedScene (snake_case)
+interface MergedScene {
+  start_timecode: string;
+  end_timecode: string;
+  start_timestamp: number;
+  end_timestamp: number;
+  type: 'opening_credits' | 'closing_credits' | 'regular';
+  originalScenesCount: number;
+}
+
+interface ASRWord {
+  text: string;
+  startMs: number;
+  endMs: number;
+  confidence: number;
+  speaker?: string;
+}
+
+interface DialogueLine {
+  character: string;
+  text: string;
+  isOffscreen: boolean;
+  startMs: number;
+  endMs: number;
+}
+
+/** Payload задачи 'process-chunk' */
+export interface ChunkJobPayload {
+  chunkIndex: number;
+  chunkUrl: string;
+  startTimecode: string;
+  endTimecode: string;
+}
+
+export interface ProcessChunkResult {
+  success: boolean;
+  chunkIndex: number;
+  skipped?: boolean;
+  reason?: string;
+  plansCreated?: number;
+  processingTime?: string;
+  completedChunks?: number;
+  totalChunks?: number;
+}
+
+/** Переопределения визуального анализа (повторная обработка диапазона, lib/reprocess-range.ts) */
+export interface ChunkAnalysisOptions {
+  /** Цепочка провайдеров вместо chunk_progress_json.videoProviders */
+  providers?: VideoProviderId[] | null;
+  promptVersion?: VideoPromptVersion;
+}
+
+/** Данные пайплайна, общие для всех чанков видео */
+export interface ChunkContext {
+  videoStatus: VideoStatus;
+  chunkProgress: any;
+  sheetId: string;
+  videoFPS: number;
+  speakerCharacterMap: Record<string, string>;
+  storedFaceClusters: any[];
+  faceClusters: FaceCluster[];
+  fullDiarizationWords: ASRWord[];
+}
+
+/** План чанка до записи в montage_entries */
+export interface ChunkPlan {
+  content: EntryContent;
+  /** Хотя бы один говорящий сопоставлен с персонажем */
+  speakerMapped: boolean;
+}
+
+export interface ChunkPlans {
+  scenesInChunk: MergedScene[];
+  /** Сцен до чанка — смещение plan_number */
+  scenesBeforeThisChunk: number;
+  /** По одному на сцену, в порядке scenesInChunk */
+  plans: ChunkPlan[];
+  /** Провайдер визуального анализа */
+  provider?: string;
+  /** Анализ вернул описания планов; false — планы с 'Ср.' и пустым описанием */
+  analyzed: boolean;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONTEXT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * chunk_progress_json и артефакты init-processing-v5 для обработки чанков
+ */
+export async function loadChunkContext(videoId: string): Promise<ChunkContext> {
+  const supabase = createServiceRoleClient();
+  
+  // Get video and chunk progress
+  const { data: video, error: videoError } = await supabase
+    .from('videos')
+    .select('status, chunk_progress_json')
+    .eq('id', videoId)
+    .single();
+  
+  if (videoError || !video) {
+    throw new Error(`Video not found: ${videoId}`);
+  }
+  
+  const chunkProgress = video.chunk_progress_json;
+  const sheetId = chunkProgress.sheetId;
+  
+  // Get video FPS (from init or default to 25)
+  const videoFPS = getVideoFps(chunkProgress);
+  
+  // Get pre-built speaker→character mapping from V5 init
+  const speakerCharacterMap: Record<string, string> = chunkProgress.speakerCharacterMap || {};
+  console.log(`   Speaker→Character mappings: ${Object.keys(speakerCharacterMap).length}`);
+  
+  // Крупные данные — из video_artifacts (видео до миграции — из chunk_progress_json)
+  const storedFaceClusters: any[] =
+    (await loadVideoArtifact<any[]>(videoId, 'face-clusters')) || chunkProgress.faceClusters || [];
+  
+  // Get face clusters (if available)
+  const faceClusters: FaceCluster[] = storedFaceClusters.map((fc: any) => ({
+    clusterId: fc.clusterId,
+    appearances: fc.appearances,
+    firstSeen: fc.firstSeen,
+    lastSeen: fc.lastSeen,
+    characterName: fc.characterName,
+    centroid: fc.centroid ? new Float32Array(fc.centroid) : new Float32Array(),
+    faces: (fc.faceTimestamps || []).map((t: number) => ({ 
+      timestamp: t, 
+      descriptor: new Float32Array(), 
+      confidence: 1, 
+      boundingBox: { x: 0, y: 0, width: 0, height: 0 } 
+    })),
+  }));
+  console.log(`   Face clusters: ${faceClusters.length}`);
+  
+  // Get full diarization words
+  const fullDiarizationWords: ASRWord[] =
+    (await loadVideoArtifact<ASRWord[]>(videoId, 'diarization-words')) || chunkProgress.fullDiarizationWords || [];
+  console.log(`   Full diarization words: ${fullDiarizationWords.length}`);
+  
+  return {
+    videoStatus: video.status,
+    chunkProgress,
+    sheetId,
+    videoFPS,
+    speakerCharacterMap,
+    storedFaceClusters,
+    faceClusters,
+    fullDiarizationWords,
+  };
+}
+
+/**
+ * Шаги 1–3 без записи: визуальный анализ, диалоги из ASR и таймкоды планов
+ * для каждой сцены чанка. Сцены, слова диаризации и карта спикеров — готовые
+ * из context; заново выполняется только визуальный анализ.
+ */
+export async function buildChunkPlans(
+  context: ChunkContext,
+  payload: Pick<ChunkJobPayload, 'chunkUrl' | 'startTimecode' | 'endTimecode'>,
+  options: ChunkAnalysisOptions = {}
+): Promise<ChunkPlans> {
+  const { chunkUrl, startTimecode, endTimecode } = payload;
+  const {
+    chunkProgress,
+    videoFPS,
+    speakerCharacterMap,
+    storedFaceClusters,
+    faceClusters,
+    fullDiarizationWords,
+  } = context;
+  const videoProviders = options.providers || chunkProgress.videoProviders;
+  
+  // Get merged scenes
+  const mergedScenes: MergedScene[] = chunkProgress.mergedScenes || [];
+  
+  // Calculate chunk time range
+  const chunkStartMs = timecodeToMs(startTimecode, videoFPS);
+  const chunkEndMs = timecodeToMs(endTimecode, videoFPS);
+  
+  // Get scenes in this chunk (using snake_case from credits-detector)
+  const scenesInChunk = mergedScenes.filter(
+    s => s.start_timestamp * 1000 >= chunkStartMs - 500 && 
+         s.start_timestamp * 1000 < chunkEndMs + 500
+  );
+  console.log(`   Scenes in chunk: ${scenesInChunk.length}`);
+  
+  // Calculate global plan offset (scenes before this chunk)
+  const scenesBeforeThisChunk = mergedScenes.filter(
+    s => s.start_timestamp * 1000 < chunkStartMs - 500
+  ).length;
+  console.log(`   Plan offset: ${scenesBeforeThisChunk}`);
+  
+  // Get script data
+  const scriptData = chunkProgress.scriptData;
+  const characters = scriptData?.characters || [];
+  const scriptScenes = scriptData?.scenes || [];
+  
+  // ═══════════════════════════════════════════════════════════════════
+  // STEP 1: Visual analysis — цепочка провайдеров (lib/video-providers.ts)
+  // ═══════════════════════════════════════════════════════════════════
+  console.log(`\n🎬 Video analysis: ${(videoProviders || ['default chain']).join(' → ')}${options.promptVersion ? ` (prompt: ${options.promptVersion})` : ''}...`);
+  
+  let geminiResponse: any = null;
+  let provider: string | undefined;
+  
+  try {
+    const analysisResult = await analyzeVideo(
+      chunkUrl,
+      scenesInChunk.map(s => ({
+        start_timecode: s.start_timecode,
+        end_timecode: s.end_timecode
+      })),
+      characters,
+      scriptScenes,
+      {
+        fixtureVideoKey: chunkProgress.fixtureVideoKey,
+        providers: videoProviders,
+        // Названные вызывающим провайдеры не подменяются локальными эвристиками
+        exactProviders: Boolean(options.providers?.length),
+        promptVersion: options.promptVersion,
+        durationSeconds: (chunkEndMs - chunkStartMs) / 1000,
+        context: {
+          fps: videoFPS,
+          chunkStartSeconds: chunkStartMs / 1000,
+          faces: collectChunkFaceSamples(storedFaceClusters, chunkStartMs, chunkEndMs),
+        },
+      }
+    );
+    provider = analysisResult.source;
+    
+    if (analysisResult.success && analysisResult.plans.length > 0) {
+      geminiResponse = { plans: analysisResult.plans };
+      const source = analysisResult.source === 'fal' ? '🎨 FAL' : `🤖 ${analysisResult.source}`;
+      console.log(`   ✅ ${source} returned ${analysisResult.plans.length} plan descriptions`);
+    } else if (analysisResult.rawOutput) {
+      console.log(`   ⚠️ Analysis returned raw output (no JSON), parsing manually...`);
+      geminiResponse = { plans: [], rawDescription: analysisResult.rawOutput };
+    } else {
+      console.log(`   ⚠️ Analysis failed: ${analysisResult.error}`);
+    }
+  } catch (analysisError: any) {
+    console.log(`   ⚠️ Analysis error: ${analysisError.message}`);
+    console.log(`   Continuing without visual descriptions...`);
+  }
+  
+  // ═══════════════════════════════════════════════════════════════════
+  // STEP 2: Build dialogues from ASR (NOT from Gemini)
+  // ═══════════════════════════════════════════════════════════════════
+  console.log(`\n🎤 Building dialogues from ASR...`);
+  
+  const planDialogues: Map<number, DialogueLine[]> = new Map();
+  const usedWords = new Set<string>(); // Дедупликация: слова уже использованные в предыдущих сценах
+  
+  for (let sceneIndex = 0; sceneIndex < scenesInChunk.length; sceneIndex++) {
+    const scene = scenesInChunk[sceneIndex];
+    const sceneStartMs = scene.start_timestamp * 1000;
+    const sceneEndMs = scene.end_timestamp * 1000;
+    
+    // Get words in this scene
+    // СТРОГИЙ фильтр: слова попадают ТОЛЬКО если их середина внутри сцены
+    // НЕТ forward window - это предотвращает "езду" слов в предыдущие сцены
+    const BACKWARD_WINDOW_MS = 300; // Назад 300ms (только для обрезанных слов на границе)
+    
+    let wordsInScene = fullDiarizationWords.filter(w => {
+      // Используем середину слова для более точного определения принадлежности к сцене
+      const wordMidMs = w.startMs + (w.endMs - w.startMs) / 2;
+      
+      // Слово попадает в сцену ТОЛЬКО если его середина внутри сцены (с небольшим окном назад)
+      // НЕТ forward window - слова не должны "ехать" в предыдущие сцены
+      const isMidInScene = wordMidMs >= sceneStartMs - BACKWARD_WINDOW_MS && 
+                          wordMidMs <= sceneEndMs;
+      
+      // ИЛИ начало слова в сцене (для коротких слов на границе)
+      const isStartInScene = w.startMs >= sceneStartMs - BACKWARD_WINDOW_MS && 
+                            w.startMs <= sceneEndMs;
+      
+      return isMidInScene || isStartInScene;
+    });
+    
+    // Дедупликация: удаляем слова уже использованные в предыдущих сценах
+    // Это предотвращает "езду" слов между соседними сценами
+    wordsInScene = wordsInScene.filter(w => {
+      const wordKey = `${w.startMs}-${w.endMs}-${w.text}-${w.speaker}`;
+      if (usedWords.has(wordKey)) {
+        return false; // Уже использовано в предыдущей сцене
+      }
+      usedWords.add(wordKey); // Помечаем как использованное
+      return true;
+    });
+    
+    // Log scene info for debugging
+    const sceneTimecode = `${Math.floor(sceneStartMs / 60000)}:${Math.floor((sceneStartMs % 60000) / 1000).toString().padStart(2, '0')}:${Math.floor((sceneStartMs % 1000) / 10).toString().padStart(2, '0')}`;
+    
+    // DEBUG: Показываем спикеров в каждой сцене первых 10 минут
+    const isEarlyScene = sceneStartMs < 600000; // Первые 10 минут
+    if (isEarlyScene && sceneIndex % 10 === 0) {
+      // Показываем каждую 10-ю сцену для экономии логов
+      const speakersInScene = [...new Set(wordsInScene.map(w => w.speaker).filter((s): s is string => !!s))];
+      const speakersMapped = speakersInScene.map(s => `${s}→${speakerCharacterMap[s] || '?'}`);
+      console.log(`   📊 Scene ${sceneIndex} (${sceneTimecode}): ${wordsInScene.length} words, speakers: [${speakersMapped.join(', ')}]`);
+    }
+    
+    // Filter out false positives (music, credits, background noise)
+    const FALSE_POSITIVE_PATTERNS = [
+      /^музыка/i,           // Changed from /^музыка$/i to catch "МУЗЫКА...."
+      /^динамичн/i,
+      /^наслаждай/i,
+      /^титр/i,
+      /^автор/i,
+      /^режиссер/i,
+      /^оператор/i,
+      /^продюсер/i,
+      /^телекомпания/i,
+      /^партнер/i,
+      /^домашний/i,
+      /^представляет/i,
+      /^логотип/i,
+      /^заставка/i,
+    ];
+    
+    // Helper to clean text for pattern matching
+    const cleanText = (text: string): string => {
+      return text
+        .trim()
+        .replace(/[.!?…]+/g, '') // Remove dots, ellipsis
+        .replace(/\s+/g, ' ')     // Normalize whitespace
+        .toLowerCase();
+    };
+    
+    wordsInScene = wordsInScene.filter(w => {
+      const text = (w.text || '').trim();
+      // СНИЖЕН порог с 2 до 1 для лучшего покрытия коротких слов
+      if (!text || text.length < 1) return false;
+      
+      const cleaned = cleanText(text);
+      
+      // Filter words that match false positive patterns (after cleaning)
+      if (FALSE_POSITIVE_PATTERNS.some(pattern => pattern.test(cleaned))) {
+        return false;
+      }
+      
+      // Filter very short words that are likely noise (только не-русские)
+      // УБРАН фильтр для русских слов любой длины
+      if (text.length <= 1 && !/[а-яё]/i.test(text)) {
+        return false;
+      }
+      
+      return true;
+    });
+    
+    // DEBUG: Детальный лог для проблемных таймкодов (03:00-03:10 и 06:00-06:30)
+    const isProblematicTimecode = 
+      (sceneStartMs >= 180000 && sceneStartMs <= 190000) ||  // 03:00-03:10
+      (sceneStartMs >= 360000 && sceneStartMs <= 390000);    // 06:00-06:30
+    
+    if (isProblematicTimecode && wordsInScene.length > 0) {
+      const uniqueSpeakers = [...new Set(wordsInScene.map(w => w.speaker).filter((s): s is string => !!s))];
+      console.log(`\n   🎯 PROBLEM ZONE Scene ${sceneIndex} (${sceneTimecode}):`);
+      console.log(`      Words count: ${wordsInScene.length}`);
+      console.log(`      Speakers: [${uniqueSpeakers.join(', ')}]`);
+      console.log(`      Speaker→Character mapping:`);
+      uniqueSpeakers.forEach(sp => {
+        const char = speakerCharacterMap[sp];
+        console.log(`         ${sp} → ${char || '❌ NOT MAPPED'}`);
+      });
+      console.log(`      First 5 words: ${wordsInScene.slice(0, 5).map(w => `"${w.text}"`).join(', ')}`);
+    }
+    
+    // Group by speaker with pause detection for accurate dialogue splitting
+    const dialogues: DialogueLine[] = [];
+    let currentDialogue: DialogueLine | null = null;
+    // УВЕЛИЧЕНО с 500ms до 1000ms чтобы не разбивать одну реплику на несколько
+    // Это исправляет проблему разбиения одной реплики (например, "А мой..." разбита на несколько планов)
+    const PAUSE_THRESHOLD_MS = 1000; // Пауза >1000ms = новая реплика (увеличено для сохранения целостности реплик)
+    
+    for (let i = 0; i < wordsInScene.length; i++) {
+      const word = wordsInScene[i];
+      const speaker = word.speaker || 'UNKNOWN';
+      const character = speakerCharacterMap[speaker] || speaker;
+      
+      // Log mapping for debugging (first few scenes and problematic timecodes)
+      const isFirstMinute = word.startMs >= 60000 && word.startMs <= 90000; // 1:00 - 1:30
+      const isProblematicTime = word.startMs >= 15 * 60 * 1000 && word.startMs <= 15 * 60 * 1000 + 5 * 1000;
+      if (isFirstMinute || isProblematicTime || sceneTimecode.includes('15:01') || sceneTimecode.includes('15:02') || sceneTimecode.includes('01:06') || sceneTimecode.includes('01:09')) {
+        const isMapped = !!speakerCharacterMap[speaker];
+        // Inline timecode formatting (msToTimecode defined later in file)
+        const wordTimecode = `${Math.floor(word.startMs / 60000)}:${String(Math.floor((word.startMs % 60000) / 1000)).padStart(2, '0')}`;
+        const sceneTimecodeForWord = `${Math.floor(sceneStartMs / 60000)}:${Math.floor((sceneStartMs % 60000) / 1000).toString().padStart(2, '0')}:${Math.floor((sceneStartMs % 1000) / 10).toString().padStart(2, '0')}`;
+        console.log(`   🔍 [${wordTimecode}] Word "${word.text?.slice(0, 20)}" (${speaker} → ${character}, mapped: ${isMapped}) → Scene ${sceneIndex} (${sceneTimecodeForWord})`);
+      }
+      
+      // Check for pause between words (same speaker) - split dialogue if pause > threshold
+      const prevWord = i > 0 ? wordsInScene[i - 1] : null;
+      const pauseBeforeWord = prevWord && prevWord.speaker === speaker 
+        ? word.startMs - prevWord.endMs 
+        : Infinity;
+      const shouldSplitByPause = pauseBeforeWord > PAUSE_THRESHOLD_MS;
+      
+      // Check face presence for ЗК
+      // ВАЖНО: ЗК только если у персонажа ЕСТЬ привязанное лицо И его нет в кадре
+      // И только если уверенность высокая (>0.8) и это именно лицо этого персонажа отсутствует
+      let isOffscreen = false;
+      if (faceClusters.length > 0) {
+        // Проверяем, есть ли у этого персонажа привязанное лицо
+        const characterFaceCluster = faceClusters.find(fc => fc.characterName === character);
+        const characterHasBoundFace = !!characterFaceCluster;
+        
+        if (characterHasBoundFace && characterFaceCluster) {
+          const facePresence = detectFacePresence(
+            { startMs: word.startMs, endMs: word.endMs, speakerId: speaker },
+            faceClusters,
+            new Map(Object.entries(speakerCharacterMap).map(([k, v]) => {
+              const faceCluster = faceClusters.find(fc => fc.characterName === v);
+              return [faceCluster?.clusterId || k, v];
+            }))
+          );
+          
+          // Проверяем, есть ли лицо ЭТОГО персонажа в окне
+          const characterFaceInWindow = facePresence.facesInWindow.includes(characterFaceCluster.clusterId);
+          
+          // ЗК только если:
+          // 1. Явно OFFSCREEN (не AMBIGUOUS)
+          // 2. Высокая уверенность (>0.8, повышен порог)
+          // 3. Лицо ЭТОГО персонажа отсутствует в окне
+          // 4. Нет других лиц в кадре (чтобы не путать с диалогом между персонажами)
+          const hasOtherFaces = facePresence.facesInWindow.length > 1;
+          isOffscreen = facePresence.status === 'OFFSCREEN' && 
+                       facePresence.confidence > 0.8 && // Повышен порог
+                       !characterFaceInWindow &&         // Лицо персонажа отсутствует
+                       !hasOtherFaces;                   // Нет других лиц
+        }
+        // Если у персонажа нет привязанного лица — НЕ ставим ЗК (неизвестно)
+      }
+      
+      // Split dialogue if: different character OR pause > threshold
+      const shouldStartNewDialogue = !currentDialogue || 
+                                    currentDialogue.character !== character || 
+                                    shouldSplitByPause;
+      
+      if (shouldStartNewDialogue) {
+        // Сохраняем предыдущий диалог только если он валидный
+        if (currentDialogue && currentDialogue.text.trim()) {
+          const dialogueText = currentDialogue.text.trim();
+          const cleaned = cleanText(dialogueText);
+          // Фильтруем слишком короткие диалоги (< 2 символов) и ложные паттерны
+          // СНИЖЕН порог с 3 до 2 для лучшего покрытия коротких реплик
+          const isValidDialogue = dialogueText.length >= 2 && 
+                                 !FALSE_POSITIVE_PATTERNS.some(pattern => pattern.test(cleaned));
+          if (isValidDialogue) {
+            dialogues.push(currentDialogue);
+          }
+        }
+        // Start new dialogue with EXACT timestamps from first word
+        currentDialogue = {
+          character,
+          text: word.text,
+          isOffscreen,
+          startMs: word.startMs,  // ТОЧНЫЙ таймкод начала (из ASR)
+          endMs: word.endMs,      // ТОЧНЫЙ таймкод конца (из ASR)
+        };
+      } else if (currentDialogue) {
+        // Continue current dialogue - append text and update end time
+        currentDialogue.text += ' ' + word.text;
+        currentDialogue.endMs = word.endMs;  // Обновляем конец на последнее слово
+      }
+    }
+    
+    // Финальная проверка последнего диалога
+    if (currentDialogue && currentDialogue.text.trim()) {
+      const dialogueText = currentDialogue.text.trim();
+      const cleaned = cleanText(dialogueText);
+      // СНИЖЕН порог с 3 до 2 для лучшего покрытия коротких реплик
+      const isValidDialogue = dialogueText.length >= 2 && 
+                             !FALSE_POSITIVE_PATTERNS.some(pattern => pattern.test(cleaned));
+      if (isValidDialogue) {
+        dialogues.push(currentDialogue);
+      }
+    }
+    
+    planDialogues.set(sceneIndex, dialogues);
+    
+    // Log empty scenes for debugging
+    if (dialogues.length === 0 && wordsInScene.length > 0) {
+      const sceneTimecode = `${Math.floor(sceneStartMs / 60000)}:${Math.floor((sceneStartMs % 60000) / 1000)}:${Math.floor((sceneStartMs % 1000) / 10)}`;
+      if (sceneTimecode.includes('15:01') || sceneTimecode.includes('15:02') || sceneTimecode.includes('15:03') || sceneTimecode.includes('15:04')) {
+        console.log(`   ⚠️ Scene ${sceneIndex} (${sceneTimecode}): ${wordsInScene.length} words but 0 dialogues (filtered out?)`);
+      }
+    }
+  }
+  
+  console.log(`   Built dialogues for ${planDialogues.size} scenes`);
+  
+  // Log sample dialogues for debugging
+  const samplePlans = Array.from(planDialogues.entries()).slice(0, 3);
+  if (samplePlans.length > 0) {
+    console.log(`\n   📋 Sample dialogues (first 3):`);
+    for (const [idx, dialogues] of samplePlans) {
+      const scene = scenesInChunk[idx];
+      const sample = dialogues.slice(0, 2).map(d => 
+        `${d.character}${d.isOffscreen ? ' ЗК' : ''}: "${d.text.slice(0, 50)}..."`
+      ).join(', ');
+      console.log(`      Plan ${idx + 1} (${scene?.start_timecode}): ${sample || '(нет диалогов)'}`);
+    }
+  }
+  
+  // ═══════════════════════════════════════════════════════════════════
+  // STEP 3: Plan boundaries and content
+  // ═══════════════════════════════════════════════════════════════════
+  
+  const plans: ChunkPlan[] = [];
+  const geminiHints: Record<string, number> = {}; // Собираем статистику по Gemini hints
+  
+  for (let sceneIndex = 0; sceneIndex < scenesInChunk.length; sceneIndex++) {
+    const scene = scenesInChunk[sceneIndex];
+    
+    // Get Gemini description for this plan (by index)
+    const geminiPlan = geminiResponse?.plans?.[sceneIndex];
+    
+    // Если Gemini определил говорящего персонажа — собираем статистику (без отдельного лога)
+    const geminiSpeakingCharacter = geminiPlan?.speakingCharacter?.toUpperCase();
+    if (geminiSpeakingCharacter && characters.some((c: any) => c.name?.toUpperCase() === geminiSpeakingCharacter)) {
+      geminiHints[geminiSpeakingCharacter] = (geminiHints[geminiSpeakingCharacter] || 0) + 1;
+    }
+    
+    // Get dialogues for this plan
+    let dialogues = planDialogues.get(sceneIndex) || [];
+    
+    // Если ASR не уверен в персонаже, но Gemini подсказал — используем подсказку
+    if (geminiSpeakingCharacter && dialogues.length > 0) {
+      const updatedDialogues = dialogues.map(d => {
+        // Если персонаж не определён или это UNKNOWN — используем подсказку Gemini
+        if (!d.character || d.character === 'UNKNOWN' || d.character === '???') {
+          return { ...d, character: geminiSpeakingCharacter, geminiHint: true };
+        }
+        return d;
+      });
+      dialogues = updatedDialogues;
+    }
+    
+    // Format dialogues with EXACT timestamps
+    const dialogueText = dialogues
+      .map(d => {
+        const suffix = d.isOffscreen ? formatPresenceStatus('OFFSCREEN') : '';
+        return `${d.character}${suffix}\n${d.text}`;
+      })
+      .join('\n\n');
+    
+    // ВАЖНО: Всегда используем границы сцены из PySceneDetect (он правильно определяет планы)
+    // Таймкоды диалогов используются только для точности внутри сцены, но не заменяют границы сцены
+    // Это гарантирует, что мы не потеряем ни одного плана из PySceneDetect
+    
+    // Convert milliseconds to timecode format (HH:MM:SS:FF)
+    const msToTimecode = (ms: number, fps: number = 25): string => {
+      const totalSeconds = Math.floor(ms / 1000);
+      const hours = Math.floor(totalSeconds / 3600);
+      const minutes = Math.floor((totalSeconds % 3600) / 60);
+      const seconds = totalSeconds % 60;
+      const frames = Math.floor((ms % 1000) / (1000 / fps));
+      return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}:${String(frames).padStart(2, '0')}`;
+    };
+    
+    // Используем границы сцены из PySceneDetect (это правильно определённые планы)
+    let exactStartTimecode = scene.start_timecode;
+    let exactEndTimecode = scene.end_timecode;
+    
+    // Если есть диалоги, можем уточнить таймкоды, но НЕ выходим за границы сцены
+    if (dialogues.length > 0) {
+      const firstDialogue = dialogues[0];
+      const lastDialogue = dialogues[dialogues.length - 1];
+      
+      const dialogueStartTimecode = msToTimecode(firstDialogue.startMs, videoFPS);
+      const dialogueEndTimecode = msToTimecode(lastDialogue.endMs, videoFPS);
+      
+      // Используем таймкоды диалогов, но НЕ выходим за границы сцены
+      // Это гарантирует, что план соответствует сцене из PySceneDetect
+      // Но таймкоды более точные (когда диалоги начинаются/заканчиваются)
+      const sceneStartMs = scene.start_timestamp * 1000;
+      const sceneEndMs = scene.end_timestamp * 1000;
+      
+      // Уточняем начало: используем начало диалога, если оно внутри или на границе сцены
+      // Если диалог начинается раньше сцены (из-за контекстного окна), используем границу сцены
+      if (firstDialogue.startMs >= sceneStartMs && firstDialogue.startMs <= sceneEndMs) {
+        exactStartTimecode = dialogueStartTimecode;
+      }
+      // Иначе остаётся scene.start_timecode (уже установлено выше)
+      
+      // Уточняем конец: используем конец диалога, если он внутри или на границе сцены
+      // Если диалог заканчивается позже сцены, используем границу сцены
+      if (lastDialogue.endMs <= sceneEndMs && lastDialogue.endMs >= sceneStartMs) {
+        exactEndTimecode = dialogueEndTimecode;
+      }
+      // Иначе остаётся scene.end_timecode (уже установлено выше)
+    }
+    
+    plans.push({
+      content: {
+        start_timecode: exactStartTimecode,  // ТОЧНЫЙ таймкод из диалога
+        end_timecode: exactEndTimecode,      // ТОЧНЫЙ таймкод из диалога
+        plan_type: geminiPlan?.planType || 'Ср.',
+        description: geminiPlan?.description || '',
+        dialogues: dialogueText || '',
+      },
+      speakerMapped: dialogues.some(d => !!speakerCharacterMap[d.character]),
+    });
+  }
+  
+  // Сводка по Gemini hints (компактно)
+  const hintsCount = Object.values(geminiHints).reduce((sum, n) => sum + n, 0);
+  if (hintsCount > 0) {
+    const hintsSummary = Object.entries(geminiHints)
+      .sort((a, b) => b[1] - a[1])
+      .map(([char, count]) => `${char}:${count}`)
+      .join(', ');
+    console.log(`   🎯 Gemini hints (${hintsCount}): ${hintsSummary}`);
+  }
+  
+  return {
+    scenesInChunk,
+    scenesBeforeThisChunk,
+    plans,
+    provider,
+    analyzed: (geminiResponse?.plans?.length || 0) > 0,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAIN
+// ═══════════════════════════════════════════════════════════════════════════
+
+export async function processChunkV5(
+  videoId: string,
+  payload: ChunkJobPayload,
+  attempt = 1
+): Promise<ProcessChunkResult> {
+  const startTime = Date.now();
+  const { chunkIndex, startTimecode, endTimecode } = payload;
+  
+  console.log(`\n${'─'.repeat(60)}`);
+  console.log(`📦 V5 BETA CHUNK ${chunkIndex}: ${startTimecode} → ${endTimecode}`);
+  console.log(`   Video ID: ${videoId}`);
+  console.log(`${'─'.repeat(60)}`);
+  
+  const supabase = createServiceRoleClient();
+  const context = await loadChunkContext(videoId);
+  
+  // Пауза или отмена — новый чанк не начинаем (lib/processing-control.ts)
+  if (context.videoStatus === 'paused' || context.videoStatus === 'cancelled') {
+    throw new ProcessingStoppedError(videoId, context.videoStatus);
+  }
+  
+  const { sheetId } = context;
+  
+  const chunkInfo = (await getVideoChunks(videoId)).find(c => c.chunk_index === chunkIndex);
+  
+  if (!chunkInfo) {
+    throw new Error(`Chunk ${chunkIndex} not found in video_chunks`);
+  }
+  
+  // Повтор после успешной обработки (завершение задачи не записалось) — планы уже в листе
+  if (chunkInfo.status === 'completed') {
+    console.log(`   ⚠️  Chunk ${chunkIndex} already completed, skipping...`);
+    return {
+      success: true,
+      skipped: true,
+      reason: 'already_completed',
+      chunkIndex,
+    };
+  }
+  
+  // Эксклюзивность даёт аренда задачи в processing_jobs — статус чанка только для UI
+  await updateChunkStatus(videoId, chunkIndex, 'in_progress', undefined, { attempts: attempt });
+  console.log(`   📊 Chunk ${chunkIndex}: ${chunkInfo.status} → in_progress`);
+  
+  const { scenesInChunk, scenesBeforeThisChunk, plans, provider } = await buildChunkPlans(context, payload);
+  
+  // ═══════════════════════════════════════════════════════════════════
+  // STEP 4: Write montage entries
+  // ═══════════════════════════════════════════════════════════════════
+  
+  // Отмена прерывает чанк до записи планов; на паузе начатый чанк дорабатывает
+  await assertProcessingActive(videoId, { allowPaused: true });
+  
+  console.log(`\n📝 Creating montage entries...`);
+  
+  let plansCreated = 0;
+  
+  for (let sceneIndex = 0; sceneIndex < plans.length; sceneIndex++) {
+    const { content, speakerMapped } = plans[sceneIndex];
+    
+    // Create entry — use same field names as V4 for compatibility
+    // Global plan number = offset + local index + 1
+    const planNumber = scenesBeforeThisChunk + sceneIndex + 1;
+    const entryData = {
+      sheet_id: sheetId,
+      plan_number: planNumber,
+      order_index: planNumber,
+      ...content,
+      // V5 metadata (optional columns)
+      processing_version: 'v5-beta',
+      dialogue_source: 'asr',
+      speaker_mapped: speakerMapped,
+    };
+    
+    // Upsert entry
+    const { error: entryError } = await supabase
+      .from('montage_entries')
+      .upsert(entryData, {
+        onConflict: 'sheet_id,plan_number',
+      });
+    
+    if (entryError) {
+      console.error(`   ❌ Entry error for plan ${planNumber} (scene ${sceneIndex}):`, entryError);
+      // КРИТИЧНО: Не пропускаем план даже при ошибке - логируем для анализа
+      console.error(`   ⚠️  MISSING PLAN: sceneIndex=${sceneIndex}, planNumber=${planNumber}, timecode=${content.start_timecode}`);
+    } else {
+      plansCreated++;
+    }
+  }
+  
+  // КРИТИЧНАЯ ПРОВЕРКА: Убеждаемся, что создали entry для ВСЕХ сцен
+  // PySceneDetect нашёл 1065 планов, реальный лист имеет 1061 - разница всего 4!
+  // НЕ ДОЛЖНЫ ТЕРЯТЬ ПЛАНЫ!
+  const expectedPlans = scenesInChunk.length;
+  if (plansCreated !== expectedPlans) {
+    console.error(`\n   ⚠️  ⚠️  ⚠️  КРИТИЧЕСКАЯ ПРОБЛЕМА: Потеря планов! ⚠️  ⚠️  ⚠️`);
+    console.error(`   Ожидалось планов: ${expectedPlans}`);
+    console.error(`   Создано планов: ${plansCreated}`);
+    console.error(`   ПОТЕРЯНО: ${expectedPlans - plansCreated} планов!`);
+    console.error(`   Chunk: ${chunkIndex}, Scenes: ${scenesInChunk.length}, Plan offset: ${scenesBeforeThisChunk}`);
+  }
+  
+  // Всегда выводим формат X/Y для отслеживания
+  if (plansCreated === expectedPlans) {
+    console.log(`   ✅ Created ${plansCreated}/${expectedPlans} entries (все планы созданы)`);
+  } else {
+    console.log(`   ⚠️  Created ${plansCreated}/${expectedPlans} entries (НЕ ВСЕ ПЛАНЫ!)`);
+  }
+  
+  const processingTime = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log(`\n✅ Chunk ${chunkIndex} complete in ${processingTime}s`);
+  console.log(`   Plans created: ${plansCreated}`);
+  
+  // ═══════════════════════════════════════════════════════════════════
+  // STEP 5: Mark completed, finalize when all chunks are done
+  // ═══════════════════════════════════════════════════════════════════
+  
+  // Строка video_chunks — параллельные чанки не затирают статусы друг друга
+  const completed = await updateChunkStatus(videoId, chunkIndex, 'completed', undefined, {
+    provider,
+    plansCreated,
+    durationMs: Date.now() - startTime,
+  });
+  if (!completed) {
+    throw new Error(`Failed to mark chunk ${chunkIndex} as completed`);
+  }
+  
+  const allChunks = await getVideoChunks(videoId);
+  const completedChunks = allChunks.filter(c => c.status === 'completed').length;
+  console.log(`   Progress: ${completedChunks}/${allChunks.length}`);
+  
+  // Auto-finalize when all chunks are done
+  if (completedChunks === allChunks.length) {
+    console.log(`\n🏁 All chunks complete! Finalizing video...`);
+    
+    try {
+      // Update video status
+      await supabase
+        .from('videos')
+        .update({ status: 'completed' })
+        .eq('id', videoId);
+      
+      // Update sheet status
+      await supabase
+        .from('montage_sheets')
+        .update({ status: 'ready' })
+        .eq('id', sheetId);
+      
+      console.log(`✅ Video finalized successfully!`);
+    } catch (finalizeError) {
+      console.error(`❌ Finalize error:`, finalizeError);
+    }
+  }
+  
+  return {
+    success: true,
+    chunkIndex,
+    plansCreated,
+    processingTime,
+    completedChunks,
+    totalChunks: allChunks.length,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// JOB QUEUE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Поставить в очередь все необработанные чанки видео (строки video_chunks)
+ * 
+ * @returns сколько задач добавлено (чанк с активной задачей не дублируется)
+ */
+export async function enqueueChunkJobs(videoId: string): Promise<number> {
+  const chunks = await getVideoChunks(videoId);
+  let enqueued = 0;
+  
+  for (const chunk of chunks) {
+    if (chunk.status === 'completed' || !chunk.storage_url) continue;
+    
+    const payload: ChunkJobPayload = {
+      chunkIndex: chunk.chunk_index,
+      chunkUrl: chunk.storage_url,
+      startTimecode: chunk.start_timecode,
+      endTimecode: chunk.end_timecode,
+    };
+    
+    const jobId = await enqueueJob(videoId, 'process-chunk', { chunkIndex: chunk.chunk_index, payload });
+    if (jobId) enqueued++;
+  }
+  
+  return enqueued;
+}
+
+/**
+ * Обработчик задачи 'process-chunk' для воркера очереди
+ */
+export async function runChunkJob(job: ProcessingJob): Promise<void> {
+  const payload = job.payload as unknown as ChunkJobPayload;
+  
+  try {
+    await processChunkV5(job.video_id, payload, job.attempts);
+  } catch (error) {
+    // Пауза/отмена — не ошибка: чанк ждёт продолжения, задача не повторяется
+    if (error instanceof ProcessingStoppedError) {
+      console.log(`   ⏸️  Chunk ${payload.chunkIndex}: video ${error.videoStatus}, chunk paused`);
+      await updateChunkStatus(job.video_id, payload.chunkIndex, 'paused');
+      return;
+    }
+    
+    // Статус для UI; повторит или отправит в dead letter сама очередь
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await updateChunkStatus(
+      job.video_id,
+      payload.chunkIndex,
+      'failed',
+      `Attempt ${job.attempts}/${job.max_attempts}: ${message}`
+    );
+    throw error;
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Processing Control — пауза, отмена и продолжение обработки видео (V5)
+ *
+ * - пауза: ожидающие задачи снимаются из очереди, необработанные чанки —
+ *   'paused'; чанки, которые уже обрабатываются, дорабатывают;
+ * - отмена: то же, но чанки в работе прерываются на ближайшей проверке
+ *   (assertProcessingActive в processChunkV5 и init-processing-v5);
+ * - продолжение: с первого незавершённого чанка. Если пауза пришлась на init,
+ *   init перезапускается и берёт из video_artifacts уже сохранённые слова
+ *   диаризации и кластеры лиц, а не считает их заново.
+ *
+ * Пауза/отмена во время init снимает lock init-processing-v5
+ * (chunk_progress_json.initializing), иначе повторный init будет заблокирован.
+ * Прерванный init может дорабатывать до ближайшей проверки, поэтому в lock
+ * записан initRunId: init, чей lock сняли или перехватили, на проверке
+ * останавливается, даже если продолжение уже вернуло видео в 'processing'.
+ *
+ * SQL: supabase/migrations/20261019000800_processing_control.sql
+ */
+
+import { createClient, createServiceRoleClient } from './supabase/server';
+import { pauseVideoChunks, resumeVideoChunks } from './supabase/chunk-status';
+import { loadVideoArtifact } from './supabase/video-artifacts';
+import { cancelVideoJobs } from './job-queue';
+import type { AsrBackendId } from './asr-backends';
+import type { FilmMetadata, VideoStatus } from '@/types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type StopMode = 'pause' | 'cancel';
+
+/** Тело запроса init-processing-v5 (video_artifacts 'init-request') */
+export interface InitProcessingRequest {
+  videoUrl: string;
+  videoDuration: number;
+  filmMetadata?: FilmMetadata;
+  scriptData?: unknown;
+  /** Бэкенд распознавания речи (lib/asr-backends.ts) */
+  asrBackend?: AsrBackendId;
+  /** Остановиться после init и показать маппинг спикеров (lib/speaker-mapping-review.ts) */
+  reviewMapping?: boolean;
+}
+
+export interface StopProcessingResult {
+  status: VideoStatus;
+  cancelledJobs: number;
+  pausedChunks: number;
+  /** Пауза пришлась на init — lock снят */
+  initInterrupted: boolean;
+}
+
+/**
+ * chunks — чанки готовы, осталось поставить их в очередь;
+ * init — init не завершился, его нужно перезапустить с initRequest
+ */
+export type ResumeProcessingResult =
+  | { stage: 'chunks' }
+  /** Маппинг спикеров ждёт проверки — чанки поставит в очередь подтверждение */
+  | { stage: 'mapping-review' }
+  | { stage: 'init'; initRequest: InitProcessingRequest };
+
+export class ProcessingControlError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ProcessingControlError';
+  }
+}
+
+/**
+ * Видео поставили на паузу или отменили — обработку нужно прекратить
+ */
+export class ProcessingStoppedError extends Error {
+  constructor(videoId: string, public videoStatus: VideoStatus, public superseded = false) {
+    super(superseded
+      ? `Initialization of video ${videoId} was superseded by a newer run`
+      : `Processing of video ${videoId} is ${videoStatus}`);
+    this.name = 'ProcessingStoppedError';
+  }
+}
+
+const STOPPED_STATUSES: VideoStatus[] = ['paused', 'cancelled'];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ACCESS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Проверяет, что текущий пользователь владеет видео
+ */
+export async function assertVideoOwner(videoId: string): Promise<void> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new ProcessingControlError('Unauthorized', 401);
+  }
+
+  const { data: video, error } = await supabase
+    .from('videos')
+    .select('id')
+    .eq('id', videoId)
+    .eq('user_id', user.id)
+    .single();
+
+  if (error || !video) {
+    throw new ProcessingControlError('Video not found', 404);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CHECKPOINT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Проверка между шагами обработки
+ *
+ * allowPaused — работа уже начата и на паузе её можно доделать (пауза
+ * останавливает только новые чанки, отмена — всё)
+ * initRunId — проверка из init-processing-v5: lock должен принадлежать этому init
+ */
+export async function assertProcessingActive(
+  videoId: string,
+  { allowPaused = false, initRunId }: { allowPaused?: boolean; initRunId?: string } = {}
+): Promise<void> {
+  const supabase = createServiceRoleClient();
+
+  const { data: video, error } = await supabase
+    .from('videos')
+    .select('status, chunk_progress_json')
+    .eq('id', videoId)
+    .single();
+
+  if (error || !video) {
+    throw new Error(`Video not found: ${videoId}`);
+  }
+
+  const status = video.status as VideoStatus;
+  if (status === 'cancelled' || (status === 'paused' && !allowPaused)) {
+    throw new ProcessingStoppedError(videoId, status);
+  }
+
+  // Пауза с быстрым продолжением: статус снова 'processing', но lock уже у нового init
+  if (initRunId && video.chunk_progress_json?.initRunId !== initRunId) {
+    throw new ProcessingStoppedError(videoId, status, true);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STOP / RESUME
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Пауза или отмена обработки
+ */
+export async function stopProcessing(videoId: string, mode: StopMode): Promise<StopProcessingResult> {
+  const supabase = createServiceRoleClient();
+  const status: VideoStatus = mode === 'pause' ? 'paused' : 'cancelled';
+
+  // Отменить можно и видео на паузе — тогда прерываются чанки, которые дорабатывали
+  const fromStatuses: VideoStatus[] = mode === 'pause' ? ['processing'] : ['processing', 'paused'];
+
+  const { data: updated, error } = await supabase
+    .from('videos')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('id', videoId)
+    .in('status', fromStatuses)
+    .select('chunk_progress_json');
+
+  if (error) {
+    throw new Error(`Failed to ${mode} processing: ${error.message}`);
+  }
+  if (!updated || updated.length === 0) {
+    throw new ProcessingControlError('Video is not being processed', 409);
+  }
+
+  const cancelledJobs = await cancelVideoJobs(videoId);
+  const pausedChunks = await pauseVideoChunks(videoId);
+
+  // Init не завершился — снимаем его lock, чтобы продолжение могло запустить init снова
+  const initInterrupted = Boolean(updated[0].chunk_progress_json?.initializing);
+  if (initInterrupted) {
+    const { error: unlockError } = await supabase
+      .from('videos')
+      .update({ chunk_progress_json: null })
+      .eq('id', videoId)
+      .eq('chunk_progress_json->>initializing', 'true');
+
+    if (unlockError) {
+      throw new Error(`Failed to release init lock: ${unlockError.message}`);
+    }
+  }
+
+  console.log(`⏸️  Video ${videoId} ${status}: ${cancelledJobs} jobs cancelled, ${pausedChunks} chunks paused${initInterrupted ? ', init lock released' : ''}`);
+
+  return { status, cancelledJobs, pausedChunks, initInterrupted };
+}
+
+/**
+ * Продолжение обработки после паузы или отмены
+ *
+ * Переводит видео и чанки обратно в работу; поставить чанки в очередь
+ * или перезапустить init — дело вызывающего (см. ResumeProcessingResult).
+ */
+export async function resumeProcessing(videoId: string): Promise<ResumeProcessingResult> {
+  const supabase = createServiceRoleClient();
+
+  const { data: video, error } = await supabase
+    .from('videos')
+    .select('status, chunk_progress_json')
+    .eq('id', videoId)
+    .single();
+
+  if (error || !video) {
+    throw new ProcessingControlError('Video not found', 404);
+  }
+  if (!STOPPED_STATUSES.includes(video.status)) {
+    throw new ProcessingControlError(`Video is ${video.status}, nothing to resume`, 409);
+  }
+
+  // Init завершился — в chunk_progress_json есть лист и метаданные пайплайна
+  const initCompleted = Boolean(video.chunk_progress_json?.sheetId);
+
+  let initRequest: InitProcessingRequest | null = null;
+  if (!initCompleted) {
+    initRequest = await loadVideoArtifact<InitProcessingRequest>(videoId, 'init-request');
+    if (!initRequest) {
+      throw new ProcessingControlError('Initialization parameters not found — upload the video again', 409);
+    }
+  }
+
+  const { data: resumed, error: resumeError } = await supabase
+    .from('videos')
+    .update({ status: 'processing', updated_at: new Date().toISOString() })
+    .eq('id', videoId)
+    .in('status', STOPPED_STATUSES)
+    .select('id');
+
+  if (resumeError) {
+    throw new Error(`Failed to resume processing: ${resumeError.message}`);
+  }
+  if (!resumed || resumed.length === 0) {
+    throw new ProcessingControlError('Video is already being resumed', 409);
+  }
+
+  await resumeVideoChunks(videoId);
+
+  console.log(`▶️  Video ${videoId} resumed (${initCompleted ? 'chunks' : 'init'})`);
+
+  if (initRequest) {
+    return { stage: 'init', initRequest };
+  }
+  return video.chunk_progress_json?.awaitingMappingReview ? { stage: 'mapping-review' } : { stage: 'chunks' };
+}
@@ -0,0 +1,92 @@
+/**
+ * Подписка браузера на поток прогресса /api/videos/[id]/progress
+ * (серверная часть — lib/processing-progress.ts)
+ */
+
+import type { MontageEntry, ProcessingStep } from '@/types';
+import type { ProgressEventMap, ProgressEventType, ProgressStatusEvent } from './processing-progress';
+
+export type ProgressHandlers = {
+  [K in ProgressEventType]?: (data: ProgressEventMap[K]) => void;
+};
+
+export const PROCESSING_STEP_LABELS: Record<ProcessingStep, string> = {
+  'download': 'загрузка видео',
+  'diarization': 'распознавание речи',
+  'alignment': 'сверка со сценарием',
+  'voice-embeddings': 'анализ голосов',
+  'face-clustering': 'распознавание лиц',
+  'scene-detection': 'поиск планов',
+  'splitting': 'нарезка на чанки',
+  'mapping-review': 'ждёт проверки спикеров',
+  'chunks': 'анализ чанков',
+};
+
+/**
+ * Открывает EventSource и закрывает его после события done
+ *
+ * @returns отписка — для cleanup в useEffect
+ */
+export function subscribeToProgress(
+  videoId: string,
+  handlers: ProgressHandlers,
+  { entries = false }: { entries?: boolean } = {}
+): () => void {
+  const source = new EventSource(`/api/videos/${videoId}/progress${entries ? '?entries=1' : ''}`);
+
+  for (const type of Object.keys(handlers) as ProgressEventType[]) {
+    source.addEventListener(type, (event) => {
+      const handler = handlers[type] as ((data: unknown) => void) | undefined;
+      handler?.(JSON.parse((event as MessageEvent<string>).data));
+    });
+  }
+
+  // Обработка закончилась — иначе EventSource переподключится сам
+  source.addEventListener('done', () => source.close());
+
+  return () => source.close();
+}
+
+/**
+ * Новые и изменённые планы из события entries → текущий список (по id)
+ */
+export function mergeProgressEntries(current: MontageEntry[], updated: MontageEntry[]): MontageEntry[] {
+  const byId = new Map(current.map(entry => [entry.id, entry]));
+  for (const entry of updated) {
+    byId.set(entry.id, entry);
+  }
+
+  return Array.from(byId.values()).sort((a, b) =>
+    a.order_index - b.order_index || a.plan_number - b.plan_number
+  );
+}
+
+function formatEta(seconds: number): string {
+  if (seconds < 60) return 'меньше минуты';
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `~${minutes} мин`;
+  return `~${Math.floor(minutes / 60)} ч ${minutes % 60} мин`;
+}
+
+/**
+ * Строка прогресса: шаг, чанки и оставшееся время
+ * ("анализ чанков · 12/40 · осталось ~25 мин")
+ */
+export function describeProgress(status: ProgressStatusEvent): string {
+  const parts: string[] = [];
+
+  if (status.step) {
+    parts.push(PROCESSING_STEP_LABELS[status.step]);
+  }
+  if (status.totalChunks > 0) {
+    parts.push(`${status.completedChunks}/${status.totalChunks} чанков`);
+  }
+  if (status.activeChunks.length > 0) {
+    parts.push(`в работе: ${status.activeChunks.map(index => `№${index + 1}`).join(', ')}`);
+  }
+  if (status.etaSeconds) {
+    parts.push(`осталось ${formatEta(status.etaSeconds)}`);
+  }
+
+  return parts.join(' · ');
+}
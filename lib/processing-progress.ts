@@ -0,0 +1,279 @@
+/**
+ * Processing Progress — живой прогресс обработки видео (Server-Sent Events)
+ *
+ * init-processing-v5 отмечает текущий шаг пайплайна (videos.processing_step),
+ * чанки — строки video_chunks. Поток /api/videos/[id]/progress опрашивает БД
+ * на сервере раз в PROGRESS_POLL_INTERVAL_MS и шлёт клиенту только изменения:
+ * - status  — статус видео, шаг, чанки в работе, ETA
+ * - chunk   — смена статуса чанка
+ * - entries — новые и изменённые планы основного листа (если запрошены)
+ * - done    — обработка остановилась или закончилась, поток закрывается
+ *
+ * Один поток на видео вместо опроса /api/video-status и /api/montage-entries
+ * каждые несколько секунд из каждой открытой вкладки.
+ *
+ * SQL: supabase/migrations/20261019000900_processing_step.sql
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createServiceRoleClient } from './supabase/server';
+import { getVideoChunks } from './supabase/chunk-status';
+import { MAX_CONCURRENT_CHUNKS, PROGRESS_POLL_INTERVAL_MS, PROGRESS_STREAM_MAX_MS } from './config';
+import type { MontageEntry, ProcessingStep, VideoChunk, VideoChunkStatus, VideoStatus } from '@/types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface ProgressStatusEvent {
+  status: VideoStatus;
+  step: ProcessingStep | null;
+  stepStartedAt: string | null;
+  completedChunks: number;
+  totalChunks: number;
+  /** Индексы чанков в работе */
+  activeChunks: number[];
+  /** Оценка до конца обработки чанков, сек; null — ещё нечего усреднять */
+  etaSeconds: number | null;
+}
+
+export interface ProgressChunkEvent {
+  index: number;
+  status: VideoChunkStatus;
+  /** null — первое событие потока по этому чанку */
+  previousStatus: VideoChunkStatus | null;
+  plansCreated: number | null;
+  provider: string | null;
+  error: string | null;
+}
+
+export interface ProgressEntriesEvent {
+  entries: MontageEntry[];
+}
+
+export interface ProgressDoneEvent {
+  status: VideoStatus;
+}
+
+export interface ProgressEventMap {
+  status: ProgressStatusEvent;
+  chunk: ProgressChunkEvent;
+  entries: ProgressEntriesEvent;
+  done: ProgressDoneEvent;
+}
+
+export type ProgressEventType = keyof ProgressEventMap;
+
+export interface ProgressStreamOptions {
+  /** Слать планы основного листа (таблица плана; дашборду не нужны) */
+  includeEntries?: boolean;
+}
+
+/** Что поток уже отправил клиенту */
+interface ProgressState {
+  chunkStatuses: Map<number, VideoChunkStatus>;
+  /** updated_at последнего отправленного плана */
+  entriesCursor: string | null;
+  lastStatus: string | null;
+}
+
+type SendEvent = <T extends ProgressEventType>(event: T, data: ProgressEventMap[T]) => void;
+
+/** Пока видео в этих статусах, поток открыт */
+const ACTIVE_STATUSES: VideoStatus[] = ['uploading', 'processing'];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PIPELINE STEP
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Отметить текущий шаг пайплайна — ошибка записи не должна ронять обработку
+ */
+export async function setProcessingStep(videoId: string, step: ProcessingStep): Promise<void> {
+  const supabase = createServiceRoleClient();
+
+  const { error } = await supabase
+    .from('videos')
+    .update({ processing_step: step, processing_step_at: new Date().toISOString() })
+    .eq('id', videoId);
+
+  if (error) {
+    console.warn(`   ⚠️ Failed to save processing step "${step}": ${error.message}`);
+  }
+}
+
+/**
+ * Оставшееся время чанков: среднее по завершённым × оставшиеся волны
+ * (MAX_CONCURRENT_CHUNKS чанков параллельно)
+ */
+export function estimateRemainingSeconds(chunks: VideoChunk[]): number | null {
+  const durations = chunks
+    .filter(c => c.status === 'completed' && c.duration_ms)
+    .map(c => c.duration_ms as number);
+
+  const remaining = chunks.filter(c => c.status !== 'completed').length;
+  if (remaining === 0) return 0;
+  if (durations.length === 0) return null;
+
+  const averageMs = durations.reduce((sum, ms) => sum + ms, 0) / durations.length;
+  return Math.round(Math.ceil(remaining / MAX_CONCURRENT_CHUNKS) * averageMs / 1000);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STREAM
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Один опрос БД: шлёт изменения с прошлого раза
+ *
+ * @returns true — обработка закончилась, поток пора закрыть
+ */
+async function pollProgress(
+  supabase: SupabaseClient,
+  videoId: string,
+  state: ProgressState,
+  options: ProgressStreamOptions,
+  send: SendEvent
+): Promise<boolean> {
+  // chunk_progress_json целиком тяжёлый (сцены, маппинг) — берём только нужные поля
+  const { data: video, error } = await supabase
+    .from('videos')
+    .select(`
+      status,
+      processing_step,
+      processing_step_at,
+      sheet_id:chunk_progress_json->>sheetId,
+      legacy_total:chunk_progress_json->totalChunks,
+      legacy_completed:chunk_progress_json->completedChunks
+    `)
+    .eq('id', videoId)
+    .single();
+
+  if (error || !video) {
+    throw new Error(`Video not found: ${videoId}`);
+  }
+
+  const chunks = await getVideoChunks(videoId, supabase);
+
+  for (const chunk of chunks) {
+    const previousStatus = state.chunkStatuses.get(chunk.chunk_index) || null;
+    if (previousStatus === chunk.status) continue;
+
+    state.chunkStatuses.set(chunk.chunk_index, chunk.status);
+    send('chunk', {
+      index: chunk.chunk_index,
+      status: chunk.status,
+      previousStatus,
+      plansCreated: chunk.plans_created,
+      provider: chunk.provider,
+      error: chunk.error,
+    });
+  }
+
+  if (options.includeEntries && video.sheet_id) {
+    let query = supabase
+      .from('montage_entries')
+      .select('*')
+      .eq('sheet_id', video.sheet_id)
+      .order('updated_at', { ascending: true });
+
+    if (state.entriesCursor) {
+      query = query.gt('updated_at', state.entriesCursor);
+    }
+
+    const { data: entries, error: entriesError } = await query;
+    if (entriesError) {
+      throw new Error(`Failed to load montage entries: ${entriesError.message}`);
+    }
+
+    if (entries && entries.length > 0) {
+      state.entriesCursor = entries[entries.length - 1].updated_at;
+      send('entries', { entries: entries as MontageEntry[] });
+    }
+  }
+
+  // V3/V4 (без строк video_chunks) — счётчики из chunk_progress_json
+  const status: ProgressStatusEvent = {
+    status: video.status,
+    step: video.processing_step,
+    stepStartedAt: video.processing_step_at,
+    completedChunks: chunks.length > 0
+      ? chunks.filter(c => c.status === 'completed').length
+      : Number(video.legacy_completed) || 0,
+    totalChunks: chunks.length > 0 ? chunks.length : Number(video.legacy_total) || 0,
+    activeChunks: chunks.filter(c => c.status === 'in_progress').map(c => c.chunk_index),
+    etaSeconds: estimateRemainingSeconds(chunks),
+  };
+
+  const serialized = JSON.stringify(status);
+  if (serialized !== state.lastStatus) {
+    state.lastStatus = serialized;
+    send('status', status);
+  }
+
+  if (!ACTIVE_STATUSES.includes(video.status)) {
+    send('done', { status: video.status });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * SSE-поток прогресса видео
+ *
+ * Закрывается сам, когда обработка остановилась, клиент отключился
+ * (signal) или прошло PROGRESS_STREAM_MAX_MS.
+ */
+export function createProgressStream(
+  videoId: string,
+  signal: AbortSignal,
+  options: ProgressStreamOptions = {}
+): ReadableStream<Uint8Array> {
+  const supabase = createServiceRoleClient();
+  const encoder = new TextEncoder();
+  const startedAt = Date.now();
+  const state: ProgressState = { chunkStatuses: new Map(), entriesCursor: null, lastStatus: null };
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearTimeout(timer);
+        controller.close();
+      };
+
+      const send: SendEvent = (event, data) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const tick = async () => {
+        let done = false;
+        try {
+          done = await pollProgress(supabase, videoId, state, options, send);
+        } catch (error) {
+          // Временная ошибка БД — следующий опрос попробует снова
+          console.error(`⚠️ Progress stream ${videoId.slice(0, 8)}:`, error instanceof Error ? error.message : error);
+        }
+
+        if (closed) return;
+        if (done || Date.now() - startedAt > PROGRESS_STREAM_MAX_MS) {
+          close();
+          return;
+        }
+        timer = setTimeout(tick, PROGRESS_POLL_INTERVAL_MS);
+      };
+
+      signal.addEventListener('abort', close);
+      void tick();
+    },
+    cancel() {
+      closed = true;
+      clearTimeout(timer);
+    },
+  });
+}
@@ -0,0 +1,224 @@
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { loadExpectedEntries, replayChunkUrl } from './provider-fixtures';
+import { processChunkV5 } from './process-chunk-v5';
+
+/**
+ * Регрессия пайплайна без сети и без Supabase: чанки записанного видео
+ * проходят process-chunk-v5 на фикстурах fixtures/providers/<videoKey>,
+ * montage_entries пишутся в память и сверяются с expected-entries.json.
+ * Во втором чанке записан таймаут Gemini — воспроизводится и fallback на 'local'.
+ */
+
+const FIXTURE_VIDEO_KEY = 'sample-episode';
+const VIDEO_ID = 'video-replay';
+const SHEET_ID = 'sheet-replay';
+
+type Row = Record<string, unknown>;
+
+const db = vi.hoisted(() => ({ tables: {} as Record<string, Record<string, unknown>[]> }));
+
+/**
+ * Supabase в памяти: from().select/update/upsert, eq, order, single/maybeSingle —
+ * ровно то, что вызывают chunk-status, video-artifacts, processing-control и сам чанк
+ */
+vi.mock('./supabase/server', () => {
+  class MemoryQuery implements PromiseLike<{ data: unknown; error: { message: string } | null }> {
+    private filters: Array<(row: Row) => boolean> = [];
+    private action: 'select' | 'update' | 'upsert' = 'select';
+    private values: Row = {};
+    private conflictColumns: string[] = [];
+    private sortBy: { column: string; ascending: boolean } | null = null;
+    private returning = false;
+    private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+    constructor(private table: string) {}
+
+    select() {
+      if (this.action !== 'select') this.returning = true;
+      return this;
+    }
+
+    eq(column: string, value: unknown) {
+      this.filters.push(row => row[column] === value);
+      return this;
+    }
+
+    order(column: string, { ascending = true }: { ascending?: boolean } = {}) {
+      this.sortBy = { column, ascending };
+      return this;
+    }
+
+    update(values: Row) {
+      this.action = 'update';
+      this.values = values;
+      return this;
+    }
+
+    upsert(values: Row, { onConflict }: { onConflict: string }) {
+      this.action = 'upsert';
+      this.values = values;
+      this.conflictColumns = onConflict.split(',');
+      return this;
+    }
+
+    single() {
+      this.mode = 'single';
+      return this;
+    }
+
+    maybeSingle() {
+      this.mode = 'maybeSingle';
+      return this;
+    }
+
+    then<R1, R2>(
+      onfulfilled?: ((value: { data: unknown; error: { message: string } | null }) => R1 | PromiseLike<R1>) | null,
+      onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+    ): PromiseLike<R1 | R2> {
+      return Promise.resolve(this.execute()).then(onfulfilled, onrejected);
+    }
+
+    private execute() {
+      const rows = (db.tables[this.table] ||= []);
+
+      if (this.action === 'upsert') {
+        const existing = rows.find(row => this.conflictColumns.every(c => row[c] === this.values[c]));
+        if (existing) {
+          Object.assign(existing, this.values);
+        } else {
+          rows.push({ id: `${this.table}-${rows.length + 1}`, ...this.values });
+        }
+        return { data: null, error: null };
+      }
+
+      let matched = rows.filter(row => this.filters.every(filter => filter(row)));
+
+      if (this.action === 'update') {
+        for (const row of matched) Object.assign(row, this.values);
+        return { data: this.returning ? matched.map(row => ({ ...row })) : null, error: null };
+      }
+
+      if (this.sortBy) {
+        const { column, ascending } = this.sortBy;
+        matched = [...matched].sort((a, b) => (Number(a[column]) - Number(b[column])) * (ascending ? 1 : -1));
+      }
+      const data = matched.map(row => structuredClone(row));
+
+      if (this.mode === 'many') return { data, error: null };
+      if (data.length === 0 && this.mode === 'single') return { data: null, error: { message: 'No rows found' } };
+      return { data: data[0] || null, error: null };
+    }
+  }
+
+  return {
+    createServiceRoleClient: () => ({
+      from: (table: string) => new MemoryQuery(table),
+      rpc: async (name: string) => ({ data: null, error: { message: `RPC ${name} is not available in memory` } }),
+    }),
+  };
+});
+
+// Состояние после init-processing-v5: сцены, слова диаризации, карта спикеров и чанки
+function seedProcessedVideo(): void {
+  const scene = (start: number, end: number, startTimecode: string, endTimecode: string) => ({
+    start_timecode: startTimecode,
+    end_timecode: endTimecode,
+    start_timestamp: start,
+    end_timestamp: end,
+    type: 'regular',
+    originalScenesCount: 1,
+  });
+  const word = (text: string, startMs: number, endMs: number, speaker: string) => ({
+    text, startMs, endMs, speaker, confidence: 0.95,
+  });
+  const chunk = (chunkIndex: number, startTimecode: string, endTimecode: string) => ({
+    id: `chunk-${chunkIndex}`,
+    video_id: VIDEO_ID,
+    chunk_index: chunkIndex,
+    start_timecode: startTimecode,
+    end_timecode: endTimecode,
+    storage_url: replayChunkUrl(FIXTURE_VIDEO_KEY, chunkIndex),
+    status: 'ready',
+  });
+
+  db.tables = {
+    videos: [{
+      id: VIDEO_ID,
+      status: 'processing',
+      chunk_progress_json: {
+        sheetId: SHEET_ID,
+        videoFPS: 25,
+        fixtureVideoKey: FIXTURE_VIDEO_KEY,
+        videoProviders: ['gemini-replicate'],
+        speakerCharacterMap: { A: 'АННА', B: 'БОРИС' },
+        scriptData: { characters: [{ name: 'АННА' }, { name: 'БОРИС' }], scenes: [] },
+        mergedScenes: [
+          scene(0, 4, '00:00:00:00', '00:00:04:00'),
+          scene(4, 9, '00:00:04:00', '00:00:09:00'),
+          scene(9, 12, '00:00:09:00', '00:00:12:00'),
+        ],
+      },
+    }],
+    montage_sheets: [{ id: SHEET_ID, video_id: VIDEO_ID, status: 'processing' }],
+    montage_entries: [],
+    video_artifacts: [{
+      video_id: VIDEO_ID,
+      kind: 'diarization-words',
+      data: [
+        word('Привет,', 500, 1000, 'A'),
+        word('Борис.', 1000, 1500, 'A'),
+        word('Да.', 5000, 5400, 'B'),
+        // Музыка под титрами — не реплика
+        word('Музыка', 9500, 10000, 'A'),
+      ],
+    }],
+    video_chunks: [
+      chunk(0, '00:00:00:00', '00:00:08:00'),
+      chunk(1, '00:00:08:00', '00:00:12:00'),
+    ],
+  };
+}
+
+describe('provider fixtures replay', () => {
+  beforeAll(() => {
+    vi.stubEnv('PROVIDER_FIXTURES', 'replay');
+    vi.stubEnv('PROVIDER_FIXTURES_DIR', path.join(__dirname, '..', 'fixtures', 'providers'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('rebuilds the recorded montage sheet from provider fixtures', async () => {
+    seedProcessedVideo();
+
+    for (const chunk of [...db.tables.video_chunks]) {
+      const result = await processChunkV5(VIDEO_ID, {
+        chunkIndex: chunk.chunk_index as number,
+        chunkUrl: chunk.storage_url as string,
+        startTimecode: chunk.start_timecode as string,
+        endTimecode: chunk.end_timecode as string,
+      });
+      expect(result.success).toBe(true);
+    }
+
+    const entries = db.tables.montage_entries
+      .filter(entry => entry.sheet_id === SHEET_ID)
+      .sort((a, b) => Number(a.order_index) - Number(b.order_index))
+      .map(({ plan_number, start_timecode, end_timecode, plan_type, description, dialogues }) => ({
+        plan_number, start_timecode, end_timecode, plan_type, description, dialogues,
+      }));
+
+    expect(entries).toEqual(loadExpectedEntries(FIXTURE_VIDEO_KEY));
+    expect(db.tables.video_chunks.map(chunk => [chunk.status, chunk.provider])).toEqual([
+      ['completed', 'gemini-replicate'],
+      ['completed', 'local'],
+    ]);
+    expect(db.tables.videos[0].status).toBe('completed');
+    expect(db.tables.montage_sheets[0].status).toBe('ready');
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Provider Fixtures — запись и воспроизведение ответов внешних провайдеров
+ *
+ * PROVIDER_FIXTURES=record — реальные вызовы провайдеров lib/video-providers.ts,
+ *   бэкендов lib/asr-backends.ts и face clustering, ответы сохраняются в fixtures/providers;
+ * PROVIDER_FIXTURES=replay — ответы берутся только из файлов, сеть не нужна:
+ *   нет записи → ProviderFixtureMissingError (без тихого похода к провайдеру).
+ *   Видео читается с диска (PROVIDER_FIXTURES_VIDEO), чанки в Storage не
+ *   загружаются — их URL провайдерам при воспроизведении не передаются.
+ *
+ * Фикстуры лежат по ключу видео (хэш содержимого файла, а не videoId —
+ * в CI видео загружается заново и получает новый id):
+ *   <PROVIDER_FIXTURES_DIR>/<videoKey>/<provider>/<hash запроса>.json
+ *   <PROVIDER_FIXTURES_DIR>/<videoKey>/expected-entries.json — итоговый лист
+ *
+ * Хэш запроса строится без подписанных URL — они меняются при каждом запуске.
+ *
+ * fixtures/providers/sample-episode — короткая запись, которую npm test
+ * воспроизводит без сети и Supabase (lib/provider-fixtures.test.ts).
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { VideoProviderId } from './video-providers';
+import type { AsrBackendId } from './asr-backends';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export type FixtureProvider =
+  | VideoProviderId
+  | Exclude<AsrBackendId, 'assemblyai'>
+  /** AssemblyAI (имя каталога — с тех пор, как бэкенд был единственным) */
+  | 'diarization'
+  | 'face-clustering'
+  | 'ai-validation';
+
+interface FixtureFile {
+  provider: FixtureProvider;
+  request: unknown;
+  response?: unknown;
+  /** Провайдер упал — при воспроизведении бросаем ту же ошибку */
+  error?: string;
+  recordedAt: string;
+}
+
+export class ProviderFixtureMissingError extends Error {
+  constructor(provider: FixtureProvider, videoKey: string, requestHash: string) {
+    super(`No recorded ${provider} response for video ${videoKey} (request ${requestHash}). Re-record with PROVIDER_FIXTURES=record`);
+    this.name = 'ProviderFixtureMissingError';
+  }
+}
+
+/** Столько байт начала файла хэшируем — полный фильм читать долго */
+const VIDEO_KEY_SAMPLE_BYTES = 8 * 1024 * 1024;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONFIG
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function getFixtureMode(): FixtureMode {
+  const mode = process.env.PROVIDER_FIXTURES;
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+function fixturesRoot(): string {
+  return process.env.PROVIDER_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'providers');
+}
+
+/**
+ * Локальная копия тестового видео для replay — вместо скачивания по videoUrl
+ */
+export function getReplayVideoPath(): string {
+  const videoPath = process.env.PROVIDER_FIXTURES_VIDEO;
+  if (!videoPath || !fs.existsSync(videoPath)) {
+    throw new Error('PROVIDER_FIXTURES=replay requires PROVIDER_FIXTURES_VIDEO pointing to the recorded video file');
+  }
+  return videoPath;
+}
+
+/**
+ * URL чанка при replay: в Storage ничего не загружается, а анализ берёт ответ
+ * из фикстуры (URL в ключ фикстуры не входит)
+ */
+export function replayChunkUrl(videoKey: string, chunkIndex: number): string {
+  return `fixture://${videoKey}/chunk_${chunkIndex}`;
+}
+
+/**
+ * Ключ тестового видео: sha256(размер + первые 8 МБ)
+ */
+export function computeFixtureVideoKey(videoPath: string): string {
+  const { size } = fs.statSync(videoPath);
+  const sample = Buffer.alloc(Math.min(size, VIDEO_KEY_SAMPLE_BYTES));
+
+  const fd = fs.openSync(videoPath, 'r');
+  try {
+    fs.readSync(fd, sample, 0, sample.length, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  return crypto
+    .createHash('sha256')
+    .update(String(size))
+    .update(sample)
+    .digest('hex')
+    .substring(0, 16);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SERIALIZATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** JSON с сортированными ключами — хэш не зависит от порядка полей */
+function stableStringify(value: unknown): string {
+  if (value === undefined) return 'null';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+
+  const record = value as Record<string, unknown>;
+  const keys = Object.keys(record).filter(key => record[key] !== undefined).sort();
+  return `{${keys.map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`).join(',')}}`;
+}
+
+/** Typed arrays (центроиды лиц) пишем обычными массивами */
+function jsonReplacer(_key: string, value: unknown): unknown {
+  return ArrayBuffer.isView(value) && !(value instanceof DataView)
+    ? Array.from(value as unknown as ArrayLike<number>)
+    : value;
+}
+
+function hashRequest(request: unknown): string {
+  return crypto.createHash('sha256').update(stableStringify(request)).digest('hex').substring(0, 16);
+}
+
+function fixturePath(videoKey: string, provider: FixtureProvider, requestHash: string): string {
+  return path.join(fixturesRoot(), videoKey, provider, `${requestHash}.json`);
+}
+
+function writeJson(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(data, jsonReplacer, 2) + '\n');
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RECORD / REPLAY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Вызов провайдера через фикстуры
+ *
+ * Без режима или без ключа видео — обычный вызов. Ошибки провайдера тоже
+ * записываются: Gemini → FAL fallback должен воспроизводиться один в один.
+ * Typed arrays при воспроизведении приходят обычными массивами.
+ */
+export async function withProviderFixture<T>(
+  provider: FixtureProvider,
+  videoKey: string | null | undefined,
+  request: unknown,
+  call: () => Promise<T>
+): Promise<T> {
+  const mode = getFixtureMode();
+  if (mode === 'off' || !videoKey) {
+    return call();
+  }
+
+  const requestHash = hashRequest(request);
+  const filePath = fixturePath(videoKey, provider, requestHash);
+
+  if (mode === 'replay') {
+    if (!fs.existsSync(filePath)) {
+      throw new ProviderFixtureMissingError(provider, videoKey, requestHash);
+    }
+
+    const fixture: FixtureFile = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    console.log(`   📼 Replaying ${provider} fixture ${videoKey}/${requestHash}`);
+
+    if (fixture.error !== undefined) {
+      throw new Error(fixture.error);
+    }
+    return fixture.response as T;
+  }
+
+  const recordedAt = new Date().toISOString();
+  try {
+    const response = await call();
+    writeJson(filePath, { provider, request, response, recordedAt } satisfies FixtureFile);
+    console.log(`   📼 Recorded ${provider} fixture ${videoKey}/${requestHash}`);
+    return response;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    writeJson(filePath, { provider, request, error: message, recordedAt } satisfies FixtureFile);
+    console.log(`   📼 Recorded ${provider} failure ${videoKey}/${requestHash}`);
+    throw error;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EXPECTED MONTAGE ENTRIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+function expectedEntriesPath(videoKey: string): string {
+  return path.join(fixturesRoot(), videoKey, 'expected-entries.json');
+}
+
+/**
+ * Снимок итогового листа при записи — эталон для /api/test/regression
+ */
+export function saveExpectedEntries(videoKey: string, entries: unknown[]): void {
+  writeJson(expectedEntriesPath(videoKey), entries);
+  console.log(`   📼 Saved ${entries.length} expected entries for ${videoKey}`);
+}
+
+export function loadExpectedEntries<T>(videoKey: string): T[] | null {
+  const filePath = expectedEntriesPath(videoKey);
+  if (!fs.existsSync(filePath)) return null;
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
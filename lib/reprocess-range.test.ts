@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ProcessingJob } from '@/types';
+import { NonRetryableJobError } from './job-queue';
+import { runReprocessRangeJob } from './reprocess-range';
+
+const db = vi.hoisted(() => ({
+  chunks: [] as Array<{ storage_url: string | null }>,
+  chunksError: null as Error | null,
+}));
+
+vi.mock('./supabase/server', () => ({ createServiceRoleClient: () => ({}) }));
+vi.mock('./supabase/chunk-status', () => ({
+  getVideoChunks: async () => {
+    if (db.chunksError) throw db.chunksError;
+    return db.chunks;
+  },
+}));
+vi.mock('./process-chunk-v5', () => ({ buildChunkPlans: async () => ({}), loadChunkContext: async () => ({}) }));
+
+function job(): ProcessingJob {
+  return {
+    id: 'job-1',
+    video_id: 'video-1',
+    job_type: 'reprocess-range',
+    payload: { sheetId: 'sheet-1', startTimecode: '00:00:00:00', endTimecode: '00:00:10:00' },
+    attempts: 1,
+    max_attempts: 4,
+  } as unknown as ProcessingJob;
+}
+
+describe('runReprocessRangeJob', () => {
+  beforeEach(() => {
+    db.chunks = [];
+    db.chunksError = null;
+  });
+
+  it('does not retry ranges that cannot be reprocessed', async () => {
+    const run = runReprocessRangeJob(job());
+
+    await expect(run).rejects.toThrow(NonRetryableJobError);
+    await expect(run).rejects.toThrow('processed before V5');
+  });
+
+  it('leaves transient failures to the queue retries', async () => {
+    db.chunksError = new Error('connection reset');
+    const run = runReprocessRangeJob(job());
+
+    await expect(run).rejects.toThrow('connection reset');
+    await expect(run).rejects.not.toBeInstanceOf(NonRetryableJobError);
+  });
+});
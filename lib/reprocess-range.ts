@@ -0,0 +1,328 @@
+/**
+ * Reprocess Range — повторная обработка части фильма с другими настройками
+ *
+ * 1. Диапазон таймкодов расширяется до целых планов листа, которые он задевает.
+ * 2. Чанки, пересекающие диапазон, заново проходят визуальный анализ
+ *    (buildChunkPlans) — при желании с другой цепочкой провайдеров или версией
+ *    промпта. Если ни один провайдер не вернул описаний, лист не меняется.
+ * 3. В листе заменяются только затронутые планы (spliceEntries). Первый новый
+ *    план начинается там, где кончается предыдущий нетронутый, последний —
+ *    кончается там, где начинается следующий: стыки с соседями не сдвигаются.
+ *
+ * Переделывается только визуальный анализ. Диаризация, границы сцен и
+ * распознанные имена спикеров берутся из сохранённых результатов обработки
+ * (loadChunkContext): их отдельный прогон для куска фильма дал бы новые
+ * метки спикеров, несовместимые с картой остальных чанков. Реплики
+ * собираются заново по текущей карте спикер → персонаж, поэтому правки из
+ * проверки спикеров и /reassign-speaker попадают в новые планы; ошибку
+ * диаризации этой функцией не исправить.
+ *
+ * Анализ чанка занимает минуты — работу делает воркер очереди (задача
+ * 'reprocess-range'). Изменения пишутся в историю листа с source
+ * 'reprocess-range' и откатываются как обычные правки. Итог задачи (результат
+ * или причина отказа) отдаёт getReprocessRangeJob; ReprocessRangeError в задаче
+ * не повторяется — повтор упал бы так же и снова заплатил за анализ.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createServiceRoleClient } from './supabase/server';
+import { getVideoChunks } from './supabase/chunk-status';
+import { enqueueJob, NonRetryableJobError } from './job-queue';
+import { buildChunkPlans, loadChunkContext } from './process-chunk-v5';
+import { fetchOrderedEntries, isValidTimecode, spliceEntries, validateEntryRange, type EntryContent } from './montage-editor';
+import { createRevisionContext } from './montage-revisions';
+import { getVideoFps, timecodeToFrames } from './video-chunking';
+import type { VideoPromptVersion } from './gemini-replicate';
+import type { VideoProviderId } from './video-providers';
+import type { MontageEntry, ProcessingJob, ProcessingJobStatus } from '@/types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface ReprocessRangeOptions {
+  startTimecode: string;
+  endTimecode: string;
+  /** Цепочка провайдеров вместо сохранённой при init */
+  providers?: VideoProviderId[];
+  promptVersion?: VideoPromptVersion;
+}
+
+/** Payload задачи 'reprocess-range' */
+export interface ReprocessRangePayload extends ReprocessRangeOptions {
+  sheetId: string;
+  /** Автор правок в истории листа */
+  userId: string | null;
+}
+
+export interface ReprocessRangeResult {
+  /** Диапазон, расширенный до целых планов */
+  startTimecode: string;
+  endTimecode: string;
+  replacedPlans: number;
+  createdPlans: number;
+}
+
+/** Состояние задачи для клиента */
+export interface ReprocessRangeJobStatus {
+  jobId: string;
+  status: ProcessingJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  /** Ошибка последней попытки; у 'dead' — причина отказа */
+  error: string | null;
+  result: ReprocessRangeResult | null;
+  updatedAt: string;
+}
+
+export class ReprocessRangeError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ReprocessRangeError';
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ENQUEUE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Проверяет диапазон и ставит повторную обработку в очередь
+ *
+ * @returns id задачи
+ */
+export async function enqueueReprocessRange(
+  videoId: string,
+  payload: ReprocessRangePayload
+): Promise<string> {
+  const { startTimecode, endTimecode } = payload;
+
+  if (!isValidTimecode(startTimecode) || !isValidTimecode(endTimecode)) {
+    throw new ReprocessRangeError('startTimecode and endTimecode must be in HH:MM:SS:FF format');
+  }
+
+  const supabase = createServiceRoleClient();
+
+  const { data: video, error } = await supabase
+    .from('videos')
+    .select('status, chunk_progress_json')
+    .eq('id', videoId)
+    .single();
+
+  if (error || !video) {
+    throw new ReprocessRangeError('Video not found', 404);
+  }
+  // Чанки обработки пишут планы по plan_number — параллельно с ними лист не трогаем
+  if (video.status !== 'completed') {
+    throw new ReprocessRangeError(`Video is ${video.status}, reprocessing is available after processing completes`, 409);
+  }
+
+  const rangeError = validateEntryRange(startTimecode, endTimecode, getVideoFps(video.chunk_progress_json));
+  if (rangeError) {
+    throw new ReprocessRangeError(rangeError);
+  }
+
+  // chunk_index у задачи нет — несколько диапазонов одного видео не блокируют друг друга
+  const jobId = await enqueueJob(videoId, 'reprocess-range', { payload });
+  if (!jobId) {
+    throw new Error('Failed to enqueue reprocess-range job');
+  }
+
+  console.log(`🔁 Reprocess ${startTimecode} → ${endTimecode} queued (video ${videoId.slice(0, 8)})`);
+  return jobId;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REPROCESS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Индексы первого и последнего плана, пересекающих [startFrame, endFrame)
+ */
+function findAffectedEntries(
+  entries: MontageEntry[],
+  startFrame: number,
+  endFrame: number,
+  fps: number
+): { first: number; last: number } | null {
+  let first = -1;
+  let last = -1;
+
+  entries.forEach((entry, index) => {
+    const overlaps =
+      timecodeToFrames(entry.start_timecode, fps) < endFrame &&
+      timecodeToFrames(entry.end_timecode, fps) > startFrame;
+
+    if (overlaps) {
+      if (first === -1) first = index;
+      last = index;
+    }
+  });
+
+  return first === -1 ? null : { first, last };
+}
+
+export async function reprocessRange(
+  videoId: string,
+  payload: ReprocessRangePayload
+): Promise<ReprocessRangeResult> {
+  const supabase = createServiceRoleClient();
+  const { sheetId, providers, promptVersion } = payload;
+
+  // Чанки в video_chunks есть только у видео V5 — у остальных нечего переанализировать
+  const chunks = (await getVideoChunks(videoId)).filter(c => c.storage_url);
+  if (chunks.length === 0) {
+    throw new ReprocessRangeError('Video has no analysed chunks (processed before V5)', 409);
+  }
+
+  const context = await loadChunkContext(videoId);
+  const fps = context.videoFPS;
+
+  // Расширяем диапазон до целых планов: соседей оставляем как есть
+  const entries = await fetchOrderedEntries(supabase, sheetId);
+  const affected = findAffectedEntries(
+    entries,
+    timecodeToFrames(payload.startTimecode, fps),
+    timecodeToFrames(payload.endTimecode, fps),
+    fps
+  );
+  if (!affected) {
+    throw new ReprocessRangeError('No plans in the selected range');
+  }
+
+  const affectedIds = entries.slice(affected.first, affected.last + 1).map(e => e.id);
+  const startTimecode = entries[affected.first].start_timecode;
+  const endTimecode = entries[affected.last].end_timecode;
+  const startFrame = timecodeToFrames(startTimecode, fps);
+  const endFrame = timecodeToFrames(endTimecode, fps);
+
+  const rangeChunks = chunks.filter(c =>
+    timecodeToFrames(c.start_timecode, fps) < endFrame &&
+    timecodeToFrames(c.end_timecode, fps) > startFrame
+  );
+
+  console.log(`\n🔁 Reprocess ${startTimecode} → ${endTimecode}: ${affectedIds.length} plans, chunks [${rangeChunks.map(c => c.chunk_index).join(', ')}]`);
+
+  // Сцена на стыке чанков попадает в оба (окно ±500ms) — берём первое вхождение
+  const plansByStart = new Map<number, EntryContent>();
+
+  for (const chunk of rangeChunks) {
+    const { scenesInChunk, plans, analyzed } = await buildChunkPlans(
+      context,
+      {
+        chunkUrl: chunk.storage_url!,
+        startTimecode: chunk.start_timecode,
+        endTimecode: chunk.end_timecode,
+      },
+      { providers, promptVersion }
+    );
+
+    // Без описаний buildChunkPlans отдаёт заглушки 'Ср.' — ими нельзя заменять готовые планы
+    if (!analyzed) {
+      throw new ReprocessRangeError(
+        `Visual analysis failed for chunk ${chunk.chunk_index}` +
+        (providers?.length ? ` (providers: ${providers.join(', ')})` : ''),
+        502
+      );
+    }
+
+    scenesInChunk.forEach((scene, index) => {
+      const sceneStartFrame = timecodeToFrames(scene.start_timecode, fps);
+      if (sceneStartFrame < startFrame || sceneStartFrame >= endFrame) return;
+      if (!plansByStart.has(sceneStartFrame)) {
+        plansByStart.set(sceneStartFrame, plans[index].content);
+      }
+    });
+  }
+
+  const contents = Array.from(plansByStart.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([, content]) => ({ ...content }));
+
+  if (contents.length === 0) {
+    throw new ReprocessRangeError('Reanalysis found no scenes in the range');
+  }
+
+  // Стыки с нетронутыми соседями — ровно по границам заменяемых планов
+  contents[0].start_timecode = startTimecode;
+  contents[contents.length - 1].end_timecode = endTimecode;
+
+  // Анализ шёл минуты — если лист за это время правили, пересчитаем диапазон при повторе задачи
+  const current = await fetchOrderedEntries(supabase, sheetId);
+  const unchanged =
+    current.length === entries.length &&
+    affectedIds.every((id, i) => current[affected.first + i]?.id === id);
+
+  if (!unchanged) {
+    throw new Error('Montage sheet changed during reprocessing');
+  }
+
+  await spliceEntries(
+    supabase, sheetId, current, affected.first, affectedIds.length, contents,
+    createRevisionContext(sheetId, payload.userId, 'reprocess-range')
+  );
+
+  console.log(`✅ Reprocessed ${startTimecode} → ${endTimecode}: ${affectedIds.length} plans → ${contents.length}`);
+
+  return {
+    startTimecode,
+    endTimecode,
+    replacedPlans: affectedIds.length,
+    createdPlans: contents.length,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// JOB QUEUE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Обработчик задачи 'reprocess-range' для воркера очереди (instrumentation.ts)
+ *
+ * Результат сохраняется в ProcessingJob.result. Изменённый во время анализа
+ * лист — обычная ошибка: на повторе диапазон посчитается заново.
+ */
+export async function runReprocessRangeJob(job: ProcessingJob): Promise<ReprocessRangeResult> {
+  try {
+    return await reprocessRange(job.video_id, job.payload as unknown as ReprocessRangePayload);
+  } catch (error) {
+    if (error instanceof ReprocessRangeError) {
+      throw new NonRetryableJobError(error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Состояние задачи повторной обработки (клиент пользователя — RLS processing_jobs)
+ */
+export async function getReprocessRangeJob(
+  supabase: SupabaseClient,
+  videoId: string,
+  jobId: string
+): Promise<ReprocessRangeJobStatus> {
+  const { data: job, error } = await supabase
+    .from('processing_jobs')
+    .select('id, status, attempts, max_attempts, last_error, result, updated_at')
+    .eq('id', jobId)
+    .eq('video_id', videoId)
+    .eq('job_type', 'reprocess-range')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load reprocess job: ${error.message}`);
+  }
+  if (!job) {
+    throw new ReprocessRangeError('Reprocess job not found', 404);
+  }
+
+  return {
+    jobId: job.id,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.max_attempts,
+    error: job.last_error,
+    result: job.result,
+    updatedAt: job.updated_at,
+  };
+}
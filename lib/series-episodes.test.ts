@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compareEpisodes,
+  formatEpisodeCode,
+  getEpisodeProgress,
+  inheritFilmMetadata,
+  nextEpisodeNumber,
+  parseEpisodeNumber,
+  sanitizeFilmMetadata,
+  summarizeSeriesProgress,
+  type EpisodeSummary,
+} from './series-episodes';
+
+function episode(overrides: Partial<EpisodeSummary> = {}): EpisodeSummary {
+  return {
+    id: 'video-1',
+    original_filename: 'ep.mp4',
+    status: 'completed',
+    processing_step: null,
+    season_number: 1,
+    episode_number: 1,
+    duration: 60,
+    created_at: '2026-01-01T00:00:00Z',
+    completed_at: undefined,
+    ...overrides,
+  };
+}
+
+describe('episode numbering', () => {
+  it('formats episode codes', () => {
+    expect(formatEpisodeCode({ season_number: 1, episode_number: 3 })).toBe('S01E03');
+    expect(formatEpisodeCode({ season_number: null, episode_number: 12 })).toBe('E12');
+    expect(formatEpisodeCode({ season_number: 2, episode_number: null })).toBeNull();
+  });
+
+  it('orders by season, episode, then upload date with unnumbered last', () => {
+    const episodes = [
+      episode({ id: 'unnumbered', season_number: null, episode_number: null, created_at: '2026-01-01' }),
+      episode({ id: 's2e1', season_number: 2, episode_number: 1 }),
+      episode({ id: 's1e2', episode_number: 2 }),
+      episode({ id: 's1e1-late', created_at: '2026-02-01' }),
+      episode({ id: 's1e1' }),
+    ];
+
+    expect(episodes.sort(compareEpisodes).map(e => e.id)).toEqual([
+      's1e1', 's1e1-late', 's1e2', 's2e1', 'unnumbered',
+    ]);
+  });
+
+  it('suggests the next episode number within the season', () => {
+    const episodes = [
+      { season_number: 1, episode_number: 4 },
+      { season_number: 2, episode_number: 9 },
+      { season_number: null, episode_number: 2 },
+    ];
+
+    expect(nextEpisodeNumber(episodes, 1)).toBe(5);
+    expect(nextEpisodeNumber(episodes, null)).toBe(3);
+    expect(nextEpisodeNumber(episodes, 3)).toBe(1);
+  });
+
+  it('parses episode numbers from request bodies', () => {
+    expect(parseEpisodeNumber(3)).toBe(3);
+    expect(parseEpisodeNumber('7')).toBe(7);
+    expect(parseEpisodeNumber('')).toBeNull();
+    expect(parseEpisodeNumber(null)).toBeNull();
+    expect(parseEpisodeNumber(0)).toBeUndefined();
+    expect(parseEpisodeNumber('1.5')).toBeUndefined();
+  });
+});
+
+describe('film metadata', () => {
+  it('inherits empty fields from the series', () => {
+    expect(inheritFilmMetadata(
+      { director: 'Иванов', country: ' ' },
+      { director: 'Петров', country: 'Россия', release_year: '2026' }
+    )).toEqual({ director: 'Иванов', country: 'Россия', release_year: '2026' });
+  });
+
+  it('keeps only known non-empty string fields', () => {
+    expect(sanitizeFilmMetadata({ director: ' Иванов ', country: '', unknown: 'x', release_year: 2026 }))
+      .toEqual({ director: 'Иванов' });
+    expect(sanitizeFilmMetadata(['director'])).toBeNull();
+  });
+});
+
+describe('series progress', () => {
+  it('counts episodes by status and averages progress', () => {
+    const episodes = [
+      getEpisodeProgress(episode(), { total: 0, completed: 0 }),
+      getEpisodeProgress(episode({ status: 'processing', processing_step: 'mapping-review' }), { total: 4, completed: 1 }),
+      getEpisodeProgress(episode({ status: 'paused' }), { total: 4, completed: 2 }),
+      getEpisodeProgress(episode({ status: 'error' }), { total: 0, completed: 0 }),
+    ];
+
+    expect(episodes.map(e => e.progress)).toEqual([1, 0.25, 0.5, 0]);
+    expect(summarizeSeriesProgress(episodes)).toEqual({
+      total: 4,
+      completed: 1,
+      processing: 1,
+      stopped: 1,
+      errors: 1,
+      awaitingReview: 1,
+      progress: 0.4375,
+    });
+  });
+
+  it('reports zero progress for an empty series', () => {
+    expect(summarizeSeriesProgress([]).progress).toBe(0);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Series Episodes — нумерация серий, наследование метаданных и прогресс сериала
+ *
+ * Модуль чистый (без БД) — используется и роутами, и клиентскими компонентами.
+ */
+
+import type { FilmMetadata, Video, VideoStatus } from '@/types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type EpisodeSummary = Pick<
+  Video,
+  | 'id'
+  | 'original_filename'
+  | 'status'
+  | 'processing_step'
+  | 'season_number'
+  | 'episode_number'
+  | 'duration'
+  | 'created_at'
+  | 'completed_at'
+>;
+
+export interface EpisodeProgress extends EpisodeSummary {
+  totalChunks: number;
+  completedChunks: number;
+  /** 0..1: готовая серия — 1, в работе — доля готовых чанков */
+  progress: number;
+}
+
+export interface SeriesProgress {
+  total: number;
+  completed: number;
+  processing: number;
+  /** Пауза или отмена — можно продолжить */
+  stopped: number;
+  errors: number;
+  awaitingReview: number;
+  /** 0..1 — среднее по сериям */
+  progress: number;
+}
+
+/** Поля FilmMetadata, которые сериал задаёт по умолчанию (порядок — как в форме) */
+export const FILM_METADATA_FIELDS: Array<{ key: keyof FilmMetadata; label: string }> = [
+  { key: 'producer_company', label: 'Фирма-производитель' },
+  { key: 'release_year', label: 'Год выпуска' },
+  { key: 'country', label: 'Страна производства' },
+  { key: 'copyright_holder', label: 'Правообладатель(и)' },
+  { key: 'screenwriter', label: 'Автор(ы) сценария' },
+  { key: 'director', label: 'Режиссер(ы)' },
+  { key: 'episodes_count', label: 'Количество серий' },
+  { key: 'frame_format', label: 'Формат кадра' },
+  { key: 'color_format', label: 'Цветной / черно-белый' },
+  { key: 'media_carrier', label: 'Носитель информации' },
+  { key: 'original_language', label: 'Язык оригинала' },
+  { key: 'subtitles_language', label: 'Язык надписей' },
+  { key: 'audio_language', label: 'Язык фонограммы' },
+];
+
+const IN_WORK_STATUSES: VideoStatus[] = ['uploading', 'processing'];
+const STOPPED_STATUSES: VideoStatus[] = ['paused', 'cancelled'];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// NUMBERING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * "S01E03"; без сезона — "E03"; без номера серии — null
+ */
+export function formatEpisodeCode(
+  episode: Pick<Video, 'season_number' | 'episode_number'>
+): string | null {
+  if (!episode.episode_number) return null;
+
+  const code = `E${String(episode.episode_number).padStart(2, '0')}`;
+  return episode.season_number ? `S${String(episode.season_number).padStart(2, '0')}${code}` : code;
+}
+
+/**
+ * Порядок серий: сезон, номер, затем дата загрузки (ненумерованные — в конце)
+ */
+export function compareEpisodes(
+  a: Pick<Video, 'season_number' | 'episode_number' | 'created_at'>,
+  b: Pick<Video, 'season_number' | 'episode_number' | 'created_at'>
+): number {
+  const season = (a.season_number ?? Infinity) - (b.season_number ?? Infinity);
+  if (season) return season;
+
+  const episode = (a.episode_number ?? Infinity) - (b.episode_number ?? Infinity);
+  if (episode) return episode;
+
+  return a.created_at.localeCompare(b.created_at);
+}
+
+/**
+ * Следующий номер серии в сезоне — подсказка при загрузке
+ */
+export function nextEpisodeNumber(
+  episodes: Array<Pick<Video, 'season_number' | 'episode_number'>>,
+  seasonNumber: number | null
+): number {
+  const numbers = episodes
+    .filter(e => (e.season_number ?? null) === seasonNumber && e.episode_number)
+    .map(e => e.episode_number!);
+
+  return numbers.length > 0 ? Math.max(...numbers) + 1 : 1;
+}
+
+/**
+ * Номер сезона/серии из тела запроса: целое > 0, null — снять номер
+ *
+ * @returns undefined — значение некорректно
+ */
+export function parseEpisodeNumber(value: unknown): number | null | undefined {
+  if (value === null || value === '') return null;
+  const number = typeof value === 'string' ? Number(value) : value;
+  return Number.isInteger(number) && (number as number) > 0 ? number as number : undefined;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// METADATA
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Метаданные серии с наследованием от сериала: своё непустое поле важнее
+ */
+export function inheritFilmMetadata<T extends FilmMetadata>(
+  own: T | null | undefined,
+  defaults: FilmMetadata | null | undefined
+): T {
+  const merged = { ...(own || {}) } as T;
+
+  for (const { key } of FILM_METADATA_FIELDS) {
+    const value = merged[key];
+    if ((value === undefined || value === null || String(value).trim() === '') && defaults?.[key]) {
+      merged[key] = defaults[key] as T[typeof key];
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Только известные строковые поля FilmMetadata (тело PATCH сериала)
+ *
+ * @returns null — не объект
+ */
+export function sanitizeFilmMetadata(value: unknown): FilmMetadata | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+
+  const source = value as Record<string, unknown>;
+  const result: FilmMetadata = {};
+
+  for (const { key } of FILM_METADATA_FIELDS) {
+    const field = source[key];
+    if (typeof field === 'string' && field.trim()) {
+      result[key] = field.trim();
+    }
+  }
+
+  return result;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PROGRESS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function getEpisodeProgress(
+  episode: EpisodeSummary,
+  chunks: { total: number; completed: number }
+): EpisodeProgress {
+  const progress = episode.status === 'completed'
+    ? 1
+    : chunks.total > 0 ? chunks.completed / chunks.total : 0;
+
+  return {
+    ...episode,
+    totalChunks: chunks.total,
+    completedChunks: chunks.completed,
+    progress,
+  };
+}
+
+/**
+ * Сводка по сериалу для дашборда
+ */
+export function summarizeSeriesProgress(episodes: EpisodeProgress[]): SeriesProgress {
+  const count = (predicate: (e: EpisodeProgress) => boolean) => episodes.filter(predicate).length;
+
+  return {
+    total: episodes.length,
+    completed: count(e => e.status === 'completed'),
+    processing: count(e => IN_WORK_STATUSES.includes(e.status)),
+    stopped: count(e => STOPPED_STATUSES.includes(e.status)),
+    errors: count(e => e.status === 'error'),
+    awaitingReview: count(e => e.processing_step === 'mapping-review' && IN_WORK_STATUSES.includes(e.status)),
+    progress: episodes.length > 0
+      ? episodes.reduce((sum, e) => sum + e.progress, 0) / episodes.length
+      : 0,
+  };
+}
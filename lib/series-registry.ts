@@ -0,0 +1,456 @@
+/**
+ * Series Registry — сквозной реестр персонажей сериала
+ *
+ * Каждая серия без реестра заново узнаёт тех же персонажей (CharacterTracker,
+ * character-registry, кластеризация лиц). Реестр сериала хранит:
+ * - канонические имена и варианты обращения;
+ * - центроиды лиц (FaceCluster) и голосовые отпечатки (voice-embeddings)
+ *   по каждой серии, где маппинг подтвердил редактор.
+ *
+ * init-processing-v5 засевает маппинг новой серии из реестра (getVoiceReferences,
+ * matchFaceClusters, mergeRegistryCharacters), а подтверждение маппинга
+ * (проверка спикеров, переназначение спикера, добавление серии в сериал)
+ * пополняет реестр через learnEpisodeCharacters — чем больше серий, тем точнее.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SeriesCharacter } from '@/types';
+import { createServiceRoleClient } from './supabase/server';
+import { loadVideoArtifact } from './supabase/video-artifacts';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface RegistryCharacter extends SeriesCharacter {
+  /** Средний голосовой отпечаток по сериям (null — голос ещё не подтверждён) */
+  voiceEmbedding: number[] | null;
+  /** Средний центроид лица по сериям */
+  faceCentroid: number[] | null;
+  /** Серий, подтвердивших персонажа */
+  episodes: number;
+}
+
+export interface SeriesRegistry {
+  seriesId: string;
+  characters: RegistryCharacter[];
+}
+
+/** Персонаж для калибровки по упоминаниям имён (как scriptData.characters) */
+export interface NamedCharacter {
+  name: string;
+  variants: string[];
+}
+
+/** Персонаж реестра для UI — без векторов */
+export interface RegistryCharacterSummary {
+  id: string;
+  name: string;
+  variants: string[];
+  episodes: number;
+  hasVoice: boolean;
+  hasFace: boolean;
+}
+
+export interface LearnEpisodeResult {
+  seriesId: string;
+  characters: number;
+  voices: number;
+  faces: number;
+}
+
+export class SeriesRegistryError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'SeriesRegistryError';
+  }
+}
+
+/** Как distanceThreshold кластеризации: ближе — то же лицо */
+const FACE_MATCH_DISTANCE = 0.5;
+
+interface SampleRow {
+  voice_embedding: number[] | null;
+  face_centroid: number[] | null;
+}
+
+interface StoredFaceCluster {
+  clusterId: string;
+  appearances: number;
+  characterName?: string | null;
+  centroid?: number[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toUpperCase();
+}
+
+/** Поэлементное среднее векторов одной длины (другие длины — иная модель, пропускаем) */
+function averageVectors(vectors: Array<number[] | null | undefined>): number[] | null {
+  const valid = vectors.filter((v): v is number[] => Array.isArray(v) && v.length > 0);
+  if (valid.length === 0) return null;
+
+  const length = valid[0].length;
+  const sameLength = valid.filter(v => v.length === length);
+  const sum = new Array<number>(length).fill(0);
+
+  for (const vector of sameLength) {
+    for (let i = 0; i < length; i++) sum[i] += vector[i];
+  }
+
+  return sum.map(value => value / sameLength.length);
+}
+
+function euclideanDistance(a: number[], b: number[]): number {
+  if (a.length !== b.length) return Infinity;
+
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  return Math.sqrt(sum);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LOAD
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Сериал принадлежит владельцу видео
+ *
+ * Обработка идёт под service role (RLS не работает), а videos.series_id
+ * пользователь пишет и напрямую через PostgREST: чужой сериал нельзя ни
+ * засевать в серию, ни пополнять из неё (см. 20261019001100_series_registry_owner.sql).
+ */
+export async function isSeriesOwnedBy(
+  seriesId: string,
+  userId: string,
+  supabase: SupabaseClient = createServiceRoleClient()
+): Promise<boolean> {
+  const { data: series } = await supabase
+    .from('series')
+    .select('id')
+    .eq('id', seriesId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return !!series;
+}
+
+/**
+ * Сериал видео — только если он принадлежит владельцу видео
+ */
+export async function getVideoSeriesId(
+  videoId: string,
+  supabase: SupabaseClient = createServiceRoleClient()
+): Promise<string | null> {
+  const { data: video } = await supabase
+    .from('videos')
+    .select('user_id, series_id')
+    .eq('id', videoId)
+    .single();
+
+  if (!video?.series_id) return null;
+
+  if (!await isSeriesOwnedBy(video.series_id, video.user_id, supabase)) {
+    console.warn(`⚠️  Video ${videoId.slice(0, 8)} points to a series of another user, ignoring it`);
+    return null;
+  }
+  return video.series_id;
+}
+
+/**
+ * Персонажи сериала с эталонами, усреднёнными по сериям
+ */
+export async function loadSeriesRegistry(
+  seriesId: string,
+  supabase: SupabaseClient = createServiceRoleClient()
+): Promise<SeriesRegistry> {
+  const { data, error } = await supabase
+    .from('series_characters')
+    .select('*, series_character_samples(voice_embedding, face_centroid)')
+    .eq('series_id', seriesId)
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load series registry: ${error.message}`);
+  }
+
+  const characters = (data || []).map(row => {
+    const { series_character_samples: samples = [], ...character } = row as SeriesCharacter & {
+      series_character_samples?: SampleRow[];
+    };
+
+    return {
+      ...character,
+      variants: character.variants || [],
+      voiceEmbedding: averageVectors(samples.map(s => s.voice_embedding)),
+      faceCentroid: averageVectors(samples.map(s => s.face_centroid)),
+      episodes: samples.length,
+    };
+  });
+
+  return { seriesId, characters };
+}
+
+export function summarizeRegistry(registry: SeriesRegistry): RegistryCharacterSummary[] {
+  return registry.characters.map(c => ({
+    id: c.id,
+    name: c.name,
+    variants: c.variants,
+    episodes: c.episodes,
+    hasVoice: Boolean(c.voiceEmbedding),
+    hasFace: Boolean(c.faceCentroid),
+  }));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SEEDING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Эталонные голоса для createVoiceEmbeddings: { ИМЯ: embedding }
+ */
+export function getVoiceReferences(registry: SeriesRegistry): Record<string, number[]> {
+  return Object.fromEntries(
+    registry.characters
+      .filter(c => c.voiceEmbedding)
+      .map(c => [c.name, c.voiceEmbedding!])
+  );
+}
+
+/**
+ * Узнаёт лица серии по центроидам реестра
+ *
+ * Жадно, от самых близких пар: одно лицо — один персонаж.
+ *
+ * @returns clusterId → имя персонажа
+ */
+export function matchFaceClusters(
+  registry: SeriesRegistry,
+  clusters: Array<{ clusterId: string; centroid?: Float32Array | number[] }>
+): Map<string, string> {
+  const pairs: Array<{ clusterId: string; name: string; distance: number }> = [];
+
+  for (const cluster of clusters) {
+    if (!cluster.centroid || cluster.centroid.length === 0) continue;
+    const centroid = Array.from(cluster.centroid);
+
+    for (const character of registry.characters) {
+      if (!character.faceCentroid) continue;
+      const distance = euclideanDistance(centroid, character.faceCentroid);
+      if (distance < FACE_MATCH_DISTANCE) {
+        pairs.push({ clusterId: cluster.clusterId, name: character.name, distance });
+      }
+    }
+  }
+
+  const matches = new Map<string, string>();
+  const usedNames = new Set<string>();
+
+  for (const pair of pairs.sort((a, b) => a.distance - b.distance)) {
+    if (matches.has(pair.clusterId) || usedNames.has(pair.name)) continue;
+    matches.set(pair.clusterId, pair.name);
+    usedNames.add(pair.name);
+  }
+
+  return matches;
+}
+
+/**
+ * Персонажи для калибровки по упоминаниям имён: сценарий + реестр
+ *
+ * Персонажи сценария получают варианты имён из реестра; персонажи реестра,
+ * которых нет в сценарии (или сценария нет вовсе), добавляются в конец.
+ */
+export function mergeRegistryCharacters(
+  scriptCharacters: Array<{ name: string; variants?: string[] }>,
+  registry: SeriesRegistry | null
+): NamedCharacter[] {
+  const merged: NamedCharacter[] = scriptCharacters.map(c => ({ name: c.name, variants: [...(c.variants || [])] }));
+  if (!registry) return merged;
+
+  for (const character of registry.characters) {
+    const aliases = new Set([character.name, ...character.variants].map(normalizeName));
+    const existing = merged.find(c => aliases.has(normalizeName(c.name)));
+
+    if (existing) {
+      const known = new Set(existing.variants.map(normalizeName));
+      existing.variants.push(...character.variants.filter(v => !known.has(normalizeName(v))));
+    } else {
+      merged.push({ name: character.name, variants: [...character.variants] });
+    }
+  }
+
+  return merged;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LEARNING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Пополняет реестр сериала подтверждённым маппингом серии
+ *
+ * Вклад серии (голос и лицо персонажа) заменяется целиком, поэтому повторный
+ * вызов после исправления маппинга не накапливает ошибку. Лица учим только
+ * у персонажей, за которыми подтверждён speaker.
+ *
+ * @returns null — серия не входит в сериал
+ */
+export async function learnEpisodeCharacters(videoId: string): Promise<LearnEpisodeResult | null> {
+  const supabase = createServiceRoleClient();
+
+  const { data: video, error } = await supabase
+    .from('videos')
+    .select('chunk_progress_json')
+    .eq('id', videoId)
+    .single();
+
+  if (error || !video) {
+    throw new SeriesRegistryError('Video not found', 404);
+  }
+
+  const seriesId = await getVideoSeriesId(videoId, supabase);
+  if (!seriesId) {
+    return null;
+  }
+
+  const speakerCharacterMap: Record<string, string> = video.chunk_progress_json?.speakerCharacterMap || {};
+  const [voiceEmbeddings, faceClusters, initRequest] = await Promise.all([
+    loadVideoArtifact<Record<string, number[]>>(videoId, 'voice-embeddings', supabase),
+    loadVideoArtifact<StoredFaceCluster[]>(videoId, 'face-clusters', supabase),
+    loadVideoArtifact<{ scriptData?: { characters?: Array<{ name: string; variants?: string[] }> } }>(
+      videoId, 'init-request', supabase
+    ),
+  ]);
+
+  // Персонаж → его speaker серии
+  const speakersByName = new Map<string, string[]>();
+  for (const [speakerId, character] of Object.entries(speakerCharacterMap)) {
+    const name = normalizeName(character);
+    if (!name || name === normalizeName(speakerId)) continue;
+    speakersByName.set(name, [...(speakersByName.get(name) || []), speakerId]);
+  }
+
+  // Вклад серии заменяем целиком — в том числе у персонажей, которых в маппинге больше нет
+  const { error: deleteError } = await supabase
+    .from('series_character_samples')
+    .delete()
+    .eq('video_id', videoId);
+
+  if (deleteError) {
+    throw new Error(`Failed to replace episode samples: ${deleteError.message}`);
+  }
+
+  if (speakersByName.size === 0) {
+    return { seriesId: seriesId, characters: 0, voices: 0, faces: 0 };
+  }
+
+  const scriptVariants = new Map<string, string[]>();
+  for (const character of initRequest?.scriptData?.characters || []) {
+    scriptVariants.set(normalizeName(character.name), character.variants || []);
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from('series_characters')
+    .select('id, name, variants')
+    .eq('series_id', seriesId);
+
+  if (existingError) {
+    throw new Error(`Failed to load series registry: ${existingError.message}`);
+  }
+
+  const existingByName = new Map((existing || []).map(c => [c.name, c]));
+
+  const { data: characters, error: upsertError } = await supabase
+    .from('series_characters')
+    .upsert(
+      Array.from(speakersByName.keys()).map(name => ({
+        series_id: seriesId,
+        name,
+        variants: Array.from(new Set([
+          ...(existingByName.get(name)?.variants || []),
+          ...(scriptVariants.get(name) || []),
+        ])),
+      })),
+      { onConflict: 'series_id,name' }
+    )
+    .select('id, name');
+
+  if (upsertError || !characters) {
+    throw new Error(`Failed to update series characters: ${upsertError?.message}`);
+  }
+
+  let voices = 0;
+  let faces = 0;
+
+  const samples = characters.map(character => {
+    const speakerIds = speakersByName.get(character.name) || [];
+    const voiceEmbedding = averageVectors(speakerIds.map(id => voiceEmbeddings?.[id]));
+
+    // Самое частое лицо персонажа — меньше всего шансов на ошибку привязки
+    const face = (faceClusters || [])
+      .filter(c => c.characterName && normalizeName(c.characterName) === character.name && c.centroid?.length)
+      .sort((a, b) => b.appearances - a.appearances)[0];
+
+    if (voiceEmbedding) voices++;
+    if (face) faces++;
+
+    return {
+      character_id: character.id,
+      video_id: videoId,
+      speaker_id: speakerIds.join(','),
+      voice_embedding: voiceEmbedding,
+      face_centroid: face?.centroid || null,
+    };
+  });
+
+  const { error: insertError } = await supabase
+    .from('series_character_samples')
+    .insert(samples);
+
+  if (insertError) {
+    throw new Error(`Failed to save episode samples: ${insertError.message}`);
+  }
+
+  console.log(
+    `📚 Series registry ${seriesId.slice(0, 8)} learned from ${videoId.slice(0, 8)}: ` +
+    `${characters.length} characters, ${voices} voices, ${faces} faces`
+  );
+
+  return { seriesId: seriesId, characters: characters.length, voices, faces };
+}
+
+/**
+ * learnEpisodeCharacters для побочных вызовов: ошибка реестра не должна
+ * ломать подтверждение маппинга — только логируется
+ */
+export async function learnEpisodeCharactersSafely(videoId: string): Promise<void> {
+  try {
+    await learnEpisodeCharacters(videoId);
+  } catch (error) {
+    console.error(`⚠️ Series registry update failed for ${videoId}:`, error);
+  }
+}
+
+/**
+ * Убирает вклад серии из реестра (серию вынули из сериала)
+ */
+export async function forgetEpisodeCharacters(videoId: string): Promise<void> {
+  const supabase = createServiceRoleClient();
+
+  const { error } = await supabase
+    .from('series_character_samples')
+    .delete()
+    .eq('video_id', videoId);
+
+  if (error) {
+    throw new Error(`Failed to remove episode samples: ${error.message}`);
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * Series — сериалы и их серии
+ *
+ * Сериал объединяет серии (videos.series_id, номера season/episode_number),
+ * держит общий реестр персонажей (lib/series-registry.ts) и метаданные фильма
+ * по умолчанию (series.default_film_metadata). Все запросы идут через клиент с сессией
+ * пользователя — RLS остаётся вторым уровнем защиты.
+ */
+
+import { createClient } from './supabase/server';
+import { forgetEpisodeCharacters, learnEpisodeCharactersSafely } from './series-registry';
+import {
+  compareEpisodes,
+  getEpisodeProgress,
+  inheritFilmMetadata,
+  summarizeSeriesProgress,
+} from './series-episodes';
+import type { EpisodeProgress, EpisodeSummary, SeriesProgress } from './series-episodes';
+import type { FilmMetadata, Series, Video } from '@/types';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface SeriesAccess {
+  supabase: ServerClient;
+  userId: string;
+  series: Series;
+}
+
+export interface SeriesAccessError {
+  error: string;
+  status: number;
+}
+
+export class SeriesError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'SeriesError';
+  }
+}
+
+export interface SeriesOverview {
+  episodes: EpisodeProgress[];
+  progress: SeriesProgress;
+}
+
+export interface EpisodeNumbers {
+  seasonNumber: number | null;
+  episodeNumber: number | null;
+}
+
+export const MAX_SERIES_TITLE_LENGTH = 200;
+
+const EPISODE_COLUMNS =
+  'id, original_filename, status, processing_step, season_number, episode_number, duration, created_at, completed_at';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ACCESS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Проверяет, что текущий пользователь владеет сериалом (как getOwnedSheet)
+ */
+export async function getOwnedSeries(seriesId: string): Promise<SeriesAccess | SeriesAccessError> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Unauthorized', status: 401 };
+  }
+
+  const { data: series, error } = await supabase
+    .from('series')
+    .select('*')
+    .eq('id', seriesId)
+    .eq('user_id', user.id)
+    .single();
+
+  if (error || !series) {
+    return { error: 'Series not found', status: 404 };
+  }
+
+  return { supabase, userId: user.id, series: series as Series };
+}
+
+export function isSeriesAccessError(
+  access: SeriesAccess | SeriesAccessError
+): access is SeriesAccessError {
+  return 'error' in access;
+}
+
+export function sanitizeSeriesTitle(title: unknown): string | null {
+  if (typeof title !== 'string') return null;
+  const trimmed = title.trim();
+  return trimmed && trimmed.length <= MAX_SERIES_TITLE_LENGTH ? trimmed : null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EPISODES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Добавляет видео в сериал или убирает из него (seriesId = null)
+ *
+ * Уже обработанная серия с подтверждённым маппингом сразу пополняет реестр
+ * нового сериала; из прежнего сериала её вклад удаляется. Номер серии
+ * при смене сериала сбрасывается (или задаётся numbers).
+ */
+export async function assignVideoToSeries(
+  supabase: ServerClient,
+  userId: string,
+  videoId: string,
+  seriesId: string | null,
+  numbers?: EpisodeNumbers
+): Promise<Video> {
+  if (seriesId) {
+    const { data: series } = await supabase
+      .from('series')
+      .select('id')
+      .eq('id', seriesId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!series) {
+      throw new SeriesError('Series not found', 404);
+    }
+  }
+
+  const { data: current } = await supabase
+    .from('videos')
+    .select('series_id')
+    .eq('id', videoId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!current) {
+    throw new SeriesError('Video not found', 404);
+  }
+
+  const { data: video, error } = await supabase
+    .from('videos')
+    .update({
+      series_id: seriesId,
+      ...(numbers || current.series_id !== seriesId
+        ? {
+            season_number: numbers?.seasonNumber ?? null,
+            episode_number: numbers?.episodeNumber ?? null,
+          }
+        : {}),
+    })
+    .eq('id', videoId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  // idx_videos_series_episode
+  if (error?.code === '23505') {
+    throw new SeriesError('Episode number is already taken in this season', 409);
+  }
+  if (error || !video) {
+    throw new Error(`Failed to update video series: ${error?.message}`);
+  }
+
+  if (current.series_id && current.series_id !== seriesId) {
+    await forgetEpisodeCharacters(videoId);
+  }
+
+  // Маппинг ещё ждёт проверки — реестр пополнит подтверждение
+  if (seriesId && video.status === 'completed' && !video.chunk_progress_json?.awaitingMappingReview) {
+    await learnEpisodeCharactersSafely(videoId);
+  }
+
+  return video as Video;
+}
+
+/**
+ * Номер сезона и серии; занятый номер в сериале — 409
+ */
+export async function setEpisodeNumbers(
+  supabase: ServerClient,
+  userId: string,
+  videoId: string,
+  numbers: EpisodeNumbers
+): Promise<Video> {
+  const { data: video, error } = await supabase
+    .from('videos')
+    .update({
+      season_number: numbers.seasonNumber,
+      episode_number: numbers.episodeNumber,
+    })
+    .eq('id', videoId)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+
+  // idx_videos_series_episode
+  if (error?.code === '23505') {
+    throw new SeriesError('Episode number is already taken in this season', 409);
+  }
+  if (error) {
+    throw new Error(`Failed to update episode number: ${error.message}`);
+  }
+  if (!video) {
+    throw new SeriesError('Video not found', 404);
+  }
+
+  return video as Video;
+}
+
+/**
+ * Серии сериала по порядку + прогресс обработки (чанки из video_chunks)
+ */
+export async function getSeriesOverview(
+  supabase: ServerClient,
+  seriesId: string
+): Promise<SeriesOverview> {
+  const { data: episodes, error } = await supabase
+    .from('videos')
+    .select(EPISODE_COLUMNS)
+    .eq('series_id', seriesId);
+
+  if (error) {
+    throw new Error(`Failed to load series episodes: ${error.message}`);
+  }
+
+  const ordered = ((episodes || []) as EpisodeSummary[]).sort(compareEpisodes);
+  const chunkCounts = new Map<string, { total: number; completed: number }>();
+
+  // Готовым сериям чанки не нужны — прогресс у них и так 100%
+  const activeIds = ordered.filter(e => e.status !== 'completed').map(e => e.id);
+  if (activeIds.length > 0) {
+    const { data: chunks, error: chunksError } = await supabase
+      .from('video_chunks')
+      .select('video_id, status')
+      .in('video_id', activeIds);
+
+    if (chunksError) {
+      throw new Error(`Failed to load episode chunks: ${chunksError.message}`);
+    }
+
+    for (const chunk of chunks || []) {
+      const counts = chunkCounts.get(chunk.video_id) || { total: 0, completed: 0 };
+      counts.total++;
+      if (chunk.status === 'completed') counts.completed++;
+      chunkCounts.set(chunk.video_id, counts);
+    }
+  }
+
+  const withProgress = ordered.map(episode =>
+    getEpisodeProgress(episode, chunkCounts.get(episode.id) || { total: 0, completed: 0 })
+  );
+
+  return {
+    episodes: withProgress,
+    progress: summarizeSeriesProgress(withProgress),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// METADATA
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Метаданные фильма для экспорта: поля серии + значения сериала по умолчанию
+ */
+export async function loadEffectiveFilmMetadata(
+  supabase: ServerClient,
+  video: { series_id?: string | null; film_metadata_json?: FilmMetadata | null }
+): Promise<FilmMetadata> {
+  if (!video.series_id) {
+    return video.film_metadata_json || {};
+  }
+
+  const { data: series } = await supabase
+    .from('series')
+    .select('default_film_metadata')
+    .eq('id', video.series_id)
+    .maybeSingle();
+
+  return inheritFilmMetadata(video.film_metadata_json, series?.default_film_metadata);
+}
@@ -0,0 +1,27 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import { parseMontageFile } from './montage-import';
+import { numberImportedEntries } from './sheet-versions';
+import { validateMontageEntries } from './validate-montage';
+
+describe('numberImportedEntries', () => {
+  it('numbers entries from order_index 1 in file order', () => {
+    const entries = numberImportedEntries([
+      { plan_number: 5, start_timecode: '00:00:00:00', end_timecode: '00:00:01:00' },
+      { plan_number: 2, start_timecode: '00:00:01:00', end_timecode: '00:00:02:00' },
+    ]);
+
+    expect(entries.map(e => [e.plan_number, e.order_index])).toEqual([[5, 1], [2, 2]]);
+  });
+
+  it('validates an imported sheet without order gaps', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const file = path.join(__dirname, '..', 'examples', 'real-montage-sheet.csv');
+    const parsed = await parseMontageFile(fs.readFileSync(file), 'real-montage-sheet.csv');
+
+    const validation = validateMontageEntries(numberImportedEntries(parsed.entries), 25);
+
+    expect(validation.warnings.filter(w => w.startsWith('Order index gap'))).toEqual([]);
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Sheet Versions — именованные версии монтажного листа и сравнение версий
+ *
+ * Основной лист (is_primary) пишет пайплайн обработки и перезаписывает при
+ * повторной обработке. Версия — полная копия планов листа под своим именем,
+ * редактируется и экспортируется независимо.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { MontageEntry, MontageSheet } from '@/types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VERSIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const COPY_BATCH_SIZE = 500;
+
+/**
+ * Вставляет планы новой версии пачками; при ошибке удаляет версию целиком
+ */
+async function insertSheetEntries(
+  supabase: SupabaseClient,
+  sheetId: string,
+  rows: Array<Pick<
+    MontageEntry,
+    'sheet_id' | 'plan_number' | 'order_index' | 'start_timecode' | 'end_timecode' | 'plan_type' | 'description' | 'dialogues' | 'thumbnail_path'
+  >>
+): Promise<void> {
+  for (let i = 0; i < rows.length; i += COPY_BATCH_SIZE) {
+    const { error: insertError } = await supabase
+      .from('montage_entries')
+      .insert(rows.slice(i, i + COPY_BATCH_SIZE));
+
+    if (insertError) {
+      // Не оставляем полупустую версию
+      await supabase.from('montage_sheets').delete().eq('id', sheetId);
+      throw new Error(`Failed to insert entries: ${insertError.message}`);
+    }
+  }
+}
+
+/**
+ * Все листы видео: сначала основной, затем версии по дате создания
+ */
+export async function listSheetVersions(
+  supabase: SupabaseClient,
+  videoId: string
+): Promise<MontageSheet[]> {
+  const { data, error } = await supabase
+    .from('montage_sheets')
+    .select('*')
+    .eq('video_id', videoId)
+    .order('is_primary', { ascending: false })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch sheet versions: ${error.message}`);
+  }
+
+  return (data || []) as MontageSheet[];
+}
+
+/**
+ * Создаёт версию — копию листа sourceSheetId со всеми планами
+ */
+export async function createSheetVersion(
+  supabase: SupabaseClient,
+  options: { videoId: string; userId: string; sourceSheetId: string; name: string }
+): Promise<{ sheet: MontageSheet; entriesCount: number }> {
+  const { data: source, error: sourceError } = await supabase
+    .from('montage_sheets')
+    .select('*')
+    .eq('id', options.sourceSheetId)
+    .single();
+
+  if (sourceError || !source) {
+    throw new Error('Source sheet not found');
+  }
+
+  const { data: sheet, error: sheetError } = await supabase
+    .from('montage_sheets')
+    .insert({
+      video_id: options.videoId,
+      user_id: options.userId,
+      title: source.title,
+      is_primary: false,
+      version_name: options.name,
+      based_on_sheet_id: source.id,
+    })
+    .select()
+    .single();
+
+  if (sheetError || !sheet) {
+    throw new Error(`Failed to create sheet version: ${sheetError?.message}`);
+  }
+
+  const { data: entries, error: entriesError } = await supabase
+    .from('montage_entries')
+    .select('*')
+    .eq('sheet_id', source.id)
+    .order('order_index', { ascending: true });
+
+  if (entriesError) {
+    throw new Error(`Failed to fetch source entries: ${entriesError.message}`);
+  }
+
+  const copies = (entries || []).map((entry: MontageEntry) => ({
+    sheet_id: sheet.id,
+    plan_number: entry.plan_number,
+    order_index: entry.order_index,
+    start_timecode: entry.start_timecode,
+    end_timecode: entry.end_timecode,
+    plan_type: entry.plan_type,
+    description: entry.description,
+    dialogues: entry.dialogues,
+    thumbnail_path: entry.thumbnail_path ?? null,
+  }));
+
+  await insertSheetEntries(supabase, sheet.id, copies);
+
+  console.log(`📑 Created version "${options.name}" (${copies.length} entries) from sheet ${source.id}`);
+
+  return { sheet: sheet as MontageSheet, entriesCount: copies.length };
+}
+
+type ImportedSheetEntry = Pick<MontageEntry, 'plan_number' | 'start_timecode' | 'end_timecode' | 'plan_type' | 'description' | 'dialogues'>;
+
+/**
+ * Планы из файла в порядке файла с order_index от 1 — так они попадут в лист
+ * (и так их проверяет validateMontageEntries)
+ */
+export function numberImportedEntries<T extends ImportedSheetEntry>(entries: T[]): Array<T & { order_index: number }> {
+  return entries.map((entry, index) => ({ ...entry, order_index: index + 1 }));
+}
+
+/**
+ * Создаёт версию из планов, загруженных из файла (см. lib/montage-import.ts)
+ * Порядок планов — как в файле.
+ */
+export async function createImportedSheet(
+  supabase: SupabaseClient,
+  options: {
+    videoId: string;
+    userId: string;
+    name: string;
+    title: string;
+    entries: ImportedSheetEntry[];
+  }
+): Promise<{ sheet: MontageSheet; entriesCount: number }> {
+  const { data: sheet, error: sheetError } = await supabase
+    .from('montage_sheets')
+    .insert({
+      video_id: options.videoId,
+      user_id: options.userId,
+      title: options.title,
+      is_primary: false,
+      version_name: options.name,
+      based_on_sheet_id: null,
+    })
+    .select()
+    .single();
+
+  if (sheetError || !sheet) {
+    throw new Error(`Failed to create sheet version: ${sheetError?.message}`);
+  }
+
+  await insertSheetEntries(supabase, sheet.id, numberImportedEntries(options.entries).map(entry => ({
+    sheet_id: sheet.id,
+    plan_number: entry.plan_number,
+    order_index: entry.order_index,
+    start_timecode: entry.start_timecode,
+    end_timecode: entry.end_timecode,
+    plan_type: entry.plan_type,
+    description: entry.description,
+    dialogues: entry.dialogues,
+  })));
+
+  console.log(`📑 Imported version "${options.name}" (${options.entries.length} entries)`);
+
+  return { sheet: sheet as MontageSheet, entriesCount: options.entries.length };
+}
+
+export function getSheetLabel(sheet: Pick<MontageSheet, 'is_primary' | 'version_name'>): string {
+  if (sheet.version_name) return sheet.version_name;
+  return sheet.is_primary ? 'Основной лист' : 'Без названия';
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DIFF
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const DIFF_FIELDS = ['start_timecode', 'end_timecode', 'plan_type', 'dialogues', 'description'] as const;
+export type DiffField = typeof DIFF_FIELDS[number];
+
+export type SheetDiffStatus = 'same' | 'changed' | 'added' | 'removed';
+
+export interface SheetDiffRow {
+  status: SheetDiffStatus;
+  left: MontageEntry | null;
+  right: MontageEntry | null;
+  changedFields: DiffField[];
+}
+
+export interface SheetDiff {
+  rows: SheetDiffRow[];
+  stats: Record<SheetDiffStatus, number>;
+}
+
+function normalize(value: string | undefined | null): string {
+  return (value || '').replace(/\s+/g, ' ').trim();
+}
+
+function compareEntries(left: MontageEntry, right: MontageEntry): SheetDiffRow {
+  const changedFields = DIFF_FIELDS.filter(field => normalize(left[field]) !== normalize(right[field]));
+  return {
+    status: changedFields.length > 0 ? 'changed' : 'same',
+    left,
+    right,
+    changedFields,
+  };
+}
+
+/**
+ * Сравнивает две версии листа
+ *
+ * Планы выравниваются по наибольшей общей подпоследовательности начальных
+ * таймкодов; между совпавшими якорями оставшиеся планы сопоставляются
+ * попарно (changed), лишние считаются добавленными/удалёнными.
+ */
+export function diffSheets(leftEntries: MontageEntry[], rightEntries: MontageEntry[]): SheetDiff {
+  const n = leftEntries.length;
+  const m = rightEntries.length;
+  const width = m + 1;
+  const lcs = new Int32Array((n + 1) * width);
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = leftEntries[i].start_timecode === rightEntries[j].start_timecode
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const rows: SheetDiffRow[] = [];
+  let leftGap: MontageEntry[] = [];
+  let rightGap: MontageEntry[] = [];
+
+  const flushGap = () => {
+    const paired = Math.min(leftGap.length, rightGap.length);
+    for (let k = 0; k < paired; k++) {
+      rows.push(compareEntries(leftGap[k], rightGap[k]));
+    }
+    for (const entry of leftGap.slice(paired)) {
+      rows.push({ status: 'removed', left: entry, right: null, changedFields: [] });
+    }
+    for (const entry of rightGap.slice(paired)) {
+      rows.push({ status: 'added', left: null, right: entry, changedFields: [] });
+    }
+    leftGap = [];
+    rightGap = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (leftEntries[i].start_timecode === rightEntries[j].start_timecode) {
+      flushGap();
+      rows.push(compareEntries(leftEntries[i], rightEntries[j]));
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      leftGap.push(leftEntries[i++]);
+    } else {
+      rightGap.push(rightEntries[j++]);
+    }
+  }
+  leftGap.push(...leftEntries.slice(i));
+  rightGap.push(...rightEntries.slice(j));
+  flushGap();
+
+  const stats: Record<SheetDiffStatus, number> = { same: 0, changed: 0, added: 0, removed: 0 };
+  for (const row of rows) stats[row.status]++;
+
+  return { rows, stats };
+}
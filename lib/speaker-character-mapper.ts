@@ -56,6 +56,14 @@ export interface MappingConflict {
   resolution: 'majority' | 'locked' | 'unresolved';
 }
 
+export interface SpeakerMappingDetails {
+  speakerId: string;
+  mapping: SpeakerCharacterMapping | null;
+  /** Все доказательства (forceMapping их не стирает) */
+  evidence: EvidenceSource[];
+  conflict: MappingConflict | null;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // КОНСТАНТЫ
 // ═══════════════════════════════════════════════════════════════════════════
@@ -422,6 +430,22 @@ export class SpeakerCharacterMapper {
     return result;
   }
   
+  /**
+   * Маппинг, исходные доказательства и конфликт по каждому speaker —
+   * без пересчёта (для экрана проверки маппинга)
+   */
+  describe(): SpeakerMappingDetails[] {
+    const speakerIds = new Set([...this.evidence.keys(), ...this.mappings.keys()]);
+
+    return Array.from(speakerIds).sort().map(speakerId => ({
+      speakerId,
+      mapping: this.mappings.get(speakerId) || null,
+      evidence: this.evidence.get(speakerId) || [],
+      // buildMapping вызывается несколько раз — актуален последний конфликт
+      conflict: this.conflicts.filter(c => c.speakerId === speakerId).pop() || null,
+    }));
+  }
+
   /**
    * Устанавливает ручной маппинг (алиас для forceMapping)
    */
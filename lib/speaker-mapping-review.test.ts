@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SpeakerCharacterMapper, SpeakerMappingDetails } from './speaker-character-mapper';
+import type { ASRWord } from './asr-script-alignment';
+import {
+  buildSpeakerMappingReview,
+  confirmSpeakerMapping,
+  SpeakerMappingReviewError,
+} from './speaker-mapping-review';
+
+const db = vi.hoisted(() => ({
+  video: null as { status: string; chunk_progress_json: Record<string, unknown> } | null,
+  updates: [] as Array<Record<string, unknown>>,
+  review: null as unknown,
+}));
+
+vi.mock('./supabase/server', () => ({
+  createServiceRoleClient: () => ({
+    from: () => ({
+      select: () => ({
+        eq: () => ({ single: async () => ({ data: db.video, error: db.video ? null : { message: 'not found' } }) }),
+      }),
+      update: (values: Record<string, unknown>) => ({
+        eq: async () => {
+          db.updates.push(values);
+          return { error: null };
+        },
+      }),
+    }),
+  }),
+}));
+
+vi.mock('./supabase/video-artifacts', () => ({
+  loadVideoArtifact: async () => db.review,
+  saveVideoArtifact: async () => {},
+}));
+
+vi.mock('./process-chunk-v5', () => ({ enqueueChunkJobs: async () => 3 }));
+vi.mock('./processing-progress', () => ({ setProcessingStep: async () => {} }));
+vi.mock('./series-registry', () => ({ learnEpisodeCharactersSafely: async () => {} }));
+
+function mapper(details: SpeakerMappingDetails[]): SpeakerCharacterMapper {
+  return { describe: () => details } as unknown as SpeakerCharacterMapper;
+}
+
+function word(text: string, startMs: number, endMs: number, speaker: string): ASRWord {
+  return { text, startMs, endMs, speaker, confidence: 1 };
+}
+
+describe('buildSpeakerMappingReview', () => {
+  it('lists speakers by speech time with evidence, utterances and candidates', () => {
+    const review = buildSpeakerMappingReview(
+      mapper([{
+        speakerId: 'A',
+        mapping: { speakerId: 'A', characterName: 'АННА', confidence: 0.8, evidenceCount: 2, sources: [], locked: true },
+        evidence: [
+          { type: 'alignment', character: 'АННА', weight: 0.5 },
+          { type: 'alignment', character: 'АННА', weight: 0.4 },
+          { type: 'name_mention', character: 'ВЕРА', weight: 0.2 },
+        ],
+        conflict: null,
+      }]),
+      { A: 'АННА' },
+      [
+        word('Привет', 0, 1500, 'A'),
+        word('Да', 1500, 1800, 'B'),
+        word('Как', 2000, 2500, 'A'),
+        word('дела', 2500, 4000, 'A'),
+      ],
+      ['БОРИС'],
+      { B: { character: 'БОРИС', confidence: 0.9, method: 'voice_embedding' } }
+    );
+
+    expect(review.status).toBe('pending');
+    expect(review.characters).toEqual(['АННА', 'БОРИС', 'ВЕРА']);
+    expect(review.speakers.map(s => s.speakerId)).toEqual(['A', 'B']);
+
+    const [anna, boris] = review.speakers;
+    expect(anna).toMatchObject({ proposedCharacter: 'АННА', confidence: 0.8, locked: true, wordCount: 3, speechMs: 3500 });
+    expect(anna.evidence[0]).toEqual({ type: 'alignment', character: 'АННА', count: 2, weight: 0.9 });
+    expect(anna.utterances.map(u => u.text)).toEqual(['Привет', 'Как дела']);
+
+    // Реплика короче секунды — не для прослушивания
+    expect(boris).toMatchObject({ proposedCharacter: null, confidence: null, utterances: [] });
+    expect(boris.evidence).toEqual([{ type: 'voice_embedding', character: 'БОРИС', count: 1, weight: 0.9 }]);
+  });
+});
+
+describe('confirmSpeakerMapping', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    db.updates = [];
+    db.video = {
+      status: 'processing',
+      chunk_progress_json: { awaitingMappingReview: true, speakerCharacterMap: { A: 'АННА', B: 'БОРИС' } },
+    };
+    db.review = { status: 'pending', speakers: [{ speakerId: 'A' }, { speakerId: 'B' }], characters: [] };
+  });
+
+  it('applies assignments and queues chunks', async () => {
+    const result = await confirmSpeakerMapping('video-1', { A: ' ВЕРА ', B: null });
+
+    expect(result).toEqual({ speakerCharacterMap: { A: 'ВЕРА' }, enqueued: 3 });
+    expect(db.updates[0].chunk_progress_json).toMatchObject({
+      speakerCharacterMap: { A: 'ВЕРА' },
+      awaitingMappingReview: false,
+    });
+  });
+
+  it('leaves queueing to resume when the video is paused', async () => {
+    db.video!.status = 'paused';
+
+    await expect(confirmSpeakerMapping('video-1', {})).resolves.toEqual({
+      speakerCharacterMap: { A: 'АННА', B: 'БОРИС' },
+      enqueued: 0,
+    });
+  });
+
+  it('rejects unknown speakers and empty names without saving', async () => {
+    await expect(confirmSpeakerMapping('video-1', { C: 'ВЕРА' })).rejects.toThrow('Unknown speaker: C');
+    await expect(confirmSpeakerMapping('video-1', { A: ' ' })).rejects.toThrow(SpeakerMappingReviewError);
+    expect(db.updates).toEqual([]);
+  });
+
+  it('rejects videos that are not awaiting review', async () => {
+    db.video!.chunk_progress_json.awaitingMappingReview = false;
+    await expect(confirmSpeakerMapping('video-1', {})).rejects.toMatchObject({ status: 409 });
+
+    db.video = null;
+    await expect(confirmSpeakerMapping('video-1', {})).rejects.toMatchObject({ status: 404 });
+  });
+});
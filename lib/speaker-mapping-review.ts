@@ -0,0 +1,310 @@
+/**
+ * Speaker Mapping Review — проверка маппинга speaker → персонаж до анализа чанков
+ *
+ * Ошибочно зафиксированный speaker портит реплики во всех планах, поэтому
+ * init-processing-v5 с reviewMapping: true не ставит чанки в очередь, а:
+ * 1. сохраняет обзор маппинга (video_artifacts 'speaker-review'): по каждому
+ *    speaker — примеры реплик с таймкодами, предложенный персонаж,
+ *    уверенность, конфликт и разбивку доказательств по источникам;
+ * 2. ставит шаг 'mapping-review' и флаг awaitingMappingReview.
+ *
+ * Пользователь подтверждает или переназначает спикеров
+ * (POST /api/videos/[id]/speaker-mapping) — маппинг пишется в
+ * chunk_progress_json.speakerCharacterMap, и только тогда чанки уходят в очередь.
+ */
+
+import { createServiceRoleClient } from './supabase/server';
+import { loadVideoArtifact, saveVideoArtifact } from './supabase/video-artifacts';
+import { enqueueChunkJobs } from './process-chunk-v5';
+import { setProcessingStep } from './processing-progress';
+import { learnEpisodeCharactersSafely } from './series-registry';
+import { groupWordsIntoSegments, type ASRWord } from './asr-script-alignment';
+import type { EvidenceSource, MappingConflict, SpeakerCharacterMapper } from './speaker-character-mapper';
+import type { VoiceMatch } from './voice-embeddings';
+import type { VideoStatus } from '@/types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type SpeakerEvidenceType = EvidenceSource['type'] | 'voice_embedding';
+
+/** Доказательства одного типа за одного персонажа */
+export interface SpeakerEvidenceSummary {
+  type: SpeakerEvidenceType;
+  character: string;
+  count: number;
+  weight: number;
+}
+
+export interface SpeakerUtterance {
+  text: string;
+  startMs: number;
+  endMs: number;
+}
+
+export interface SpeakerReviewItem {
+  speakerId: string;
+  proposedCharacter: string | null;
+  confidence: number | null;
+  locked: boolean;
+  conflict: MappingConflict | null;
+  evidence: SpeakerEvidenceSummary[];
+  /** Самые длинные реплики — для прослушивания */
+  utterances: SpeakerUtterance[];
+  wordCount: number;
+  speechMs: number;
+}
+
+export interface SpeakerMappingReview {
+  status: 'pending' | 'confirmed';
+  speakers: SpeakerReviewItem[];
+  /** Варианты для переназначения: сценарий + все кандидаты из доказательств */
+  characters: string[];
+  createdAt: string;
+  confirmedAt?: string;
+}
+
+export interface ConfirmSpeakerMappingResult {
+  speakerCharacterMap: Record<string, string>;
+  /** 0 — видео на паузе, чанки поставит в очередь продолжение */
+  enqueued: number;
+}
+
+export class SpeakerMappingReviewError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'SpeakerMappingReviewError';
+  }
+}
+
+/** Столько реплик speaker показываем для прослушивания */
+const UTTERANCES_PER_SPEAKER = 3;
+
+/** Короче — по реплике не узнать голос */
+const MIN_UTTERANCE_MS = 1000;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BUILD
+// ═══════════════════════════════════════════════════════════════════════════
+
+function summarizeEvidence(
+  evidence: EvidenceSource[],
+  voiceMatch: VoiceMatch | undefined
+): SpeakerEvidenceSummary[] {
+  const summaries = new Map<string, SpeakerEvidenceSummary>();
+
+  for (const source of evidence) {
+    const key = `${source.type}:${source.character}`;
+    const summary = summaries.get(key) || { type: source.type, character: source.character, count: 0, weight: 0 };
+    summary.count++;
+    summary.weight += source.weight;
+    summaries.set(key, summary);
+  }
+
+  const result = Array.from(summaries.values());
+  if (voiceMatch) {
+    result.push({ type: 'voice_embedding', character: voiceMatch.character, count: 1, weight: voiceMatch.confidence });
+  }
+
+  return result.sort((a, b) => b.weight - a.weight);
+}
+
+/**
+ * Обзор маппинга по итогам init: доказательства маппера + реплики из диаризации
+ */
+export function buildSpeakerMappingReview(
+  mapper: SpeakerCharacterMapper,
+  speakerCharacterMap: Record<string, string>,
+  words: ASRWord[],
+  scriptCharacters: string[],
+  voiceMatches: Record<string, VoiceMatch> = {}
+): SpeakerMappingReview {
+  const details = new Map(mapper.describe().map(d => [d.speakerId, d]));
+  const segments = groupWordsIntoSegments(words);
+
+  // Спикеры из диаризации, даже если доказательств по ним нет
+  const speakerIds = Array.from(new Set([
+    ...segments.map(s => s.speakerId),
+    ...details.keys(),
+  ])).sort();
+
+  const characters = new Set(scriptCharacters);
+
+  const speakers = speakerIds.map((speakerId): SpeakerReviewItem => {
+    const detail = details.get(speakerId);
+    const speakerSegments = segments.filter(s => s.speakerId === speakerId);
+    const evidence = summarizeEvidence(detail?.evidence || [], voiceMatches[speakerId]);
+    evidence.forEach(e => characters.add(e.character));
+
+    const utterances = speakerSegments
+      .filter(s => s.endMs - s.startMs >= MIN_UTTERANCE_MS)
+      .sort((a, b) => (b.endMs - b.startMs) - (a.endMs - a.startMs))
+      .slice(0, UTTERANCES_PER_SPEAKER)
+      .sort((a, b) => a.startMs - b.startMs)
+      .map(s => ({ text: s.text, startMs: s.startMs, endMs: s.endMs }));
+
+    const proposedCharacter = speakerCharacterMap[speakerId] || null;
+    if (proposedCharacter) characters.add(proposedCharacter);
+
+    return {
+      speakerId,
+      proposedCharacter,
+      confidence: detail?.mapping?.confidence ?? null,
+      locked: detail?.mapping?.locked ?? false,
+      conflict: detail?.conflict || null,
+      evidence,
+      utterances,
+      wordCount: words.filter(w => w.speaker === speakerId).length,
+      speechMs: speakerSegments.reduce((sum, s) => sum + (s.endMs - s.startMs), 0),
+    };
+  });
+
+  return {
+    status: 'pending',
+    // Сначала самые разговорчивые — их ошибка стоит дороже всего
+    speakers: speakers.sort((a, b) => b.speechMs - a.speechMs),
+    characters: Array.from(characters).sort((a, b) => a.localeCompare(b, 'ru')),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STORAGE
+// ═══════════════════════════════════════════════════════════════════════════
+
+export async function saveSpeakerMappingReview(videoId: string, review: SpeakerMappingReview): Promise<void> {
+  await saveVideoArtifact(videoId, 'speaker-review', review);
+}
+
+/**
+ * Обзор вместе с текущим маппингом видео
+ */
+export async function getSpeakerMappingReview(videoId: string): Promise<{
+  review: SpeakerMappingReview;
+  speakerCharacterMap: Record<string, string>;
+  awaitingReview: boolean;
+}> {
+  const supabase = createServiceRoleClient();
+
+  const { data: video, error } = await supabase
+    .from('videos')
+    .select('chunk_progress_json')
+    .eq('id', videoId)
+    .single();
+
+  if (error || !video) {
+    throw new SpeakerMappingReviewError('Video not found', 404);
+  }
+
+  const review = await loadVideoArtifact<SpeakerMappingReview>(videoId, 'speaker-review', supabase);
+  if (!review) {
+    throw new SpeakerMappingReviewError('Speaker mapping review is not available for this video', 404);
+  }
+
+  return {
+    review,
+    speakerCharacterMap: video.chunk_progress_json?.speakerCharacterMap || {},
+    awaitingReview: Boolean(video.chunk_progress_json?.awaitingMappingReview),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONFIRM
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Подтверждение маппинга и запуск анализа чанков
+ *
+ * @param assignments - speaker → персонаж; null — снять маппинг (реплики без имени).
+ *                      Спикеры, которых нет в assignments, остаются как предложено.
+ */
+export async function confirmSpeakerMapping(
+  videoId: string,
+  assignments: Record<string, string | null>
+): Promise<ConfirmSpeakerMappingResult> {
+  const supabase = createServiceRoleClient();
+
+  const { data: video, error } = await supabase
+    .from('videos')
+    .select('status, chunk_progress_json')
+    .eq('id', videoId)
+    .single();
+
+  if (error || !video) {
+    throw new SpeakerMappingReviewError('Video not found', 404);
+  }
+
+  const chunkProgress = video.chunk_progress_json || {};
+  const status = video.status as VideoStatus;
+
+  if (!chunkProgress.awaitingMappingReview) {
+    throw new SpeakerMappingReviewError('Speaker mapping is not awaiting review', 409);
+  }
+  if (status !== 'processing' && status !== 'paused') {
+    throw new SpeakerMappingReviewError(`Video is ${status}`, 409);
+  }
+
+  const review = await loadVideoArtifact<SpeakerMappingReview>(videoId, 'speaker-review', supabase);
+  const knownSpeakers = new Set(review?.speakers.map(s => s.speakerId) || []);
+
+  const speakerCharacterMap: Record<string, string> = { ...(chunkProgress.speakerCharacterMap || {}) };
+
+  for (const [speakerId, character] of Object.entries(assignments)) {
+    if (!knownSpeakers.has(speakerId)) {
+      throw new SpeakerMappingReviewError(`Unknown speaker: ${speakerId}`);
+    }
+    if (character !== null && (typeof character !== 'string' || !character.trim())) {
+      throw new SpeakerMappingReviewError(`Character for speaker ${speakerId} must be a non-empty string or null`);
+    }
+
+    if (character === null) {
+      delete speakerCharacterMap[speakerId];
+    } else {
+      speakerCharacterMap[speakerId] = character.trim();
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from('videos')
+    .update({
+      chunk_progress_json: {
+        ...chunkProgress,
+        speakerCharacterMap,
+        awaitingMappingReview: false,
+        speakerMappingReviewedAt: new Date().toISOString(),
+      },
+    })
+    .eq('id', videoId);
+
+  if (updateError) {
+    throw new Error(`Failed to save speaker mapping: ${updateError.message}`);
+  }
+
+  if (review) {
+    await saveSpeakerMappingReview(videoId, { ...review, status: 'confirmed', confirmedAt: new Date().toISOString() });
+  }
+
+  console.log(`👥 Speaker mapping confirmed for ${videoId.slice(0, 8)}: ${Object.keys(speakerCharacterMap).length} speakers`);
+
+  // Подтверждённый маппинг учит реестр сериала
+  await learnEpisodeCharactersSafely(videoId);
+
+  // На паузе чанки поставит в очередь /api/videos/[id]/resume
+  if (status === 'paused') {
+    return { speakerCharacterMap, enqueued: 0 };
+  }
+
+  await setProcessingStep(videoId, 'chunks');
+  const enqueued = await enqueueChunkJobs(videoId);
+  console.log(`   📥 ${enqueued} chunks queued`);
+
+  return { speakerCharacterMap, enqueued };
+}
+
+/**
+ * Чанки нельзя ставить в очередь, пока пользователь не проверил маппинг
+ */
+export function isAwaitingMappingReview(chunkProgress: { awaitingMappingReview?: boolean } | null | undefined): boolean {
+  return Boolean(chunkProgress?.awaitingMappingReview);
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { reassignDialogues } from './speaker-reassign';
+
+const DIALOGUES = 'АННА ЗК\nПривет.\n\nБОРИС\nДа.\n\nАННА\nПока.';
+
+describe('reassignDialogues', () => {
+  it('renames every block of the character, keeping suffixes', () => {
+    expect(reassignDialogues(DIALOGUES, 'АННА', 'ГАЛЯ')).toEqual({
+      dialogues: 'ГАЛЯ ЗК\nПривет.\n\nБОРИС\nДа.\n\nГАЛЯ\nПока.',
+      changed: 2,
+      unresolved: 0,
+    });
+  });
+
+  it('renames only accepted blocks and counts unresolved ones', () => {
+    const result = reassignDialogues(DIALOGUES, 'АННА', 'ГАЛЯ', text => (text === 'Пока.' ? null : true));
+
+    expect(result).toEqual({
+      dialogues: 'ГАЛЯ ЗК\nПривет.\n\nБОРИС\nДа.\n\nАННА\nПока.',
+      changed: 1,
+      unresolved: 1,
+    });
+  });
+
+  it('returns the dialogues untouched when nothing changed', () => {
+    expect(reassignDialogues(DIALOGUES, 'ВИКТОР', 'ГАЛЯ').dialogues).toBe(DIALOGUES);
+    expect(reassignDialogues(null, 'АННА', 'ГАЛЯ')).toEqual({ dialogues: '', changed: 0, unresolved: 0 });
+  });
+});
@@ -0,0 +1,493 @@
+/**
+ * Speaker Reassign — переименование / переназначение спикера во всём листе
+ *
+ * Два режима:
+ * - { fromName } — персонаж листа: все блоки "ИМЯ[ ЗК]\nтекст" с этим именем
+ *   получают новое имя, в speakerCharacterMap переназначаются все speaker,
+ *   которые выводились под этим именем;
+ * - { speakerId } — спикер диаризации: меняются только его реплики. Если под тем
+ *   же именем в листе выводится и другой speaker (оба смаплены на одного
+ *   персонажа), блок относится к спикеру по совпадению слов диаризации в
+ *   диапазоне плана.
+ *
+ * Суффиксы ЗК / ГЗ / ГЗК / (?) сохраняются. Изменения планов пишутся в историю
+ * (source 'reassign-speaker'), изменение маппинга — в
+ * chunk_progress_json.speakerReassignments, поэтому операция целиком
+ * отменяется через undoSpeakerReassignment.
+ *
+ * speakerCharacterMap принадлежит видео и описывает основной лист — в версиях
+ * листа меняются только реплики.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { MontageEntry, MontageEntryRevision, VideoStatus } from '@/types';
+import { createServiceRoleClient } from './supabase/server';
+import { fetchOrderedEntries } from './montage-editor';
+import { createRevisionContext, recordRevisions } from './montage-revisions';
+import { learnEpisodeCharactersSafely } from './series-registry';
+import {
+  formatDialogueBlocks,
+  loadDiarizationContext,
+  parseDialogueBlocks,
+  type DiarizationContext,
+  type DiarizationWord,
+} from './plan-operations';
+import { timecodeToFrames } from './video-chunking';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface SpeakerReassignRequest {
+  /** Спикер диаризации ('A', 'B', ...) */
+  speakerId?: string;
+  /** Имя персонажа, как оно записано в листе */
+  fromName?: string;
+  toName: string;
+}
+
+/** Запись об операции для отмены изменения маппинга */
+export interface SpeakerReassignment {
+  batchId: string;
+  sheetId: string;
+  speakerId: string | null;
+  fromName: string;
+  toName: string;
+  /** speaker → персонаж до операции (null — speaker не был смаплен) */
+  mapBefore: Record<string, string | null>;
+  mapAfter: Record<string, string>;
+  createdAt: string;
+}
+
+export interface SpeakerReassignResult {
+  batchId: string;
+  fromName: string;
+  toName: string;
+  changedEntries: number;
+  changedBlocks: number;
+  /** Блоки под общим именем, которые не удалось отнести к спикеру по словам */
+  unresolvedBlocks: number;
+  /** null — лист не основной, маппинг видео не менялся */
+  speakerCharacterMap: Record<string, string> | null;
+  entries: MontageEntry[];
+}
+
+export interface UndoSpeakerReassignResult {
+  revertedEntries: number;
+  /** Планы, изменённые после переназначения, — их не трогаем */
+  skippedEntries: number;
+  speakerCharacterMap: Record<string, string> | null;
+  entries: MontageEntry[];
+}
+
+export class SpeakerReassignError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'SpeakerReassignError';
+  }
+}
+
+/** Та же форма имени, что понимает parseDialogueBlocks (CHARACTER_LINE_REGEX) */
+const CHARACTER_NAME_REGEX = /^[A-ZА-ЯЁ][A-ZА-ЯЁ0-9.\- ]*$/;
+
+/** Столько последних операций храним для отмены */
+const MAX_STORED_REASSIGNMENTS = 20;
+
+/** Слова диаризации на стыке планов могут чуть выходить за таймкоды */
+const RANGE_TOLERANCE_MS = 500;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DIALOGUES
+// ═══════════════════════════════════════════════════════════════════════════
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toUpperCase();
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .split(/[^a-zа-я0-9]+/)
+    .filter(token => token.length > 1);
+}
+
+/**
+ * Доля слов блока, сказанных этим спикером в диапазоне плана
+ */
+function scoreSpeaker(blockText: string, words: DiarizationWord[], speakerId: string): number {
+  const tokens = tokenize(blockText);
+  if (tokens.length === 0) return 0;
+
+  const spoken = new Set(
+    words.filter(w => w.speaker === speakerId).flatMap(w => tokenize(w.text))
+  );
+
+  return tokens.filter(token => spoken.has(token)).length / tokens.length;
+}
+
+function wordsInEntry(entry: MontageEntry, context: DiarizationContext): DiarizationWord[] {
+  const nominalFps = Math.round(context.fps);
+  const startMs = (timecodeToFrames(entry.start_timecode, context.fps) / nominalFps) * 1000 - RANGE_TOLERANCE_MS;
+  const endMs = (timecodeToFrames(entry.end_timecode, context.fps) / nominalFps) * 1000 + RANGE_TOLERANCE_MS;
+
+  return context.words.filter(w => w.startMs >= startMs && w.startMs < endMs);
+}
+
+/**
+ * Переименовывает блоки одного плана
+ *
+ * @param accept - решает, относится ли блок с именем fromName к переназначаемому
+ *                 спикеру (null — блок не удалось отнести)
+ */
+export function reassignDialogues(
+  dialogues: string | undefined | null,
+  fromName: string,
+  toName: string,
+  accept: (text: string) => boolean | null = () => true
+): { dialogues: string; changed: number; unresolved: number } {
+  const blocks = parseDialogueBlocks(dialogues);
+  let changed = 0;
+  let unresolved = 0;
+
+  const updated = blocks.map(block => {
+    if (!block.character || normalizeName(block.character) !== fromName) {
+      return block;
+    }
+
+    const decision = accept(block.text);
+    if (decision === null) unresolved++;
+    if (!decision) return block;
+
+    changed++;
+    return { ...block, character: toName };
+  });
+
+  return {
+    dialogues: changed > 0 ? formatDialogueBlocks(updated) : dialogues ?? '',
+    changed,
+    unresolved,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAPPING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Все speaker видео: из маппинга и из слов диаризации */
+function collectSpeakerIds(context: DiarizationContext): string[] {
+  const ids = new Set(Object.keys(context.speakerCharacterMap));
+  for (const word of context.words) {
+    if (word.speaker) ids.add(word.speaker);
+  }
+  return Array.from(ids).sort();
+}
+
+/** Имя, под которым speaker выводится в листе (как в process-chunk-v5) */
+function speakerLabel(map: Record<string, string>, speakerId: string): string {
+  return normalizeName(map[speakerId] || speakerId);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// OPERATIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function loadSheetState(supabase: SupabaseClient, videoId: string, sheetId: string) {
+  const { data: sheet, error } = await supabase
+    .from('montage_sheets')
+    .select('is_primary')
+    .eq('id', sheetId)
+    .single();
+
+  if (error || !sheet) {
+    throw new SpeakerReassignError('Montage sheet not found', 404);
+  }
+
+  const serviceClient = createServiceRoleClient();
+  const { data: video, error: videoError } = await serviceClient
+    .from('videos')
+    .select('status, chunk_progress_json')
+    .eq('id', videoId)
+    .single();
+
+  if (videoError || !video) {
+    throw new SpeakerReassignError('Video not found', 404);
+  }
+
+  // Пайплайн пишет реплики основного листа по маппингу — пока он работает, лист не трогаем
+  const status = video.status as VideoStatus;
+  if (sheet.is_primary && (status === 'processing' || status === 'uploading')) {
+    throw new SpeakerReassignError(`Video is ${status}`, 409);
+  }
+
+  return {
+    isPrimary: Boolean(sheet.is_primary),
+    serviceClient,
+    chunkProgress: video.chunk_progress_json || {},
+  };
+}
+
+/**
+ * Переназначение спикера или персонажа во всех планах листа
+ */
+export async function reassignSpeaker(
+  supabase: SupabaseClient,
+  videoId: string,
+  sheetId: string,
+  userId: string,
+  request: SpeakerReassignRequest
+): Promise<SpeakerReassignResult> {
+  const toName = normalizeName(request.toName || '');
+  if (!CHARACTER_NAME_REGEX.test(toName)) {
+    throw new SpeakerReassignError('toName must start with a letter and contain only letters, digits, spaces, dots or dashes');
+  }
+  if (!request.speakerId === !request.fromName) {
+    throw new SpeakerReassignError('Provide either speakerId or fromName');
+  }
+
+  const { isPrimary, serviceClient, chunkProgress } = await loadSheetState(supabase, videoId, sheetId);
+  const [entries, context] = await Promise.all([
+    fetchOrderedEntries(supabase, sheetId),
+    loadDiarizationContext(supabase, videoId),
+  ]);
+
+  const map = context.speakerCharacterMap;
+  const speakerIds = collectSpeakerIds(context);
+
+  let fromName: string;
+  let reassignedSpeakers: string[];
+  let accept: (entry: MontageEntry) => (text: string) => boolean | null = () => () => true;
+
+  if (request.speakerId) {
+    const speakerId = request.speakerId;
+    if (!speakerIds.includes(speakerId)) {
+      throw new SpeakerReassignError(`Unknown speaker: ${speakerId}`, 404);
+    }
+
+    fromName = speakerLabel(map, speakerId);
+    reassignedSpeakers = [speakerId];
+
+    // Под тем же именем выводятся и другие speaker — блок относим по словам
+    const sharers = speakerIds.filter(id => id !== speakerId && speakerLabel(map, id) === fromName);
+    if (sharers.length > 0) {
+      accept = entry => {
+        const words = wordsInEntry(entry, context);
+        return text => {
+          const own = scoreSpeaker(text, words, speakerId);
+          const best = Math.max(...sharers.map(id => scoreSpeaker(text, words, id)));
+          if (own === 0 && best === 0) return null;
+          return own > best;
+        };
+      };
+    }
+  } else {
+    fromName = normalizeName(request.fromName!);
+    reassignedSpeakers = speakerIds.filter(id => speakerLabel(map, id) === fromName);
+  }
+
+  if (fromName === toName) {
+    throw new SpeakerReassignError('New name matches the current one');
+  }
+
+  // ─── Реплики ──────────────────────────────────────────────────────────
+  let changedBlocks = 0;
+  let unresolvedBlocks = 0;
+  const changes: Array<{ before: MontageEntry; after: MontageEntry }> = [];
+
+  for (const entry of entries) {
+    const result = reassignDialogues(entry.dialogues, fromName, toName, accept(entry));
+    changedBlocks += result.changed;
+    unresolvedBlocks += result.unresolved;
+
+    if (result.changed > 0) {
+      changes.push({ before: entry, after: { ...entry, dialogues: result.dialogues } });
+    }
+  }
+
+  if (changes.length === 0 && (!isPrimary || reassignedSpeakers.length === 0)) {
+    throw new SpeakerReassignError(`No dialogues found for ${request.speakerId || fromName}`, 404);
+  }
+
+  const revisions = createRevisionContext(sheetId, userId, 'reassign-speaker');
+
+  if (changes.length > 0) {
+    const { error } = await supabase
+      .from('montage_entries')
+      .upsert(changes.map(c => c.after), { onConflict: 'id' });
+
+    if (error) {
+      throw new Error(`Failed to update dialogues: ${error.message}`);
+    }
+
+    await recordRevisions(supabase, revisions, changes);
+  }
+
+  // ─── Маппинг ──────────────────────────────────────────────────────────
+  const mapBefore: Record<string, string | null> = {};
+  const mapAfter: Record<string, string> = {};
+  let speakerCharacterMap: Record<string, string> | null = null;
+
+  if (isPrimary) {
+    speakerCharacterMap = { ...map };
+    for (const id of reassignedSpeakers) {
+      mapBefore[id] = map[id] ?? null;
+      mapAfter[id] = toName;
+      speakerCharacterMap[id] = toName;
+    }
+  }
+
+  const reassignment: SpeakerReassignment = {
+    batchId: revisions.batchId,
+    sheetId,
+    speakerId: request.speakerId || null,
+    fromName,
+    toName,
+    mapBefore,
+    mapAfter,
+    createdAt: new Date().toISOString(),
+  };
+
+  const { error: progressError } = await serviceClient
+    .from('videos')
+    .update({
+      chunk_progress_json: {
+        ...chunkProgress,
+        ...(speakerCharacterMap && { speakerCharacterMap }),
+        speakerReassignments: [
+          ...(chunkProgress.speakerReassignments || []),
+          reassignment,
+        ].slice(-MAX_STORED_REASSIGNMENTS),
+      },
+    })
+    .eq('id', videoId);
+
+  if (progressError) {
+    throw new Error(`Failed to save speaker mapping: ${progressError.message}`);
+  }
+
+  console.log(
+    `🗣️  Reassigned ${request.speakerId ? `speaker ${request.speakerId}` : fromName} → ${toName}: ` +
+    `${changedBlocks} blocks in ${changes.length} entries` +
+    (unresolvedBlocks > 0 ? `, ${unresolvedBlocks} unresolved` : '')
+  );
+
+  // Исправленный маппинг основного листа заменяет вклад серии в реестр сериала
+  if (speakerCharacterMap) {
+    await learnEpisodeCharactersSafely(videoId);
+  }
+
+  const changedById = new Map(changes.map(c => [c.after.id, c.after]));
+
+  return {
+    batchId: revisions.batchId,
+    fromName,
+    toName,
+    changedEntries: changes.length,
+    changedBlocks,
+    unresolvedBlocks,
+    speakerCharacterMap,
+    entries: entries.map(e => changedById.get(e.id) || e),
+  };
+}
+
+/**
+ * Отмена переназначения: реплики планов и маппинг возвращаются как были
+ *
+ * Планы, которые успели изменить после переназначения, и speaker, которых
+ * успели переназначить снова, не трогаем.
+ */
+export async function undoSpeakerReassignment(
+  supabase: SupabaseClient,
+  videoId: string,
+  sheetId: string,
+  userId: string,
+  batchId: string
+): Promise<UndoSpeakerReassignResult> {
+  const { serviceClient, chunkProgress } = await loadSheetState(supabase, videoId, sheetId);
+
+  const stored: SpeakerReassignment[] = chunkProgress.speakerReassignments || [];
+  const reassignment = stored.find(r => r.batchId === batchId && r.sheetId === sheetId);
+  if (!reassignment) {
+    throw new SpeakerReassignError('Speaker reassignment not found', 404);
+  }
+
+  const { data: batch, error: batchError } = await supabase
+    .from('montage_entry_revisions')
+    .select('*')
+    .eq('batch_id', batchId)
+    .eq('sheet_id', sheetId);
+
+  if (batchError) {
+    throw new Error(`Failed to fetch revisions: ${batchError.message}`);
+  }
+
+  const entries = await fetchOrderedEntries(supabase, sheetId);
+  const changes: Array<{ before: MontageEntry; after: MontageEntry }> = [];
+  let skippedEntries = 0;
+
+  for (const revision of (batch || []) as MontageEntryRevision[]) {
+    const current = entries.find(e => e.id === revision.entry_id);
+    if (!current || !revision.before || (current.dialogues ?? '') !== revision.after?.dialogues) {
+      skippedEntries++;
+      continue;
+    }
+
+    changes.push({ before: current, after: { ...current, dialogues: revision.before.dialogues } });
+  }
+
+  if (changes.length > 0) {
+    const { error } = await supabase
+      .from('montage_entries')
+      .upsert(changes.map(c => c.after), { onConflict: 'id' });
+
+    if (error) {
+      throw new Error(`Failed to revert dialogues: ${error.message}`);
+    }
+
+    await recordRevisions(supabase, createRevisionContext(sheetId, userId, 'reassign-speaker-undo'), changes);
+  }
+
+  let speakerCharacterMap: Record<string, string> | null = null;
+  if (Object.keys(reassignment.mapAfter).length > 0) {
+    const restored: Record<string, string> = { ...(chunkProgress.speakerCharacterMap || {}) };
+    for (const [id, before] of Object.entries(reassignment.mapBefore)) {
+      if (restored[id] !== reassignment.mapAfter[id]) continue;
+      if (before === null) {
+        delete restored[id];
+      } else {
+        restored[id] = before;
+      }
+    }
+    speakerCharacterMap = restored;
+  }
+
+  const { error: progressError } = await serviceClient
+    .from('videos')
+    .update({
+      chunk_progress_json: {
+        ...chunkProgress,
+        ...(speakerCharacterMap && { speakerCharacterMap }),
+        speakerReassignments: stored.filter(r => r.batchId !== batchId),
+      },
+    })
+    .eq('id', videoId);
+
+  if (progressError) {
+    throw new Error(`Failed to save speaker mapping: ${progressError.message}`);
+  }
+
+  console.log(`↩️  Undid speaker reassignment ${reassignment.fromName} → ${reassignment.toName}: ${changes.length} entries`);
+
+  if (speakerCharacterMap) {
+    await learnEpisodeCharactersSafely(videoId);
+  }
+
+  const revertedById = new Map(changes.map(c => [c.after.id, c.after]));
+
+  return {
+    revertedEntries: changes.length,
+    skippedEntries,
+    speakerCharacterMap,
+    entries: entries.map(e => revertedById.get(e.id) || e),
+  };
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import type { MontageEntry } from '@/types';
+import type { DiarizationContext } from './plan-operations';
+import {
+  buildSubtitleCues,
+  formatSubtitles,
+  parseSubtitleOptions,
+  SubtitleExportError,
+  type SubtitleCue,
+} from './subtitle-export';
+
+function entry(planNumber: number, start: string, end: string, dialogues: string): MontageEntry {
+  return {
+    id: `entry-${planNumber}`,
+    sheet_id: 'sheet-1',
+    plan_number: planNumber,
+    start_timecode: start,
+    end_timecode: end,
+    dialogues,
+    order_index: planNumber,
+    created_at: '',
+    updated_at: '',
+  };
+}
+
+function context(words: DiarizationContext['words'] = []): DiarizationContext {
+  return { words, speakerCharacterMap: { A: 'АННА', B: 'БОРИС' }, fps: 25 };
+}
+
+describe('buildSubtitleCues', () => {
+  it('times cues by diarization words', () => {
+    const cues = buildSubtitleCues(
+      [entry(1, '00:00:00:00', '00:00:04:00', 'АННА\nПривет, Борис.')],
+      context([
+        { text: 'Привет,', startMs: 500, endMs: 900, speaker: 'A' },
+        { text: 'Борис.', startMs: 1000, endMs: 1500, speaker: 'A' },
+      ])
+    );
+
+    expect(cues).toEqual([{ startMs: 500, endMs: 1500, lines: ['Привет, Борис.'], italic: false }]);
+  });
+
+  it('glues an utterance continued in the next plan', () => {
+    const cues = buildSubtitleCues(
+      [
+        entry(1, '00:00:00:00', '00:00:02:00', 'АННА\nЯ пришла'),
+        entry(2, '00:00:02:00', '00:00:04:00', 'АННА\nдомой.'),
+      ],
+      context([
+        { text: 'Я', startMs: 1000, endMs: 1200, speaker: 'A' },
+        { text: 'пришла', startMs: 1300, endMs: 1900, speaker: 'A' },
+        { text: 'домой.', startMs: 2100, endMs: 2600, speaker: 'A' },
+      ])
+    );
+
+    expect(cues).toEqual([{ startMs: 1000, endMs: 2600, lines: ['Я пришла домой.'], italic: false }]);
+  });
+
+  it('spreads unmatched blocks over the plan and italicises voice-over', () => {
+    const cues = buildSubtitleCues(
+      [entry(1, '00:00:00:00', '00:00:04:00', 'БОРИС ЗК\nДа.\n\nМузыка')],
+      context()
+    );
+
+    expect(cues).toEqual([{ startMs: 0, endMs: 4000, lines: ['Да.'], italic: true }]);
+  });
+
+  it('splits long text into cues and adds the speaker prefix', () => {
+    const cues = buildSubtitleCues(
+      [entry(1, '00:00:00:00', '00:00:04:00', 'АННА\nРаз два три четыре')],
+      context(),
+      { maxLineLength: 16, maxLines: 1, speakerPrefix: true }
+    );
+
+    expect(cues.map(c => c.lines)).toEqual([['АННА: Раз два'], ['три четыре']]);
+    expect(cues[1].startMs).toBeCloseTo((4000 * 13) / 23);
+  });
+
+  it('extends short cues up to the gap before the next one', () => {
+    const cues = buildSubtitleCues(
+      [entry(1, '00:00:00:00', '00:00:02:00', 'АННА\nДа.\n\nБОРИС\nНет.')],
+      context([
+        { text: 'Да.', startMs: 0, endMs: 200, speaker: 'A' },
+        { text: 'Нет.', startMs: 600, endMs: 900, speaker: 'B' },
+      ])
+    );
+
+    expect(cues.map(c => [c.startMs, c.endMs])).toEqual([[0, 520], [600, 1600]]);
+  });
+});
+
+describe('formatSubtitles', () => {
+  const cues: SubtitleCue[] = [
+    { startMs: 500, endMs: 1500, lines: ['<Привет>', 'мир'], italic: false },
+    { startMs: 61000, endMs: 62345, lines: ['{Да}'], italic: true },
+  ];
+
+  it('formats SRT with comma milliseconds and escaped tags', () => {
+    expect(formatSubtitles(cues, 'srt')).toBe(
+      '1\n00:00:00,500 --> 00:00:01,500\n&lt;Привет&gt;\nмир\n\n' +
+      '2\n00:01:01,000 --> 00:01:02,345\n<i>{Да}</i>\n'
+    );
+  });
+
+  it('formats VTT with a header and dot milliseconds', () => {
+    expect(formatSubtitles(cues, 'vtt')).toMatch(/^WEBVTT\n\n1\n00:00:00\.500 --> 00:00:01\.500\n/);
+  });
+
+  it('formats ASS events with centiseconds and italic tags', () => {
+    const lines = formatSubtitles(cues, 'ass', 'Серия 1').split('\n');
+
+    expect(lines).toContain('Title: Серия 1');
+    expect(lines).toContain('Dialogue: 0,0:00:00.50,0:00:01.50,Default,,0,0,0,,<Привет>\\Nмир');
+    expect(lines).toContain('Dialogue: 0,0:01:01.00,0:01:02.34,Default,,0,0,0,,{\\i1}Да{\\i0}');
+  });
+});
+
+describe('parseSubtitleOptions', () => {
+  it('reads the speaker flag and numeric limits', () => {
+    expect(parseSubtitleOptions(new URLSearchParams('speakers=1&maxLines=1&maxCps=20'))).toEqual({
+      speakerPrefix: true,
+      maxLines: 1,
+      maxCharsPerSecond: 20,
+    });
+  });
+
+  it('rejects out-of-range values', () => {
+    expect(() => parseSubtitleOptions(new URLSearchParams('maxLines=9'))).toThrow(SubtitleExportError);
+    expect(() => parseSubtitleOptions(new URLSearchParams('maxLineLength=abc'))).toThrow('Invalid maxLineLength');
+  });
+});
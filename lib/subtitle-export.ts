@@ -0,0 +1,409 @@
+/**
+ * Subtitle Export — субтитры (SRT / WebVTT / ASS) из колонки диалогов
+ *
+ * Текст берётся из колонки "Монологи, разговоры" (в ней правки редактора),
+ * тайминг — из слов полной диаризации (fullDiarizationWords):
+ * - блок "ИМЯ\nтекст" плана сопоставляется с группой слов того же персонажа
+ *   внутри плана; без слов (ручной план, лист без V5) — делим время плана
+ *   пропорционально длине реплик
+ * - реплика, разрезанная по планам (см. examples/FORMAT_RULES.md, "Сплит
+ *   реплик"), склеивается обратно — субтитр строится на реплику, а не на план
+ * - реплика режется на титры по длине строки; короткие титры растягиваются
+ *   до допустимой скорости чтения за счёт паузы после них
+ * - ЗК / ГЗ — курсивом
+ *
+ * Блоки без имени ("Музыка", "Смех") — не речь, в субтитры не попадают.
+ */
+
+import type { MontageEntry } from '@/types';
+import type { DiarizationContext, DiarizationWord } from './plan-operations';
+import { parseDialogueBlocks } from './plan-operations';
+import { timecodeToMs } from './video-chunking';
+import { DIALOGUE_PAUSE_THRESHOLD_MS } from './config';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const SUBTITLE_FORMATS = ['srt', 'vtt', 'ass'] as const;
+export type SubtitleFormat = typeof SUBTITLE_FORMATS[number];
+
+export interface SubtitleOptions {
+  /** Имя персонажа перед первой строкой реплики ("ГАЛЯ: ...") */
+  speakerPrefix: boolean;
+  /** Максимум символов в строке */
+  maxLineLength: number;
+  /** Максимум строк в титре */
+  maxLines: number;
+  /** Максимальная скорость чтения, символов в секунду */
+  maxCharsPerSecond: number;
+  minDurationMs: number;
+  /** Минимальный зазор между титрами (≈2 кадра) */
+  minGapMs: number;
+}
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  speakerPrefix: false,
+  maxLineLength: 42,
+  maxLines: 2,
+  maxCharsPerSecond: 17,
+  minDurationMs: 1000,
+  minGapMs: 80,
+};
+
+export interface SubtitleCue {
+  startMs: number;
+  endMs: number;
+  lines: string[];
+  italic: boolean;
+}
+
+/** Реплика целиком: блок диалога с таймингом (возможно, из нескольких планов) */
+interface Utterance {
+  character: string;
+  suffix: string;
+  text: string;
+  startMs: number;
+  endMs: number;
+}
+
+/** Пометки, которые в субтитрах выделяются курсивом */
+const ITALIC_SUFFIXES = new Set(['ЗК', 'ГЗ', 'ГЗК']);
+
+export class SubtitleExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubtitleExportError';
+  }
+}
+
+/**
+ * Параметры из query: speakers=1, maxLineLength, maxLines, maxCps
+ */
+export function parseSubtitleOptions(params: URLSearchParams): Partial<SubtitleOptions> {
+  const options: Partial<SubtitleOptions> = {
+    speakerPrefix: params.get('speakers') === '1',
+  };
+
+  const numeric: Array<[param: string, key: keyof SubtitleOptions, min: number, max: number]> = [
+    ['maxLineLength', 'maxLineLength', 10, 100],
+    ['maxLines', 'maxLines', 1, 4],
+    ['maxCps', 'maxCharsPerSecond', 5, 40],
+  ];
+
+  for (const [param, key, min, max] of numeric) {
+    const raw = params.get(param);
+    if (raw === null) continue;
+
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < min || value > max) {
+      throw new SubtitleExportError(`Invalid ${param}: expected a number between ${min} and ${max}`);
+    }
+    (options[key] as number) = value;
+  }
+
+  return options;
+}
+
+export function isSubtitleFormat(value: unknown): value is SubtitleFormat {
+  return typeof value === 'string' && (SUBTITLE_FORMATS as readonly string[]).includes(value);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// UTTERANCES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Группы слов плана по персонажу — так же, как их собирает buildDialoguesFromWords
+ * (соседние блоки одного персонажа склеены)
+ */
+function groupPlanWords(words: DiarizationWord[], context: DiarizationContext) {
+  const groups: Array<{ character: string; startMs: number; endMs: number }> = [];
+
+  for (const word of words) {
+    const speaker = word.speaker || 'UNKNOWN';
+    const character = context.speakerCharacterMap[speaker] || speaker;
+    const last = groups[groups.length - 1];
+
+    if (last && last.character === character) {
+      last.endMs = word.endMs;
+    } else {
+      groups.push({ character, startMs: word.startMs, endMs: word.endMs });
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Реплики одного плана с таймингом
+ */
+function planUtterances(entry: MontageEntry, context: DiarizationContext): Utterance[] {
+  const planStartMs = timecodeToMs(entry.start_timecode, context.fps);
+  const planEndMs = timecodeToMs(entry.end_timecode, context.fps);
+
+  const blocks = parseDialogueBlocks(entry.dialogues).filter(
+    (b): b is typeof b & { character: string } => !!b.character && !!b.text.trim()
+  );
+  if (blocks.length === 0) return [];
+
+  const words = context.words
+    .filter(w => w.startMs >= planStartMs && w.startMs < planEndMs && w.text?.trim())
+    .sort((a, b) => a.startMs - b.startMs);
+  const groups = groupPlanWords(words, context);
+
+  // Блоки и группы слов идут в одном порядке; ищем группу того же персонажа дальше по списку
+  let groupIndex = 0;
+  const timings = blocks.map(block => {
+    for (let i = groupIndex; i < groups.length; i++) {
+      if (groups[i].character === block.character) {
+        groupIndex = i + 1;
+        return { startMs: groups[i].startMs, endMs: Math.min(groups[i].endMs, planEndMs) };
+      }
+    }
+    return null;
+  });
+
+  // Несопоставленные блоки — пропорционально длине текста в свободной части плана
+  const unmatched = blocks.filter((_, i) => !timings[i]);
+  if (unmatched.length > 0) {
+    const totalChars = unmatched.reduce((sum, b) => sum + b.text.length, 0);
+    let cursorMs = planStartMs;
+    blocks.forEach((block, i) => {
+      if (timings[i]) {
+        cursorMs = Math.max(cursorMs, timings[i]!.endMs);
+        return;
+      }
+      const share = ((planEndMs - planStartMs) * block.text.length) / totalChars;
+      const startMs = Math.min(cursorMs, planEndMs);
+      timings[i] = { startMs, endMs: Math.min(startMs + share, planEndMs) };
+      cursorMs = timings[i]!.endMs;
+    });
+  }
+
+  return blocks.map((block, i) => ({
+    character: block.character,
+    suffix: block.suffix,
+    text: block.text.replace(/\s+/g, ' ').trim(),
+    startMs: timings[i]!.startMs,
+    endMs: timings[i]!.endMs,
+  }));
+}
+
+/**
+ * Реплики всего листа; реплика, продолжающаяся в следующем плане, склеивается
+ */
+function buildUtterances(entries: MontageEntry[], context: DiarizationContext): Utterance[] {
+  const utterances: Utterance[] = [];
+  let previousPlanLast: Utterance | null = null;
+
+  for (const entry of entries) {
+    const planUtts = planUtterances(entry, context);
+
+    for (const [i, utterance] of planUtts.entries()) {
+      if (
+        i === 0 &&
+        previousPlanLast &&
+        previousPlanLast.character === utterance.character &&
+        previousPlanLast.suffix === utterance.suffix &&
+        utterance.startMs - previousPlanLast.endMs <= DIALOGUE_PAUSE_THRESHOLD_MS
+      ) {
+        previousPlanLast.text = `${previousPlanLast.text} ${utterance.text}`;
+        previousPlanLast.endMs = Math.max(previousPlanLast.endMs, utterance.endMs);
+      } else {
+        utterances.push(utterance);
+      }
+    }
+
+    // Последняя реплика плана (склеенная или новая) — кандидат на продолжение
+    if (planUtts.length > 0) {
+      previousPlanLast = utterances[utterances.length - 1];
+    } else if (entry.dialogues?.trim()) {
+      // "Музыка" и т.п. между репликами разрывает склейку
+      previousPlanLast = null;
+    }
+  }
+
+  return utterances.sort((a, b) => a.startMs - b.startMs);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CUES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Режет текст реплики на титры (не больше maxLines строк по maxLineLength)
+ * Титр заканчивается раньше, если на половине объёма встретился конец фразы.
+ */
+function splitIntoCueLines(text: string, options: SubtitleOptions): string[][] {
+  const cues: string[][] = [];
+  let lines: string[] = [];
+  let line = '';
+  const cueCapacity = options.maxLineLength * options.maxLines;
+
+  const flushCue = () => {
+    if (line) lines.push(line);
+    if (lines.length > 0) cues.push(lines);
+    lines = [];
+    line = '';
+  };
+
+  for (const word of text.split(' ').filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+
+    if (candidate.length <= options.maxLineLength || !line) {
+      line = candidate;
+    } else {
+      lines.push(line);
+      line = word;
+      // Титр заполнен — слово начинает следующий
+      if (lines.length >= options.maxLines) {
+        cues.push(lines);
+        lines = [];
+      }
+    }
+
+    const filled = lines.join(' ').length + line.length;
+    if (/[.!?…]$/.test(word) && filled >= cueCapacity / 2) {
+      flushCue();
+    }
+  }
+  flushCue();
+
+  return cues;
+}
+
+/**
+ * Разбивает реплики на титры и выравнивает тайминг
+ */
+export function buildSubtitleCues(
+  entries: MontageEntry[],
+  context: DiarizationContext,
+  overrides: Partial<SubtitleOptions> = {}
+): SubtitleCue[] {
+  const options = { ...DEFAULT_SUBTITLE_OPTIONS, ...overrides };
+  const cues: SubtitleCue[] = [];
+
+  for (const utterance of buildUtterances(entries, context)) {
+    const text = options.speakerPrefix ? `${utterance.character}: ${utterance.text}` : utterance.text;
+    const parts = splitIntoCueLines(text, options);
+    const totalChars = parts.reduce((sum, lines) => sum + lines.join(' ').length, 0);
+    const italic = ITALIC_SUFFIXES.has(utterance.suffix);
+
+    // Время реплики делится между титрами пропорционально длине
+    let cursorMs = utterance.startMs;
+    for (const lines of parts) {
+      const share = ((utterance.endMs - utterance.startMs) * lines.join(' ').length) / totalChars;
+      cues.push({ startMs: cursorMs, endMs: cursorMs + share, lines, italic });
+      cursorMs += share;
+    }
+  }
+
+  cues.sort((a, b) => a.startMs - b.startMs);
+
+  // Скорость чтения и минимальная длительность: растягиваем конец, не наезжая на следующий титр
+  cues.forEach((cue, i) => {
+    const chars = cue.lines.join(' ').length;
+    const requiredMs = Math.max(options.minDurationMs, (chars / options.maxCharsPerSecond) * 1000);
+    const next = cues[i + 1];
+    const limitMs = next ? next.startMs - options.minGapMs : Infinity;
+
+    if (cue.endMs - cue.startMs < requiredMs) {
+      cue.endMs = Math.max(cue.endMs, Math.min(cue.startMs + requiredMs, limitMs));
+    }
+    // Одновременные реплики: обрезаем предыдущую, но не короче кадра
+    if (next && cue.endMs > limitMs) {
+      cue.endMs = Math.max(limitMs, cue.startMs + 40);
+    }
+  });
+
+  return cues;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FORMATTERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function splitMs(ms: number) {
+  const total = Math.max(0, Math.round(ms));
+  return {
+    hours: Math.floor(total / 3600000),
+    minutes: Math.floor((total % 3600000) / 60000),
+    seconds: Math.floor((total % 60000) / 1000),
+    millis: total % 1000,
+  };
+}
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+/** 00:01:02,345 (SRT) / 00:01:02.345 (VTT) */
+function formatClock(ms: number, separator: ',' | '.'): string {
+  const t = splitMs(ms);
+  return `${pad(t.hours)}:${pad(t.minutes)}:${pad(t.seconds)}${separator}${pad(t.millis, 3)}`;
+}
+
+/** 0:01:02.34 (ASS — сотые доли) */
+function formatAssClock(ms: number): string {
+  const t = splitMs(ms);
+  return `${t.hours}:${pad(t.minutes)}:${pad(t.seconds)}.${pad(Math.floor(t.millis / 10))}`;
+}
+
+function escapeTags(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function formatSrt(cues: SubtitleCue[]): string {
+  return cues.map((cue, i) => {
+    const text = cue.lines.map(escapeTags).join('\n');
+    return `${i + 1}\n${formatClock(cue.startMs, ',')} --> ${formatClock(cue.endMs, ',')}\n${cue.italic ? `<i>${text}</i>` : text}\n`;
+  }).join('\n');
+}
+
+function formatVtt(cues: SubtitleCue[]): string {
+  const body = cues.map((cue, i) => {
+    const text = cue.lines.map(escapeTags).join('\n');
+    return `${i + 1}\n${formatClock(cue.startMs, '.')} --> ${formatClock(cue.endMs, '.')}\n${cue.italic ? `<i>${text}</i>` : text}\n`;
+  }).join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+function formatAss(cues: SubtitleCue[], title: string): string {
+  const header = [
+    '[Script Info]',
+    `Title: ${title}`,
+    'ScriptType: v4.00+',
+    'WrapStyle: 0',
+    'PlayResX: 1920',
+    'PlayResY: 1080',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    'Style: Default,Arial,56,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,2,1,2,60,60,50,204',
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  const events = cues.map(cue => {
+    // Фигурные скобки в ASS — теги оверрайда
+    const text = cue.lines.map(l => l.replace(/[{}]/g, '')).join('\\N');
+    return `Dialogue: 0,${formatAssClock(cue.startMs)},${formatAssClock(cue.endMs)},Default,,0,0,0,,${cue.italic ? `{\\i1}${text}{\\i0}` : text}`;
+  });
+
+  return [...header, ...events, ''].join('\n');
+}
+
+/**
+ * Текст файла субтитров в заданном формате
+ */
+export function formatSubtitles(cues: SubtitleCue[], format: SubtitleFormat, title = ''): string {
+  switch (format) {
+    case 'srt':
+      return formatSrt(cues);
+    case 'vtt':
+      return formatVtt(cues);
+    case 'ass':
+      return formatAss(cues, title);
+  }
+}
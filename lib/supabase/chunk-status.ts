@@ -1,20 +1,254 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { createServiceRoleClient } from './server';
+import type { VideoChunk } from '@/types';
+
+/**
+ * Статусы чанков
+ * 
+ * V5: строки таблицы video_chunks — каждый чанк обновляется отдельным UPDATE,
+ * гонок между параллельными чанками нет.
+ * V3/V4 (видео без строк в video_chunks): chunk_progress_json.chunks через RPC
+ * update_chunk_status.
+ */
+
+export type ChunkStatus = 'pending' | 'processing' | 'ready' | 'in_progress' | 'paused' | 'completed' | 'failed';
+
+/** Чанк в формате chunk_progress_json.chunks — для кода, читающего прогресс по-старому */
+export interface ProgressChunk {
+  index: number;
+  status: string;
+  startTimecode: string;
+  endTimecode: string;
+  storageUrl: string | null;
+  error?: string;
+}
+
+/** Что ещё записать вместе со статусом (только video_chunks) */
+export interface ChunkStatusDetails {
+  attempts?: number;
+  /** Провайдер визуального анализа */
+  provider?: string;
+  plansCreated?: number;
+  durationMs?: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VIDEO CHUNKS (V5)
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Строки чанков при init-processing-v5 (повторная обработка — с чистого листа)
+ */
+export async function insertVideoChunks(
+  videoId: string,
+  chunks: Array<{ chunkIndex: number; startTimecode: string; endTimecode: string }>
+): Promise<void> {
+  const supabase = createServiceRoleClient();
+
+  const { error: deleteError } = await supabase
+    .from('video_chunks')
+    .delete()
+    .eq('video_id', videoId);
+
+  if (deleteError) {
+    throw new Error(`Failed to reset video chunks: ${deleteError.message}`);
+  }
+
+  const { error } = await supabase
+    .from('video_chunks')
+    .insert(chunks.map(chunk => ({
+      video_id: videoId,
+      chunk_index: chunk.chunkIndex,
+      status: 'pending',
+      start_timecode: chunk.startTimecode,
+      end_timecode: chunk.endTimecode,
+    })));
+
+  if (error) {
+    throw new Error(`Failed to create video chunks: ${error.message}`);
+  }
+}
+
+/**
+ * Чанк нарезан и загружен — готов к обработке
+ */
+export async function setChunkStorageUrl(videoId: string, chunkIndex: number, storageUrl: string): Promise<void> {
+  const supabase = createServiceRoleClient();
+
+  const { error } = await supabase
+    .from('video_chunks')
+    .update({ storage_url: storageUrl, status: 'ready', updated_at: new Date().toISOString() })
+    .eq('video_id', videoId)
+    .eq('chunk_index', chunkIndex);
+
+  if (error) {
+    throw new Error(`Failed to save chunk ${chunkIndex} URL: ${error.message}`);
+  }
+}
+
+/**
+ * Пауза: необработанные чанки ждут продолжения (in_progress дорабатывают сами)
+ *
+ * @returns сколько чанков поставлено на паузу
+ */
+export async function pauseVideoChunks(videoId: string): Promise<number> {
+  const supabase = createServiceRoleClient();
+
+  const { data, error } = await supabase
+    .from('video_chunks')
+    .update({ status: 'paused', updated_at: new Date().toISOString() })
+    .eq('video_id', videoId)
+    .in('status', ['pending', 'ready', 'failed'])
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to pause video chunks: ${error.message}`);
+  }
+  return data?.length || 0;
+}
+
+/**
+ * Продолжение: чанки с паузы — в 'ready' (загруженные) или 'pending'
+ */
+export async function resumeVideoChunks(videoId: string): Promise<void> {
+  const supabase = createServiceRoleClient();
+  const now = new Date().toISOString();
+
+  const { error: readyError } = await supabase
+    .from('video_chunks')
+    .update({ status: 'ready', error: null, updated_at: now })
+    .eq('video_id', videoId)
+    .eq('status', 'paused')
+    .not('storage_url', 'is', null);
+
+  const { error: pendingError } = await supabase
+    .from('video_chunks')
+    .update({ status: 'pending', error: null, updated_at: now })
+    .eq('video_id', videoId)
+    .eq('status', 'paused');
+
+  const error = readyError || pendingError;
+  if (error) {
+    throw new Error(`Failed to resume video chunks: ${error.message}`);
+  }
+}
+
+export async function getVideoChunks(
+  videoId: string,
+  supabase: SupabaseClient = createServiceRoleClient()
+): Promise<VideoChunk[]> {
+  const { data, error } = await supabase
+    .from('video_chunks')
+    .select('*')
+    .eq('video_id', videoId)
+    .order('chunk_index', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load video chunks: ${error.message}`);
+  }
+  return (data || []) as VideoChunk[];
+}
+
+export function toProgressChunk(chunk: VideoChunk): ProgressChunk {
+  return {
+    index: chunk.chunk_index,
+    status: chunk.status,
+    startTimecode: chunk.start_timecode,
+    endTimecode: chunk.end_timecode,
+    storageUrl: chunk.storage_url,
+    ...(chunk.error ? { error: chunk.error } : {}),
+  };
+}
+
+/**
+ * chunk_progress_json + чанки из video_chunks (chunks, totalChunks, completedChunks)
+ * Видео без строк video_chunks (V3/V4) — прогресс как есть.
+ */
+export function mergeChunkProgress<T extends object>(progress: T, chunks: VideoChunk[]) {
+  if (chunks.length === 0) return progress;
+
+  return {
+    ...progress,
+    chunks: chunks.map(toProgressChunk),
+    totalChunks: chunks.length,
+    completedChunks: chunks.filter(c => c.status === 'completed').length,
+  };
+}
+
+/**
+ * Прогресс видео для роутов, которые читают chunk_progress_json.chunks
+ */
+export async function loadChunkProgress(
+  videoId: string,
+  supabase: SupabaseClient = createServiceRoleClient()
+) {
+  const { data: video } = await supabase
+    .from('videos')
+    .select('chunk_progress_json')
+    .eq('id', videoId)
+    .single();
+
+  if (!video?.chunk_progress_json) return null;
+
+  const chunks = await getVideoChunks(videoId, supabase);
+  return mergeChunkProgress(video.chunk_progress_json, chunks);
+}
+
+function buildChunkUpdate(status: ChunkStatus, error?: string, details: ChunkStatusDetails = {}) {
+  const now = new Date().toISOString();
+  const update: Record<string, unknown> = { status, error: error || null, updated_at: now };
+
+  if (status === 'in_progress') {
+    update.started_at = now;
+    update.completed_at = null;
+  } else if (status === 'completed' || status === 'failed') {
+    update.completed_at = now;
+  }
+
+  if (details.attempts !== undefined) update.attempts = details.attempts;
+  if (details.provider !== undefined) update.provider = details.provider;
+  if (details.plansCreated !== undefined) update.plans_created = details.plansCreated;
+  if (details.durationMs !== undefined) update.duration_ms = Math.round(details.durationMs);
+
+  return update;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STATUS UPDATE
+// ═══════════════════════════════════════════════════════════════════════════
 
 /**
  * Атомарное обновление статуса чанка
  * Решает проблему race condition при параллельной обработке
  * 
- * Вместо read-modify-write делаем UPDATE с jsonb_set
+ * V5 — строка video_chunks; V3/V4 — UPDATE с jsonb_set вместо read-modify-write
  */
 export async function updateChunkStatus(
   videoId: string,
   chunkIndex: number,
-  status: 'pending' | 'processing' | 'completed' | 'failed',
-  error?: string
+  status: ChunkStatus,
+  error?: string,
+  details?: ChunkStatusDetails
 ): Promise<boolean> {
   const supabase = createServiceRoleClient();
   
   try {
+    const { data: rows, error: tableError } = await supabase
+      .from('video_chunks')
+      .update(buildChunkUpdate(status, error, details))
+      .eq('video_id', videoId)
+      .eq('chunk_index', chunkIndex)
+      .select('id');
+
+    if (tableError) {
+      console.error(`Failed to update chunk ${chunkIndex} in video_chunks:`, tableError);
+      return false;
+    }
+    if (rows && rows.length > 0) {
+      return true;
+    }
+
+    // Строки нет — видео V3/V4, чанки в chunk_progress_json
     // Используем raw SQL через RPC для атомарного обновления
     // Это решает race condition при параллельных обновлениях
     const { error: rpcError } = await supabase.rpc('update_chunk_status', {
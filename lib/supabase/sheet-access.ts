@@ -0,0 +1,80 @@
+import { createClient } from './server';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+export interface SheetAccess {
+  supabase: ServerClient;
+  userId: string;
+  videoId: string;
+  sheetId: string;
+}
+
+export interface SheetAccessError {
+  error: string;
+  status: number;
+}
+
+/**
+ * Проверяет, что текущий пользователь владеет видео и его монтажным листом
+ *
+ * Возвращает клиент с сессией пользователя (RLS остаётся вторым уровнем защиты),
+ * поэтому все изменения montage_entries должны идти через него.
+ *
+ * sheetId — конкретная версия листа; без него берётся основной лист,
+ * в который пишет пайплайн обработки.
+ */
+export async function getOwnedSheet(
+  videoId: string,
+  sheetId?: string | null
+): Promise<SheetAccess | SheetAccessError> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: 'Unauthorized', status: 401 };
+  }
+
+  const { data: video, error: videoError } = await supabase
+    .from('videos')
+    .select('id')
+    .eq('id', videoId)
+    .eq('user_id', user.id)
+    .single();
+
+  if (videoError || !video) {
+    return { error: 'Video not found', status: 404 };
+  }
+
+  let sheetQuery = supabase
+    .from('montage_sheets')
+    .select('id')
+    .eq('video_id', videoId)
+    .eq('user_id', user.id);
+
+  // Без версии берём самый старый основной лист — как и страница дашборда (дубликаты возможны)
+  sheetQuery = sheetId
+    ? sheetQuery.eq('id', sheetId)
+    : sheetQuery.eq('is_primary', true).order('created_at', { ascending: true });
+
+  const { data: sheet, error: sheetError } = await sheetQuery.limit(1).maybeSingle();
+
+  if (sheetError || !sheet) {
+    return { error: 'Montage sheet not found', status: 404 };
+  }
+
+  return {
+    supabase,
+    userId: user.id,
+    videoId,
+    sheetId: sheet.id,
+  };
+}
+
+export function isSheetAccessError(
+  access: SheetAccess | SheetAccessError
+): access is SheetAccessError {
+  return 'error' in access;
+}
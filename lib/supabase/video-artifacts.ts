@@ -0,0 +1,75 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createServiceRoleClient } from './server';
+
+/**
+ * Крупные данные пайплайна (таблица video_artifacts)
+ *
+ * Пишутся один раз в init-processing-v5 и только читаются чанками — поэтому
+ * живут отдельно от chunk_progress_json и не переписываются при смене статусов.
+ * У видео, обработанных до video_artifacts, те же данные лежат в
+ * chunk_progress_json — читатели откатываются на него сами.
+ */
+
+export type VideoArtifactKind =
+  | 'diarization-words'  // chunk_progress_json.fullDiarizationWords
+  | 'face-clusters'      // chunk_progress_json.faceClusters
+  | 'voice-embeddings'   // chunk_progress_json.voiceEmbeddings
+  | 'detected-scenes'    // chunk_progress_json.detectedScenes
+  | 'init-request'       // параметры init-processing-v5 — для продолжения после паузы
+  | 'speaker-review';    // обзор маппинга спикеров (lib/speaker-mapping-review.ts)
+
+export async function saveVideoArtifact(
+  videoId: string,
+  kind: VideoArtifactKind,
+  data: unknown
+): Promise<void> {
+  const supabase = createServiceRoleClient();
+
+  const { error } = await supabase
+    .from('video_artifacts')
+    .upsert(
+      { video_id: videoId, kind, data, updated_at: new Date().toISOString() },
+      { onConflict: 'video_id,kind' }
+    );
+
+  if (error) {
+    throw new Error(`Failed to save ${kind} for video ${videoId}: ${error.message}`);
+  }
+}
+
+/**
+ * @returns null — артефакта нет (не было шага в пайплайне или старое видео)
+ */
+export async function loadVideoArtifact<T>(
+  videoId: string,
+  kind: VideoArtifactKind,
+  supabase: SupabaseClient = createServiceRoleClient()
+): Promise<T | null> {
+  const { data, error } = await supabase
+    .from('video_artifacts')
+    .select('data')
+    .eq('video_id', videoId)
+    .eq('kind', kind)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load ${kind} for video ${videoId}: ${error.message}`);
+  }
+  return data ? (data.data as T) : null;
+}
+
+/**
+ * Удалить артефакты видео перед повторной обработкой
+ */
+export async function clearVideoArtifacts(videoId: string): Promise<void> {
+  const supabase = createServiceRoleClient();
+
+  const { error } = await supabase
+    .from('video_artifacts')
+    .delete()
+    .eq('video_id', videoId);
+
+  if (error) {
+    throw new Error(`Failed to clear artifacts for video ${videoId}: ${error.message}`);
+  }
+}
@@ -1,4 +1,4 @@
-import { timecodeToSeconds } from './video-chunking';
+import { timecodeToSeconds, DEFAULT_VIDEO_FPS } from './video-chunking';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -16,8 +16,9 @@ export interface ValidationResult {
 
 /**
  * Validate montage entries after finalization
+ * fps — real video FPS (chunk_progress_json.videoFPS), frames are counted at that rate
  */
-export function validateMontageEntries(entries: any[]): ValidationResult {
+export function validateMontageEntries(entries: any[], fps: number = DEFAULT_VIDEO_FPS): ValidationResult {
   const warnings: string[] = [];
   const errors: string[] = [];
   
@@ -56,8 +57,8 @@ export function validateMontageEntries(entries: any[]): ValidationResult {
     
     // Check that end > start
     try {
-      const startSec = timecodeToSeconds(startTC);
-      const endSec = timecodeToSeconds(endTC);
+      const startSec = timecodeToSeconds(startTC, fps);
+      const endSec = timecodeToSeconds(endTC, fps);
       
       if (endSec <= startSec) {
         errors.push(`Entry ${index + 1}: End timecode (${endTC}) is not after start (${startTC})`);
@@ -74,8 +75,8 @@ export function validateMontageEntries(entries: any[]): ValidationResult {
     const next = entries[i + 1];
     
     try {
-      const currentEnd = timecodeToSeconds(current.end_timecode);
-      const nextStart = timecodeToSeconds(next.start_timecode);
+      const currentEnd = timecodeToSeconds(current.end_timecode, fps);
+      const nextStart = timecodeToSeconds(next.start_timecode, fps);
       
       const gap = nextStart - currentEnd;
       
@@ -162,7 +163,7 @@ export function validateMontageEntries(entries: any[]): ValidationResult {
   console.log('📊 Checking opening credits...');
   if (entries.length > 0) {
     const firstEntry = entries[0];
-    const firstDuration = timecodeToSeconds(firstEntry.end_timecode) - timecodeToSeconds(firstEntry.start_timecode);
+    const firstDuration = timecodeToSeconds(firstEntry.end_timecode, fps) - timecodeToSeconds(firstEntry.start_timecode, fps);
     
     if (firstEntry.content && firstEntry.content.toLowerCase().includes('заставка')) {
       if (firstDuration < 30) {
@@ -1,87 +1,125 @@
 /**
- * Unified Video Analyzer - Gemini (primary) + FAL (fallback)
- * 
- * Архитектура с Circuit Breaker:
- * 1. Проверяем circuit breaker для Gemini
- * 2. Если открыт — сразу переходим на FAL
- * 3. Если закрыт — пробуем Gemini, при ошибке идём на FAL
+ * Unified Video Analyzer — цепочка провайдеров из lib/video-providers.ts
+ *
+ * Для каждого провайдера по порядку:
+ * 1. Нет ключа API или клип длиннее maxClipSeconds — пропускаем
+ * 2. Circuit breaker провайдера открыт — сразу к следующему
+ * 3. Пробуем; при ошибке или 0 планов идём дальше по цепочке
+ *
+ * С fixtureVideoKey ответы провайдеров пишутся/воспроизводятся через
+ * lib/provider-fixtures.ts (PROVIDER_FIXTURES=record|replay).
  */
 
-import { analyzeVideoWithGemini, type VideoAnalysisResult } from './gemini-replicate';
-import { analyzeVideoChunk as analyzeWithFal } from './fal-video-understanding';
-import { 
-  geminiCircuitBreaker, 
-  falCircuitBreaker,
-  CircuitOpenError 
-} from './circuit-breaker';
+import {
+  getVideoProvider,
+  resolveVideoProviderChain,
+  type VideoAnalysisContext,
+  type VideoAnalysisRequest,
+  type VideoAnalysisResult,
+  type VideoProviderId,
+} from './video-providers';
+import { getFixtureMode, withProviderFixture } from './provider-fixtures';
+import type { VideoPromptVersion } from './gemini-replicate';
+
+export interface AnalyzeVideoOptions {
+  /** Ключ тестового видео для record/replay фикстур */
+  fixtureVideoKey?: string | null;
+  /** Порядок провайдеров (chunk_progress_json.videoProviders); по умолчанию — VIDEO_PROVIDERS */
+  providers?: VideoProviderId[] | null;
+  /** Только providers, без 'local' в конце (resolveVideoProviderChain) */
+  exactProviders?: boolean;
+  /** Версия промпта Gemini-провайдеров (по умолчанию — 'default') */
+  promptVersion?: VideoPromptVersion;
+  /** Длительность чанка, сек — для capabilities.maxClipSeconds */
+  durationSeconds?: number;
+  /** FPS, начало чанка и лица — для локального анализа */
+  context?: VideoAnalysisContext;
+}
 
 export async function analyzeVideo(
   videoUrl: string,
   scenes: Array<{ start_timecode: string; end_timecode: string }>,
-  characters: Array<{ name: string; description?: string; attributes?: any }>,
-  scriptScenes?: Array<{ sceneNumber: string; location: string; characters: string[]; description?: string }>
+  characters: Array<{ name: string; description?: string; attributes?: Record<string, unknown> }>,
+  scriptScenes?: Array<{ sceneNumber: string; location: string; characters: string[]; description?: string }>,
+  options: AnalyzeVideoOptions = {}
 ): Promise<VideoAnalysisResult> {
-  
-  console.log(`\n🎬 Video Analysis (Gemini → FAL fallback)...`);
-  
-  // 1. Check if Gemini circuit is open
-  if (geminiCircuitBreaker.isOpen()) {
-    console.log(`   ⚡ Gemini circuit OPEN, skipping to FAL...`);
-  } else {
-    // 2. Try Gemini on Replicate first
+  const chain = resolveVideoProviderChain(options.providers, options.exactProviders);
+  const { promptVersion } = options;
+  const request: VideoAnalysisRequest = { videoUrl, scenes, characters, scriptScenes, promptVersion, context: options.context };
+  // URL чанка подписанный и меняется от запуска к запуску — в ключ фикстуры не входит;
+  // версия промпта по умолчанию тоже — чтобы не терять записанные фикстуры
+  const fixtureRequest = {
+    scenes,
+    characters,
+    scriptScenes: scriptScenes || [],
+    ...(promptVersion && promptVersion !== 'default' ? { promptVersion } : {}),
+  };
+  // При воспроизведении ключи API не нужны — ответы берутся из фикстур
+  const replaying = getFixtureMode() === 'replay' && Boolean(options.fixtureVideoKey);
+
+  console.log(`\n🎬 Video Analysis (${chain.join(' → ')})...`);
+
+  const errors: string[] = [];
+  let rawResult: VideoAnalysisResult | null = null;
+
+  for (const id of chain) {
+    const provider = getVideoProvider(id);
+
+    if (!replaying && !provider.isConfigured()) {
+      console.log(`   ⏭️ ${provider.label}: API key not set, skipping...`);
+      continue;
+    }
+    if (options.durationSeconds && options.durationSeconds > provider.capabilities.maxClipSeconds) {
+      console.log(`   ⏭️ ${provider.label}: clip ${Math.round(options.durationSeconds)}s > ${provider.capabilities.maxClipSeconds}s, skipping...`);
+      continue;
+    }
+    if (provider.circuitBreaker.isOpen()) {
+      console.log(`   ⚡ ${provider.label}: circuit OPEN, skipping...`);
+      errors.push(`${id}: circuit open`);
+      continue;
+    }
+
     try {
-      const geminiResult = await analyzeVideoWithGemini(videoUrl, scenes, characters, scriptScenes);
-      
-      if (geminiResult.success && geminiResult.plans.length > 0) {
-        geminiCircuitBreaker.recordSuccess();
-        console.log(`   ✅ Gemini успешно вернул ${geminiResult.plans.length} планов`);
-        return geminiResult;
+      const result = await withProviderFixture(id, options.fixtureVideoKey, fixtureRequest, () =>
+        provider.analyze(request)
+      );
+
+      if (!result.success) {
+        const message = result.error || 'Unknown error';
+        provider.circuitBreaker.recordFailure(message);
+        errors.push(`${id}: ${message}`);
+        console.log(`   ⚠️ ${provider.label} ошибка: ${message}, пробуем следующий...`);
+        continue;
       }
-      
-      // 0 планов — не считаем ошибкой, но переключаемся на FAL
-      console.log(`   ⚠️ Gemini вернул 0 планов, переключаемся на FAL...`);
-    } catch (geminiError: any) {
-      geminiCircuitBreaker.recordFailure(geminiError.message);
-      console.log(`   ⚠️ Gemini ошибка: ${geminiError.message}, переключаемся на FAL...`);
+
+      provider.circuitBreaker.recordSuccess();
+
+      if (result.plans.length > 0) {
+        console.log(`   ✅ ${provider.label} вернул ${result.plans.length} планов`);
+        return result;
+      }
+
+      // 0 планов — не ошибка провайдера; сырой ответ оставляем на случай, если остальные не справятся
+      console.log(`   ⚠️ ${provider.label} вернул 0 планов, пробуем следующий...`);
+      rawResult = rawResult || (result.rawOutput ? result : null);
+      errors.push(`${id}: 0 plans`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      provider.circuitBreaker.recordFailure(message);
+      errors.push(`${id}: ${message}`);
+      console.log(`   ⚠️ ${provider.label} ошибка: ${message}, пробуем следующий...`);
     }
   }
-  
-  // 3. Check if FAL circuit is open
-  if (falCircuitBreaker.isOpen()) {
-    console.log(`   ⚡ FAL circuit OPEN, returning empty result...`);
-    return {
-      success: false,
-      plans: [],
-      error: 'Both Gemini and FAL circuits are open',
-      source: 'error'
-    };
-  }
-  
-  // 4. Fallback to FAL
-  console.log(`   🔄 Используем FAL.ai как fallback...`);
-  
-  try {
-    const falResult = await analyzeWithFal(videoUrl, scenes, characters, scriptScenes);
-    
-    if (falResult.success) {
-      falCircuitBreaker.recordSuccess();
-    } else {
-      falCircuitBreaker.recordFailure(falResult.error || 'Unknown FAL error');
-    }
-    
-    return {
-      ...falResult,
-      source: 'fal'
-    };
-  } catch (falError: any) {
-    falCircuitBreaker.recordFailure(falError.message);
-    console.log(`   ❌ FAL ошибка: ${falError.message}`);
-    
-    return {
-      success: false,
-      plans: [],
-      error: falError.message,
-      source: 'error'
-    };
+
+  if (rawResult) {
+    return rawResult;
   }
+
+  console.log(`   ❌ Ни один провайдер не вернул планы`);
+  return {
+    success: false,
+    plans: [],
+    error: errors.length > 0 ? errors.join('; ') : 'No video providers available',
+    source: 'error'
+  };
 }
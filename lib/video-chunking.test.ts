@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_VIDEO_FPS,
+  framesToTimecode,
+  getVideoFps,
+  msToFrameTimecode,
+  timecodeToFrames,
+  timecodeToMs,
+  timecodeToSeconds,
+} from './video-chunking';
+
+describe('getVideoFps', () => {
+  it('returns the detected FPS', () => {
+    expect(getVideoFps({ videoFPS: 24 })).toBe(24);
+    expect(getVideoFps({ videoFPS: '29.97' })).toBe(29.97);
+  });
+
+  it('falls back to the default for missing or invalid values', () => {
+    expect(getVideoFps(null)).toBe(DEFAULT_VIDEO_FPS);
+    expect(getVideoFps({})).toBe(DEFAULT_VIDEO_FPS);
+    expect(getVideoFps({ videoFPS: 0 })).toBe(DEFAULT_VIDEO_FPS);
+    expect(getVideoFps({ videoFPS: 'abc' })).toBe(DEFAULT_VIDEO_FPS);
+  });
+});
+
+describe('timecodeToSeconds', () => {
+  it('keeps the legacy 24fps default', () => {
+    expect(timecodeToSeconds('00:00:01:12')).toBe(1.5);
+  });
+
+  it('counts frames at the given FPS', () => {
+    expect(timecodeToSeconds('00:00:01:05', 25)).toBe(1.2);
+  });
+
+  it('accepts HH:MM:SS and MM:SS', () => {
+    expect(timecodeToSeconds('01:02:03')).toBe(3723);
+    expect(timecodeToSeconds('02:03')).toBe(123);
+  });
+});
+
+describe('frame timecodes', () => {
+  it('round-trips frames and timecodes', () => {
+    expect(timecodeToFrames('00:01:00:10', 25)).toBe(1510);
+    expect(framesToTimecode(1510, 25)).toBe('00:01:00:10');
+  });
+
+  it('uses the nominal rate for fractional FPS', () => {
+    expect(timecodeToFrames('00:00:01:00', 29.97)).toBe(30);
+    expect(framesToTimecode(30, 29.97)).toBe('00:00:01:00');
+  });
+
+  it('clamps negative frames to zero', () => {
+    expect(framesToTimecode(-5, 25)).toBe('00:00:00:00');
+  });
+
+  it('converts milliseconds, flooring to the frame', () => {
+    expect(msToFrameTimecode(4600, 25)).toBe('00:00:04:15');
+    expect(msToFrameTimecode(1999, 25)).toBe('00:00:01:24');
+  });
+
+  it('converts timecodes to milliseconds at the video FPS', () => {
+    expect(timecodeToMs('00:00:02:12', 24)).toBe(2500);
+    expect(timecodeToMs('00:00:02:12', 25)).toBe(2480);
+  });
+});
@@ -2,6 +2,19 @@
  * Video chunking utilities for processing long videos
  */
 
+/**
+ * Fallback FPS when chunk_progress_json.videoFPS was not detected
+ */
+export const DEFAULT_VIDEO_FPS = 25;
+
+/**
+ * Real video FPS saved by init-processing (chunk_progress_json.videoFPS)
+ */
+export function getVideoFps(progress: { videoFPS?: unknown } | null | undefined): number {
+  const fps = Number(progress?.videoFPS);
+  return Number.isFinite(fps) && fps > 0 ? fps : DEFAULT_VIDEO_FPS;
+}
+
 export interface VideoChunk {
   chunkIndex: number;
   startTime: number; // in seconds
@@ -27,7 +40,9 @@ export function secondsToTimecode(seconds: number): string {
 }
 
 /**
- * Convert HH:MM:SS:FF timecode to seconds (ignores frames)
+ * Convert HH:MM:SS:FF timecode to seconds
+ * Pass the real video FPS (getVideoFps) — frames are counted at that rate.
+ * The 24fps default is kept for the legacy v1/v3/v4 pipelines that rely on it.
  */
 export function timecodeToSeconds(timecode: string, fps: number = 24): number {
   const parts = timecode.split(':').map(Number);
@@ -39,8 +54,8 @@ export function timecodeToSeconds(timecode: string, fps: number = 24): number {
     const seconds = parts[2];
     const frames = parts[3];
     
-    // Convert frames to fraction of second (assuming 24fps by default)
-    const frameSeconds = frames / fps;
+    // Convert frames to fraction of second (nominal rate, as in timecodeToFrames)
+    const frameSeconds = frames / Math.round(fps);
     
     return hours * 3600 + minutes * 60 + seconds + frameSeconds;
   } else if (parts.length === 3) {
@@ -54,6 +69,49 @@ export function timecodeToSeconds(timecode: string, fps: number = 24): number {
   return 0;
 }
 
+/**
+ * Convert HH:MM:SS:FF timecode to absolute frame number at the given FPS
+ */
+export function timecodeToFrames(timecode: string, fps: number): number {
+  const [hours, minutes, seconds, frames = 0] = timecode.split(':').map(Number);
+  const nominalFps = Math.round(fps);
+  
+  return ((hours * 3600) + (minutes * 60) + seconds) * nominalFps + frames;
+}
+
+/**
+ * Convert absolute frame number to HH:MM:SS:FF timecode at the given FPS
+ */
+export function framesToTimecode(totalFrames: number, fps: number): string {
+  const nominalFps = Math.round(fps);
+  const safeFrames = Math.max(0, Math.round(totalFrames));
+  
+  const frames = safeFrames % nominalFps;
+  const totalSeconds = Math.floor(safeFrames / nominalFps);
+  
+  return [
+    Math.floor(totalSeconds / 3600),
+    Math.floor((totalSeconds % 3600) / 60),
+    totalSeconds % 60,
+    frames,
+  ].map(n => n.toString().padStart(2, '0')).join(':');
+}
+
+/**
+ * Convert milliseconds to HH:MM:SS:FF timecode (frame-accurate, floors to frame)
+ */
+export function msToFrameTimecode(ms: number, fps: number): string {
+  // Epsilon: 4.6 * 25 = 114.99999999999999 must still land on frame 115
+  return framesToTimecode(Math.floor((ms / 1000) * Math.round(fps) + 1e-6), fps);
+}
+
+/**
+ * Convert HH:MM:SS:FF timecode to milliseconds at the given FPS
+ */
+export function timecodeToMs(timecode: string, fps: number): number {
+  return (timecodeToFrames(timecode, fps) / Math.round(fps)) * 1000;
+}
+
 /**
  * Create video chunks for processing long videos
  * - Each chunk is 3 minutes (180 seconds) - good balance for Gemini context
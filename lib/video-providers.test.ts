@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_VIDEO_PROVIDER_CHAIN, parseVideoProviderIds, resolveVideoProviderChain } from './video-providers';
+
+describe('parseVideoProviderIds', () => {
+  it('parses lists and comma-separated strings, dropping unknown and repeated ids', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(parseVideoProviderIds(' FAL, openrouter,fal,gpt ')).toEqual(['fal', 'openrouter']);
+    expect(parseVideoProviderIds(['gemini-direct', ''])).toEqual(['gemini-direct']);
+    expect(parseVideoProviderIds(undefined)).toEqual([]);
+  });
+});
+
+describe('resolveVideoProviderChain', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('prefers the user chain, then VIDEO_PROVIDERS, and ends with local analysis', () => {
+    vi.stubEnv('VIDEO_PROVIDERS', 'openrouter');
+
+    expect(resolveVideoProviderChain('fal')).toEqual(['fal', 'local']);
+    expect(resolveVideoProviderChain()).toEqual(['openrouter', 'local']);
+    expect(resolveVideoProviderChain(['local', 'fal'])).toEqual(['local', 'fal']);
+  });
+
+  it('keeps an exact chain as is unless it is empty', () => {
+    vi.stubEnv('VIDEO_PROVIDERS', '');
+
+    expect(resolveVideoProviderChain(['fal'], true)).toEqual(['fal']);
+    expect(resolveVideoProviderChain([], true)).toContain('local');
+  });
+
+  it('falls back to the default chain', () => {
+    vi.stubEnv('VIDEO_PROVIDERS', '');
+
+    expect(resolveVideoProviderChain()).toEqual([...DEFAULT_VIDEO_PROVIDER_CHAIN, 'local']);
+  });
+});
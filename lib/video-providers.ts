@@ -0,0 +1,265 @@
+/**
+ * Video Providers — реестр моделей визуального анализа чанков
+ *
+ * Каждый провайдер приводит ответ к общему VideoAnalysisResult, описывает
+ * свои возможности и получает собственный Circuit Breaker. Порядок fallback:
+ * 1. profiles.video_providers пользователя (меню профиля, /api/profile/video-providers)
+ * 2. VIDEO_PROVIDERS в окружении ("gemini-replicate,gemini-direct,fal")
+ * 3. DEFAULT_VIDEO_PROVIDER_CHAIN — Gemini на Replicate → FAL
+ * В конец любой цепочки добавляется 'local' (ffmpeg-эвристики без AI), чтобы
+ * при недоступности всех моделей чанк не оставался без вида планов.
+ */
+
+import {
+  analyzeVideoWithGemini as analyzeWithGeminiReplicate,
+  buildVideoAnalysisPrompt,
+  parseVideoAnalysisOutput,
+  type VideoAnalysisPlan,
+  type VideoPromptVersion,
+} from './gemini-replicate';
+import { analyzeVideoChunk as analyzeWithFal } from './fal-video-understanding';
+import { analyzeVideoLocally, type LocalFaceSample } from './local-video-analysis';
+import { getCircuitBreaker, type CircuitBreaker, type CircuitState } from './circuit-breaker';
+import { CIRCUIT_BREAKER_COOLDOWN_MS, CIRCUIT_BREAKER_THRESHOLD } from './config';
+import { DEFAULT_VIDEO_FPS } from './video-chunking';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const VIDEO_PROVIDER_IDS = ['gemini-replicate', 'gemini-direct', 'openrouter', 'fal', 'local'] as const;
+export type VideoProviderId = typeof VIDEO_PROVIDER_IDS[number];
+
+export const DEFAULT_VIDEO_PROVIDER_CHAIN: VideoProviderId[] = ['gemini-replicate', 'fal'];
+
+/** Последний провайдер любой цепочки: работает без сети и ключей */
+const LAST_RESORT_PROVIDER: VideoProviderId = 'local';
+
+export type { VideoAnalysisPlan };
+
+/** Общий контракт ответа всех провайдеров */
+export interface VideoAnalysisResult {
+  success: boolean;
+  plans: VideoAnalysisPlan[];
+  rawOutput?: string;
+  error?: string;
+  source: VideoProviderId | 'error';
+}
+
+export interface VideoAnalysisRequest {
+  videoUrl: string;
+  scenes: Array<{ start_timecode: string; end_timecode: string }>;
+  characters: Array<{ name: string; description?: string; attributes?: Record<string, unknown> }>;
+  scriptScenes?: Array<{ sceneNumber: string; location: string; characters: string[]; description?: string }>;
+  /** Для логов провайдеров с загрузкой видео */
+  label?: string;
+  /** Версия промпта Gemini-провайдеров; FAL и 'local' её не используют */
+  promptVersion?: VideoPromptVersion;
+  /** Данные пайплайна о чанке — нужны провайдерам без модели ('local') */
+  context?: VideoAnalysisContext;
+}
+
+export interface VideoAnalysisContext {
+  fps: number;
+  /** Начало чанка от начала видео, сек */
+  chunkStartSeconds: number;
+  /** Лица из face clustering в пределах чанка */
+  faces: LocalFaceSample[];
+}
+
+export interface VideoProviderCapabilities {
+  /** Максимальная длина клипа, сек — длиннее провайдер пропускается */
+  maxClipSeconds: number;
+  /** 'url' — провайдер сам скачивает видео по ссылке; 'upload' — мы скачиваем и шлём base64 в запросе */
+  videoInput: 'url' | 'upload';
+  /** Ответ гарантированно JSON (responseMimeType / response_format) или структурированный без модели */
+  jsonMode: boolean;
+}
+
+export interface VideoProvider {
+  id: VideoProviderId;
+  label: string;
+  capabilities: VideoProviderCapabilities;
+  circuitBreaker: CircuitBreaker;
+  /** Есть ключ API в окружении */
+  isConfigured(): boolean;
+  analyze(request: VideoAnalysisRequest): Promise<VideoAnalysisResult>;
+}
+
+export interface VideoProviderStatus {
+  id: VideoProviderId;
+  label: string;
+  configured: boolean;
+  capabilities: VideoProviderCapabilities;
+  circuitState: CircuitState;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PROVIDERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function createCircuitBreaker(id: VideoProviderId): CircuitBreaker {
+  return getCircuitBreaker(id, {
+    threshold: CIRCUIT_BREAKER_THRESHOLD,
+    cooldown: CIRCUIT_BREAKER_COOLDOWN_MS,
+  });
+}
+
+/**
+ * Ответ текстовой модели → общий контракт
+ */
+function toAnalysisResult(text: string, source: VideoProviderId): VideoAnalysisResult {
+  const { plans, error } = parseVideoAnalysisOutput(text);
+  return {
+    success: true,
+    plans,
+    rawOutput: text,
+    ...(error ? { error } : {}),
+    source,
+  };
+}
+
+const PROVIDERS: Record<VideoProviderId, VideoProvider> = {
+  'gemini-replicate': {
+    id: 'gemini-replicate',
+    label: 'Gemini 2.5 Flash (Replicate)',
+    capabilities: { maxClipSeconds: 45 * 60, videoInput: 'url', jsonMode: false },
+    circuitBreaker: createCircuitBreaker('gemini-replicate'),
+    isConfigured: () => Boolean(process.env.REPLICATE_API_TOKEN || process.env.REPLICATE_API_TOKEN_1),
+    analyze: ({ videoUrl, scenes, characters, scriptScenes, promptVersion }) =>
+      analyzeWithGeminiReplicate(videoUrl, scenes, characters, scriptScenes, promptVersion),
+  },
+
+  'gemini-direct': {
+    id: 'gemini-direct',
+    label: 'Gemini (Google AI)',
+    // Inline data ограничен ~20 МБ на запрос — только короткие чанки
+    capabilities: { maxClipSeconds: 5 * 60, videoInput: 'upload', jsonMode: true },
+    circuitBreaker: createCircuitBreaker('gemini-direct'),
+    isConfigured: () => Boolean(process.env.GOOGLE_AI_API_KEY),
+    analyze: async ({ videoUrl, scenes, characters, scriptScenes, label, promptVersion }) => {
+      // Динамический импорт: модуль при загрузке ставит глобальный прокси (HTTPS_PROXY)
+      const { analyzeVideoWithGemini } = await import('./google-gemini-direct');
+      const prompt = buildVideoAnalysisPrompt(scenes, characters, scriptScenes, promptVersion);
+      const response = await analyzeVideoWithGemini(videoUrl, prompt, label || 'chunk', undefined, true);
+      return toAnalysisResult(response.text, 'gemini-direct');
+    },
+  },
+
+  'openrouter': {
+    id: 'openrouter',
+    label: 'Gemini 3 Flash (OpenRouter)',
+    capabilities: { maxClipSeconds: 5 * 60, videoInput: 'upload', jsonMode: true },
+    circuitBreaker: createCircuitBreaker('openrouter'),
+    isConfigured: () => Boolean(process.env.OPENROUTER_API_KEY),
+    analyze: async ({ videoUrl, scenes, characters, scriptScenes, label, promptVersion }) => {
+      const { analyzeVideoWithOpenRouter } = await import('./openrouter-gemini');
+      const prompt = buildVideoAnalysisPrompt(scenes, characters, scriptScenes, promptVersion);
+      const response = await analyzeVideoWithOpenRouter(videoUrl, prompt, label || 'chunk', undefined, true);
+      return toAnalysisResult(response.text, 'openrouter');
+    },
+  },
+
+  'fal': {
+    id: 'fal',
+    label: 'FAL.ai Video Understanding',
+    capabilities: { maxClipSeconds: 10 * 60, videoInput: 'url', jsonMode: false },
+    circuitBreaker: createCircuitBreaker('fal'),
+    isConfigured: () => Boolean(process.env.FAL_API_KEY),
+    analyze: async ({ videoUrl, scenes, characters, scriptScenes }) => {
+      const result = await analyzeWithFal(videoUrl, scenes, characters, scriptScenes);
+      return { ...result, source: 'fal' };
+    },
+  },
+
+  'local': {
+    id: 'local',
+    label: 'Local heuristics (ffmpeg)',
+    // Кадры 1 fps 320×180 держим в памяти: ~10 МБ на 3 минуты
+    capabilities: { maxClipSeconds: 10 * 60, videoInput: 'url', jsonMode: true },
+    circuitBreaker: createCircuitBreaker('local'),
+    isConfigured: () => true,
+    analyze: async ({ videoUrl, scenes, context }) => {
+      const plans = await analyzeVideoLocally({
+        videoUrl,
+        scenes,
+        fps: context?.fps || DEFAULT_VIDEO_FPS,
+        chunkStartSeconds: context?.chunkStartSeconds || 0,
+        faces: context?.faces || [],
+      });
+      return { success: true, plans, source: 'local' };
+    },
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function isVideoProviderId(value: string): value is VideoProviderId {
+  return (VIDEO_PROVIDER_IDS as readonly string[]).includes(value);
+}
+
+export function getVideoProvider(id: VideoProviderId): VideoProvider {
+  return PROVIDERS[id];
+}
+
+/**
+ * Список провайдеров из настройки (массив или строка через запятую)
+ * Неизвестные id отбрасываются с предупреждением, повторы — убираются.
+ */
+export function parseVideoProviderIds(value: unknown): VideoProviderId[] {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === 'string' ? value.split(',') : [];
+
+  const ids: VideoProviderId[] = [];
+  for (const item of items) {
+    const id = String(item).trim().toLowerCase();
+    if (!id) continue;
+    if (!isVideoProviderId(id)) {
+      console.warn(`⚠️ Unknown video provider "${id}" (expected: ${VIDEO_PROVIDER_IDS.join(', ')})`);
+      continue;
+    }
+    if (!ids.includes(id)) ids.push(id);
+  }
+  return ids;
+}
+
+/**
+ * Порядок fallback: настройка пользователя → VIDEO_PROVIDERS → по умолчанию,
+ * и в конце — локальный анализ
+ *
+ * exact — цепочку задал вызывающий (повторная обработка диапазона): 'local'
+ * не добавляется, эвристики вместо названных моделей не подставляются.
+ */
+export function resolveVideoProviderChain(preferred?: unknown, exact = false): VideoProviderId[] {
+  const fromUser = parseVideoProviderIds(preferred);
+  const fromEnv = parseVideoProviderIds(process.env.VIDEO_PROVIDERS);
+
+  if (exact && fromUser.length > 0) {
+    return fromUser;
+  }
+
+  const chain = fromUser.length > 0 ? fromUser
+    : fromEnv.length > 0 ? fromEnv
+    : DEFAULT_VIDEO_PROVIDER_CHAIN;
+
+  return chain.includes(LAST_RESORT_PROVIDER) ? chain : [...chain, LAST_RESORT_PROVIDER];
+}
+
+/**
+ * Состояние всех провайдеров — для /api/health
+ */
+export function getVideoProviderStatus(): VideoProviderStatus[] {
+  return VIDEO_PROVIDER_IDS.map(id => {
+    const provider = PROVIDERS[id];
+    return {
+      id,
+      label: provider.label,
+      configured: provider.isConfigured(),
+      capabilities: provider.capabilities,
+      circuitState: provider.circuitBreaker.getState(),
+    };
+  });
+}
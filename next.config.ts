@@ -7,7 +7,7 @@ const nextConfig: NextConfig = {
     },
   },
   // External packages for server components (moved from experimental in Next.js 16)
-  serverExternalPackages: ['fluent-ffmpeg', '@ffmpeg-installer/ffmpeg'],
+  serverExternalPackages: ['fluent-ffmpeg', '@ffmpeg-installer/ffmpeg', 'canvas'],
   // Turbopack configuration for Next.js 16
   turbopack: {
     // Specify workspace root to silence warning
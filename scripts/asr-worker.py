@@ -0,0 +1,175 @@
+#!/usr/bin/env python3
+"""
+ASR Worker — локальное распознавание речи с диаризацией (бэкенд 'local-whisper')
+
+Использует faster-whisper для транскрипции с word-level timestamps и
+pyannote.audio для разметки спикеров (если установлен и задан HF_TOKEN).
+Без pyannote все слова получают одного спикера.
+
+Алгоритм:
+1. Извлекаем моно 16 kHz WAV из видео (ffmpeg)
+2. Транскрибируем faster-whisper (word_timestamps, VAD)
+3. Диаризуем pyannote и назначаем каждому слову спикера
+   с наибольшим перекрытием по времени
+4. Возвращаем слова в формате ASRWord (мс)
+
+Usage: python3 asr-worker.py <media_path> <options_json>
+  options: { model, language, hints: [], maxSpeakers }
+
+@version 1.0
+"""
+
+import sys
+import os
+import json
+import subprocess
+import tempfile
+
+# Проверяем зависимости
+try:
+    from faster_whisper import WhisperModel
+except ImportError as e:
+    print(f"❌ Missing dependency: {e}", file=sys.stderr)
+    print("Run: pip3 install faster-whisper", file=sys.stderr)
+    sys.exit(1)
+
+
+def extract_audio(media_path: str, output_path: str) -> None:
+    """Извлекает моно 16 kHz WAV — формат, который ждут whisper и pyannote"""
+    cmd = [
+        'ffmpeg', '-y', '-hide_banner', '-loglevel', 'error',
+        '-i', media_path,
+        '-vn', '-ac', '1', '-ar', '16000',
+        output_path
+    ]
+    subprocess.run(cmd, check=True)
+
+
+def transcribe(wav_path: str, options: dict) -> tuple:
+    """faster-whisper → список слов (мс), язык, длительность"""
+    model_name = options.get('model') or 'large-v3'
+    device = os.environ.get('LOCAL_WHISPER_DEVICE', 'auto')
+    compute_type = os.environ.get('LOCAL_WHISPER_COMPUTE_TYPE', 'int8')
+
+    print(f"🎤 Loading faster-whisper model: {model_name} ({device}, {compute_type})")
+    model = WhisperModel(model_name, device=device, compute_type=compute_type)
+
+    hints = options.get('hints') or []
+    segments, info = model.transcribe(
+        wav_path,
+        language=options.get('language') or None,
+        word_timestamps=True,
+        vad_filter=True,
+        initial_prompt=', '.join(hints) if hints else None,
+    )
+
+    words = []
+    for segment in segments:
+        for w in segment.words or []:
+            text = w.word.strip()
+            if not text:
+                continue
+            words.append({
+                'text': text,
+                'startMs': int(round(w.start * 1000)),
+                'endMs': int(round(w.end * 1000)),
+                'confidence': float(w.probability),
+            })
+        print(f"   {segment.end / 60:.1f} min transcribed, {len(words)} words", flush=True)
+
+    return words, info.language, float(info.duration)
+
+
+def diarize(wav_path: str, max_speakers: int) -> list:
+    """pyannote → отрезки (start_ms, end_ms, speaker); [] — диаризация недоступна"""
+    token = os.environ.get('HF_TOKEN')
+    if not token:
+        print("⚠️  HF_TOKEN not set — speaker diarization skipped (single speaker)")
+        return []
+
+    try:
+        from pyannote.audio import Pipeline
+    except ImportError:
+        print("⚠️  pyannote.audio not installed — speaker diarization skipped (single speaker)")
+        return []
+
+    print("👥 Running pyannote speaker diarization...")
+    pipeline = Pipeline.from_pretrained('pyannote/speaker-diarization-3.1', use_auth_token=token)
+    diarization = pipeline(wav_path, max_speakers=max_speakers)
+
+    turns = [
+        (int(turn.start * 1000), int(turn.end * 1000), speaker)
+        for turn, _, speaker in diarization.itertracks(yield_label=True)
+    ]
+    print(f"   Turns: {len(turns)}, speakers: {len(set(t[2] for t in turns))}")
+    return turns
+
+
+def assign_speakers(words: list, turns: list) -> None:
+    """Спикер слова — отрезок с наибольшим перекрытием, иначе ближайший"""
+    if not turns:
+        for w in words:
+            w['speaker'] = 'SPEAKER_00'
+        return
+
+    for w in words:
+        best_speaker = None
+        best_overlap = 0
+        nearest_speaker = turns[0][2]
+        nearest_distance = float('inf')
+
+        for start, end, speaker in turns:
+            overlap = min(end, w['endMs']) - max(start, w['startMs'])
+            if overlap > best_overlap:
+                best_overlap = overlap
+                best_speaker = speaker
+
+            distance = max(start - w['endMs'], w['startMs'] - end, 0)
+            if distance < nearest_distance:
+                nearest_distance = distance
+                nearest_speaker = speaker
+
+        w['speaker'] = best_speaker or nearest_speaker
+
+
+def main():
+    if len(sys.argv) < 3:
+        print("Usage: python3 asr-worker.py <media_path> <options_json>", file=sys.stderr)
+        sys.exit(1)
+
+    media_path = sys.argv[1]
+    with open(sys.argv[2], 'r') as f:
+        options = json.load(f)
+
+    print("═" * 60)
+    print("🎤 LOCAL ASR (faster-whisper)")
+    print("═" * 60)
+    print(f"   Media: {os.path.basename(media_path)}")
+
+    with tempfile.TemporaryDirectory() as temp_dir:
+        wav_path = os.path.join(temp_dir, 'audio.wav')
+        extract_audio(media_path, wav_path)
+
+        words, language, duration = transcribe(wav_path, options)
+        turns = diarize(wav_path, int(options.get('maxSpeakers') or 15))
+        assign_speakers(words, turns)
+
+    result = {
+        'words': words,
+        'language': language,
+        'duration': duration,
+    }
+
+    print("\n" + "═" * 60)
+    print("📊 LOCAL ASR COMPLETE")
+    print("═" * 60)
+    print(f"   Words: {len(words)}")
+    print(f"   Speakers: {len(set(w['speaker'] for w in words))}")
+
+    # Отправляем результат через stdout (JSON)
+    print("\n__RESULT_JSON__")
+    print(json.dumps(result, ensure_ascii=False))
+
+
+if __name__ == '__main__':
+    main()
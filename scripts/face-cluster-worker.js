@@ -131,6 +131,8 @@ async function detectFacesInFrames(frames) {
           descriptor: Array.from(detection.descriptor),
           timestamp: frame.time,
           confidence: detection.detection.score,
+          // Доля высоты кадра — крупность плана (Кр./Ср./Общ.) для локального анализа
+          relativeHeight: image.height ? detection.detection.box.height / image.height : 0,
           boundingBox: {
             x: detection.detection.box.x,
             y: detection.detection.box.y,
@@ -226,6 +228,7 @@ function clusterFaces(faces, distanceThreshold, minAppearances) {
     centroid: c.centroid,
     // Include timestamps only (not full face descriptors) for Face Presence Evidence
     faceTimestamps: c.faces.map(f => f.timestamp),
+    faceHeights: c.faces.map(f => f.relativeHeight),
   }));
 }
 
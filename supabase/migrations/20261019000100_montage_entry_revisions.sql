@@ -0,0 +1,45 @@
+-- История изменений планов монтажного листа
+-- Каждое изменение montage_entries (ручное редактирование, разрезка/склейка,
+-- fix-montage-issues, cleanup-duplicates, renumber-plans, откаты) пишет строку
+-- со снимками плана до и после. По истории можно откатить один план или
+-- вернуть весь лист к состоянию на момент времени.
+
+CREATE TABLE IF NOT EXISTS public.montage_entry_revisions (
+  id BIGSERIAL PRIMARY KEY, -- монотонный порядок изменений (created_at совпадает внутри пачки)
+  sheet_id UUID NOT NULL REFERENCES public.montage_sheets(id) ON DELETE CASCADE,
+  entry_id UUID NOT NULL, -- без FK: план может быть удалён
+  batch_id UUID NOT NULL, -- одна операция = одна пачка
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+  source TEXT NOT NULL, -- 'edit', 'split', 'merge', 'fix-montage-issues', 'restore', ...
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL для служебных роутов
+  before JSONB, -- снимок плана до изменения (NULL для create)
+  after JSONB, -- снимок плана после изменения (NULL для delete)
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_montage_entry_revisions_sheet ON public.montage_entry_revisions(sheet_id, id DESC);
+CREATE INDEX IF NOT EXISTS idx_montage_entry_revisions_entry ON public.montage_entry_revisions(entry_id);
+
+ALTER TABLE public.montage_entry_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own entry revisions"
+  ON public.montage_entry_revisions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.montage_sheets
+      WHERE montage_sheets.id = montage_entry_revisions.sheet_id
+      AND montage_sheets.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own entry revisions"
+  ON public.montage_entry_revisions FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.montage_sheets
+      WHERE montage_sheets.id = montage_entry_revisions.sheet_id
+      AND montage_sheets.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE public.montage_entry_revisions IS 'Audit trail of montage entry changes with before/after snapshots';
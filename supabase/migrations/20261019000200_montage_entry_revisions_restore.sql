@@ -0,0 +1,62 @@
+-- Восстановление листа по истории (lib/montage-revisions.ts, restoreSheet)
+-- Удаление лишних планов и два прохода перенумерации должны пройти в одной
+-- транзакции: при сбое между отдельными upsert'ами в листе оставались планы
+-- с временными отрицательными номерами.
+--
+-- SECURITY INVOKER: вызывается с клиентом пользователя, RLS montage_entries
+-- продолжает действовать.
+
+CREATE OR REPLACE FUNCTION public.restore_montage_entries(
+  p_sheet_id UUID,
+  p_removed_ids UUID[],
+  p_entries JSONB -- снимки планов (MontageEntrySnapshot) в целевом состоянии
+)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.montage_entries
+  WHERE sheet_id = p_sheet_id
+  AND id = ANY(p_removed_ids);
+
+  -- Первый проход: временные номера из-за UNIQUE(sheet_id, plan_number)
+  -- (как TEMP_PLAN_NUMBER_BASE в lib/montage-editor.ts)
+  INSERT INTO public.montage_entries (
+    id, sheet_id, plan_number, order_index,
+    start_timecode, end_timecode, plan_type, description, dialogues
+  )
+  SELECT
+    (entry->>'id')::UUID,
+    p_sheet_id,
+    -2000000 - (position - 1)::INTEGER,
+    -2000000 - (position - 1)::INTEGER,
+    entry->>'start_timecode',
+    entry->>'end_timecode',
+    entry->>'plan_type',
+    entry->>'description',
+    entry->>'dialogues'
+  FROM jsonb_array_elements(p_entries) WITH ORDINALITY AS t(entry, position)
+  ON CONFLICT (id) DO UPDATE SET
+    plan_number = EXCLUDED.plan_number,
+    order_index = EXCLUDED.order_index,
+    start_timecode = EXCLUDED.start_timecode,
+    end_timecode = EXCLUDED.end_timecode,
+    plan_type = EXCLUDED.plan_type,
+    description = EXCLUDED.description,
+    dialogues = EXCLUDED.dialogues,
+    updated_at = NOW()
+  WHERE montage_entries.sheet_id = p_sheet_id;
+
+  -- Второй проход: итоговые номера
+  UPDATE public.montage_entries
+  SET plan_number = (entry->>'plan_number')::INTEGER,
+      order_index = (entry->>'order_index')::INTEGER
+  FROM jsonb_array_elements(p_entries) AS t(entry)
+  WHERE montage_entries.id = (entry->>'id')::UUID
+  AND montage_entries.sheet_id = p_sheet_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION public.restore_montage_entries TO service_role;
+GRANT EXECUTE ON FUNCTION public.restore_montage_entries TO authenticated;
+
+COMMENT ON FUNCTION public.restore_montage_entries IS
+'Atomically deletes entries and upserts snapshots of a montage sheet when restoring it from revision history.';
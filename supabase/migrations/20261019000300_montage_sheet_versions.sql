@@ -0,0 +1,25 @@
+-- Именованные версии монтажного листа
+-- У видео один основной лист (is_primary), в который пишет пайплайн обработки
+-- и который перезаписывается при повторной обработке. Версии — копии листа
+-- ("AI draft v5", "Editor pass 1", "Delivered to channel"), которые живут рядом
+-- с основным и редактируются/экспортируются независимо.
+
+ALTER TABLE public.montage_sheets ADD COLUMN IF NOT EXISTS is_primary BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE public.montage_sheets ADD COLUMN IF NOT EXISTS version_name TEXT;
+ALTER TABLE public.montage_sheets ADD COLUMN IF NOT EXISTS based_on_sheet_id UUID REFERENCES public.montage_sheets(id) ON DELETE SET NULL;
+
+-- Дубликаты основных листов (старый race condition) — оставляем основным самый старый
+UPDATE public.montage_sheets s
+SET is_primary = false
+WHERE EXISTS (
+  SELECT 1 FROM public.montage_sheets older
+  WHERE older.video_id = s.video_id
+  AND older.is_primary
+  AND (older.created_at < s.created_at OR (older.created_at = s.created_at AND older.id < s.id))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_montage_sheets_primary_per_video
+  ON public.montage_sheets(video_id) WHERE is_primary;
+
+COMMENT ON COLUMN public.montage_sheets.is_primary IS 'Main sheet written by the processing pipeline; other rows are named versions';
+COMMENT ON COLUMN public.montage_sheets.version_name IS 'Human-readable version label shown in the version selector';
@@ -0,0 +1,5 @@
+-- Миниатюра плана: кадр из середины плана в Storage (bucket videos)
+-- Путь содержит номер кадра — после изменения таймкодов план получает новый
+-- путь, и /api/thumbnails перегенерирует только устаревшие миниатюры.
+
+ALTER TABLE public.montage_entries ADD COLUMN IF NOT EXISTS thumbnail_path TEXT;
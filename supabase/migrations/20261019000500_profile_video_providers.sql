@@ -0,0 +1,5 @@
+-- Порядок провайдеров визуального анализа для пользователя
+-- (id из lib/video-providers.ts: gemini-replicate, gemini-direct, openrouter, fal).
+-- NULL или пустой массив — порядок из VIDEO_PROVIDERS / по умолчанию.
+
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS video_providers TEXT[];
@@ -0,0 +1,217 @@
+-- Очередь задач обработки (lib/job-queue.ts)
+-- Заменяет цепочку HTTP-вызовов process-chunk-v5 → process-chunk-v5:
+-- воркер в каждом процессе сервера забирает задачи через claim_processing_job.
+--
+-- Жизненный цикл: queued → running → completed
+--                          running → queued (retry с backoff) → ... → dead
+-- Воркер держит аренду (locked_until) и продлевает её heartbeat'ом. Процесс
+-- упал или сервер перезапустили — аренда истекает, задача возвращается в очередь.
+
+CREATE TABLE IF NOT EXISTS public.processing_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  job_type TEXT NOT NULL,
+  chunk_index INTEGER,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 4,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_by TEXT,
+  locked_until TIMESTAMPTZ,
+  heartbeat_at TIMESTAMPTZ,
+  last_error TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Одна активная задача на чанк: повторный enqueue того же чанка — no-op
+CREATE UNIQUE INDEX IF NOT EXISTS idx_processing_jobs_active_chunk
+  ON public.processing_jobs(video_id, job_type, chunk_index)
+  WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_queue
+  ON public.processing_jobs(run_at, created_at) WHERE status = 'queued';
+
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_video
+  ON public.processing_jobs(video_id);
+
+ALTER TABLE public.processing_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Очередь читает и пишет только сервер (service role); пользователю — статус своих видео
+CREATE POLICY "Users can view jobs of own videos"
+  ON public.processing_jobs FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.videos
+      WHERE videos.id = processing_jobs.video_id
+      AND videos.user_id = auth.uid()
+    )
+  );
+
+-- ═══════════════════════════════════════════════════════════════════════════
+-- ENQUEUE
+-- ═══════════════════════════════════════════════════════════════════════════
+
+CREATE OR REPLACE FUNCTION enqueue_processing_job(
+  p_video_id UUID,
+  p_job_type TEXT,
+  p_chunk_index INTEGER,
+  p_payload JSONB,
+  p_max_attempts INTEGER
+)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO public.processing_jobs (video_id, job_type, chunk_index, payload, max_attempts)
+  VALUES (p_video_id, p_job_type, p_chunk_index, p_payload, p_max_attempts)
+  ON CONFLICT (video_id, job_type, chunk_index) WHERE status IN ('queued', 'running')
+  DO NOTHING
+  RETURNING id INTO v_id;
+
+  -- NULL — задача для этого чанка уже в очереди или выполняется
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ═══════════════════════════════════════════════════════════════════════════
+-- CLAIM
+-- ═══════════════════════════════════════════════════════════════════════════
+
+CREATE OR REPLACE FUNCTION claim_processing_job(
+  p_worker_id TEXT,
+  p_lease_seconds INTEGER,
+  p_max_running INTEGER
+)
+RETURNS SETOF public.processing_jobs AS $$
+DECLARE
+  v_running INTEGER;
+  v_job_id UUID;
+BEGIN
+  -- Подсчёт running и захват — под одной блокировкой, иначе два воркера
+  -- одновременно увидят свободный слот и превысят общий лимит
+  PERFORM pg_advisory_xact_lock(hashtext('claim_processing_job'));
+
+  -- Аренда истекла — воркер умер (рестарт, OOM); попытка засчитана
+  UPDATE public.processing_jobs
+  SET status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'queued' END,
+      run_at = NOW(),
+      locked_by = NULL,
+      locked_until = NULL,
+      last_error = 'Lease expired (worker lost)',
+      updated_at = NOW()
+  WHERE status = 'running' AND locked_until < NOW();
+
+  SELECT COUNT(*) INTO v_running
+  FROM public.processing_jobs
+  WHERE status = 'running';
+
+  IF v_running >= p_max_running THEN
+    RETURN;
+  END IF;
+
+  SELECT id INTO v_job_id
+  FROM public.processing_jobs
+  WHERE status = 'queued' AND run_at <= NOW()
+  ORDER BY run_at, created_at, chunk_index
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF v_job_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.processing_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_by = p_worker_id,
+      locked_until = NOW() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = NOW(),
+      started_at = NOW(),
+      updated_at = NOW()
+  WHERE id = v_job_id
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ═══════════════════════════════════════════════════════════════════════════
+-- HEARTBEAT / COMPLETE / FAIL
+-- Все три проверяют, что аренда всё ещё наша: если её забрал другой воркер,
+-- результат устаревшей попытки не должен перезаписать новую.
+-- ═══════════════════════════════════════════════════════════════════════════
+
+CREATE OR REPLACE FUNCTION heartbeat_processing_job(
+  p_job_id UUID,
+  p_worker_id TEXT,
+  p_lease_seconds INTEGER
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE public.processing_jobs
+  SET locked_until = NOW() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_job_id AND status = 'running' AND locked_by = p_worker_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION complete_processing_job(
+  p_job_id UUID,
+  p_worker_id TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE public.processing_jobs
+  SET status = 'completed',
+      locked_by = NULL,
+      locked_until = NULL,
+      last_error = NULL,
+      completed_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_job_id AND status = 'running' AND locked_by = p_worker_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Возвращает новый статус: 'queued' (повтор через p_retry_delay_seconds) или 'dead';
+-- NULL — аренда уже не наша
+CREATE OR REPLACE FUNCTION fail_processing_job(
+  p_job_id UUID,
+  p_worker_id TEXT,
+  p_error TEXT,
+  p_retry_delay_seconds INTEGER
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  UPDATE public.processing_jobs
+  SET status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'queued' END,
+      run_at = NOW() + make_interval(secs => p_retry_delay_seconds),
+      locked_by = NULL,
+      locked_until = NULL,
+      last_error = p_error,
+      updated_at = NOW()
+  WHERE id = p_job_id AND status = 'running' AND locked_by = p_worker_id
+  RETURNING status INTO v_status;
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION enqueue_processing_job TO service_role;
+GRANT EXECUTE ON FUNCTION claim_processing_job TO service_role;
+GRANT EXECUTE ON FUNCTION heartbeat_processing_job TO service_role;
+GRANT EXECUTE ON FUNCTION complete_processing_job TO service_role;
+GRANT EXECUTE ON FUNCTION fail_processing_job TO service_role;
+
+COMMENT ON TABLE public.processing_jobs IS
+'Durable processing queue: leases with heartbeats, retry with exponential backoff, dead-letter after max_attempts';
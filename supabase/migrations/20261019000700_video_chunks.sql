@@ -0,0 +1,71 @@
+-- Чанки и артефакты обработки отдельно от videos.chunk_progress_json
+--
+-- Раньше chunk_progress_json хранил и статусы чанков, и весь массив слов
+-- диаризации, кластеры лиц, voice embeddings — и переписывался целиком при
+-- каждой смене статуса (гонки между параллельными чанками даже с
+-- update_chunk_status). Теперь (V5):
+-- - video_chunks — строка на чанк, обновляется точечно;
+-- - video_artifacts — крупные данные пайплайна, пишутся один раз в init;
+-- - в chunk_progress_json остаются лёгкие метаданные (sheetId, FPS,
+--   speakerCharacterMap, mergedScenes, scriptData, videoProviders).
+-- Видео, обработанные V3/V4, продолжают жить в chunk_progress_json.
+
+CREATE TABLE IF NOT EXISTS public.video_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'ready', 'in_progress', 'completed', 'failed')),
+  start_timecode TEXT NOT NULL,
+  end_timecode TEXT NOT NULL,
+  storage_url TEXT, -- NULL, пока чанк не нарезан и не загружен
+  attempts INTEGER NOT NULL DEFAULT 0,
+  provider TEXT, -- провайдер визуального анализа (lib/video-providers.ts), 'error' — ни один не ответил
+  plans_created INTEGER,
+  error TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  duration_ms INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (video_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_chunks_video_status ON public.video_chunks(video_id, status);
+
+ALTER TABLE public.video_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own video chunks"
+  ON public.video_chunks FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.videos
+      WHERE videos.id = video_chunks.video_id
+      AND videos.user_id = auth.uid()
+    )
+  );
+
+CREATE TABLE IF NOT EXISTS public.video_artifacts (
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL, -- 'diarization-words', 'face-clusters', 'voice-embeddings', 'detected-scenes'
+  data JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (video_id, kind)
+);
+
+ALTER TABLE public.video_artifacts ENABLE ROW LEVEL SECURITY;
+
+-- Правка диалогов (lib/plan-operations.ts) читает слова диаризации клиентом пользователя
+CREATE POLICY "Users can view own video artifacts"
+  ON public.video_artifacts FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.videos
+      WHERE videos.id = video_artifacts.video_id
+      AND videos.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE public.video_chunks IS 'Per-chunk processing state (V5 pipeline), replaces chunk_progress_json.chunks';
+COMMENT ON TABLE public.video_artifacts IS 'Large per-video pipeline artifacts written once by init-processing-v5';
@@ -0,0 +1,40 @@
+-- Отмена, пауза и продолжение обработки видео (lib/processing-control.ts)
+--
+-- videos.status: + 'paused' (чанки в работе дорабатывают), 'cancelled'
+-- (чанки в работе прерываются). Оба продолжаются через /api/videos/[id]/resume.
+-- video_chunks.status: + 'paused' — чанк ждёт продолжения.
+-- processing_jobs.status: + 'cancelled' — задача снята из очереди паузой/отменой.
+
+ALTER TABLE public.videos DROP CONSTRAINT IF EXISTS videos_status_check;
+ALTER TABLE public.videos ADD CONSTRAINT videos_status_check
+  CHECK (status IN ('uploading', 'processing', 'paused', 'cancelled', 'completed', 'error'));
+
+ALTER TABLE public.video_chunks DROP CONSTRAINT IF EXISTS video_chunks_status_check;
+ALTER TABLE public.video_chunks ADD CONSTRAINT video_chunks_status_check
+  CHECK (status IN ('pending', 'ready', 'in_progress', 'paused', 'completed', 'failed'));
+
+ALTER TABLE public.processing_jobs DROP CONSTRAINT IF EXISTS processing_jobs_status_check;
+ALTER TABLE public.processing_jobs ADD CONSTRAINT processing_jobs_status_check
+  CHECK (status IN ('queued', 'running', 'completed', 'dead', 'cancelled'));
+
+-- Снять из очереди все ожидающие задачи видео (включая ожидающие повтора).
+-- Выполняющиеся не трогаем: их аренда принадлежит воркеру, он сам увидит
+-- статус видео и остановится (см. processChunkV5).
+CREATE OR REPLACE FUNCTION cancel_processing_jobs(p_video_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.processing_jobs
+  SET status = 'cancelled',
+      last_error = 'Cancelled: processing stopped by user',
+      completed_at = NOW(),
+      updated_at = NOW()
+  WHERE video_id = p_video_id AND status = 'queued';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION cancel_processing_jobs TO service_role;
@@ -0,0 +1,12 @@
+-- Текущий шаг пайплайна для живого прогресса (lib/processing-progress.ts)
+--
+-- init-processing-v5 отмечает шаги: download → diarization → alignment →
+-- voice-embeddings → face-clustering → scene-detection → splitting → chunks.
+-- Какие чанки сейчас в работе — в video_chunks.
+
+ALTER TABLE public.videos ADD COLUMN IF NOT EXISTS processing_step TEXT;
+ALTER TABLE public.videos ADD COLUMN IF NOT EXISTS processing_step_at TIMESTAMPTZ;
+
+-- Поток прогресса забирает новые планы по updated_at (триггер set_updated_at_entries)
+CREATE INDEX IF NOT EXISTS idx_montage_entries_sheet_updated
+  ON public.montage_entries(sheet_id, updated_at);
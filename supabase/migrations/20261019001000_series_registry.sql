@@ -0,0 +1,93 @@
+-- Сериалы и сквозной реестр персонажей (lib/series-registry.ts)
+-- Серии одного сериала не учат персонажей заново: канонические имена, варианты
+-- имён, центроиды лиц и голосовые отпечатки копятся в реестре сериала и
+-- подсказывают маппинг speaker → персонаж каждой новой серии.
+--
+-- Отпечатки хранятся по сериям (series_character_samples): эталон персонажа —
+-- среднее по сериям, а повторное подтверждение маппинга серии заменяет её
+-- вклад, а не добавляет его второй раз.
+
+CREATE TABLE IF NOT EXISTS public.series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_series_user ON public.series(user_id, created_at DESC);
+
+ALTER TABLE public.videos ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.series(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_videos_series ON public.videos(series_id) WHERE series_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.series_characters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  series_id UUID NOT NULL REFERENCES public.series(id) ON DELETE CASCADE,
+  name TEXT NOT NULL, -- каноническое имя, как в репликах листа ("ГАЛИНА")
+  variants TEXT[] NOT NULL DEFAULT '{}', -- формы обращения ("Галя", "Галюня")
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (series_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS public.series_character_samples (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  character_id UUID NOT NULL REFERENCES public.series_characters(id) ON DELETE CASCADE,
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  speaker_id TEXT, -- speaker диаризации серии, подтверждённый за персонажем
+  voice_embedding JSONB, -- number[] из voice-embeddings
+  face_centroid JSONB, -- number[] — центроид FaceCluster
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (character_id, video_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_series_character_samples_video ON public.series_character_samples(video_id);
+
+ALTER TABLE public.series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.series_characters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.series_character_samples ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own series"
+  ON public.series FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage characters of own series"
+  ON public.series_characters FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.series
+      WHERE series.id = series_characters.series_id
+      AND series.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.series
+      WHERE series.id = series_characters.series_id
+      AND series.user_id = auth.uid()
+    )
+  );
+
+-- Отпечатки пишет сервер (service role) при подтверждении маппинга; пользователю — чтение
+CREATE POLICY "Users can view samples of own series"
+  ON public.series_character_samples FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.series_characters
+      JOIN public.series ON series.id = series_characters.series_id
+      WHERE series_characters.id = series_character_samples.character_id
+      AND series.user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER set_updated_at_series
+  BEFORE UPDATE ON public.series
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER set_updated_at_series_characters
+  BEFORE UPDATE ON public.series_characters
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+COMMENT ON TABLE public.series IS 'TV series grouping episodes that share a character registry';
+COMMENT ON TABLE public.series_character_samples IS 'Per-episode voice and face fingerprints confirmed for a series character';
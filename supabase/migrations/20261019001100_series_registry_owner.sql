@@ -0,0 +1,24 @@
+-- Серия может входить только в сериал своего владельца
+-- Политика "Users can update own videos" проверяет лишь videos.user_id, а
+-- series_id пишется и напрямую через PostgREST: без проверки владелец видео
+-- мог бы привязать его к чужому сериалу, и обработка (service role) засеяла бы
+-- серию чужими персонажами и дописала бы в чужой реестр (lib/series-registry.ts).
+
+CREATE OR REPLACE FUNCTION public.check_video_series_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.series_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.series
+    WHERE series.id = NEW.series_id
+    AND series.user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Series % does not belong to the video owner', NEW.series_id
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_video_series_owner
+  BEFORE INSERT OR UPDATE OF series_id, user_id ON public.videos
+  FOR EACH ROW EXECUTE FUNCTION public.check_video_series_owner();
@@ -0,0 +1,17 @@
+-- Серии сериала: номер сезона и серии, общие метаданные фильма
+-- Метаданные сериала (производитель, режиссёр, правообладатель, ...) — значения
+-- по умолчанию: серия наследует их при экспорте, если своё поле пустое
+-- (lib/series-episodes.ts, inheritFilmMetadata).
+
+ALTER TABLE public.series ADD COLUMN IF NOT EXISTS default_film_metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.videos ADD COLUMN IF NOT EXISTS season_number INTEGER CHECK (season_number > 0);
+ALTER TABLE public.videos ADD COLUMN IF NOT EXISTS episode_number INTEGER CHECK (episode_number > 0);
+
+-- Одна серия на номер в сезоне; без сериала номера не проверяем
+CREATE UNIQUE INDEX IF NOT EXISTS idx_videos_series_episode
+  ON public.videos(series_id, season_number, episode_number)
+  WHERE series_id IS NOT NULL AND season_number IS NOT NULL AND episode_number IS NOT NULL;
+
+COMMENT ON COLUMN public.series.default_film_metadata IS 'FilmMetadata defaults inherited by every episode with an empty field';
+COMMENT ON COLUMN public.videos.episode_number IS 'Episode number within season_number of series_id';
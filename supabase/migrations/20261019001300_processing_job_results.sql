@@ -0,0 +1,63 @@
+-- Результат задачи и ошибки, которые повтор не исправит (lib/job-queue.ts)
+--
+-- result — что вернул обработчик (для 'reprocess-range' — сколько планов
+-- заменено), его показывает статус задачи. p_retryable = false сразу
+-- переводит задачу в 'dead': пустой диапазон или видео до V5 на повторе
+-- упадут так же, а каждая попытка заново платит за анализ провайдеров.
+
+ALTER TABLE public.processing_jobs ADD COLUMN IF NOT EXISTS result JSONB;
+
+DROP FUNCTION IF EXISTS complete_processing_job(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION complete_processing_job(
+  p_job_id UUID,
+  p_worker_id TEXT,
+  p_result JSONB DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE public.processing_jobs
+  SET status = 'completed',
+      locked_by = NULL,
+      locked_until = NULL,
+      last_error = NULL,
+      result = p_result,
+      completed_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_job_id AND status = 'running' AND locked_by = p_worker_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP FUNCTION IF EXISTS fail_processing_job(UUID, TEXT, TEXT, INTEGER);
+
+-- Возвращает новый статус: 'queued' (повтор через p_retry_delay_seconds) или 'dead';
+-- NULL — аренда уже не наша
+CREATE OR REPLACE FUNCTION fail_processing_job(
+  p_job_id UUID,
+  p_worker_id TEXT,
+  p_error TEXT,
+  p_retry_delay_seconds INTEGER,
+  p_retryable BOOLEAN DEFAULT TRUE
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  UPDATE public.processing_jobs
+  SET status = CASE WHEN NOT p_retryable OR attempts >= max_attempts THEN 'dead' ELSE 'queued' END,
+      run_at = NOW() + make_interval(secs => p_retry_delay_seconds),
+      locked_by = NULL,
+      locked_until = NULL,
+      last_error = p_error,
+      updated_at = NOW()
+  WHERE id = p_job_id AND status = 'running' AND locked_by = p_worker_id
+  RETURNING status INTO v_status;
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION complete_processing_job TO service_role;
+GRANT EXECUTE ON FUNCTION fail_processing_job TO service_role;
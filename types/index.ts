@@ -1,12 +1,25 @@
 // Database Types
 
-export type VideoStatus = 'uploading' | 'processing' | 'completed' | 'error';
+export type VideoStatus = 'uploading' | 'processing' | 'paused' | 'cancelled' | 'completed' | 'error';
+
+/** Шаг пайплайна V5 (videos.processing_step, lib/processing-progress.ts) */
+export type ProcessingStep =
+  | 'download'
+  | 'diarization'
+  | 'alignment'
+  | 'voice-embeddings'
+  | 'face-clustering'
+  | 'scene-detection'
+  | 'splitting'
+  | 'mapping-review' // ждёт проверки маппинга спикеров пользователем
+  | 'chunks';
 
 export interface Profile {
   id: string;
   email: string;
   full_name?: string;
   avatar_url?: string;
+  video_providers?: string[] | null; // порядок провайдеров анализа видео (lib/video-providers.ts)
   created_at: string;
   updated_at: string;
 }
@@ -23,6 +36,28 @@ export interface ChunkProgress {
   }>;
 }
 
+export type VideoChunkStatus = 'pending' | 'ready' | 'in_progress' | 'paused' | 'completed' | 'failed';
+
+/** Чанк V5 пайплайна (таблица video_chunks) */
+export interface VideoChunk {
+  id: string;
+  video_id: string;
+  chunk_index: number;
+  status: VideoChunkStatus;
+  start_timecode: string;
+  end_timecode: string;
+  storage_url: string | null;
+  attempts: number;
+  provider: string | null; // провайдер визуального анализа (lib/video-providers.ts)
+  plans_created: number | null;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  duration_ms: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface FilmMetadata {
   producer_company?: string; // Фирма-производитель
   release_year?: string; // Год выпуска
@@ -52,17 +87,45 @@ export interface Video {
   error_message?: string;
   replicate_prediction_id?: string;
   chunk_progress?: ChunkProgress; // метаданные прогресса по чанкам
+  chunk_progress_json?: { videoFPS?: number; [key: string]: unknown }; // состояние V5 пайплайна (FPS, диаризация)
   film_metadata?: FilmMetadata; // метаданные фильма
+  processing_step?: ProcessingStep | null; // текущий шаг пайплайна V5
+  processing_step_at?: string | null;
+  series_id?: string | null; // сериал, к которому относится серия
+  season_number?: number | null;
+  episode_number?: number | null;
   created_at: string;
   updated_at: string;
   completed_at?: string;
 }
 
+/** Сериал: серии делят реестр персонажей (lib/series-registry.ts) */
+export interface Series {
+  id: string;
+  user_id: string;
+  title: string;
+  default_film_metadata: FilmMetadata; // наследуется сериями с пустыми полями
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SeriesCharacter {
+  id: string;
+  series_id: string;
+  name: string;       // каноническое имя ("ГАЛИНА")
+  variants: string[]; // формы обращения ("Галя", "Галюня")
+  created_at: string;
+  updated_at: string;
+}
+
 export interface MontageSheet {
   id: string;
   video_id: string;
   user_id: string;
   title?: string;
+  is_primary: boolean; // основной лист, в который пишет пайплайн
+  version_name?: string | null; // название версии ("AI draft v5", "Editor pass 1")
+  based_on_sheet_id?: string | null; // лист, с которого сделана копия
   created_at: string;
   updated_at: string;
 }
@@ -76,11 +139,57 @@ export interface MontageEntry {
   plan_type?: string;
   description?: string;
   dialogues?: string;
+  thumbnail_path?: string | null;  // Кадр из середины плана в Storage (bucket videos)
   order_index: number;
   created_at: string;
   updated_at: string;
 }
 
+/** Снимок плана в истории изменений */
+export type MontageEntrySnapshot = Pick<
+  MontageEntry,
+  'id' | 'sheet_id' | 'plan_number' | 'order_index' | 'start_timecode' | 'end_timecode' | 'plan_type' | 'description' | 'dialogues'
+>;
+
+export type MontageRevisionAction = 'create' | 'update' | 'delete';
+
+export interface MontageEntryRevision {
+  id: number;
+  sheet_id: string;
+  entry_id: string;
+  batch_id: string;
+  action: MontageRevisionAction;
+  source: string; // 'edit', 'split', 'merge', 'fix-montage-issues', 'restore', ...
+  user_id: string | null;
+  before: MontageEntrySnapshot | null;
+  after: MontageEntrySnapshot | null;
+  created_at: string;
+}
+
+export type ProcessingJobStatus = 'queued' | 'running' | 'completed' | 'dead' | 'cancelled';
+
+/** Задача очереди обработки (lib/job-queue.ts) */
+export interface ProcessingJob {
+  id: string;
+  video_id: string;
+  job_type: string; // 'process-chunk' | 'reprocess-range'
+  chunk_index: number | null;
+  payload: Record<string, unknown>;
+  status: ProcessingJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string; // не раньше — для backoff между попытками
+  locked_by: string | null; // id воркера, держащего аренду
+  locked_until: string | null;
+  heartbeat_at: string | null;
+  last_error: string | null;
+  result: Record<string, unknown> | null; // что вернул обработчик задачи
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // Extended types with relations
 export interface VideoWithSheet extends Video {
   montage_sheet?: MontageSheet;